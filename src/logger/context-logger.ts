@@ -0,0 +1,85 @@
+import type { Writable } from 'type-fest';
+
+import { emptyArray } from '../utils/common/empty.ts';
+import type { LogContext, Logger } from './definition.ts';
+import { createLogger } from './emitter/emitter-logger.ts';
+import { toContextArg } from './implementation/context-utils.ts';
+import { OFF_LOGGER } from './off-logger.ts';
+import { handlePrefixWrapping, inspectPrefixedLogger } from './prefixed-logger.ts';
+
+/**
+ * Returns a logger that binds structured context fields (e.g., a request id or a tenant) to every emitted entry.
+ *
+ * Unlike `logger.args(...)`, which applies to a single entry, and `withPrefix`, which only changes the message text,
+ * the context fields are attached to all entries emitted by the returned logger and are exposed by the `context`
+ * property of the {@link LogEntry}. The JSON formatters (`ndjsonFormatter` and `jsonPrettyFormatter`) output the fields
+ * as top-level keys, while the plain formatters with arguments render them in a `[context]` line.
+ *
+ * Calling `withContext` on a logger returned by `withContext` merges the fields, with the new values taking precedence,
+ * the same way `withPrefix` chains prefixes. Prefixed loggers stay prefixed.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createConsoleLogLogger, withContext } from 'emitnlog/logger';
+ *
+ * const logger = createConsoleLogLogger('info', 'ndjson');
+ *
+ * const requestLogger = withContext(logger, { requestId: 'abc', tenant: 'acme' });
+ * requestLogger.i`Request received`;
+ * // {"level":"info",...,"message":"Request received","requestId":"abc","tenant":"acme"}
+ *
+ * const userLogger = withContext(requestLogger, { userId: 42 });
+ * userLogger.i`User loaded`;
+ * // {"level":"info",...,"message":"User loaded","requestId":"abc","tenant":"acme","userId":42}
+ * ```
+ *
+ * @param logger The logger to decorate.
+ * @param context The fields to bind to every entry.
+ * @returns A logger that emits all entries with the specified context.
+ */
+export const withContext = (logger: Logger, context: LogContext): Logger => {
+  if (logger === OFF_LOGGER) {
+    return OFF_LOGGER;
+  }
+
+  return handlePrefixWrapping(logger, (original: Logger) => {
+    let mergedContext = context;
+    if (isInternalContextLogger(original)) {
+      mergedContext = { ...original[contextSymbol], ...context };
+      original = original[rootLoggerSymbol];
+    }
+
+    const delegate = original;
+    const contextArg = toContextArg(mergedContext);
+    const contextLogger = createLogger(() => delegate.level, {
+      sink: (level, message, args) => {
+        delegate.log(level, message, ...(args ?? emptyArray()), contextArg);
+      },
+      flush: () => delegate.flush?.(),
+      close: () => delegate.close?.(),
+    }) as Writable<InternalContextLogger>;
+
+    contextLogger[contextSymbol] = contextArg;
+    contextLogger[rootLoggerSymbol] = delegate;
+    return contextLogger;
+  });
+};
+
+/**
+ * Returns the context fields bound to a logger by {@link withContext}.
+ *
+ * @param logger A logger
+ * @returns The context fields or undefined if the logger has no context.
+ */
+export const inspectLogContext = (logger: Logger): LogContext | undefined => {
+  const rootLogger = inspectPrefixedLogger(logger)?.rootLogger ?? logger;
+  return isInternalContextLogger(rootLogger) ? rootLogger[contextSymbol] : undefined;
+};
+
+const contextSymbol: unique symbol = Symbol.for('@emitnlog/logger/contextFields');
+const rootLoggerSymbol: unique symbol = Symbol.for('@emitnlog/logger/contextRootLogger');
+
+type InternalContextLogger = Logger & { readonly [contextSymbol]: LogContext; readonly [rootLoggerSymbol]: Logger };
+
+const isInternalContextLogger = (logger: Logger): logger is InternalContextLogger => contextSymbol in logger;
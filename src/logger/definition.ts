@@ -30,6 +30,11 @@ export type LogLevel = 'emergency' | 'alert' | 'critical' | 'error' | 'warning'
  */
 export type LogMessage = string | number | boolean | (() => string | number | boolean);
 
+/**
+ * Structured key/value data bound to log entries (e.g., a request id or a tenant), see `withContext`.
+ */
+export type LogContext = Readonly<Record<string, unknown>>;
+
 /**
  * Type representing the template strings of a log entry. Can be a TemplateStringsArray or a function that returns a
  * TemplateStringsArray.
@@ -1,7 +1,7 @@
+import type { Clock } from '../../utils/async/clock.ts';
 import { debounce } from '../../utils/async/debounce.ts';
+import type { LogLevel } from '../definition.ts';
 import type { AsyncFinalizer } from '../implementation/finalizer.ts';
-import type { LogEntry } from '../log-entry.ts';
-import { asLogEntry } from '../log-entry.ts';
 import type { LogSink } from './sink.ts';
 import { asLogSink } from './sink.ts';
 
@@ -30,6 +30,13 @@ export type BatchSinkOptions = {
    * @default false
    */
   readonly skipFlushOnExit?: boolean;
+
+  /**
+   * The clock used to schedule the time-based flushes, which can be a manual clock (see `createManualClock`) in tests.
+   *
+   * @default systemClock
+   */
+  readonly clock?: Clock;
 };
 
 /**
@@ -75,7 +82,8 @@ export const batchSink = (logSink: LogSink, options?: BatchSinkOptions): AsyncFi
     });
   }
 
-  let buffer: LogEntry[] = [];
+  // The arguments are kept as emitted so that the context arguments (see `withContext`) reach the wrapped sink
+  let buffer: { readonly level: LogLevel; readonly message: string; readonly args?: readonly unknown[] }[] = [];
   let isClosing = false;
 
   const useTimeBasedFlushing = flushDelayMs < Number.MAX_SAFE_INTEGER;
@@ -89,7 +97,7 @@ export const batchSink = (logSink: LogSink, options?: BatchSinkOptions): AsyncFi
           }
           buffer = [];
         } else {
-          buffer.push(asLogEntry(level, message, args));
+          buffer.push({ level, message, args });
         }
       },
       {
@@ -129,7 +137,7 @@ export const batchSink = (logSink: LogSink, options?: BatchSinkOptions): AsyncFi
   };
 
   // Use debounce for time-based flushing with accumulator
-  const debouncedFlush = debounce(() => flushBuffer(), { delay: flushDelayMs });
+  const debouncedFlush = debounce(() => flushBuffer(), { delay: flushDelayMs, clock: options?.clock });
 
   let exitHandler: (() => void) | undefined;
 
@@ -153,7 +161,7 @@ export const batchSink = (logSink: LogSink, options?: BatchSinkOptions): AsyncFi
         return;
       }
 
-      buffer.push(asLogEntry(level, message, args));
+      buffer.push({ level, message, args });
 
       // Flush immediately if buffer is full
       if (buffer.length >= maxBufferSize) {
@@ -1,7 +1,12 @@
+import { emptyArray } from '../../utils/common/empty.ts';
+import { exhaustiveCheck } from '../../utils/common/exhaustive-check.ts';
 import { terminalFormatter } from '../../utils/common/terminal-formatter.ts';
 import { stringify } from '../../utils/converter/stringify.ts';
 import type { LogLevel } from '../definition.ts';
+import { splitContextArgs } from '../implementation/context-utils.ts';
+import { toJsonEntry } from '../implementation/json-entry.ts';
 import { decorateLogText } from '../implementation/level-utils.ts';
+import type { LogEntry } from '../log-entry.ts';
 import { asLogEntry } from '../log-entry.ts';
 
 /**
@@ -9,8 +14,11 @@ import { asLogEntry } from '../log-entry.ts';
  *
  * Log formatters convert the structured log data (level, message, arguments) into a final string representation that
  * will be written to the output destination.
+ *
+ * The timestamp, in milliseconds since epoch, is provided when the entry was emitted in the past (e.g., when the
+ * entries of a memory sink are dumped). Formatters that output the time of the entry use the current time otherwise.
  */
-export type LogFormatter = (level: LogLevel, message: string, args?: readonly unknown[]) => string;
+export type LogFormatter = (level: LogLevel, message: string, args?: readonly unknown[], timestamp?: number) => string;
 
 /**
  * Basic formatter that outputs logs as "level - message".
@@ -39,12 +47,12 @@ export const basicFormatter: LogFormatter = (level, message) => (message ? `[${l
  * "2024-01-15T10:30:46.456Z" [error    ] Connection failed
  * ```
  */
-export const plainFormatter: LogFormatter = (level, message) => {
-  const timestamp = stringify(new Date());
+export const plainFormatter: LogFormatter = (level, message, _args, timestamp) => {
+  const time = stringify(new Date(timestamp ?? Date.now()));
 
   const paddedLevel = level.padEnd(9, ' ');
   const levelText = `[${paddedLevel}]`;
-  const line = message ? `${timestamp} ${levelText} ${message}` : `${timestamp} ${levelText}`;
+  const line = message ? `${time} ${levelText} ${message}` : `${time} ${levelText}`;
 
   return line;
 };
@@ -62,12 +70,12 @@ export const plainFormatter: LogFormatter = (level, message) => {
  * \u001b[2m"2024-01-15T10:30:46.456Z"\u001b[22m \u001b[31m[error    ]\u001b[39m Connection failed
  * ```
  */
-export const colorfulFormatter: LogFormatter = (level, message) => {
-  const timestamp = terminalFormatter.dim(stringify(new Date()));
+export const colorfulFormatter: LogFormatter = (level, message, _args, timestamp) => {
+  const time = terminalFormatter.dim(stringify(new Date(timestamp ?? Date.now())));
 
   const paddedLevel = level.padEnd(9, ' ');
   const levelText = decorateLogText(level, `[${paddedLevel}]`);
-  const line = message ? `${timestamp} ${levelText} ${message}` : `${timestamp} ${levelText}`;
+  const line = message ? `${time} ${levelText} ${message}` : `${time} ${levelText}`;
 
   return line;
 };
@@ -82,14 +90,19 @@ export const colorfulFormatter: LogFormatter = (level, message) => {
  * Important: as shown in the example, the each emitted entry is itself a line containing a valid JSON object - however
  * the text with all entries is not itself a valid JSON, lacking colons and a root delimiter.
  *
+ * The context fields of the entry (see `withContext`) are output as top-level keys, except for the ones that would
+ * replace the entry properties (`level`, `timestamp`, `iso`, `message`, `args`, and `context`).
+ *
  * @example Output format
  *
  * ```json
  * {"level":"info","timestamp":1705312245123,"message":"Application started"}
  * {"level":"error","timestamp":1705312246456,"message":"Connection failed","args":[{"host":"db.example.com"}]}
+ * {"level":"info","timestamp":1705312247789,"message":"Request received","requestId":"abc"}
  * ```
  */
-export const ndjsonFormatter: LogFormatter = (level, message, args) => jsonFormatter(level, message, args, false);
+export const ndjsonFormatter: LogFormatter = (level, message, args, timestamp) =>
+  jsonFormatter(level, message, args, timestamp, false);
 
 /**
  * JSON formatter that outputs pretty-printed, multi-line JSON objects.
@@ -100,6 +113,8 @@ export const ndjsonFormatter: LogFormatter = (level, message, args) => jsonForma
  * Important: as shown in the example, each emitted entry is itself a valid JSON object covering multiple lines -
  * however the text with all entries is not itself a valid JSON, lacking colons and a root delimiter.
  *
+ * Like {@link ndjsonFormatter}, the context fields of the entry are output as top-level keys.
+ *
  * @example Output format
  *
  * ```json
@@ -116,10 +131,17 @@ export const ndjsonFormatter: LogFormatter = (level, message, args) => jsonForma
  * }
  * ```
  */
-export const jsonPrettyFormatter: LogFormatter = (level, message, args) => jsonFormatter(level, message, args, true);
+export const jsonPrettyFormatter: LogFormatter = (level, message, args, timestamp) =>
+  jsonFormatter(level, message, args, timestamp, true);
 
-const jsonFormatter = (level: LogLevel, message: string, args: readonly unknown[] | undefined, pretty: boolean) => {
-  const entry = asLogEntry(level, message, args);
+const jsonFormatter = (
+  level: LogLevel,
+  message: string,
+  args: readonly unknown[] | undefined,
+  timestamp: number | undefined,
+  pretty: boolean,
+) => {
+  const entry = toJsonEntry(asLogEntry(level, message, args, timestamp));
   try {
     return pretty ? JSON.stringify(entry, undefined, 2) : JSON.stringify(entry);
   } catch {
@@ -127,12 +149,296 @@ const jsonFormatter = (level: LogLevel, message: string, args: readonly unknown[
   }
 };
 
+/**
+ * JSON formatter that outputs each entry as a single-line
+ * [OTLP/JSON](https://opentelemetry.io/docs/specs/otlp/#json-protobuf-encoding) log record, allowing OpenTelemetry
+ * collectors to ingest the output directly.
+ *
+ * The record has the following fields:
+ *
+ * - `timeUnixNano` and `observedTimeUnixNano`: the entry timestamp in nanoseconds, as a string
+ * - `severityNumber`: the OpenTelemetry severity mapped from the level (`trace`: 1, `debug`: 5, `info`: 9, `notice`: 10,
+ *   `warning`: 13, `error`: 17, `critical`: 21, `alert`: 22, and `emergency`: 23)
+ * - `severityText`: the level in upper case
+ * - `body`: the message
+ * - `attributes`: the context fields of the entry (see `withContext`), the `exception.type`, `exception.message`, and
+ *   `exception.stacktrace` of the first error argument, and the other arguments as the `args` array
+ *
+ * @example Output format
+ *
+ * ```json
+ * {"timeUnixNano":"1705312245123000000","observedTimeUnixNano":"1705312245123000000","severityNumber":9,"severityText":"INFO","body":{"stringValue":"Application started"}}
+ * {"timeUnixNano":"1705312246456000000","observedTimeUnixNano":"1705312246456000000","severityNumber":17,"severityText":"ERROR","body":{"stringValue":"Connection failed"},"attributes":[{"key":"args","value":{"arrayValue":{"values":[{"kvlistValue":{"values":[{"key":"host","value":{"stringValue":"db.example.com"}}]}}]}}}]}
+ * ```
+ */
+export const otelFormatter: LogFormatter = (level, message, args, timestamp) => {
+  const entry = asLogEntry(level, message, args, timestamp);
+  const time = `${entry.timestamp}000000`;
+  const record = {
+    timeUnixNano: time,
+    observedTimeUnixNano: time,
+    severityNumber: toOtelSeverityNumber(level),
+    severityText: level.toUpperCase(),
+    body: { stringValue: entry.message },
+  };
+
+  try {
+    const attributes = toOtelAttributes(entry);
+    return JSON.stringify(attributes.length ? { ...record, attributes } : record);
+  } catch {
+    // The arguments that cannot be converted (e.g., with throwing getters) are output as a single string attribute
+    return JSON.stringify({ ...record, attributes: [{ key: 'args', value: { stringValue: stringify(args) } }] });
+  }
+};
+
+const toOtelAttributes = (entry: LogEntry): OtelKeyValue[] => {
+  const attributes: OtelKeyValue[] = [];
+  if (entry.context) {
+    for (const [key, value] of Object.entries(entry.context)) {
+      attributes.push({ key, value: toOtelValue(value) });
+    }
+  }
+
+  const { error, args: otherArgs } = splitErrorArg(entry.args);
+  if (error) {
+    attributes.push(
+      { key: 'exception.type', value: { stringValue: error.name } },
+      { key: 'exception.message', value: { stringValue: error.message } },
+    );
+    if (error.stack) {
+      attributes.push({ key: 'exception.stacktrace', value: { stringValue: error.stack } });
+    }
+  }
+
+  if (otherArgs?.length) {
+    attributes.push({ key: 'args', value: toOtelValue(otherArgs) });
+  }
+
+  return attributes;
+};
+
+type OtelValue =
+  | { readonly stringValue: string }
+  | { readonly boolValue: boolean }
+  | { readonly intValue: string }
+  | { readonly doubleValue: number }
+  | { readonly arrayValue: { readonly values: readonly OtelValue[] } }
+  | { readonly kvlistValue: { readonly values: readonly OtelKeyValue[] } }
+  | Readonly<Record<string, never>>;
+
+type OtelKeyValue = { readonly key: string; readonly value: OtelValue };
+
+const OTEL_MAX_DEPTH = 10;
+
+const toOtelSeverityNumber = (level: LogLevel): number => {
+  switch (level) {
+    case 'trace':
+      return 1;
+
+    case 'debug':
+      return 5;
+
+    case 'info':
+      return 9;
+
+    case 'notice':
+      return 10;
+
+    case 'warning':
+      return 13;
+
+    case 'error':
+      return 17;
+
+    case 'critical':
+      return 21;
+
+    case 'alert':
+      return 22;
+
+    case 'emergency':
+      return 23;
+
+    default:
+      exhaustiveCheck(level);
+      return 0;
+  }
+};
+
+const toOtelValue = (value: unknown, depth = 0): OtelValue => {
+  switch (typeof value) {
+    case 'string':
+      return { stringValue: value };
+
+    case 'boolean':
+      return { boolValue: value };
+
+    case 'number':
+      return Number.isSafeInteger(value)
+        ? { intValue: String(value) }
+        : Number.isFinite(value)
+          ? { doubleValue: value }
+          : { stringValue: String(value) };
+
+    case 'bigint':
+      return { intValue: String(value) };
+
+    case 'undefined':
+      return {};
+
+    case 'object':
+      if (value === null) {
+        return {};
+      }
+
+      if (depth < OTEL_MAX_DEPTH) {
+        if (Array.isArray(value) || value instanceof Set) {
+          return {
+            arrayValue: { values: Array.from(value as Iterable<unknown>, (item) => toOtelValue(item, depth + 1)) },
+          };
+        }
+
+        if (value instanceof Map) {
+          return {
+            kvlistValue: {
+              values: Array.from(value as Map<unknown, unknown>, ([key, item]) => ({
+                key: typeof key === 'string' ? key : stringify(key),
+                value: toOtelValue(item, depth + 1),
+              })),
+            },
+          };
+        }
+
+        if (!(value instanceof Date) && !(value instanceof Error)) {
+          return {
+            kvlistValue: {
+              values: Object.entries(value).map(([key, item]) => ({ key, value: toOtelValue(item, depth + 1) })),
+            },
+          };
+        }
+      }
+      break;
+
+    default:
+      break;
+  }
+
+  return { stringValue: stringify(value) };
+};
+
+/**
+ * Formatter that outputs each entry as a single [logfmt](https://brandur.org/logfmt) line of `key=value` pairs.
+ *
+ * The line starts with the `time`, `level`, and `msg` keys, followed by the context fields of the entry (see
+ * `withContext`) and by the arguments as `arg0`, `arg1`, and so on. Objects are serialized as JSON and values
+ * containing spaces, quotes, `=`, or control characters are quoted.
+ *
+ * @example Output format
+ *
+ * ```
+ * time=2024-01-15T10:30:45.123Z level=info msg="Application started"
+ * time=2024-01-15T10:30:46.456Z level=error msg="Connection failed" requestId=abc arg0="{\"host\":\"db.example.com\"}"
+ * ```
+ */
+export const logfmtFormatter: LogFormatter = (level, message, args, timestamp) => {
+  const entry = asLogEntry(level, message, args, timestamp);
+  const pairs = [`time=${entry.iso}`, `level=${level}`, `msg=${toLogfmtValue(entry.message)}`];
+
+  if (entry.context) {
+    for (const [key, value] of Object.entries(entry.context)) {
+      const logfmtKey = toLogfmtKey(key);
+      if (logfmtKey !== 'time' && logfmtKey !== 'level' && logfmtKey !== 'msg') {
+        pairs.push(`${logfmtKey}=${toLogfmtValue(value)}`);
+      }
+    }
+  }
+
+  entry.args?.forEach((arg, index) => {
+    pairs.push(`arg${index}=${toLogfmtValue(arg)}`);
+  });
+
+  return pairs.join(' ');
+};
+
+const toLogfmtKey = (key: string): string => key.replace(/[\s="\\]|[\u0000-\u001f\u007f]/g, '_') || '_';
+
+const toLogfmtValue = (value: unknown): string => {
+  const text = stringify(value);
+  if (text && !/[\s="\\]|[\u0000-\u001f\u007f]/.test(text)) {
+    return text;
+  }
+
+  return JSON.stringify(text);
+};
+
+/**
+ * JSON formatter that outputs each entry as a single-line object following the [Elastic Common
+ * Schema](https://www.elastic.co/guide/en/ecs/current/index.html) (ECS), ready to be ingested by Elasticsearch.
+ *
+ * The object starts with the `@timestamp`, `log.level`, `message`, and `ecs.version` fields. The first error argument
+ * is output as `error.type`, `error.message`, and `error.stack_trace`, the context fields of the entry (see
+ * `withContext`) as top-level keys (except for the ones that would replace the ECS fields), and the other arguments as
+ * the `args` array.
+ *
+ * @example Output format
+ *
+ * ```json
+ * {"@timestamp":"2024-01-15T10:30:45.123Z","log.level":"info","message":"Application started","ecs.version":"8.11.0"}
+ * {"@timestamp":"2024-01-15T10:30:46.456Z","log.level":"error","message":"Connection failed","ecs.version":"8.11.0","error.type":"Error","error.message":"ECONNREFUSED","error.stack_trace":"Error: ECONNREFUSED\n    at ...","requestId":"abc"}
+ * ```
+ */
+export const ecsFormatter: LogFormatter = (level, message, args, timestamp) => {
+  const entry = asLogEntry(level, message, args, timestamp);
+  const ecsEntry: Record<string, unknown> = {
+    '@timestamp': entry.iso,
+    'log.level': level,
+    message: entry.message,
+    'ecs.version': ECS_VERSION,
+  };
+
+  const { error, args: otherArgs } = splitErrorArg(entry.args);
+  if (error) {
+    ecsEntry['error.type'] = error.name;
+    ecsEntry['error.message'] = error.message;
+    if (error.stack) {
+      ecsEntry['error.stack_trace'] = error.stack;
+    }
+  }
+
+  if (entry.context) {
+    for (const [key, value] of Object.entries(entry.context)) {
+      if (!(key in ecsEntry) && key !== 'args') {
+        ecsEntry[key] = value;
+      }
+    }
+  }
+
+  if (otherArgs?.length) {
+    ecsEntry.args = otherArgs;
+  }
+
+  try {
+    return JSON.stringify(ecsEntry);
+  } catch {
+    return stringify(ecsEntry, { excludeArrayTruncationElement: true, excludeObjectTruncationProperty: true });
+  }
+};
+
+const ECS_VERSION = '8.11.0';
+
+const splitErrorArg = (
+  args: readonly unknown[] | undefined,
+): { readonly error?: Error; readonly args?: readonly unknown[] } => {
+  const error = args?.find((arg) => arg instanceof Error);
+  return error ? { error, args: args?.filter((arg) => arg !== error) } : { args };
+};
+
 /**
  * Creates a formatter that appends formatted arguments to the base formatter output.
  *
  * This higher-order formatter wraps another formatter and adds detailed formatting of the arguments array. Each
  * argument is formatted on a separate line with an index. Useful for debugging when you need to see the full content of
- * logged objects.
+ * logged objects. The context fields of the entry (see `withContext`) are formatted on a separate `[context]` line.
  *
  * @example Usage
  *
@@ -149,6 +455,7 @@ const jsonFormatter = (level: LogLevel, message: string, args: readonly unknown[
  * "2024-01-15T10:30:45.123Z" [info     ] User logged in
  * [arg00] { userId: "123", email: "user@example.com" }
  * [arg01] { timestamp: "2024-01-15T10:30:45.123Z" }
+ * [context] { requestId: "abc" }
  * ```
  *
  * @param baseFormatter The base formatter to wrap
@@ -157,19 +464,24 @@ const jsonFormatter = (level: LogLevel, message: string, args: readonly unknown[
  */
 export const plainArgAppendingFormatter =
   (baseFormatter: LogFormatter, delimiter = '\n'): LogFormatter =>
-  (level, message, args) => {
-    const formatted = baseFormatter(level, message, args);
+  (level, message, args, timestamp) => {
+    const formatted = baseFormatter(level, message, args, timestamp);
     if (!args?.length) {
       return formatted;
     }
 
-    const indexPadding = String(args.length).length;
-    const formattedArgs = args
-      .map((arg, i) => {
-        const formattedArg = stringify(arg, { includeStack: true, pretty: true, maxDepth: 3 });
-        return `[arg${String(i).padStart(indexPadding, '0')}] ${formattedArg}`;
-      })
-      .join('\n');
+    const split = splitContextArgs(args);
+    const otherArgs = split.args ?? emptyArray();
+    const indexPadding = String(otherArgs.length).length;
+    const lines = otherArgs.map((arg, i) => {
+      const formattedArg = stringify(arg, { includeStack: true, pretty: true, maxDepth: 3 });
+      return `[arg${String(i).padStart(indexPadding, '0')}] ${formattedArg}`;
+    });
+
+    if (split.context) {
+      lines.push(`[context] ${stringify(split.context, { pretty: true, maxDepth: 3 })}`);
+    }
 
+    const formattedArgs = lines.join('\n');
     return formatted ? `${formatted}${delimiter}${formattedArgs}` : formattedArgs;
   };
@@ -0,0 +1,218 @@
+import type { AsyncFinalizer } from '../implementation/finalizer.ts';
+import { httpPost } from '../implementation/http-post.ts';
+import type { LogFormatter } from './formatter.ts';
+import { ndjsonFormatter } from './formatter.ts';
+import type { LogSink } from './sink.ts';
+
+/**
+ * Configuration options for the http sink.
+ */
+export type HttpSinkOptions = {
+  /**
+   * Additional headers sent with each request (e.g., `authorization`). The `content-type` header defaults to
+   * `application/x-ndjson`.
+   */
+  readonly headers?: Readonly<Record<string, string>>;
+
+  /**
+   * The formatter used to convert each entry into a line of the request body.
+   *
+   * @default ndjsonFormatter
+   */
+  readonly formatter?: LogFormatter;
+
+  /**
+   * Maximum number of entries sent in a single request.
+   *
+   * @default 100
+   */
+  readonly maxBatchSize?: number;
+
+  /**
+   * Maximum number of entries waiting to be sent. When the queue is full the oldest entries are dropped and reported to
+   * the error handler.
+   *
+   * @default 1000
+   */
+  readonly maxQueueSize?: number;
+
+  /**
+   * Maximum number of times a failed request is retried. Requests are retried when `fetch` throws or when the response
+   * status is 408, 429 or 5xx.
+   *
+   * @default 3
+   */
+  readonly maxRetries?: number;
+
+  /**
+   * The delay in milliseconds before the first retry, doubled on each subsequent retry.
+   *
+   * @default 500
+   */
+  readonly retryDelayMs?: number;
+
+  /**
+   * The maximum delay in milliseconds between retries.
+   *
+   * @default 30000 (30s)
+   */
+  readonly maxRetryDelayMs?: number;
+
+  /**
+   * The time in milliseconds after which a request is aborted, and retried like a network error, so that an endpoint
+   * that does not respond cannot block `flush` and `close`.
+   *
+   * @default 10000 (10s)
+   */
+  readonly timeoutMs?: number;
+
+  /**
+   * Error handler callback for failed requests and dropped entries. If not provided, errors are ignored.
+   */
+  readonly errorHandler?: (error: unknown) => void;
+};
+
+/**
+ * Creates a log sink that POSTs the entries to an HTTP endpoint (e.g., a log collector or a webhook) using `fetch`.
+ *
+ * The entries are queued and sent asynchronously as NDJSON batches: all entries emitted in the same synchronous block
+ * are sent in a single request, so wrapping this sink with `batchSink` controls how often requests are made. Failed
+ * requests are retried with exponential backoff and the queue is capped, dropping the oldest entries when the endpoint
+ * cannot keep up.
+ *
+ * The `flush` and `close` methods wait for the queued entries to be sent, allowing the pending entries to be drained
+ * before the process exits. Entries emitted after `close` are ignored.
+ *
+ * @example Basic usage
+ *
+ * ```ts
+ * import { emitter } from 'emitnlog/logger';
+ *
+ * const logger = emitter.createLogger(
+ *   'info',
+ *   emitter.httpSink('https://logs.example.com/ingest', { headers: { authorization: `Bearer ${token}` } }),
+ * );
+ * ```
+ *
+ * @example With batching
+ *
+ * ```ts
+ * import { emitter } from 'emitnlog/logger';
+ *
+ * // At most one request every 5 seconds (or every 500 entries)
+ * const logger = emitter.createLogger(
+ *   'info',
+ *   emitter.batchSink(emitter.httpSink('https://logs.example.com/ingest'), {
+ *     maxBufferSize: 500,
+ *     flushDelayMs: 5000,
+ *   }),
+ * );
+ * ```
+ *
+ * @param url The URL of the endpoint
+ * @param options Configuration options for the http sink
+ * @returns A log sink that sends the entries to the endpoint
+ */
+export const httpSink = (url: string, options?: HttpSinkOptions): AsyncFinalizer<LogSink> => {
+  const formatter = options?.formatter ?? ndjsonFormatter;
+  const maxBatchSize = Math.max(1, options?.maxBatchSize ?? 100);
+  const maxQueueSize = Math.max(1, options?.maxQueueSize ?? 1000);
+  const maxRetries = Math.max(0, options?.maxRetries ?? 3);
+  const retryDelayMs = Math.max(0, options?.retryDelayMs ?? 500);
+  const maxRetryDelayMs = Math.max(0, options?.maxRetryDelayMs ?? 30_000);
+  const timeoutMs = Math.max(1, options?.timeoutMs ?? 10_000);
+  const headers = { 'content-type': 'application/x-ndjson', ...options?.headers };
+
+  const queue: string[] = [];
+  let dropped = 0;
+  let sending: Promise<void> | undefined;
+  let closed = false;
+
+  const reportError = (error: unknown): void => {
+    try {
+      options?.errorHandler?.(error);
+    } catch {
+      // ignore
+    }
+  };
+
+  const post = async (lines: readonly string[]): Promise<void> => {
+    try {
+      await httpPost(url, `${lines.join('\n')}\n`, {
+        name: 'http sink',
+        headers,
+        retries: maxRetries,
+        retryDelayMs,
+        maxRetryDelayMs,
+        timeoutMs,
+      });
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const sendQueued = async (): Promise<void> => {
+    if (!queue.length) {
+      return;
+    }
+
+    if (dropped) {
+      reportError(new Error(`The http sink queue is full: dropped ${dropped} ${dropped === 1 ? 'entry' : 'entries'}`));
+      dropped = 0;
+    }
+
+    await post(queue.splice(0, maxBatchSize));
+    await sendQueued();
+  };
+
+  const drain = async (): Promise<void> => {
+    // Lets the entries emitted in the same synchronous block be sent together
+    await Promise.resolve();
+    await sendQueued();
+  };
+
+  const scheduleDrain = (): void => {
+    sending ??= drain().then(
+      () => {
+        sending = undefined;
+        if (queue.length) {
+          scheduleDrain();
+        }
+      },
+      (error: unknown) => {
+        sending = undefined;
+        reportError(error);
+      },
+    );
+  };
+
+  const settle = async (): Promise<void> => {
+    if (sending) {
+      await sending;
+      await settle();
+    }
+  };
+
+  return {
+    sink: (level, message, args) => {
+      if (closed) {
+        return;
+      }
+
+      if (queue.length >= maxQueueSize) {
+        queue.shift();
+        dropped++;
+      }
+
+      queue.push(formatter(level, message, args));
+      scheduleDrain();
+    },
+
+    flush: settle,
+
+    close: async () => {
+      closed = true;
+      await settle();
+    },
+  };
+};
@@ -2,5 +2,10 @@ export * from './batch-sink.ts';
 export * from './console-sink.ts';
 export * from './emitter-logger.ts';
 export * from './formatter.ts';
+export * from './http-sink.ts';
 export * from './memory-sink.ts';
+export * from './redact-sink.ts';
+export * from './route-sink.ts';
 export * from './sink.ts';
+export * from './storage-sink.ts';
+export * from './template-formatter.ts';
@@ -1,8 +1,41 @@
+import type { LogLevel } from '../definition.ts';
+import { toContextArg } from '../implementation/context-utils.ts';
 import type { SyncFinalizer } from '../implementation/finalizer.ts';
+import { toLevelSeverity } from '../implementation/level-utils.ts';
+import { toPrefixMatcher } from '../implementation/prefix-utils.ts';
 import type { LogEntry } from '../log-entry.ts';
 import { asLogEntry } from '../log-entry.ts';
+import type { LogFormatter } from './formatter.ts';
+import { plainFormatter } from './formatter.ts';
 import type { LogSink } from './sink.ts';
 
+/**
+ * The criteria used to select the entries of a {@link MemoryStore}. All criteria are optional and an entry is selected
+ * only if it satisfies all the specified criteria.
+ */
+export type MemoryQuery = {
+  /**
+   * Selects the entries with this level or a more severe one.
+   */
+  readonly level?: LogLevel;
+
+  /**
+   * Selects the entries emitted by prefixed loggers (see `withPrefix`) with this prefix or with a prefix nested in it
+   * (e.g., `db` selects the entries of `db` and `db.pool`).
+   */
+  readonly prefix?: string;
+
+  /**
+   * Selects the entries emitted at or after this date (or timestamp in milliseconds since epoch).
+   */
+  readonly since?: Date | number;
+
+  /**
+   * Selects the entries emitted at or before this date (or timestamp in milliseconds since epoch).
+   */
+  readonly until?: Date | number;
+};
+
 /**
  * Interface for accessing stored log entries and clearing the memory store.
  */
@@ -12,12 +45,57 @@ export type MemoryStore = {
    */
   readonly entries: readonly LogEntry[];
 
+  /**
+   * The number of entries removed to keep the number of stored entries within the capacity since the store was last
+   * cleared.
+   */
+  readonly dropped: number;
+
+  /**
+   * Selects the stored entries that satisfy the query.
+   *
+   * @param query The criteria of the entries.
+   * @returns A new array with the selected entries, from the oldest to the newest.
+   */
+  readonly query: (query: MemoryQuery) => readonly LogEntry[];
+
+  /**
+   * Returns a copy of the stored entries, which is not changed by subsequent entries or by clearing the store.
+   *
+   * @returns A new array with the stored entries, from the oldest to the newest.
+   */
+  readonly snapshot: () => readonly LogEntry[];
+
+  /**
+   * Formats the stored entries (or the entries satisfying a query), one entry per line, preserving the date the entries
+   * were emitted.
+   *
+   * @param formatter The formatter of the entries (default: `plainFormatter`).
+   * @param query The criteria of the entries (default: all entries).
+   * @returns The formatted entries, separated by new lines.
+   */
+  readonly dump: (formatter?: LogFormatter, query?: MemoryQuery) => string;
+
   /**
    * Clears the log entries stored in memory.
    */
   readonly flush: () => void;
 };
 
+/**
+ * Configuration options for the memory sink.
+ */
+export type MemorySinkOptions = {
+  /**
+   * The maximum number of entries kept in memory. When exceeded, the oldest entries are removed and counted as
+   * `dropped`. If not provided, all entries are kept.
+   *
+   * The entries are then kept in a ring buffer, so `entries` returns a new array once entries are added (instead of the
+   * array passed to `memorySink`, whose entries are only used as the initial entries).
+   */
+  readonly capacity?: number;
+};
+
 /**
  * A log sink that stores entries in memory with synchronous flush/close operations.
  */
@@ -27,7 +105,8 @@ export type MemorySink = SyncFinalizer<LogSink> & MemoryStore;
  * Creates a memory-based log sink that stores entries in an array.
  *
  * This sink is primarily useful for testing, debugging, or applications that need to inspect logged entries
- * programmatically. All entries are kept in memory until explicitly cleared.
+ * programmatically. All entries are kept in memory until explicitly cleared, unless a capacity is specified, in which
+ * case only the latest entries are kept (like a flight recorder).
  *
  * @example Basic usage
  *
@@ -55,20 +134,105 @@ export type MemorySink = SyncFinalizer<LogSink> & MemoryStore;
  * // Now both memory.entries and existingEntries reference the same array
  * ```
  *
- * @param entries Optional array to use for storing entries (default: new empty array)
+ * @example Keeping the latest entries
+ *
+ * ```ts
+ * import { writeFileSync } from 'node:fs';
+ *
+ * import { emitter } from 'emitnlog/logger';
+ *
+ * const memory = emitter.memorySink([], { capacity: 1000 });
+ * const logger = emitter.createLogger('trace', memory);
+ *
+ * // Later, when something goes wrong
+ * writeFileSync('/tmp/last-entries.log', memory.dump(emitter.ndjsonFormatter));
+ * const errors = memory.query({ level: 'error', prefix: 'db' });
+ * ```
+ *
+ * @param entries Optional array to use for storing entries, or the initial entries if a capacity is specified (default:
+ *   new empty array)
+ * @param options Configuration options for the memory sink
  * @returns A MemorySink that stores log entries in memory
  */
-export const memorySink = (entries: LogEntry[] = []): MemorySink => {
+export const memorySink = (entries: LogEntry[] = [], options?: MemorySinkOptions): MemorySink => {
+  const capacity = options?.capacity === undefined ? undefined : Math.max(1, options.capacity);
+  let dropped = 0;
+
+  // With a capacity, the ring buffer overwrites the oldest entry at `head` once full
+  let ring: LogEntry[] = [];
+  let head = 0;
+  let ordered: LogEntry[] | undefined;
+
+  const add = (entry: LogEntry) => {
+    if (capacity === undefined) {
+      entries.push(entry);
+      return;
+    }
+
+    if (ring.length < capacity) {
+      ring.push(entry);
+    } else {
+      ring[head] = entry;
+      head = (head + 1) % capacity;
+      dropped++;
+    }
+    ordered = undefined;
+  };
+
+  const getEntries = (): LogEntry[] =>
+    capacity === undefined ? entries : (ordered ??= [...ring.slice(head), ...ring.slice(0, head)]);
+
   const flush = () => {
     entries.length = 0;
+    ring = [];
+    head = 0;
+    ordered = undefined;
+    dropped = 0;
   };
 
+  const query = (memoryQuery: MemoryQuery): readonly LogEntry[] => getEntries().filter(toEntryFilter(memoryQuery));
+
+  if (capacity !== undefined) {
+    entries.forEach(add);
+  }
+
   return {
     sink: (level, message, args) => {
-      entries.push(asLogEntry(level, message, args));
+      add(asLogEntry(level, message, args));
+    },
+    get entries() {
+      return getEntries();
+    },
+    get dropped() {
+      return dropped;
     },
-    entries,
+    query,
+    snapshot: () => [...getEntries()],
+    dump: (formatter = plainFormatter, memoryQuery) =>
+      (memoryQuery ? query(memoryQuery) : getEntries())
+        .map((entry) =>
+          formatter(
+            entry.level,
+            entry.message,
+            entry.context ? [...(entry.args ?? []), toContextArg(entry.context)] : entry.args,
+            entry.timestamp,
+          ),
+        )
+        .join('\n'),
     flush,
     close: flush,
   };
 };
+
+const toEntryFilter = (query: MemoryQuery): ((entry: LogEntry) => boolean) => {
+  const severity = query.level && toLevelSeverity(query.level);
+  const since = query.since === undefined ? undefined : Number(query.since);
+  const until = query.until === undefined ? undefined : Number(query.until);
+  const hasPrefix = query.prefix ? toPrefixMatcher(query.prefix) : undefined;
+
+  return (entry) =>
+    (severity === undefined || toLevelSeverity(entry.level) >= severity) &&
+    (since === undefined || entry.timestamp >= since) &&
+    (until === undefined || entry.timestamp <= until) &&
+    (!hasPrefix || hasPrefix(entry.message));
+};
@@ -0,0 +1,41 @@
+import { emptyArray } from '../../utils/common/empty.ts';
+import type { RedactionRules } from '../implementation/redaction.ts';
+import { createRedactor } from '../implementation/redaction.ts';
+import type { LogSink } from './sink.ts';
+
+/**
+ * Creates a sink that redacts sensitive information before forwarding the entries to another sink.
+ *
+ * The rules are applied exactly like `withRedaction`: property values matched by the `keys` rule are replaced at any
+ * depth of the log arguments, and the `patterns` rule is applied to the message and to the string values of the
+ * arguments. Use it to protect a specific destination (e.g., a file or a remote service) when the same logger also
+ * writes to other sinks.
+ *
+ * @example
+ *
+ * ```ts
+ * import { emitter } from 'emitnlog/logger';
+ * import { fileSink } from 'emitnlog/logger/node';
+ *
+ * const logger = emitter.createLogger(
+ *   'info',
+ *   emitter.redactSink(fileSink('/var/log/app.log', emitter.ndjsonFormatter), { keys: ['password', /token/i] }),
+ * );
+ * ```
+ *
+ * @param logSink The sink to forward the redacted entries to.
+ * @param rules The redaction rules.
+ * @returns A sink with the same properties of `logSink`, redacting the entries.
+ */
+export const redactSink = <S extends LogSink>(logSink: S, rules: RedactionRules): S => {
+  const redactor = createRedactor(rules);
+  const sink: LogSink['sink'] = (level, message, args) => {
+    logSink.sink(level, redactor.redactText(message), redactor.redactArgs(args ?? emptyArray()));
+  };
+
+  // The property descriptors are copied so that getters (e.g., the `dropped` count of a memory sink) stay live
+  return Object.defineProperties({} as S, {
+    ...Object.getOwnPropertyDescriptors(logSink),
+    sink: { value: sink, enumerable: true, configurable: true, writable: true },
+  });
+};
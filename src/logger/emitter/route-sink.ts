@@ -0,0 +1,121 @@
+import { emptyArray } from '../../utils/common/empty.ts';
+import type { LogLevel } from '../definition.ts';
+import type { AsyncFinalizer, Finalizer } from '../implementation/finalizer.ts';
+import { asSingleFinalizer } from '../implementation/finalizer.ts';
+import { toLevelSeverity } from '../implementation/level-utils.ts';
+import type { LogSink } from './sink.ts';
+
+/**
+ * The condition of a route of {@link routeSink}: either a level range, with inclusive and optional bounds, or a
+ * predicate receiving the entry.
+ */
+export type LogRouteCondition =
+  | { readonly min?: LogLevel; readonly max?: LogLevel }
+  | ((level: LogLevel, message: string, args: readonly unknown[]) => boolean);
+
+/**
+ * A route of {@link routeSink}, forwarding the entries that satisfy the condition to a sink.
+ */
+export type LogRoute = {
+  /**
+   * The condition the entries must satisfy to be forwarded to the sink.
+   */
+  readonly when: LogRouteCondition;
+
+  /**
+   * The sink receiving the entries.
+   */
+  readonly sink: LogSink;
+};
+
+/**
+ * Creates a sink that routes the entries to different sinks based on their level or on a predicate, allowing a single
+ * logger to write, for example, the errors to one file and the debug output to another.
+ *
+ * Each entry is forwarded to the sink of every route whose condition it satisfies, or to the fallback sink (if any)
+ * when it satisfies no condition. The `flush` and `close` methods of the returned sink call the methods of all sinks,
+ * including the fallback. A sink used by several routes receives an entry only once.
+ *
+ * @example Errors and debug output in different files
+ *
+ * ```ts
+ * import { emitter } from 'emitnlog/logger';
+ *
+ * const logger = emitter.createLogger(
+ *   'debug',
+ *   emitter.routeSink(
+ *     [
+ *       { when: { min: 'warning' }, sink: emitter.fileSink('/var/log/app-errors.log') },
+ *       { when: { max: 'debug' }, sink: emitter.fileSink('/var/log/app-debug.log') },
+ *     ],
+ *     emitter.consoleLogSink(),
+ *   ),
+ * );
+ * ```
+ *
+ * @example Predicate routes
+ *
+ * ```ts
+ * import { emitter } from 'emitnlog/logger';
+ *
+ * const sink = emitter.routeSink([
+ *   { when: (level, message) => message.startsWith('audit: '), sink: auditSink },
+ *   { when: { min: 'error' }, sink: alertSink },
+ * ]);
+ * ```
+ *
+ * @param routes The routes of the entries.
+ * @param fallback The sink receiving the entries that satisfy no route condition.
+ * @returns A sink that routes the entries and finalizes all the sinks.
+ */
+export const routeSink = (routes: readonly LogRoute[], fallback?: LogSink): AsyncFinalizer<LogSink> => {
+  const matchers = routes.map((route) => ({ matches: toRouteMatcher(route.when), sink: route.sink }));
+
+  const sinks = [...new Set([...routes.map((route) => route.sink), ...(fallback ? [fallback] : [])])];
+  // Typed as a plain finalizer since the sinks may have no flush or close methods
+  const finalizer: Finalizer = asSingleFinalizer(...sinks);
+
+  return {
+    sink: (level, message, args) => {
+      const entryArgs = args ?? emptyArray<unknown>();
+
+      let routed: Set<LogSink> | undefined;
+      for (const { matches, sink } of matchers) {
+        if (!routed?.has(sink) && matches(level, message, entryArgs)) {
+          routed ??= new Set();
+          routed.add(sink);
+          sink.sink(level, message, args);
+        }
+      }
+
+      if (!routed) {
+        fallback?.sink(level, message, args);
+      }
+    },
+
+    flush: async () => {
+      await finalizer.flush?.();
+    },
+
+    close: async () => {
+      await finalizer.close?.();
+    },
+  };
+};
+
+const toRouteMatcher = (
+  condition: LogRouteCondition,
+): ((level: LogLevel, message: string, args: readonly unknown[]) => boolean) => {
+  if (typeof condition === 'function') {
+    return condition;
+  }
+
+  const minSeverity = condition.min ? toLevelSeverity(condition.min) : undefined;
+  const maxSeverity = condition.max ? toLevelSeverity(condition.max) : undefined;
+  return (level) => {
+    const severity = toLevelSeverity(level);
+    return (
+      (minSeverity === undefined || severity >= minSeverity) && (maxSeverity === undefined || severity <= maxSeverity)
+    );
+  };
+};
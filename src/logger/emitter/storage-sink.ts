@@ -0,0 +1,464 @@
+import type { Writable } from 'type-fest';
+
+import { stringify } from '../../utils/converter/stringify.ts';
+import type { AsyncFinalizer } from '../implementation/finalizer.ts';
+import { toJsonEntry } from '../implementation/json-entry.ts';
+import type { LogEntry } from '../log-entry.ts';
+import { asLogEntry } from '../log-entry.ts';
+import type { LogSink } from './sink.ts';
+
+/**
+ * Configuration options for the storage sink.
+ */
+export type StorageSinkOptions = {
+  /**
+   * The name of the IndexedDB database or the localStorage key holding the entries. Use different names to keep the
+   * entries of different loggers apart.
+   *
+   * @default 'emitnlog'
+   */
+  readonly name?: string;
+
+  /**
+   * The maximum number of entries kept in the storage. When exceeded, the oldest entries are removed.
+   *
+   * @default 1000
+   */
+  readonly maxEntries?: number;
+
+  /**
+   * The storage used to persist the entries. With `auto`, IndexedDB is used if available, then localStorage, and
+   * finally the memory (which does not survive page reloads).
+   *
+   * @default 'auto'
+   */
+  readonly storage?: 'auto' | 'indexeddb' | 'localstorage' | 'memory';
+
+  /**
+   * Error handler callback for storage errors (e.g., quota exceeded or database errors). If not provided, errors are
+   * ignored.
+   */
+  readonly errorHandler?: (error: unknown) => void;
+};
+
+/**
+ * A log sink that persists the entries in the browser storage (see {@link storageSink}).
+ */
+export type StorageSink = AsyncFinalizer<LogSink> & {
+  /**
+   * The storage actually used to persist the entries.
+   */
+  readonly storage: 'indexeddb' | 'localstorage' | 'memory';
+
+  /**
+   * Reads the persisted entries, from the oldest to the newest, including the entries emitted before this call.
+   *
+   * @returns The persisted entries.
+   */
+  readonly read: () => Promise<readonly LogEntry[]>;
+
+  /**
+   * Exports the persisted entries as an NDJSON blob (one `ndjsonFormatter`-like line per entry), which can be
+   * downloaded or attached to a bug report.
+   *
+   * @returns A blob with the `application/x-ndjson` type.
+   */
+  // eslint-disable-next-line no-undef
+  readonly export: () => Promise<Blob>;
+
+  /**
+   * Removes all the persisted entries.
+   */
+  readonly clear: () => Promise<void>;
+};
+
+/**
+ * Creates a log sink that keeps the latest entries in the browser storage, surviving page reloads, so that the entries
+ * that preceded a problem can be exported and attached to a bug report.
+ *
+ * The entries are persisted as a ring buffer of `LogEntry` objects in IndexedDB or, when IndexedDB is not available, in
+ * localStorage. The arguments and context of the entries are converted to JSON values before being persisted.
+ *
+ * The entries are written asynchronously (the entries emitted in the same synchronous block are written together) and
+ * the `flush` method waits for the pending writes. The `close` method also closes the database and entries emitted
+ * after `close` are ignored.
+ *
+ * @example
+ *
+ * ```ts
+ * import { emitter, tee, createConsoleByLevelLogger } from 'emitnlog/logger';
+ *
+ * const storage = emitter.storageSink({ maxEntries: 5000 });
+ * const logger = tee(createConsoleByLevelLogger('info'), emitter.createLogger('debug', storage));
+ *
+ * reportButton.onclick = async () => {
+ *   const blob = await storage.export();
+ *   const link = document.createElement('a');
+ *   link.href = URL.createObjectURL(blob);
+ *   link.download = 'logs.ndjson';
+ *   link.click();
+ * };
+ * ```
+ *
+ * @param options Configuration options for the storage sink
+ * @returns A log sink that persists the entries in the browser storage
+ */
+export const storageSink = (options?: StorageSinkOptions): StorageSink => {
+  const name = options?.name || 'emitnlog';
+  const maxEntries = Math.max(1, options?.maxEntries ?? 1000);
+
+  const reportError = (error: unknown): void => {
+    try {
+      options?.errorHandler?.(error);
+    } catch {
+      // ignore
+    }
+  };
+
+  const backend = createBackend(options?.storage ?? 'auto', name, maxEntries, reportError);
+
+  let queue: LogEntry[] = [];
+  let writing: Promise<void> | undefined;
+  let closed = false;
+
+  const appendQueued = async (): Promise<void> => {
+    if (!queue.length) {
+      return;
+    }
+
+    const entries = queue;
+    queue = [];
+    try {
+      await backend.append(entries);
+    } catch (error) {
+      reportError(error);
+    }
+    await appendQueued();
+  };
+
+  const write = async (): Promise<void> => {
+    // Lets the entries emitted in the same synchronous block be written together
+    await Promise.resolve();
+    await appendQueued();
+  };
+
+  const settle = async (): Promise<void> => {
+    if (writing) {
+      await writing;
+      await settle();
+    }
+  };
+
+  return {
+    storage: backend.type,
+
+    sink: (level, message, args) => {
+      if (closed) {
+        return;
+      }
+
+      queue.push(toStoredEntry(asLogEntry(level, message, args)));
+      writing ??= write().finally(() => {
+        writing = undefined;
+      });
+    },
+
+    read: async () => {
+      await settle();
+      return backend.read();
+    },
+
+    export: async () => {
+      await settle();
+      const entries = await backend.read();
+      // eslint-disable-next-line no-undef
+      return new Blob(
+        entries.map((entry) => `${JSON.stringify(toJsonEntry(entry))}\n`),
+        { type: 'application/x-ndjson' },
+      );
+    },
+
+    clear: async () => {
+      queue = [];
+      await settle();
+      await backend.clear();
+    },
+
+    flush: settle,
+
+    close: async () => {
+      closed = true;
+      await settle();
+      backend.close();
+    },
+  };
+};
+
+type StorageBackend = {
+  readonly type: 'indexeddb' | 'localstorage' | 'memory';
+  readonly append: (entries: readonly LogEntry[]) => void | Promise<void>;
+  readonly read: () => Promise<readonly LogEntry[]>;
+  readonly clear: () => Promise<void>;
+  readonly close: () => void;
+};
+
+const createBackend = (
+  storage: NonNullable<StorageSinkOptions['storage']>,
+  name: string,
+  maxEntries: number,
+  reportError: (error: unknown) => void,
+): StorageBackend => {
+  const { indexedDB, localStorage } = globalThis as {
+    readonly indexedDB?: IdbFactory;
+    readonly localStorage?: WebStorage;
+  };
+
+  if ((storage === 'auto' || storage === 'indexeddb') && indexedDB) {
+    return createIndexedDbBackend(indexedDB, name, maxEntries);
+  }
+
+  if ((storage === 'auto' || storage === 'localstorage') && localStorage) {
+    return createLocalStorageBackend(localStorage, name, maxEntries, reportError);
+  }
+
+  if (storage !== 'auto' && storage !== 'memory') {
+    reportError(new Error(`The storage sink cannot use ${storage}: falling back to the memory`));
+  }
+
+  return createMemoryBackend(maxEntries);
+};
+
+const createMemoryBackend = (maxEntries: number): StorageBackend => {
+  let entries: LogEntry[] = [];
+  return {
+    type: 'memory',
+    append: (newEntries) => {
+      entries.push(...newEntries);
+      if (entries.length > maxEntries) {
+        entries = entries.slice(-maxEntries);
+      }
+    },
+    read: () => Promise.resolve([...entries]),
+    clear: () => {
+      entries = [];
+      return Promise.resolve();
+    },
+    close: () => undefined,
+  };
+};
+
+const createLocalStorageBackend = (
+  localStorage: WebStorage,
+  key: string,
+  maxEntries: number,
+  reportError: (error: unknown) => void,
+): StorageBackend => {
+  let entries: LogEntry[] | undefined;
+
+  const load = (): LogEntry[] => {
+    if (!entries) {
+      try {
+        const value: unknown = JSON.parse(localStorage.getItem(key) ?? '[]');
+        entries = Array.isArray(value) ? (value as LogEntry[]) : [];
+      } catch (error) {
+        reportError(error);
+        entries = [];
+      }
+    }
+    return entries;
+  };
+
+  return {
+    type: 'localstorage',
+
+    append: (newEntries) => {
+      let current = load();
+      current.push(...newEntries);
+      if (current.length > maxEntries) {
+        current = current.slice(-maxEntries);
+      }
+
+      // Removes the oldest half of the entries while the storage quota is exceeded
+      for (;;) {
+        try {
+          localStorage.setItem(key, JSON.stringify(current));
+          break;
+        } catch (error) {
+          if (!current.length) {
+            throw error;
+          }
+
+          reportError(error);
+          current = current.slice(Math.ceil(current.length / 2));
+        }
+      }
+
+      entries = current;
+    },
+
+    read: () => Promise.resolve([...load()]),
+
+    clear: () => {
+      entries = [];
+      localStorage.removeItem(key);
+      return Promise.resolve();
+    },
+
+    close: () => undefined,
+  };
+};
+
+const STORE_NAME = 'entries';
+
+const createIndexedDbBackend = (indexedDB: IdbFactory, name: string, maxEntries: number): StorageBackend => {
+  let database: Promise<IdbDatabase> | undefined;
+
+  const open = (): Promise<IdbDatabase> => {
+    database ??= new Promise<IdbDatabase>((resolve, reject) => {
+      const request = indexedDB.open(name, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () =>
+        reject(request.error ?? new Error(`The storage sink failed to open the database ${name}`));
+    });
+
+    database.catch(() => {
+      database = undefined;
+    });
+    return database;
+  };
+
+  const runTransaction = async <T>(
+    mode: 'readonly' | 'readwrite',
+    operation: (store: IdbObjectStore) => Promise<T>,
+  ): Promise<T> => {
+    const transaction = (await open()).transaction(STORE_NAME, mode);
+    const completed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error ?? new Error('The storage sink transaction failed'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('The storage sink transaction was aborted'));
+    });
+
+    // Awaited together, so that the transaction failure is handled when the operation fails first
+    const [result] = await Promise.all([operation(transaction.objectStore(STORE_NAME)), completed]);
+    return result;
+  };
+
+  return {
+    type: 'indexeddb',
+
+    append: (entries) =>
+      runTransaction('readwrite', async (store) => {
+        for (const entry of entries) {
+          store.add(entry);
+        }
+
+        const count = await toPromise(store.count());
+        if (count > maxEntries) {
+          const keys = await toPromise(store.getAllKeys(undefined, count - maxEntries));
+          for (const key of keys) {
+            store.delete(key);
+          }
+        }
+      }),
+
+    read: () => runTransaction('readonly', (store) => toPromise(store.getAll())),
+
+    clear: () =>
+      runTransaction('readwrite', async (store) => {
+        await toPromise(store.clear());
+      }),
+
+    close: () => {
+      const closing = database;
+      database = undefined;
+      void closing?.then(
+        (db) => db.close(),
+        () => undefined,
+      );
+    },
+  };
+};
+
+const toPromise = <T>(request: IdbRequest<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('The storage sink request failed'));
+  });
+
+const toStoredEntry = (entry: LogEntry): LogEntry => {
+  const stored: Writable<LogEntry> = {
+    level: entry.level,
+    timestamp: entry.timestamp,
+    iso: entry.iso,
+    message: entry.message,
+  };
+  if (entry.args) {
+    stored.args = toJsonValue(entry.args) as readonly unknown[];
+  }
+  if (entry.context) {
+    stored.context = toJsonValue(entry.context) as LogEntry['context'];
+  }
+  return stored;
+};
+
+const toJsonValue = (value: object): unknown => {
+  try {
+    return JSON.parse(stringify(value)) as unknown;
+  } catch {
+    return Array.isArray(value) ? value.map((item) => stringify(item)) : { value: stringify(value) };
+  }
+};
+
+/**
+ * Flattens the context fields into the record, like `ndjsonFormatter`, so that the exported lines can be read by the
+ * same tools.
+ */
+/*
+ * The subset of the IndexedDB and Web Storage APIs used by the sink, since the DOM types are not available.
+ */
+
+type IdbRequest<T> = {
+  readonly result: T;
+  readonly error: Error | null;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+};
+
+type IdbOpenRequest = IdbRequest<IdbDatabase> & { onupgradeneeded: (() => void) | null };
+
+type IdbFactory = { readonly open: (name: string, version: number) => IdbOpenRequest };
+
+type IdbDatabase = {
+  readonly objectStoreNames: { readonly contains: (name: string) => boolean };
+  readonly createObjectStore: (name: string, options: { readonly autoIncrement: boolean }) => unknown;
+  readonly transaction: (storeName: string, mode: 'readonly' | 'readwrite') => IdbTransaction;
+  readonly close: () => void;
+};
+
+type IdbTransaction = {
+  readonly error: Error | null;
+  readonly objectStore: (name: string) => IdbObjectStore;
+  oncomplete: (() => void) | null;
+  onerror: (() => void) | null;
+  onabort: (() => void) | null;
+};
+
+type IdbObjectStore = {
+  readonly add: (value: unknown) => IdbRequest<unknown>;
+  readonly count: () => IdbRequest<number>;
+  readonly getAll: () => IdbRequest<LogEntry[]>;
+  readonly getAllKeys: (query: undefined, count: number) => IdbRequest<unknown[]>;
+  readonly delete: (key: unknown) => IdbRequest<undefined>;
+  readonly clear: () => IdbRequest<undefined>;
+};
+
+type WebStorage = {
+  readonly getItem: (key: string) => string | null;
+  readonly setItem: (key: string, value: string) => void;
+  readonly removeItem: (key: string) => void;
+};
@@ -0,0 +1,233 @@
+import { exhaustiveCheck } from '../../utils/common/exhaustive-check.ts';
+import { terminalFormatter } from '../../utils/common/terminal-formatter.ts';
+import type { StringifyOptions } from '../../utils/converter/stringify.ts';
+import { stringify } from '../../utils/converter/stringify.ts';
+import type { LogLevel } from '../definition.ts';
+import { splitContextArgs } from '../implementation/context-utils.ts';
+import { decorateLogText } from '../implementation/level-utils.ts';
+import type { LogFormatter } from './formatter.ts';
+
+/**
+ * Configuration options for the template formatter.
+ */
+export type TemplateFormatterOptions = {
+  /**
+   * The time zone used by the `{iso}`, `{date}`, and `{time}` placeholders.
+   *
+   * @default 'utc'
+   */
+  readonly timeZone?: 'utc' | 'local';
+
+  /**
+   * Options used to stringify the values of the `{args}` and `{context}` placeholders.
+   */
+  readonly stringifyOptions?: StringifyOptions;
+
+  /**
+   * Splits the prefix of prefixed loggers (see `withPrefix`) from the message, for the `{prefix}` placeholder.
+   *
+   * The prefix is part of the message emitted by prefixed loggers, so it is resolved by splitting the message at the
+   * first `messageSeparator`, provided the text before it has no whitespace. Since this cannot tell a prefix from
+   * messages like `Error: boom` or `status: ok`, only enable it when such messages are emitted by prefixed loggers.
+   *
+   * @default false
+   */
+  readonly splitPrefix?: boolean;
+
+  /**
+   * The separator between the prefix and the message of prefixed loggers, used when `splitPrefix` is set.
+   *
+   * @default ': '
+   */
+  readonly messageSeparator?: string;
+};
+
+/**
+ * Creates a formatter that renders the entries using a template, allowing the output to match existing log parsers
+ * without writing a formatter from scratch.
+ *
+ * The template is a text with the following placeholders:
+ *
+ * - `{iso}`: the timestamp as an ISO 8601 string (e.g., `2024-01-15T10:30:45.123Z` or `2024-01-15T11:30:45.123+01:00`)
+ * - `{date}`: the date of the timestamp (e.g., `2024-01-15`)
+ * - `{time}`: the time of the timestamp (e.g., `10:30:45.123`)
+ * - `{epoch}`: the timestamp in milliseconds since epoch
+ * - `{level}`: the level of the entry
+ * - `{prefix}`: the prefix of the entries emitted by prefixed loggers (see `withPrefix`) if `splitPrefix` is set, or an
+ *   empty string
+ * - `{message}`: the message (without the prefix if `splitPrefix` is set)
+ * - `{args}`: the arguments, stringified and separated by a space
+ * - `{context}`: the context fields of the entry (see `withContext`), stringified
+ *
+ * Placeholders accept colon separated modifiers: `upper` and `lower` change the case, `pad` pads the value to the
+ * length of the longest level (9 characters), `color` applies the color of the entry level, and `dim` dims the value.
+ * Use `{{` and `}}` to output literal braces. Trailing whitespace is removed from the formatted line, so templates
+ * ending with `{args}` don't emit a trailing space for entries without arguments.
+ *
+ * @example
+ *
+ * ```ts
+ * import { emitter } from 'emitnlog/logger';
+ *
+ * const formatter = emitter.createTemplateFormatter('{iso} {level:pad:color} [{prefix}] {message} {args}', {
+ *   timeZone: 'local',
+ *   splitPrefix: true,
+ *   stringifyOptions: { maxDepth: 2 },
+ * });
+ *
+ * const logger = emitter.createLogger('info', emitter.consoleLogSink(formatter));
+ * ```
+ *
+ * @param template The template of the formatted lines
+ * @param options Configuration options for the formatter
+ * @returns A formatter that renders the entries using the template
+ * @throws An error if the template has an unknown placeholder or modifier
+ */
+export const createTemplateFormatter = (template: string, options?: TemplateFormatterOptions): LogFormatter => {
+  const local = options?.timeZone === 'local';
+  const stringifyOptions = options?.stringifyOptions;
+  const splitPrefix = options?.splitPrefix ?? false;
+  const messageSeparator = options?.messageSeparator || ': ';
+
+  const parts = parseTemplate(template);
+
+  return (level, message, args, timestamp) => {
+    const now = new Date(timestamp ?? Date.now());
+
+    let prefix = '';
+    if (splitPrefix) {
+      const index = message.indexOf(messageSeparator);
+      if (index > 0 && !/\s/.test(message.slice(0, index))) {
+        prefix = message.slice(0, index);
+        message = message.slice(index + messageSeparator.length);
+      }
+    }
+
+    let split: ReturnType<typeof splitContextArgs> | undefined;
+    const resolve = (name: PlaceholderName): string => {
+      switch (name) {
+        case 'iso':
+          return local ? `${toLocalDate(now)}T${toLocalTime(now)}${toLocalOffset(now)}` : now.toISOString();
+
+        case 'date':
+          return local ? toLocalDate(now) : now.toISOString().slice(0, 10);
+
+        case 'time':
+          return local ? toLocalTime(now) : now.toISOString().slice(11, 23);
+
+        case 'epoch':
+          return String(now.getTime());
+
+        case 'level':
+          return level;
+
+        case 'prefix':
+          return prefix;
+
+        case 'message':
+          return message;
+
+        case 'args':
+          split ??= splitContextArgs(args);
+          return split.args ? split.args.map((arg) => stringify(arg, stringifyOptions)).join(' ') : '';
+
+        case 'context':
+          split ??= splitContextArgs(args);
+          return split.context ? stringify(split.context, stringifyOptions) : '';
+
+        default:
+          exhaustiveCheck(name);
+          return '';
+      }
+    };
+
+    let line = '';
+    for (const part of parts) {
+      line += typeof part === 'string' ? part : applyModifiers(level, resolve(part.name), part.modifiers);
+    }
+    return line.trimEnd();
+  };
+};
+
+const PLACEHOLDER_NAMES = ['iso', 'date', 'time', 'epoch', 'level', 'prefix', 'message', 'args', 'context'] as const;
+type PlaceholderName = (typeof PLACEHOLDER_NAMES)[number];
+
+const MODIFIERS = ['upper', 'lower', 'pad', 'color', 'dim'] as const;
+type Modifier = (typeof MODIFIERS)[number];
+
+type Placeholder = { readonly name: PlaceholderName; readonly modifiers: ReadonlySet<Modifier> };
+
+const parseTemplate = (template: string): readonly (string | Placeholder)[] => {
+  const parts: (string | Placeholder)[] = [];
+  let text = '';
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(/\{\{|\}\}|\{(\w+)((?::\w+)*)\}/g)) {
+    text += template.slice(lastIndex, match.index);
+    lastIndex = match.index + match[0].length;
+
+    if (match[0] === '{{' || match[0] === '}}') {
+      text += match[0][0];
+    } else {
+      const name = match[1] as PlaceholderName;
+      if (!PLACEHOLDER_NAMES.includes(name)) {
+        throw new Error(`IllegalArgument: unknown placeholder '${match[0]}' in the template`);
+      }
+
+      const modifiers = new Set<Modifier>();
+      for (const modifier of match[2].split(':').slice(1)) {
+        if (!MODIFIERS.includes(modifier as Modifier)) {
+          throw new Error(`IllegalArgument: unknown modifier '${modifier}' in the template placeholder '${match[0]}'`);
+        }
+        modifiers.add(modifier as Modifier);
+      }
+
+      if (text) {
+        parts.push(text);
+        text = '';
+      }
+      parts.push({ name, modifiers });
+    }
+  }
+
+  text += template.slice(lastIndex);
+  if (text) {
+    parts.push(text);
+  }
+
+  return parts;
+};
+
+const applyModifiers = (level: LogLevel, value: string, modifiers: ReadonlySet<Modifier>): string => {
+  if (modifiers.has('upper')) {
+    value = value.toUpperCase();
+  } else if (modifiers.has('lower')) {
+    value = value.toLowerCase();
+  }
+
+  if (modifiers.has('pad')) {
+    value = value.padEnd(9, ' ');
+  }
+
+  if (modifiers.has('color')) {
+    value = decorateLogText(level, value);
+  } else if (modifiers.has('dim')) {
+    value = terminalFormatter.dim(value);
+  }
+
+  return value;
+};
+
+const toLocalDate = (date: Date): string =>
+  `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+
+const toLocalTime = (date: Date): string =>
+  `${pad2(date.getHours())}:${pad2(date.getMinutes())}:${pad2(date.getSeconds())}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+
+const toLocalOffset = (date: Date): string => {
+  const offset = -date.getTimezoneOffset();
+  const absolute = Math.abs(offset);
+  return `${offset < 0 ? '-' : '+'}${pad2(Math.floor(absolute / 60))}:${pad2(absolute % 60)}`;
+};
+
+const pad2 = (value: number): string => String(value).padStart(2, '0');
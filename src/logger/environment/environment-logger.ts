@@ -32,6 +32,9 @@ import { createLoggerFromEnv, decodeEnv, toEnv } from './shared.ts';
  *   - `colorful`
  *   - `ndjson`
  *   - `json-pretty`
+ *   - `otel`
+ *   - `logfmt`
+ *   - `ecs`
  * ```
  *
  * If a environment variable is not set, the associated value in `options` is used.
@@ -8,6 +8,7 @@ import { withLogger } from '../off-logger.ts';
 const ENV_LOGGER = 'EMITNLOG_LOGGER';
 const ENV_LEVEL = 'EMITNLOG_LEVEL';
 const ENV_FORMAT = 'EMITNLOG_FORMAT';
+const ENV_FILE_ROTATION = 'EMITNLOG_FILE_ROTATION';
 
 /**
  * The options for the `fromEnv` function.
@@ -66,6 +67,14 @@ type DecodedEnv = {
   readonly envFormat?: LogFormat;
   readonly envFile?: string;
   readonly envDatePrefix?: boolean;
+  readonly envFileRotation?: EnvFileRotation;
+};
+
+type EnvFileRotation = {
+  readonly maxSize?: number;
+  readonly interval?: 'daily' | 'hourly';
+  readonly maxFiles?: number;
+  readonly compress?: boolean;
 };
 
 export const decodeEnv = (
@@ -77,6 +86,7 @@ export const decodeEnv = (
   let envFormat: LogFormat | undefined = options?.format;
   let envFile: string | undefined;
   let envDatePrefix: boolean | undefined;
+  let envFileRotation: EnvFileRotation | undefined;
 
   if (env) {
     const envLoggerValue = env[ENV_LOGGER];
@@ -96,6 +106,17 @@ export const decodeEnv = (
             `The value of the environment variable '${ENV_LOGGER}' must provide a file path: '${envLoggerValue}'.\nConsult the emitnlog documentation for the list of valid loggers.`,
           );
         }
+
+        const envFileRotationValue = env[ENV_FILE_ROTATION];
+        if (envFileRotationValue) {
+          envFileRotation = decodeFileRotation(envFileRotationValue);
+          if (!envFileRotation) {
+            // eslint-disable-next-line no-undef, no-console
+            console.warn(
+              `The value of the environment variable '${ENV_FILE_ROTATION}' is not a valid rotation: '${envFileRotationValue}'.\nConsult the emitnlog documentation for the rotation syntax.`,
+            );
+          }
+        }
       } else {
         envLogger = envLoggerValue;
       }
@@ -129,7 +150,9 @@ export const decodeEnv = (
     }
   }
 
-  return envLogger || envLevel || envFormat ? { envLogger, envLevel, envFormat, envFile, envDatePrefix } : undefined;
+  return envLogger || envLevel || envFormat
+    ? { envLogger, envLevel, envFormat, envFile, envDatePrefix, envFileRotation }
+    : undefined;
 };
 
 export const createLoggerFromEnv = (
@@ -162,6 +185,56 @@ export const createLoggerFromEnv = (
   return withLogger(options?.fallbackLogger?.(decodedEnv?.envLevel, decodedEnv?.envFormat));
 };
 
+/**
+ * Decodes a comma-separated list of rotation options (e.g., `maxSize=10mb,interval=daily,maxFiles=7,compress`).
+ *
+ * @param value The value to decode
+ * @returns The rotation options or undefined if the value is invalid
+ */
+const decodeFileRotation = (value: string): EnvFileRotation | undefined => {
+  const rotation: { -readonly [K in keyof EnvFileRotation]: EnvFileRotation[K] } = {};
+  for (const option of value.split(',')) {
+    const [key, optionValue]: (string | undefined)[] = option.split('=', 2).map((part) => part.trim());
+    switch (key) {
+      case 'maxSize': {
+        const match = optionValue ? /^(\d+)(b|kb|mb|gb)?$/i.exec(optionValue) : null;
+        if (!match) {
+          return undefined;
+        }
+        const unit = match[2] ? match[2].toLowerCase() : 'b';
+        rotation.maxSize = Number(match[1]) * 1024 ** ['b', 'kb', 'mb', 'gb'].indexOf(unit);
+        break;
+      }
+
+      case 'interval':
+        if (optionValue !== 'daily' && optionValue !== 'hourly') {
+          return undefined;
+        }
+        rotation.interval = optionValue;
+        break;
+
+      case 'maxFiles':
+        if (!optionValue || !/^\d+$/.test(optionValue)) {
+          return undefined;
+        }
+        rotation.maxFiles = Number(optionValue);
+        break;
+
+      case 'compress':
+        if (optionValue && optionValue !== 'true' && optionValue !== 'false') {
+          return undefined;
+        }
+        rotation.compress = optionValue !== 'false';
+        break;
+
+      default:
+        return undefined;
+    }
+  }
+
+  return rotation.maxSize || rotation.interval ? rotation : undefined;
+};
+
 /**
  * Checks if a string is a valid LogFormat.
  *
@@ -175,6 +248,9 @@ const isLogFormat = (value: unknown): value is LogFormat => {
     case 'colorful':
     case 'ndjson':
     case 'json-pretty':
+    case 'otel':
+    case 'logfmt':
+    case 'ecs':
       return true;
 
     default:
@@ -8,8 +8,11 @@ import type { LogFormatter } from './emitter/formatter.ts';
 import {
   basicFormatter,
   colorfulFormatter,
+  ecsFormatter,
   jsonPrettyFormatter,
+  logfmtFormatter,
   ndjsonFormatter,
+  otelFormatter,
   plainFormatter,
 } from './emitter/formatter.ts';
 import type { BaseLoggerOptions } from './implementation/base-logger.ts';
@@ -22,8 +25,11 @@ import { injectPrefixInformation, isPrefixedLogger } from './prefixed-logger.ts'
  * - 'colorful': The line is emitted with ANSI color codes.
  * - 'ndjson': The line is emitted as a single line JSON Object.
  * - 'json-pretty': The line is emitted as a multi-line, formatted JSON Object.
+ * - 'otel': The line is emitted as a single line OpenTelemetry (OTLP/JSON) log record.
+ * - 'logfmt': The line is emitted as logfmt `key=value` pairs.
+ * - 'ecs': The line is emitted as a single line JSON Object following the Elastic Common Schema.
  */
-export type LogFormat = 'plain' | 'colorful' | 'ndjson' | 'json-pretty';
+export type LogFormat = 'plain' | 'colorful' | 'ndjson' | 'json-pretty' | 'otel' | 'logfmt' | 'ecs';
 
 /**
  * Creates a logger that emits log messages to standard output (console.log) with optional formatting.
@@ -164,6 +170,15 @@ export const toLogFormatter = (format: LogFormat): LogFormatter => {
     case 'json-pretty':
       return jsonPrettyFormatter;
 
+    case 'otel':
+      return otelFormatter;
+
+    case 'logfmt':
+      return logfmtFormatter;
+
+    case 'ecs':
+      return ecsFormatter;
+
     default:
       exhaustiveCheck(format);
       return basicFormatter;
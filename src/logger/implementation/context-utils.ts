@@ -0,0 +1,60 @@
+import type { LogContext } from '../definition.ts';
+
+/**
+ * Important: this is an advanced utility, meant for logger implementors.
+ *
+ * Creates the argument that carries a log context through loggers and sinks. The context is transported as the last
+ * entry of the log `args` so that it flows through any logger implementation, including decorators and sinks that are
+ * not aware of it. Sinks and formatters can use {@link splitContextArgs} to handle it separately from the other
+ * arguments.
+ *
+ * @param context The context fields.
+ * @returns A frozen copy of the context fields, identifiable by {@link isContextArg}.
+ */
+export const toContextArg = (context: LogContext): LogContext => {
+  const contextArg = { ...context };
+  Object.defineProperty(contextArg, contextArgSymbol, { value: true });
+  return Object.freeze(contextArg);
+};
+
+/**
+ * Important: this is an advanced utility, meant for logger implementors.
+ *
+ * Checks if a log argument carries a log context.
+ *
+ * @param value A log argument.
+ * @returns True if the value was created by {@link toContextArg}.
+ */
+export const isContextArg = (value: unknown): value is LogContext =>
+  !!value && typeof value === 'object' && contextArgSymbol in value;
+
+/**
+ * Important: this is an advanced utility, meant for logger implementors.
+ *
+ * Separates the log context from the other log arguments. If more than one context argument is present, the fields are
+ * merged with the latter arguments taking precedence.
+ *
+ * @param args The log arguments.
+ * @returns The merged context (if any) and the remaining arguments.
+ */
+export const splitContextArgs = (
+  args: readonly unknown[] | undefined,
+): { readonly context?: LogContext; readonly args?: readonly unknown[] } => {
+  if (!args?.some(isContextArg)) {
+    return { args };
+  }
+
+  let context: Record<string, unknown> = {};
+  const otherArgs: unknown[] = [];
+  for (const arg of args) {
+    if (isContextArg(arg)) {
+      context = { ...context, ...arg };
+    } else {
+      otherArgs.push(arg);
+    }
+  }
+
+  return { context, args: otherArgs };
+};
+
+const contextArgSymbol: unique symbol = Symbol.for('@emitnlog/logger/context');
@@ -0,0 +1,84 @@
+import type { Clock } from '../../utils/async/clock.ts';
+import { retry } from '../../utils/async/retry.ts';
+
+/**
+ * Configuration options for `httpPost`.
+ */
+export type HttpPostOptions = {
+  /**
+   * The name of the requester, used in the errors of the failed requests (e.g., `http sink`).
+   */
+  readonly name: string;
+
+  readonly headers: Readonly<Record<string, string>>;
+
+  /**
+   * Maximum number of times a failed request is retried.
+   */
+  readonly retries: number;
+
+  /**
+   * The delay in milliseconds before the first retry, doubled on each subsequent retry.
+   */
+  readonly retryDelayMs?: number;
+
+  /**
+   * The maximum delay in milliseconds between retries.
+   */
+  readonly maxRetryDelayMs?: number;
+
+  /**
+   * The time in milliseconds after which a request is aborted, and retried like a network error.
+   */
+  readonly timeoutMs: number;
+
+  /**
+   * The clock used to schedule the retries.
+   */
+  readonly clock?: Clock;
+};
+
+/**
+ * POSTs the body to the URL using `fetch`, retrying with exponential backoff when `fetch` throws (including when the
+ * request times out) or when the response status is 408, 429 or 5xx. The response bodies are discarded.
+ *
+ * @param url The URL of the endpoint.
+ * @param body The request body.
+ * @param options The request options.
+ * @returns A promise that resolves when a request succeeds, or rejects with the error of the last attempt.
+ */
+export const httpPost = async (url: string, body: string, options: HttpPostOptions): Promise<void> => {
+  let retryable = true;
+
+  await retry(
+    async () => {
+      retryable = true;
+
+      // eslint-disable-next-line no-undef
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: options.headers,
+        body,
+        // eslint-disable-next-line no-undef
+        signal: AbortSignal.timeout(options.timeoutMs),
+      });
+
+      // The response body is not used, but must be consumed to release the connection
+      await response.body?.cancel().catch(() => undefined);
+
+      if (!response.ok) {
+        retryable = isRetryableStatus(response.status);
+        throw new Error(`The ${options.name} request failed with status ${response.status} (${response.statusText})`);
+      }
+    },
+    {
+      retries: options.retries,
+      delay: options.retryDelayMs,
+      maxDelay: options.maxRetryDelayMs,
+      retryOn: () => retryable,
+      clock: options.clock,
+    },
+  ).wait;
+};
+
+const isRetryableStatus = (status: number): boolean => status === 408 || status === 429 || status >= 500;
@@ -1,3 +1,5 @@
 export * from './base-logger.ts';
+export * from './context-utils.ts';
 export * from './finalizer.ts';
 export * from './level-utils.ts';
+export * from './redaction.ts';
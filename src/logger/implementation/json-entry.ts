@@ -0,0 +1,25 @@
+import type { Writable } from 'type-fest';
+
+import type { LogEntry } from '../log-entry.ts';
+
+/**
+ * Converts a log entry into the object output by the JSON formats, with the context fields as top-level keys. The
+ * context fields named after the entry properties (`level`, `timestamp`, `iso`, `message`, `args`, and `context`) are
+ * ignored, even when the entry does not have the property (e.g., no `args`).
+ *
+ * @param entry The log entry.
+ * @returns The JSON object of the entry.
+ */
+export const toJsonEntry = (entry: LogEntry): Record<string, unknown> => {
+  const { context, args, ...jsonEntry } = entry as Writable<LogEntry>;
+  if (context) {
+    for (const [key, value] of Object.entries(context)) {
+      if (!reservedKeys.has(key)) {
+        (jsonEntry as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+  return args ? { ...jsonEntry, args } : jsonEntry;
+};
+
+const reservedKeys: ReadonlySet<string> = new Set(['level', 'timestamp', 'iso', 'message', 'args', 'context']);
@@ -0,0 +1,23 @@
+/**
+ * Creates a function that checks if a message was emitted by a prefixed logger (see `withPrefix`) with the prefix or
+ * with a prefix nested in it.
+ *
+ * The prefix is part of the message (e.g., `db.pool: message`), so it must be followed by the message separator,
+ * possibly after the segments of a nested prefix, rather than by another character of a longer prefix (e.g., `dbx`) or
+ * by text (e.g., `db is down` or `db.pool exhausted`).
+ *
+ * @param prefix The prefix.
+ * @param separators The separators used by the prefixed loggers, which default to the ones of `withPrefix`.
+ * @returns A function that returns true if the message has the prefix.
+ */
+export const toPrefixMatcher = (
+  prefix: string,
+  separators?: { readonly prefixSeparator?: string; readonly messageSeparator?: string },
+): ((message: string) => boolean) => {
+  const prefixSeparator = escapeRegExp(separators?.prefixSeparator || '.');
+  const messageSeparator = escapeRegExp(separators?.messageSeparator || ': ');
+  const afterPrefix = new RegExp(`^(?:${prefixSeparator}\\S*?)?${messageSeparator}`);
+  return (message) => message.startsWith(prefix) && afterPrefix.test(message.slice(prefix.length));
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
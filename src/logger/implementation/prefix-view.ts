@@ -0,0 +1,36 @@
+import type { Logger } from '../definition.ts';
+
+/**
+ * Adds to a logger the function that resolves the logger used by the prefixed loggers created from it (see
+ * `withPrefix`), allowing the behavior of the root logger (e.g., its level) to depend on the prefix.
+ *
+ * @param logger The root logger.
+ * @param toView Resolves the logger used by the prefixed loggers with the given prefix, whose segments are joined by
+ *   the given prefix separator.
+ * @returns The root logger.
+ */
+export const withPrefixViews = <L extends Logger>(
+  logger: L,
+  toView: (prefix: string, prefixSeparator: string) => Logger,
+): L => {
+  Object.defineProperty(logger, prefixViewSymbol, { value: toView });
+  return logger;
+};
+
+/**
+ * Resolves the logger used by a prefixed logger to emit its entries, which is the root logger itself unless the root
+ * logger was created with {@link withPrefixViews}.
+ *
+ * @param logger The root logger.
+ * @param prefix The prefix of the prefixed logger.
+ * @param prefixSeparator The separator of the segments of the prefix.
+ * @returns The logger used to emit the entries of the prefixed logger.
+ */
+export const toPrefixView = (logger: Logger, prefix: string, prefixSeparator: string): Logger => {
+  const toView = (logger as { readonly [prefixViewSymbol]?: (prefix: string, prefixSeparator: string) => Logger })[
+    prefixViewSymbol
+  ];
+  return toView ? toView(prefix, prefixSeparator) : logger;
+};
+
+const prefixViewSymbol: unique symbol = Symbol.for('@emitnlog/logger/prefixView');
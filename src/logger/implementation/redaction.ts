@@ -0,0 +1,237 @@
+import { isContextArg, toContextArg } from './context-utils.ts';
+
+/**
+ * The rules used to redact sensitive information from log entries.
+ */
+export type RedactionRules = {
+  /**
+   * The names of the properties whose values are replaced, at any depth of the log arguments. Strings are compared with
+   * the whole property name ignoring case, while regular expressions are tested against the property name.
+   *
+   * @example
+   *
+   * ```ts
+   * {
+   *   keys: ['password', 'authorization', /token/i];
+   * }
+   * ```
+   */
+  readonly keys?: readonly (string | RegExp)[];
+
+  /**
+   * Regular expressions whose matches are replaced in the log message and in the string values of the log arguments
+   * (including error messages). All the occurrences are replaced, regardless of the `g` flag.
+   *
+   * @example
+   *
+   * ```ts
+   * {
+   *   patterns: [/\b\d{4}-\d{4}-\d{4}-\d{4}\b/, /Bearer [\w.-]+/];
+   * }
+   * ```
+   */
+  readonly patterns?: readonly RegExp[];
+
+  /**
+   * A custom replacer invoked for each value of the log arguments (see `StringifyOptions.replacer`), after the `keys`
+   * rule and before the `patterns` rule.
+   */
+  readonly replacer?: (key: string, value: unknown) => unknown;
+
+  /**
+   * The text used to replace the redacted values.
+   *
+   * @default '[REDACTED]'
+   */
+  readonly replacement?: string;
+};
+
+/**
+ * Important: this is an advanced utility, meant for logger implementors.
+ *
+ * Applies {@link RedactionRules} to the parts of a log entry.
+ */
+export type Redactor = {
+  /**
+   * The replacer that applies the rules while `stringify` walks a value.
+   */
+  readonly replacer: (key: string, value: unknown) => unknown;
+
+  /**
+   * Applies the `patterns` rule to a text, like a log message.
+   */
+  readonly redactText: (text: string) => string;
+
+  /**
+   * Returns redacted copies of the log arguments. Objects, arrays, maps, and sets are walked structurally and copied
+   * with the same prototype (preserving circular references), errors are copied with redacted messages, stacks, and
+   * causes, and context arguments (see `withContext`) are preserved. Values that cannot be walked, like dates or typed
+   * arrays, are forwarded as they are.
+   */
+  readonly redactArgs: (args: readonly unknown[]) => readonly unknown[];
+};
+
+/**
+ * Important: this is an advanced utility, meant for logger implementors.
+ *
+ * Creates a redactor that applies the specified rules.
+ *
+ * @param rules The redaction rules.
+ * @returns The redactor.
+ */
+export const createRedactor = (rules: RedactionRules): Redactor => {
+  const replacement = rules.replacement ?? '[REDACTED]';
+
+  const keyMatchers = (rules.keys ?? []).map((key) => {
+    if (typeof key === 'string') {
+      const lowerCaseKey = key.toLowerCase();
+      return (name: string) => name.toLowerCase() === lowerCaseKey;
+    }
+    return (name: string) => {
+      key.lastIndex = 0;
+      return key.test(name);
+    };
+  });
+
+  const matchesKey = (key: string): boolean => keyMatchers.some((matches) => matches(key));
+
+  const patterns = (rules.patterns ?? []).map((pattern) =>
+    pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`),
+  );
+
+  const redactText = (text: string): string =>
+    patterns.reduce((redacted, pattern) => redacted.replace(pattern, replacement), text);
+
+  const redactError = (error: Error): Error => {
+    const message = redactText(error.message);
+    const stack = error.stack === undefined ? undefined : redactText(error.stack);
+    if (message === error.message && stack === error.stack) {
+      return error;
+    }
+
+    const redacted = Object.assign(Object.create(Object.getPrototypeOf(error) as object | null) as Error, error);
+    Object.defineProperty(redacted, 'message', { value: message, writable: true, configurable: true });
+    Object.defineProperty(redacted, 'stack', { value: stack, writable: true, configurable: true });
+    return redacted;
+  };
+
+  const replacer = (key: string, value: unknown): unknown => {
+    if (key && matchesKey(key)) {
+      return replacement;
+    }
+
+    if (rules.replacer) {
+      value = rules.replacer(key, value);
+    }
+
+    return typeof value === 'string' ? redactText(value) : value instanceof Error ? redactError(value) : value;
+  };
+
+  // The copies of the walked objects, which are reused for repeated and circular references
+  type Copies = Map<object, unknown>;
+
+  const redactValue = (key: string, value: unknown, copies: Copies): unknown => {
+    if (key && matchesKey(key)) {
+      return replacement;
+    }
+
+    if (rules.replacer) {
+      value = rules.replacer(key, value);
+    }
+
+    if (typeof value === 'string') {
+      return redactText(value);
+    }
+
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const copy = copies.get(value);
+    if (copy !== undefined) {
+      return copy;
+    }
+
+    if (value instanceof Error) {
+      return redactErrorValue(value, copies);
+    }
+
+    if (value instanceof Map) {
+      const map = new Map<unknown, unknown>();
+      copies.set(value, map);
+      for (const [entryKey, entryValue] of value) {
+        map.set(entryKey, redactValue(typeof entryKey === 'string' ? entryKey : '', entryValue, copies));
+      }
+      return map;
+    }
+
+    if (value instanceof Set) {
+      const set = new Set<unknown>();
+      copies.set(value, set);
+      for (const item of value) {
+        set.add(redactValue('', item, copies));
+      }
+      return set;
+    }
+
+    if (Array.isArray(value)) {
+      const array: unknown[] = [];
+      copies.set(value, array);
+      for (const [index, item] of value.entries()) {
+        array.push(redactValue(String(index), item, copies));
+      }
+      return array;
+    }
+
+    const prototype = Object.getPrototypeOf(value) as object | null;
+    const entries = Object.entries(value);
+    if (ArrayBuffer.isView(value) || (prototype !== Object.prototype && prototype !== null && !entries.length)) {
+      return value;
+    }
+
+    const redacted = Object.create(prototype) as Record<string, unknown>;
+    copies.set(value, redacted);
+    for (const [name, property] of entries) {
+      redacted[name] = redactValue(name, property, copies);
+    }
+    return redacted;
+  };
+
+  // Errors with nothing to redact are forwarded as they are
+  const redactErrorValue = (error: Error, copies: Copies): Error => {
+    const redacted = Object.create(Object.getPrototypeOf(error) as object | null) as Error & Record<string, unknown>;
+    copies.set(error, redacted);
+
+    const properties: [name: string, value: unknown, enumerable: boolean][] = [['message', error.message, false]];
+    if (error.stack !== undefined) {
+      properties.push(['stack', error.stack, false]);
+    }
+    if ('cause' in error) {
+      properties.push(['cause', error.cause, false]);
+    }
+    for (const [name, value] of Object.entries(error)) {
+      properties.push([name, value, true]);
+    }
+
+    let changed = false;
+    for (const [name, value, enumerable] of properties) {
+      const redactedValue =
+        name === 'message' || name === 'stack' ? redactText(String(value)) : redactValue(name, value, copies);
+      changed ||= redactedValue !== value;
+      Object.defineProperty(redacted, name, { value: redactedValue, writable: true, configurable: true, enumerable });
+    }
+
+    if (!changed) {
+      copies.set(error, error);
+      return error;
+    }
+    return redacted;
+  };
+
+  const redactArg = (value: unknown): unknown =>
+    isContextArg(value)
+      ? toContextArg(redactValue('', { ...value }, new Map()) as Record<string, unknown>)
+      : redactValue('', value, new Map());
+
+  return { replacer, redactText, redactArgs: (args) => (args.length ? args.map(redactArg) : args) };
+};
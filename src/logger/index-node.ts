@@ -1,12 +1,17 @@
 // Verify `index.ts`
 
+export * from './context-logger.ts';
 export * from './definition.ts';
 export * as implementation from './implementation/index.ts';
+export * from './level-registry.ts';
 export * from './log-entry.ts';
 export * from './memory-logger.ts';
 export * from './node/environment-logger.ts';
 export * as emitter from './node/index-emitter.ts';
 export * from './node/index-factory.ts';
+export * from './node/level-reload.ts';
+export * from './node/log-context.ts';
+export * from './node/log-reader.ts';
 export * from './node/request-logger.ts';
 export * from './off-logger.ts';
 export * from './prefixed-logger.ts';
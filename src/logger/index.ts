@@ -1,10 +1,12 @@
 // Verify `index-node.ts`
 
+export * from './context-logger.ts';
 export * from './definition.ts';
 export * as emitter from './emitter/index.ts';
 export * from './environment/environment-logger.ts';
 export * from './factory.ts';
 export * as implementation from './implementation/index.ts';
+export * from './level-registry.ts';
 export * from './log-entry.ts';
 export * from './memory-logger.ts';
 export * from './off-logger.ts';
@@ -0,0 +1,321 @@
+import type { OnEvent } from '../notifier/definition.ts';
+import { createEventNotifier } from '../notifier/implementation.ts';
+import type { SyncClosable } from '../utils/common/closable.ts';
+import { emptyArray } from '../utils/common/empty.ts';
+import type { Logger, LogLevel } from './definition.ts';
+import { createLogger } from './emitter/emitter-logger.ts';
+import { isLogLevel, shouldEmitEntry } from './implementation/level-utils.ts';
+import { withPrefixViews } from './implementation/prefix-view.ts';
+import { OFF_LOGGER } from './off-logger.ts';
+import { handlePrefixWrapping } from './prefixed-logger.ts';
+
+/**
+ * The level rules of a {@link LevelRegistry}, mapping prefix patterns to levels.
+ *
+ * A pattern is a prefix path (e.g., `db.pool`) whose segments may be `*` to match any segment (e.g., `*.cache`). A rule
+ * applies to the prefixes matched by its pattern and to their descendants, so `db` also applies to `db.pool`. The
+ * pattern `*` alone is the default rule, applying to all loggers (including the ones without a prefix).
+ *
+ * The segments of a pattern are always separated by `.`, while the segments of a prefix are separated by the prefix
+ * separator of its logger: `withPrefix(logger, 'db/pool', { prefixSeparator: '/' })` is matched by `db.pool`.
+ *
+ * @example
+ *
+ * ```ts
+ * const rules: LevelRules = { '*': 'info', 'db.pool': 'debug', '*.cache': 'warning' };
+ * ```
+ */
+export type LevelRules = Readonly<Record<string, LogLevel | 'off'>>;
+
+/**
+ * A central registry of the log levels, keyed by prefix pattern, consulted by the loggers decorated with
+ * {@link withLevelRegistry} and by the prefixed loggers created from them.
+ */
+export type LevelRegistry = {
+  /**
+   * The current level rules.
+   */
+  readonly rules: LevelRules;
+
+  /**
+   * Resolves the level of a prefix using the most specific rule matching it: the rule with more segments wins and,
+   * between rules with the same number of segments, the rule with fewer wildcards wins.
+   *
+   * @param prefix The prefix of a logger, or undefined for loggers without a prefix.
+   * @returns The level of the most specific rule, or undefined if no rule matches the prefix.
+   */
+  readonly resolve: (prefix?: string) => LogLevel | 'off' | undefined;
+
+  /**
+   * Replaces the level rules, notifying the `onChange` listeners.
+   *
+   * @param rules The new level rules.
+   * @throws An error if a level is invalid.
+   */
+  readonly set: (rules: LevelRules) => void;
+
+  /**
+   * Replaces the level rules whenever a configuration source notifies new rules (e.g., an `EventNotifier` fed by a
+   * configuration service).
+   *
+   * @param onRules The event of the configuration source.
+   * @returns A closable to stop listening to the configuration source.
+   */
+  readonly listen: (onRules: OnEvent<LevelRules>) => SyncClosable;
+
+  /**
+   * Notified with the new rules whenever the rules change.
+   */
+  readonly onChange: OnEvent<LevelRules>;
+
+  /**
+   * Stops listening to the configuration sources and unregisters the `onChange` listeners.
+   */
+  readonly close: () => void;
+};
+
+/**
+ * Creates a level registry, allowing the levels of the loggers to be adjusted by prefix at runtime.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createConsoleLogLogger, createLevelRegistry, withLevelRegistry, withPrefix } from 'emitnlog/logger';
+ *
+ * const registry = createLevelRegistry({ '*': 'info' });
+ * const logger = withLevelRegistry(createConsoleLogLogger('trace'), registry);
+ * const poolLogger = withPrefix(withPrefix(logger, 'db'), 'pool');
+ *
+ * poolLogger.d`Acquired connection`; // Not emitted
+ *
+ * registry.set({ '*': 'info', 'db.pool': 'debug' });
+ * poolLogger.d`Acquired connection`; // Emitted
+ * ```
+ *
+ * @example Following a configuration source
+ *
+ * ```ts
+ * import type { LevelRules } from 'emitnlog/logger';
+ * import { createLevelRegistry } from 'emitnlog/logger';
+ * import { createEventNotifier } from 'emitnlog/notifier';
+ *
+ * const configNotifier = createEventNotifier<LevelRules>();
+ * const registry = createLevelRegistry({ '*': 'info' });
+ * registry.listen(configNotifier.onEvent);
+ *
+ * // Later, when the configuration changes
+ * configNotifier.notify({ '*': 'info', 'http.*': 'debug' });
+ * ```
+ *
+ * @param rules The initial level rules.
+ * @returns A level registry.
+ * @throws An error if a level is invalid.
+ */
+export const createLevelRegistry = (rules?: LevelRules): LevelRegistry => {
+  const notifier = createEventNotifier<LevelRules>();
+  const subscriptions = new Set<SyncClosable>();
+
+  let currentRules: LevelRules = {};
+  let compiledRules: readonly CompiledRule[] = emptyArray();
+  const cache = new Map<string, LogLevel | 'off' | undefined>();
+
+  const set = (newRules: LevelRules): void => {
+    compiledRules = compileRules(newRules);
+    currentRules = Object.freeze({ ...newRules });
+    cache.clear();
+  };
+
+  set(rules ?? {});
+
+  return {
+    get rules() {
+      return currentRules;
+    },
+
+    resolve: (prefix) => {
+      const key = prefix ?? '';
+      if (cache.has(key)) {
+        return cache.get(key);
+      }
+
+      const level = resolveLevel(compiledRules, key ? key.split('.') : emptyArray());
+      if (cache.size >= MAX_CACHED_PREFIXES) {
+        cache.clear();
+      }
+      cache.set(key, level);
+      return level;
+    },
+
+    set: (newRules) => {
+      set(newRules);
+      notifier.notify(currentRules);
+    },
+
+    listen: (onRules) => {
+      const subscription = onRules((newRules) => {
+        set(newRules);
+        notifier.notify(currentRules);
+      });
+
+      const closable: SyncClosable = {
+        close: () => {
+          subscriptions.delete(closable);
+          subscription.close();
+        },
+      };
+      subscriptions.add(closable);
+      return closable;
+    },
+
+    onChange: notifier.onEvent,
+
+    close: () => {
+      for (const subscription of [...subscriptions]) {
+        subscription.close();
+      }
+      notifier.close();
+    },
+  };
+};
+
+/**
+ * Returns a logger whose level, and the level of the prefixed loggers created from it (see `withPrefix`), is resolved
+ * by a level registry, falling back to the level of the decorated logger when no rule matches the prefix.
+ *
+ * Like `withMinimumLevel`, entries allowed by the registry but filtered by the decorated logger are emitted using the
+ * level of the decorated logger. Decorate a logger with the most verbose level (e.g., `trace`) to preserve the level of
+ * the entries, letting the registry control which entries are emitted.
+ *
+ * Apply this decorator after other decorators (e.g., `withRedaction`): the registry is consulted by the prefixed
+ * loggers created from the returned logger, or from the returned prefixed logger if `logger` is a prefixed logger.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createConsoleLogLogger, createLevelRegistry, withLevelRegistry, withPrefix } from 'emitnlog/logger';
+ *
+ * const registry = createLevelRegistry({ '*': 'info', 'db.pool': 'debug', 'http.*': 'warning' });
+ * const logger = withLevelRegistry(createConsoleLogLogger('trace'), registry);
+ *
+ * logger.d`Not emitted`; // '*' is info
+ * withPrefix(logger, 'db.pool').d`Emitted`; // 'db.pool' is debug
+ * withPrefix(logger, 'http.client').i`Not emitted`; // 'http.*' is warning
+ * ```
+ *
+ * @param logger The logger to decorate.
+ * @param registry The level registry.
+ * @returns A logger consulting the registry.
+ */
+export const withLevelRegistry = (logger: Logger, registry: LevelRegistry): Logger => {
+  if (logger === OFF_LOGGER) {
+    return OFF_LOGGER;
+  }
+
+  return handlePrefixWrapping(logger, (original: Logger) => {
+    const createView = (prefix: string | undefined): Logger =>
+      createLogger(() => registry.resolve(prefix) ?? original.level, {
+        sink: (entryLevel, message, args) => {
+          const originalLevel = original.level;
+          if (originalLevel !== 'off' && !shouldEmitEntry(originalLevel, entryLevel)) {
+            entryLevel = originalLevel;
+          }
+          original.log(entryLevel, message, ...(args ?? emptyArray()));
+        },
+        flush: original.flush && (() => original.flush?.()),
+        close: original.close && (() => original.close?.()),
+      });
+
+    const views = new Map<string, Logger>();
+    return withPrefixViews(createView(undefined), (prefix, prefixSeparator) => {
+      const path = prefixSeparator === '.' ? prefix : prefix.split(prefixSeparator).join('.');
+      let view = views.get(path);
+      if (!view) {
+        view = createView(path);
+        views.set(path, view);
+      }
+      return view;
+    });
+  });
+};
+
+/**
+ * Parses level rules from a text, which is either a JSON object (e.g., `{"*":"info","db.pool":"debug"}`) or a comma
+ * separated list of `pattern=level` pairs (e.g., `*=info,db.pool=debug`).
+ *
+ * @example
+ *
+ * ```ts
+ * import { createLevelRegistry, parseLevelRules } from 'emitnlog/logger';
+ *
+ * const registry = createLevelRegistry(parseLevelRules(process.env.APP_LOG_LEVELS ?? '*=info'));
+ * ```
+ *
+ * @param text The text to parse.
+ * @returns The level rules.
+ * @throws An error if the text is not valid.
+ */
+export const parseLevelRules = (text: string): LevelRules => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    const value: unknown = JSON.parse(trimmed);
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('IllegalArgument: the level rules must be a JSON object');
+    }
+    validateRules(value as Record<string, unknown>);
+    return value as LevelRules;
+  }
+
+  const rules: Record<string, unknown> = {};
+  for (const pair of trimmed.split(',')) {
+    if (pair.trim()) {
+      const index = pair.indexOf('=');
+      if (index <= 0) {
+        throw new Error(`IllegalArgument: invalid level rule '${pair.trim()}', expected 'pattern=level'`);
+      }
+      rules[pair.slice(0, index).trim()] = pair.slice(index + 1).trim();
+    }
+  }
+
+  validateRules(rules);
+  return rules as LevelRules;
+};
+
+type CompiledRule = {
+  readonly segments: readonly string[];
+  readonly wildcards: number;
+  readonly level: LogLevel | 'off';
+};
+
+const MAX_CACHED_PREFIXES = 1000;
+
+const validateRules = (rules: Record<string, unknown>): void => {
+  for (const [pattern, level] of Object.entries(rules)) {
+    if (level !== 'off' && !isLogLevel(level)) {
+      throw new Error(`IllegalArgument: invalid level '${String(level)}' for the level rule '${pattern}'`);
+    }
+  }
+};
+
+const compileRules = (rules: LevelRules): readonly CompiledRule[] => {
+  validateRules(rules);
+  return Object.entries(rules).map(([pattern, level]) => {
+    const segments = pattern === '*' ? emptyArray<string>() : pattern.split('.');
+    return { segments, wildcards: segments.filter((segment) => segment === '*').length, level };
+  });
+};
+
+const resolveLevel = (rules: readonly CompiledRule[], segments: readonly string[]): LogLevel | 'off' | undefined => {
+  let match: CompiledRule | undefined;
+  for (const rule of rules) {
+    if (
+      rule.segments.length <= segments.length &&
+      rule.segments.every((segment, index) => segment === '*' || segment === segments[index]) &&
+      (!match ||
+        rule.segments.length > match.segments.length ||
+        (rule.segments.length === match.segments.length && rule.wildcards < match.wildcards))
+    ) {
+      match = rule;
+    }
+  }
+  return match?.level;
+};
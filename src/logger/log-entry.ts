@@ -1,7 +1,8 @@
 import type { Writable } from 'type-fest';
 
 import { stringify } from '../utils/converter/stringify.ts';
-import type { LogLevel } from './definition.ts';
+import type { LogContext, LogLevel } from './definition.ts';
+import { splitContextArgs } from './implementation/context-utils.ts';
 
 /**
  * Represents a structured log entry with timestamp and metadata.
@@ -34,13 +35,19 @@ export type LogEntry = {
    * Additional arguments provided with the log entry.
    */
   readonly args?: readonly unknown[];
+
+  /**
+   * The structured context fields bound to the entry (see `withContext`).
+   */
+  readonly context?: LogContext;
 };
 
 /**
- * Creates a LogEntry object with the current timestamp.
+ * Creates a LogEntry object with the current timestamp, or with the given timestamp for entries emitted in the past.
  *
  * This utility function is used by formatters that need to work with structured log data including timestamps. The
- * timestamp is automatically set to the current time.
+ * timestamp is automatically set to the current time. Context arguments (see `withContext`) are removed from `args` and
+ * merged into `context`.
  *
  * @example
  *
@@ -54,13 +61,22 @@ export type LogEntry = {
  * @param level The log level
  * @param message The log message
  * @param args Additional arguments
- * @returns A LogEntry object with current timestamp
+ * @param timestamp The timestamp of the entry, in milliseconds since epoch (default: the current time)
+ * @returns A LogEntry object with the timestamp
  */
-export const asLogEntry = (level: LogLevel, message: string, args?: readonly unknown[]): LogEntry => {
-  const now = new Date();
-  const entry: Writable<LogEntry> = { level, timestamp: Date.now(), iso: stringify(now), message };
-  if (args?.length) {
-    entry.args = args;
+export const asLogEntry = (
+  level: LogLevel,
+  message: string,
+  args?: readonly unknown[],
+  timestamp = Date.now(),
+): LogEntry => {
+  const entry: Writable<LogEntry> = { level, timestamp, iso: stringify(new Date(timestamp)), message };
+  const split = splitContextArgs(args);
+  if (split.args?.length) {
+    entry.args = split.args;
+  }
+  if (split.context) {
+    entry.context = split.context;
   }
   return entry;
 };
@@ -1,5 +1,5 @@
 import { createLogger } from './emitter/emitter-logger.ts';
-import type { MemoryStore } from './emitter/index.ts';
+import type { MemorySinkOptions, MemoryStore } from './emitter/index.ts';
 import { memorySink } from './emitter/memory-sink.ts';
 import { asExtendedLogger } from './factory.ts';
 import type { SyncFinalizer } from './implementation/finalizer.ts';
@@ -15,7 +15,9 @@ export type MemoryLogger = SyncFinalizer<Logger> & MemoryStore;
 /**
  * Creates a logger that accumulates the log entries.
  *
- * The entries are flushed on `flush()` and `close()`.
+ * The entries are flushed on `flush()` and `close()`. If a capacity is specified, only the latest entries are kept and
+ * the removed entries are counted as `dropped`, allowing the logger to be kept in production to inspect the entries
+ * that preceded a failure (see `MemoryStore` for the query and dump methods).
  *
  * @example
  *
@@ -26,11 +28,30 @@ export type MemoryLogger = SyncFinalizer<Logger> & MemoryStore;
  * logger.flush();
  * ```
  *
+ * @example Keeping the latest entries
+ *
+ * ```ts
+ * const logger = createMemoryLogger('trace', { capacity: 500 });
+ *
+ * // Later, when something goes wrong
+ * console.error(logger.dump(emitter.plainFormatter, { level: 'debug' }));
+ * ```
+ *
  * @param level
+ * @param options Configuration options for the memory sink that stores the entries.
  * @returns
  */
-export const createMemoryLogger = (level: LogLevel | 'off' | (() => LogLevel | 'off') = 'info'): MemoryLogger => {
-  const sink = memorySink();
+export const createMemoryLogger = (
+  level: LogLevel | 'off' | (() => LogLevel | 'off') = 'info',
+  options?: MemorySinkOptions,
+): MemoryLogger => {
+  const sink = memorySink([], options);
   const logger = createLogger(level, sink);
-  return asExtendedLogger(logger, { entries: sink.entries });
+  const memoryLogger = asExtendedLogger(logger, { query: sink.query, snapshot: sink.snapshot, dump: sink.dump });
+
+  // The entries (replaced by the ring buffer of a capacity) and the number of dropped entries change, so they cannot be
+  // copied like the other extensions
+  Object.defineProperty(memoryLogger, 'entries', { get: () => sink.entries, enumerable: true });
+  Object.defineProperty(memoryLogger, 'dropped', { get: () => sink.dropped, enumerable: true });
+  return memoryLogger as typeof memoryLogger & Pick<MemoryStore, 'entries' | 'dropped'>;
 };
@@ -35,6 +35,17 @@ import { createFileLogger } from './factory.ts';
  *   - `colorful`
  *   - `ndjson`
  *   - `json-pretty`
+ *   - `otel`
+ *   - `logfmt`
+ *   - `ecs`
+ *
+ * EMITNLOG_FILE_ROTATION: The rotation of the file logger (NodeJS only).
+ * A comma-separated list of options (at least `maxSize` or `interval` is required)
+ *   - `maxSize=<size>`: Rotates the file when it reaches the size, in bytes or with a `kb`, `mb`, or `gb` unit
+ *   - `interval=daily|hourly`: Rotates the file when the local day or hour changes
+ *   - `maxFiles=<count>`: The number of rotated files to keep
+ *   - `compress`: Gzips the rotated files
+ * For example: `maxSize=10mb,interval=daily,maxFiles=7,compress`
  * ```
  *
  * If a environment variable is not set, the associated value in `options` is used.
@@ -97,6 +108,7 @@ export const fromEnv = (options?: EnvironmentLoggerOptions): Logger => {
   return decodedEnv?.envFile
     ? createFileLogger(decodedEnv.envFile, {
         datePrefix: decodedEnv.envDatePrefix,
+        rotation: decodedEnv.envFileRotation,
         level: decodedEnv.envLevel,
         format: decodedEnv.envFormat,
       })
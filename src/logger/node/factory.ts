@@ -98,6 +98,17 @@ export function createFileLogger(filePath: string, level?: LogLevel, format?: Lo
  * logger.d`Processing user request`;
  * ```
  *
+ * @example With rotation
+ *
+ * ```ts
+ * import { createFileLogger } from 'emitnlog/logger/node';
+ *
+ * // Rotates the file every day or when it reaches 10MB, keeping the 7 most recent gzipped files
+ * const logger = createFileLogger('/var/log/app.log', {
+ *   rotation: { maxSize: 10 * 1024 * 1024, interval: 'daily', maxFiles: 7, compress: true },
+ * });
+ * ```
+ *
  * @example With error handling
  *
  * ```ts
@@ -133,6 +144,9 @@ export function createFileLogger(
 
       case 'ndjson':
       case 'json-pretty':
+      case 'otel':
+      case 'logfmt':
+      case 'ecs':
         break;
 
       default:
@@ -1,5 +1,8 @@
-import * as os from 'node:os';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { access, rename, stat, unlink } from 'node:fs/promises';
 import * as path from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { createGzip } from 'node:zlib';
 
 import type { Simplify } from 'type-fest';
 
@@ -9,6 +12,8 @@ import type { LogFormatter } from '../emitter/formatter.ts';
 import { plainFormatter } from '../emitter/formatter.ts';
 import type { LogSink } from '../emitter/sink.ts';
 import type { AsyncFinalizer } from '../implementation/finalizer.ts';
+import { resolveLogFilePath } from './log-file-path.ts';
+import { listRotatedFiles, splitFileName } from './rotated-log-files.ts';
 
 /**
  * Configuration options for the file sink.
@@ -47,6 +52,47 @@ export type FileSinkOptions = {
    * Error handler callback for file operations. If not provided, errors are ignored.
    */
   readonly errorHandler?: (error: unknown) => void;
+
+  /**
+   * Rotates the log file based on its size and/or on time boundaries. By default the file is never rotated.
+   */
+  readonly rotation?: FileRotationOptions;
+};
+
+/**
+ * Configuration options for the rotation of a log file.
+ *
+ * When the file is rotated, it is renamed to `<name>.<yyyyMMdd-hhmmss>.<ext>` (e.g., `app.20250115-103045.log`) using
+ * the local time when the entries of the file started: the start of the day or hour of the file if `interval` is set
+ * (e.g., `app.20250115-000000.log` holds the entries of January 15th), and otherwise the time the file was created. A
+ * new file is then created at the original path. A numeric suffix is appended to the timestamp if a rotated file with
+ * the same name already exists (e.g., `app.20250115-103045-1.log`) and, if `compress` is set, `.gz` is appended to the
+ * rotated file name.
+ */
+export type FileRotationOptions = {
+  /**
+   * Rotates the file before an entry would make it larger than this number of bytes. A file is never rotated while
+   * empty, so a single entry larger than `maxSize` is still written.
+   */
+  readonly maxSize?: number;
+
+  /**
+   * Rotates the file when the local time crosses a day or hour boundary. The boundary check uses the last modification
+   * time of an existing file, so restarting an application on the next day also rotates the previous file.
+   */
+  readonly interval?: 'daily' | 'hourly';
+
+  /**
+   * The maximum number of rotated files to keep, deleting the oldest ones. By default all rotated files are kept.
+   */
+  readonly maxFiles?: number;
+
+  /**
+   * Whether to gzip the rotated files.
+   *
+   * @default false
+   */
+  readonly compress?: boolean;
 };
 
 export type FileSink = Simplify<
@@ -70,6 +116,7 @@ export type FileSink = Simplify<
  * - Automatic directory creation
  * - Home directory expansion
  * - Graceful error handling
+ * - Optional size and time based rotation (see {@link FileRotationOptions})
  *
  * Regarding the `filePath` argument:
  *
@@ -99,6 +146,21 @@ export type FileSink = Simplify<
  * );
  * ```
  *
+ * @example With rotation
+ *
+ * ```ts
+ * import { emitter } from 'emitnlog/logger';
+ * import { fileSink } from 'emitnlog/logger/node';
+ *
+ * // Rotates daily or when the file reaches 10MB, keeping the last 7 gzipped files
+ * const logger = emitter.createLogger(
+ *   'info',
+ *   fileSink('/var/log/app.log', undefined, {
+ *     rotation: { maxSize: 10 * 1024 * 1024, interval: 'daily', maxFiles: 7, compress: true },
+ *   }),
+ * );
+ * ```
+ *
  * @param filePath The path to the log file.
  */
 export const fileSink = (
@@ -119,52 +181,197 @@ export const fileSink = (
     return { sink: () => void 0, filePath: '', flush: () => Promise.resolve(), close: () => Promise.resolve() };
   }
 
-  let resolvedPath: string;
-  if (filePath.includes('/') || filePath.includes('\\')) {
-    if (filePath.startsWith('~')) {
-      resolvedPath = path.join(os.homedir(), filePath.substring(1));
-    } else if (path.isAbsolute(filePath)) {
-      resolvedPath = filePath;
-    } else {
-      resolvedPath = path.resolve(filePath);
-    }
-  } else {
-    resolvedPath = path.join(os.tmpdir(), filePath);
-  }
+  let resolvedPath = resolveLogFilePath(filePath);
 
   if (config.datePrefix) {
-    const now = new Date();
-    const p = (n: number) => String(n).padStart(2, '0');
-    const datePrefix = `${now.getFullYear()}${p(now.getMonth() + 1)}${p(now.getDate())}-${p(now.getHours())}${p(now.getMinutes())}${p(now.getSeconds())}`;
-    resolvedPath = path.join(path.dirname(resolvedPath), `${datePrefix}_${path.basename(resolvedPath)}`);
+    resolvedPath = path.join(
+      path.dirname(resolvedPath),
+      `${toLocalTimestamp(new Date())}_${path.basename(resolvedPath)}`,
+    );
   }
 
   const errorHandler = options?.errorHandler && ((error: unknown) => options.errorHandler!(errorify(error)));
-  const writer = createFileWriter(resolvedPath, {
+  const writerOptions = {
     overwrite: config.overwrite,
     errorHandler,
     encoding: options?.encoding ?? 'utf8',
     mode: options?.mode ?? 0o666,
-  });
+  } as const;
+  let writer = createFileWriter(resolvedPath, writerOptions);
+
+  const rotation = options?.rotation;
+  if (!rotation?.maxSize && !rotation?.interval) {
+    return {
+      sink: (level, message, args): void => {
+        if (writer.isClosed()) {
+          return;
+        }
+
+        // Format the message immediately to ensure correct timestamp
+        writer.write(formatter(level, message, args));
+      },
+
+      filePath: resolvedPath,
+
+      flush(): Promise<void> {
+        return writer.flush();
+      },
+
+      close(): Promise<void> {
+        return writer.close();
+      },
+    };
+  }
+
+  const maxSize = rotation.maxSize && rotation.maxSize > 0 ? rotation.maxSize : undefined;
+  const interval = rotation.interval;
+
+  let closed = false;
+  let size = 0;
+  let startedAt = new Date();
+  let period = interval && toRotationPeriod(startedAt, interval);
+
+  // Lines emitted while the file is being inspected or rotated are appended once the task completes
+  let pending: string[] = [];
+  let task: Promise<void> | undefined;
+
+  // The errors of the operation are only reported to the error handler, so the task never rejects
+  const runTask = (operation: () => Promise<void>): void => {
+    task = (async () => {
+      try {
+        await operation();
+      } catch (error) {
+        errorHandler?.(error);
+      } finally {
+        task = undefined;
+        const lines = pending;
+        pending = [];
+        for (const line of lines) {
+          append(line);
+        }
+      }
+    })();
+  };
+
+  const append = (line: string): void => {
+    if (task) {
+      pending.push(line);
+      return;
+    }
+
+    const bytes = Buffer.byteLength(line, writerOptions.encoding) + 1;
+    if (
+      (maxSize && size && size + bytes > maxSize) ||
+      (interval && period !== toRotationPeriod(new Date(), interval))
+    ) {
+      pending.push(line);
+      runTask(async () => {
+        try {
+          await writer.close();
+          await rotateFile(resolvedPath, period ? toPeriodStart(period) : toLocalTimestamp(startedAt), rotation);
+        } finally {
+          writer = createFileWriter(resolvedPath, { ...writerOptions, overwrite: false });
+          size = 0;
+          startedAt = new Date();
+          period = interval && toRotationPeriod(startedAt, interval);
+        }
+      });
+      return;
+    }
+
+    size += bytes;
+    writer.write(line);
+  };
+
+  const settle = async (): Promise<void> => {
+    if (task) {
+      await task;
+      await settle();
+    }
+  };
+
+  if (!config.overwrite) {
+    runTask(async () => {
+      const stats = await stat(resolvedPath).catch(() => undefined);
+      if (stats?.size) {
+        size = stats.size;
+        startedAt = stats.birthtimeMs > 0 ? stats.birthtime : stats.mtime;
+        period = interval && toRotationPeriod(stats.mtime, interval);
+      }
+    });
+  }
 
   return {
     sink: (level, message, args): void => {
-      if (writer.isClosed()) {
-        return;
+      if (!closed) {
+        // Format the message immediately to ensure correct timestamp
+        append(formatter(level, message, args));
       }
-
-      // Format the message immediately to ensure correct timestamp
-      writer.write(formatter(level, message, args));
     },
 
     filePath: resolvedPath,
 
-    flush(): Promise<void> {
-      return writer.flush();
+    async flush(): Promise<void> {
+      await settle();
+      await writer.flush();
     },
 
-    close(): Promise<void> {
-      return writer.close();
+    async close(): Promise<void> {
+      closed = true;
+      await settle();
+      await writer.close();
     },
   };
 };
+
+const toLocalTimestamp = (date: Date): string => {
+  const p = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}${p(date.getMonth() + 1)}${p(date.getDate())}-${p(date.getHours())}${p(date.getMinutes())}${p(date.getSeconds())}`;
+};
+
+const toRotationPeriod = (date: Date, interval: 'daily' | 'hourly'): string => {
+  const timestamp = toLocalTimestamp(date);
+  return interval === 'daily' ? timestamp.slice(0, 8) : timestamp.slice(0, 11);
+};
+
+const toPeriodStart = (period: string): string => (period.length === 8 ? `${period}-000000` : `${period}0000`);
+
+const rotateFile = async (filePath: string, timestamp: string, rotation: FileRotationOptions): Promise<void> => {
+  if (!(await exists(filePath))) {
+    return;
+  }
+
+  const directory = path.dirname(filePath);
+  const { name, extension } = splitFileName(filePath);
+
+  const rotatedPath = await toAvailablePath(directory, `${name}.${timestamp}`, extension);
+  await rename(filePath, rotatedPath);
+
+  if (rotation.compress) {
+    await pipeline(createReadStream(rotatedPath), createGzip(), createWriteStream(`${rotatedPath}.gz`));
+    await unlink(rotatedPath);
+  }
+
+  if (rotation.maxFiles !== undefined && rotation.maxFiles >= 0) {
+    const rotatedFiles = await listRotatedFiles(filePath);
+    const excess = Math.max(0, rotatedFiles.length - rotation.maxFiles);
+    await Promise.all(rotatedFiles.slice(0, excess).map((file) => unlink(file)));
+  }
+};
+
+/**
+ * Returns the first path, starting with `<base><extension>` and then `<base>-1<extension>`, `<base>-2<extension>`, and
+ * so on, that is not taken by a file or by its compressed version.
+ */
+const toAvailablePath = async (directory: string, base: string, extension: string, index = 0): Promise<string> => {
+  const candidate = path.join(directory, `${base}${index ? `-${index}` : ''}${extension}`);
+  return (await exists(candidate)) || (await exists(`${candidate}.gz`))
+    ? toAvailablePath(directory, base, extension, index + 1)
+    : candidate;
+};
+
+const exists = (filePath: string): Promise<boolean> =>
+  access(filePath).then(
+    () => true,
+    () => false,
+  );
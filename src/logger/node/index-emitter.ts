@@ -1,2 +1,4 @@
 export * from '../emitter/index.ts';
 export * from './file-sink.ts';
+export * from './syslog-sink.ts';
+export * from './worker-sink.ts';
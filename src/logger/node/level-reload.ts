@@ -0,0 +1,123 @@
+import { readFileSync } from 'node:fs';
+
+import type { SyncClosable } from '../../utils/common/closable.ts';
+import { errorify } from '../../utils/converter/errorify.ts';
+import type { LevelRegistry, LevelRules } from '../level-registry.ts';
+import { parseLevelRules } from '../level-registry.ts';
+
+const ENV_LEVELS = 'EMITNLOG_LEVELS';
+
+/**
+ * Configuration options for {@link reloadLevelsOnSignal}.
+ */
+export type LevelReloadOptions = {
+  /**
+   * The path of the file with the level rules, as a JSON object or as `pattern=level` pairs (see `parseLevelRules`). If
+   * not provided, the rules are read from the `EMITNLOG_LEVELS` environment variable.
+   */
+  readonly filePath?: string;
+
+  /**
+   * The signal that triggers the reload.
+   *
+   * @default 'SIGHUP'
+   */
+  readonly signal?: string;
+
+  /**
+   * Error handler callback for rules that cannot be read or parsed, which are ignored (keeping the current rules). If
+   * not provided, errors are ignored.
+   */
+  readonly errorHandler?: (error: Error) => void;
+};
+
+/**
+ * A handle of the level rules reloaded by {@link reloadLevelsOnSignal}.
+ */
+export type LevelReloader = SyncClosable & {
+  /**
+   * Reads the level rules and sets them in the registry, like when the signal is received.
+   */
+  readonly reload: () => void;
+};
+
+/**
+ * Sets the level rules of a registry from a file or from the `EMITNLOG_LEVELS` environment variable, and reads them
+ * again whenever the process receives a signal (`SIGHUP` by default). This allows, for example, debug output to be
+ * enabled for a single subsystem of a running process, without restarting it.
+ *
+ * The `EMITNLOG_LEVELS` environment variable holds the rules as a JSON object (e.g., `{"*":"info","db.pool":"debug"}`),
+ * as `pattern=level` pairs (e.g., `*=info,db.pool=debug`), or as `file:` followed by the path of a file with the rules
+ * (e.g., `file:/etc/my-app/levels.json`), which is read again on each signal. The registry is not changed when neither
+ * the `filePath` option nor the environment variable is set, or when the rules cannot be read or parsed.
+ *
+ * @example
+ *
+ * ```ts
+ * import {
+ *   createConsoleLogLogger,
+ *   createLevelRegistry,
+ *   reloadLevelsOnSignal,
+ *   withLevelRegistry,
+ * } from 'emitnlog/logger';
+ *
+ * // EMITNLOG_LEVELS=file:/etc/my-app/levels.json
+ * const registry = createLevelRegistry({ '*': 'info' });
+ * const logger = withLevelRegistry(createConsoleLogLogger('trace'), registry);
+ *
+ * reloadLevelsOnSignal(registry, {
+ *   errorHandler: (error) => logger.args(error).e`Failed to reload the log levels`,
+ * });
+ *
+ * // Edit /etc/my-app/levels.json and run `kill -HUP <pid>` to apply the new levels
+ * ```
+ *
+ * @param registry The level registry.
+ * @param options Configuration options.
+ * @returns A handle to reload the rules on demand or to stop listening to the signal.
+ */
+export const reloadLevelsOnSignal = (registry: LevelRegistry, options?: LevelReloadOptions): LevelReloader => {
+  const signal = options?.signal ?? 'SIGHUP';
+
+  const reload = (): void => {
+    let rules: LevelRules | undefined;
+    try {
+      rules = readLevelRules(options?.filePath);
+    } catch (error) {
+      try {
+        options?.errorHandler?.(errorify(error));
+      } catch {
+        // ignore
+      }
+      return;
+    }
+
+    if (rules) {
+      registry.set(rules);
+    }
+  };
+
+  const listener = () => reload();
+  process.on(signal, listener);
+  reload();
+
+  return {
+    reload,
+    close: () => {
+      process.off(signal, listener);
+    },
+  };
+};
+
+const readLevelRules = (filePath: string | undefined): LevelRules | undefined => {
+  if (filePath) {
+    return parseLevelRules(readFileSync(filePath, 'utf8'));
+  }
+
+  const value = process.env[ENV_LEVELS]?.trim();
+  if (!value) {
+    return undefined;
+  }
+
+  return parseLevelRules(value.startsWith('file:') ? readFileSync(value.slice('file:'.length), 'utf8') : value);
+};
@@ -0,0 +1,98 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { emptyArray } from '../../utils/common/empty.ts';
+import type { LogContext, Logger } from '../definition.ts';
+import { createLogger } from '../emitter/emitter-logger.ts';
+import { isContextArg, toContextArg } from '../implementation/context-utils.ts';
+import { OFF_LOGGER } from '../off-logger.ts';
+import { handlePrefixWrapping } from '../prefixed-logger.ts';
+
+const logContextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Runs a function with an ambient log context, backed by NodeJS's `AsyncLocalStorage`.
+ *
+ * The context is available to everything executed by `fn`, including asynchronous continuations, and is added to the
+ * entries emitted by loggers decorated with {@link withAmbientContext}. Nested calls merge the fields, with the inner
+ * values taking precedence.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createConsoleLogLogger, runWithLogContext, withAmbientContext } from 'emitnlog/logger/node';
+ *
+ * const logger = withAmbientContext(createConsoleLogLogger('info', 'ndjson'));
+ *
+ * const loadUser = async (id: string) => {
+ *   logger.i`Loading user ${id}`; // {..., "message": "Loading user 42", "requestId": "abc"}
+ * };
+ *
+ * await runWithLogContext({ requestId: 'abc' }, () => loadUser('42'));
+ * ```
+ *
+ * @param context The context fields.
+ * @param fn The function to run.
+ * @returns The value returned by `fn`.
+ */
+export const runWithLogContext = <T>(context: LogContext, fn: () => T): T => {
+  const parentContext = logContextStorage.getStore();
+  return logContextStorage.run(Object.freeze({ ...parentContext, ...context }), fn);
+};
+
+/**
+ * Returns the ambient log context set by {@link runWithLogContext}.
+ *
+ * @returns The active context fields or undefined if there is none.
+ */
+export const getAmbientLogContext = (): LogContext | undefined => logContextStorage.getStore();
+
+/**
+ * Returns a logger that adds the ambient log context (see {@link runWithLogContext}) to every emitted entry.
+ *
+ * The context is read when the entry is emitted, so a single decorated logger can be shared by the whole application
+ * while each entry carries the fields of the execution it belongs to. Fields bound with `withContext` take precedence
+ * over the ambient ones. Prefixed loggers stay prefixed.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createFileLogger, runWithLogContext, withAmbientContext } from 'emitnlog/logger/node';
+ *
+ * const logger = withAmbientContext(createFileLogger('/var/log/app.log', { format: 'ndjson' }));
+ *
+ * runWithLogContext({ tenant: 'acme' }, () => {
+ *   logger.i`Processing`; // The entry includes "tenant": "acme"
+ * });
+ * ```
+ *
+ * @param logger The logger to decorate.
+ * @returns A logger that emits all entries with the ambient context.
+ */
+export const withAmbientContext = (logger: Logger): Logger => {
+  if (logger === OFF_LOGGER) {
+    return OFF_LOGGER;
+  }
+
+  return handlePrefixWrapping(logger, (original: Logger) =>
+    createLogger(() => original.level, {
+      sink: (level, message, args = emptyArray()) => {
+        const context = logContextStorage.getStore();
+        if (!context) {
+          original.log(level, message, ...args);
+          return;
+        }
+
+        // Inserted before any existing context argument so that explicit fields take precedence
+        const contextArg = toContextArg(context);
+        const index = args.findIndex(isContextArg);
+        original.log(
+          level,
+          message,
+          ...(index === -1 ? [...args, contextArg] : [...args.slice(0, index), contextArg, ...args.slice(index)]),
+        );
+      },
+      flush: () => original.flush?.(),
+      close: () => original.close?.(),
+    }),
+  );
+};
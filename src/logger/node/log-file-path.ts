@@ -0,0 +1,25 @@
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+/**
+ * Resolves the path of a log file using the same rules of the file sink:
+ *
+ * - Absolute paths are used as-is
+ * - Relative paths are resolved from current working directory
+ * - Paths starting with ~ are expanded to home directory
+ * - Simple filenames without path separators are placed in OS temp directory
+ *
+ * @param filePath The path of the log file.
+ * @returns The resolved path.
+ */
+export const resolveLogFilePath = (filePath: string): string => {
+  if (filePath.includes('/') || filePath.includes('\\')) {
+    if (filePath.startsWith('~')) {
+      return path.join(os.homedir(), filePath.substring(1));
+    }
+
+    return path.isAbsolute(filePath) ? filePath : path.resolve(filePath);
+  }
+
+  return path.join(os.tmpdir(), filePath);
+};
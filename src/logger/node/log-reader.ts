@@ -0,0 +1,245 @@
+import { createReadStream } from 'node:fs';
+import { createInterface } from 'node:readline';
+import type { Readable } from 'node:stream';
+import { createGunzip } from 'node:zlib';
+
+import type { Writable } from 'type-fest';
+
+import type { LogLevel } from '../definition.ts';
+import { isLogLevel, toLevelSeverity } from '../implementation/level-utils.ts';
+import { toPrefixMatcher } from '../implementation/prefix-utils.ts';
+import type { LogEntry } from '../log-entry.ts';
+import { resolveLogFilePath } from './log-file-path.ts';
+import { listRotatedFiles } from './rotated-log-files.ts';
+
+/**
+ * The criteria used to select the entries read by {@link readLogEntries}. All criteria must be satisfied by an entry.
+ */
+export type LogEntryFilter = {
+  /**
+   * The least severe level of the entries.
+   */
+  readonly minLevel?: LogLevel;
+
+  /**
+   * The most severe level of the entries.
+   */
+  readonly maxLevel?: LogLevel;
+
+  /**
+   * The earliest timestamp (inclusive) of the entries, as a date or as milliseconds since epoch.
+   */
+  readonly from?: Date | number;
+
+  /**
+   * The latest timestamp (inclusive) of the entries, as a date or as milliseconds since epoch.
+   */
+  readonly to?: Date | number;
+
+  /**
+   * The prefix of the entries emitted by prefixed loggers (see `withPrefix`), matching the entries of the prefixed
+   * logger and of its descendants. For example, `'db'` matches `'db: connected'` and `'db.pool: acquired'`, but not
+   * `'db.pool exhausted'`.
+   */
+  readonly prefix?: string;
+
+  /**
+   * The prefix separator of the prefixed loggers, used by the `prefix` filter.
+   *
+   * @default '.'
+   */
+  readonly prefixSeparator?: string;
+
+  /**
+   * The message separator of the prefixed loggers, used by the `prefix` filter.
+   *
+   * @default ': '
+   */
+  readonly messageSeparator?: string;
+
+  /**
+   * A regular expression tested against the message of the entries.
+   */
+  readonly message?: RegExp;
+
+  /**
+   * Whether to also read the rotated files (see `FileRotationOptions`), from the oldest to the newest, before the log
+   * file.
+   *
+   * @default true
+   */
+  readonly rotated?: boolean;
+};
+
+/**
+ * Reads the entries of a log file written with the `ndjson` format, yielding the entries that satisfy the filter.
+ *
+ * The file path is resolved like in the file logger (for example, simple filenames are placed in the OS temp directory)
+ * and, by default, the rotated files are read before the log file, so that the entries are yielded in the order they
+ * were written. Gzipped files (ending with `.gz`) are decompressed while read. Lines that are not valid log entries are
+ * ignored, as well as a log file that does not exist.
+ *
+ * The fields written by the `ndjson` format other than the entry properties are yielded as the entry `context`.
+ *
+ * @example
+ *
+ * ```ts
+ * import { readLogEntries } from 'emitnlog/logger';
+ *
+ * for await (const entry of readLogEntries('/var/log/app.log', {
+ *   minLevel: 'error',
+ *   from: Date.now() - 3_600_000,
+ * })) {
+ *   console.log(entry.iso, entry.message);
+ * }
+ * ```
+ *
+ * @example Grep by prefix and message
+ *
+ * ```ts
+ * import type { LogEntry } from 'emitnlog/logger';
+ * import { readLogEntries } from 'emitnlog/logger';
+ *
+ * const timeouts: LogEntry[] = [];
+ * for await (const entry of readLogEntries('~/logs/app.log', { prefix: 'db', message: /timeout/i })) {
+ *   timeouts.push(entry);
+ * }
+ * ```
+ *
+ * @param filePath The path of the log file.
+ * @param filter The criteria used to select the entries.
+ * @returns An async iterable over the selected entries.
+ */
+export const readLogEntries = async function* (filePath: string, filter?: LogEntryFilter): AsyncGenerator<LogEntry> {
+  const resolvedPath = resolveLogFilePath(filePath);
+  const filePaths =
+    filter?.rotated === false ? [resolvedPath] : [...(await listRotatedFiles(resolvedPath)), resolvedPath];
+  const accepts = toEntryPredicate(filter);
+
+  for (const path of filePaths) {
+    yield* readEntries(path, accepts);
+  }
+};
+
+const readEntries = async function* (
+  filePath: string,
+  accepts: (entry: LogEntry) => boolean,
+): AsyncGenerator<LogEntry> {
+  for await (const line of readLines(filePath)) {
+    const entry = toLogEntry(line);
+    if (entry && accepts(entry)) {
+      yield entry;
+    }
+  }
+};
+
+const readLines = async function* (filePath: string): AsyncGenerator<string> {
+  const fileStream = createReadStream(filePath);
+  try {
+    await new Promise<void>((resolve, reject) => {
+      fileStream.once('open', () => resolve());
+      fileStream.once('error', reject);
+    });
+  } catch (error) {
+    if ((error as { readonly code?: unknown }).code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  }
+
+  let stream: Readable = fileStream;
+  if (filePath.endsWith('.gz')) {
+    stream = fileStream.pipe(createGunzip());
+    fileStream.once('error', (error) => stream.destroy(error));
+  }
+
+  const lines = createInterface({ input: stream, crlfDelay: Infinity });
+  try {
+    yield* lines;
+  } finally {
+    lines.close();
+    stream.destroy();
+    fileStream.destroy();
+  }
+};
+
+const toLogEntry = (line: string): LogEntry | undefined => {
+  if (!line.trim()) {
+    return undefined;
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const { level, timestamp, iso, message, args, ...context } = value as Record<string, unknown>;
+  if (!isLogLevel(level) || typeof timestamp !== 'number' || typeof message !== 'string') {
+    return undefined;
+  }
+
+  const entry: Writable<LogEntry> = {
+    level,
+    timestamp,
+    iso: typeof iso === 'string' ? iso : new Date(timestamp).toISOString(),
+    message,
+  };
+
+  if (Array.isArray(args) && args.length) {
+    entry.args = args;
+  }
+
+  if (Object.keys(context).length) {
+    entry.context = context;
+  }
+
+  return entry;
+};
+
+const toEntryPredicate = (filter: LogEntryFilter | undefined): ((entry: LogEntry) => boolean) => {
+  if (!filter) {
+    return () => true;
+  }
+
+  const minSeverity = filter.minLevel ? toLevelSeverity(filter.minLevel) : undefined;
+  const maxSeverity = filter.maxLevel ? toLevelSeverity(filter.maxLevel) : undefined;
+  const from = filter.from === undefined ? undefined : Number(filter.from);
+  const to = filter.to === undefined ? undefined : Number(filter.to);
+  const hasPrefix = filter.prefix === undefined ? undefined : toPrefixMatcher(filter.prefix, filter);
+  const message = filter.message;
+
+  return (entry) => {
+    if (minSeverity !== undefined || maxSeverity !== undefined) {
+      const severity = toLevelSeverity(entry.level);
+      if (
+        (minSeverity !== undefined && severity < minSeverity) ||
+        (maxSeverity !== undefined && severity > maxSeverity)
+      ) {
+        return false;
+      }
+    }
+
+    if ((from !== undefined && entry.timestamp < from) || (to !== undefined && entry.timestamp > to)) {
+      return false;
+    }
+
+    if (hasPrefix && !hasPrefix(entry.message)) {
+      return false;
+    }
+
+    if (message) {
+      message.lastIndex = 0;
+      if (!message.test(entry.message)) {
+        return false;
+      }
+    }
+
+    return true;
+  };
+};
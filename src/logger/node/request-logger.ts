@@ -1,9 +1,11 @@
 import type { IncomingMessage, ServerResponse } from 'node:http';
 
 import { stringifyElapsed } from '../../utils/common/duration.ts';
-import type { Logger, LogLevel } from '../definition.ts';
+import { withContext } from '../context-logger.ts';
+import type { LogContext, Logger, LogLevel } from '../definition.ts';
 import { OFF_LOGGER } from '../off-logger.ts';
 import { withPrefix } from '../prefixed-logger.ts';
+import { runWithLogContext } from './log-context.ts';
 
 type RequestHandler = (req: IncomingMessage & { path?: string }, res: ServerResponse, next: () => void) => void;
 
@@ -52,6 +54,18 @@ export type RequestLoggerOptions = {
    * @default 'error'
    */
   readonly errorLevel?: LogLevel;
+
+  /**
+   * Binds a log context to each request. When set, the lifecycle entries are emitted with the context and `next` is
+   * invoked within `runWithLogContext`, so that loggers decorated with `withAmbientContext` include the context in the
+   * entries emitted while handling the request.
+   *
+   * Pass `true` to use `{ requestId }`, where `requestId` is the sequential request identifier, or a function that
+   * returns the context for a request.
+   *
+   * @default false
+   */
+  readonly context?: boolean | ((req: IncomingMessage, requestId: number) => LogContext);
 };
 
 /**
@@ -76,6 +90,19 @@ export type RequestLoggerOptions = {
  * app.use(requestLogger(logger));
  * ```
  *
+ * @example Request context
+ *
+ * ```ts
+ * import { createConsoleLogLogger, requestLogger, withAmbientContext } from 'emitnlog/logger/node';
+ *
+ * const logger = withAmbientContext(createConsoleLogLogger('info', 'ndjson'));
+ * app.use(
+ *   requestLogger(logger, { context: (req, requestId) => ({ requestId, tenant: req.headers['x-tenant'] }) }),
+ * );
+ *
+ * // Entries emitted by `logger` while handling a request include the request id and tenant
+ * ```
+ *
  * @example Custom prefix and levels
  *
  * ```ts
@@ -102,6 +129,7 @@ export const requestLogger = (logger: Logger, options?: RequestLoggerOptions): R
       finishLevel: 'info',
       endLevel: 'debug',
       errorLevel: 'error',
+      context: false,
     },
     ...options,
   } as const satisfies RequestLoggerOptions;
@@ -114,6 +142,13 @@ export const requestLogger = (logger: Logger, options?: RequestLoggerOptions): R
 
   return (req, res, next): void => {
     const requestIndex = requestCount++;
+    const context = config.context
+      ? config.context === true
+        ? { requestId: requestIndex }
+        : config.context(req, requestIndex)
+      : undefined;
+    const lifecycleLogger = context ? withContext(logger, context) : logger;
+
     let label = `${requestIndex}`;
 
     if (req.method) {
@@ -126,29 +161,33 @@ export const requestLogger = (logger: Logger, options?: RequestLoggerOptions): R
       label += `:${req.url}`;
     }
 
-    logger.log(config.receivedLevel, () => `received ${label}`);
+    lifecycleLogger.log(config.receivedLevel, () => `received ${label}`);
     const start = performance.now();
 
     res.on('close', () => {
-      logger.log(config.closeLevel, () => `closed ${label} after ${stringifyElapsed(start)}`);
+      lifecycleLogger.log(config.closeLevel, () => `closed ${label} after ${stringifyElapsed(start)}`);
     });
 
     res.on('finish', () => {
-      logger.log(config.finishLevel, () => `finished ${label} in ${stringifyElapsed(start)}`);
+      lifecycleLogger.log(config.finishLevel, () => `finished ${label} in ${stringifyElapsed(start)}`);
     });
 
     res.on('end', () => {
-      logger.log(config.endLevel, () => `ended ${label} in ${stringifyElapsed(start)}`);
+      lifecycleLogger.log(config.endLevel, () => `ended ${label} in ${stringifyElapsed(start)}`);
     });
 
     // May occur at any time during the event lifecycle and is emitted when there's an error writing the response.
     res.on('error', (error) => {
-      logger
+      lifecycleLogger
         .args(error)
         .log(config.errorLevel, () => `errored on ${label} after ${stringifyElapsed(start)} (${error})`);
     });
 
-    next();
+    if (context) {
+      runWithLogContext(context, next);
+    } else {
+      next();
+    }
   };
 };
 
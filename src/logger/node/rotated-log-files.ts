@@ -0,0 +1,45 @@
+import { readdir } from 'node:fs/promises';
+import * as path from 'node:path';
+
+/**
+ * Returns the paths of the rotated files of a log file, sorted from the oldest to the newest rotation.
+ *
+ * @param filePath The path of the log file.
+ * @returns The paths of the rotated files.
+ */
+export const listRotatedFiles = async (filePath: string): Promise<string[]> => {
+  const directory = path.dirname(filePath);
+  const { name, extension } = splitFileName(filePath);
+  const pattern = new RegExp(
+    `^${escapeRegExp(name)}\\.(\\d{8}-\\d{6})(?:-(\\d+))?${escapeRegExp(extension)}(?:\\.gz)?$`,
+  );
+
+  let fileNames: string[];
+  try {
+    fileNames = await readdir(directory);
+  } catch {
+    return [];
+  }
+
+  const rotatedFiles: { readonly fileName: string; readonly timestamp: string; readonly index: number }[] = [];
+  for (const fileName of fileNames) {
+    const match = pattern.exec(fileName);
+    if (match) {
+      rotatedFiles.push({ fileName, timestamp: match[1], index: match[2] ? Number(match[2]) : 0 });
+    }
+  }
+
+  return rotatedFiles
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp) || a.index - b.index)
+    .map((entry) => path.join(directory, entry.fileName));
+};
+
+/**
+ * Splits the name of a log file into the name without the extension and the extension (e.g., `app` and `.log`).
+ */
+export const splitFileName = (filePath: string): { readonly name: string; readonly extension: string } => {
+  const extension = path.extname(filePath);
+  return { name: path.basename(filePath, extension), extension };
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
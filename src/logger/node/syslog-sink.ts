@@ -0,0 +1,497 @@
+import type { Socket as DatagramSocket } from 'node:dgram';
+import { createSocket } from 'node:dgram';
+import type { Socket } from 'node:net';
+import { createConnection, isIPv6 } from 'node:net';
+import { hostname } from 'node:os';
+
+import { exhaustiveCheck } from '../../utils/common/exhaustive-check.ts';
+import { errorify } from '../../utils/converter/errorify.ts';
+import { stringify } from '../../utils/converter/stringify.ts';
+import type { LogLevel } from '../definition.ts';
+import type { LogFormatter } from '../emitter/formatter.ts';
+import type { LogSink } from '../emitter/sink.ts';
+import { splitContextArgs } from '../implementation/context-utils.ts';
+import type { AsyncFinalizer } from '../implementation/finalizer.ts';
+
+/**
+ * The syslog facilities defined by RFC 5424, identifying the type of program emitting the entries.
+ */
+export type SyslogFacility =
+  | 'kern'
+  | 'user'
+  | 'mail'
+  | 'daemon'
+  | 'auth'
+  | 'syslog'
+  | 'lpr'
+  | 'news'
+  | 'uucp'
+  | 'cron'
+  | 'authpriv'
+  | 'ftp'
+  | 'ntp'
+  | 'security'
+  | 'console'
+  | 'solaris-cron'
+  | 'local0'
+  | 'local1'
+  | 'local2'
+  | 'local3'
+  | 'local4'
+  | 'local5'
+  | 'local6'
+  | 'local7';
+
+/**
+ * Configuration options for the syslog sink.
+ */
+export type SyslogSinkOptions = {
+  /**
+   * The transport used to reach the syslog server. Since NodeJS does not support Unix datagram sockets, the `unix`
+   * transport connects to a Unix stream socket (e.g., syslog-ng's `unix-stream()` or rsyslog's `imuxsock` configured
+   * for streams) and requires the `path` option.
+   *
+   * @default 'udp'
+   */
+  readonly transport?: 'udp' | 'tcp' | 'unix';
+
+  /**
+   * The host of the syslog server, used by the `udp` and `tcp` transports.
+   *
+   * @default '127.0.0.1'
+   */
+  readonly host?: string;
+
+  /**
+   * The port of the syslog server, used by the `udp` and `tcp` transports.
+   *
+   * @default 514
+   */
+  readonly port?: number;
+
+  /**
+   * The path of the Unix stream socket, required by the `unix` transport. There is no default because `/dev/log` is
+   * usually a datagram socket, which the `unix` transport cannot connect to: connecting to a socket of the wrong type
+   * is reported to the error handler.
+   */
+  readonly path?: string;
+
+  /**
+   * The facility of the entries, as a name or as its numeric code (0 to 23).
+   *
+   * @default 'user'
+   */
+  readonly facility?: SyslogFacility | number;
+
+  /**
+   * The APP-NAME field of the frames.
+   *
+   * @default process.title
+   */
+  readonly appName?: string;
+
+  /**
+   * The HOSTNAME field of the frames.
+   *
+   * @default os.hostname()
+   */
+  readonly hostname?: string;
+
+  /**
+   * How the frames are delimited on the `tcp` and `unix` transports: `octet-counting` prefixes each frame with its
+   * length in bytes (RFC 6587) while `newline` terminates each frame with a line feed, replacing the line breaks of the
+   * message with spaces. Each `udp` datagram carries a single frame.
+   *
+   * @default 'octet-counting' for `tcp`, 'newline' for `unix`
+   */
+  readonly framing?: 'octet-counting' | 'newline';
+
+  /**
+   * The formatter used to render the MSG part of the frames. The default formatter outputs the message followed by the
+   * stringified arguments and context.
+   */
+  readonly formatter?: LogFormatter;
+
+  /**
+   * Maximum number of frames waiting for the `tcp` or `unix` connection. When the queue is full the oldest frames are
+   * dropped and reported to the error handler once the connection is established.
+   *
+   * @default 1000
+   */
+  readonly maxQueueSize?: number;
+
+  /**
+   * The delay in milliseconds before the first reconnection attempt after the `tcp` or `unix` connection drops, doubled
+   * on each subsequent attempt.
+   *
+   * @default 1000
+   */
+  readonly reconnectDelayMs?: number;
+
+  /**
+   * The maximum delay in milliseconds between reconnection attempts.
+   *
+   * @default 30000 (30s)
+   */
+  readonly maxReconnectDelayMs?: number;
+
+  /**
+   * Error handler callback for socket errors and dropped frames. If not provided, errors are ignored.
+   */
+  readonly errorHandler?: (error: Error) => void;
+};
+
+/**
+ * Creates a log sink that sends the entries to a syslog server as RFC 5424 frames, over UDP, TCP, or a Unix socket.
+ *
+ * Each entry becomes a frame like `<PRI>1 TIMESTAMP HOSTNAME APP-NAME PROCID - - MSG`, where the priority combines the
+ * facility with the severity of the entry level (`emergency` is 0, `alert` is 1, ..., `debug` and `trace` are 7).
+ *
+ * The socket is opened when the first entry is emitted and does not keep the process alive. On the `tcp` and `unix`
+ * transports, the frames emitted while disconnected are queued and the sink reconnects with exponential backoff when
+ * the connection drops. The `flush` method waits for the frames handed to the socket to be written and `close` also
+ * closes the socket, discarding the frames still waiting for a connection. Entries emitted after `close` are ignored.
+ *
+ * @example UDP
+ *
+ * ```ts
+ * import { emitter } from 'emitnlog/logger';
+ *
+ * const logger = emitter.createLogger(
+ *   'info',
+ *   emitter.syslogSink({ host: 'syslog.example.com', facility: 'local0', appName: 'my-app' }),
+ * );
+ * ```
+ *
+ * @example TCP
+ *
+ * ```ts
+ * import { emitter } from 'emitnlog/logger';
+ *
+ * const logger = emitter.createLogger(
+ *   'info',
+ *   emitter.syslogSink({
+ *     transport: 'tcp',
+ *     host: 'syslog.example.com',
+ *     port: 601,
+ *     errorHandler: (error) => console.error('Syslog error:', error),
+ *   }),
+ * );
+ * ```
+ *
+ * @param options Configuration options for the syslog sink
+ * @returns A log sink that sends the entries to the syslog server
+ */
+export const syslogSink = (options?: SyslogSinkOptions): AsyncFinalizer<LogSink> => {
+  const transport = options?.transport ?? 'udp';
+  if (transport === 'unix' && !options?.path) {
+    throw new Error('IllegalArgument: the unix transport of the syslog sink requires the path of a stream socket');
+  }
+
+  const facility = toFacilityCode(options?.facility ?? 'user');
+  const header = [
+    toHeaderField(options?.hostname ?? hostname(), 255),
+    toHeaderField(options?.appName ?? process.title, 48),
+    toHeaderField(String(process.pid), 128),
+  ].join(' ');
+  const formatter = options?.formatter ?? messageFormatter;
+
+  const reportError = (error: unknown): void => {
+    try {
+      options?.errorHandler?.(errorify(error));
+    } catch {
+      // ignore
+    }
+  };
+
+  const toFrame = (level: LogLevel, message: string, args: readonly unknown[] | undefined): string =>
+    `<${facility * 8 + toSyslogSeverity(level)}>1 ${new Date().toISOString()} ${header} - - ${formatter(level, message, args)}`;
+
+  const writer =
+    transport === 'udp'
+      ? createDatagramWriter(options?.host ?? '127.0.0.1', options?.port ?? 514, reportError)
+      : createStreamWriter(transport, options, reportError);
+
+  let closed = false;
+  return {
+    sink: (level, message, args) => {
+      if (!closed) {
+        writer.write(toFrame(level, message, args));
+      }
+    },
+
+    flush: writer.flush,
+
+    close: async () => {
+      closed = true;
+      await writer.close();
+    },
+  };
+};
+
+type FrameWriter = {
+  readonly write: (frame: string) => void;
+  readonly flush: () => Promise<void>;
+  readonly close: () => Promise<void>;
+};
+
+const createDatagramWriter = (host: string, port: number, reportError: (error: unknown) => void): FrameWriter => {
+  let socket: DatagramSocket | undefined;
+  const pending = new Set<Promise<void>>();
+
+  return {
+    write: (frame) => {
+      if (!socket) {
+        socket = createSocket(isIPv6(host) ? 'udp6' : 'udp4');
+        socket.on('error', reportError);
+        socket.unref();
+      }
+
+      const sending = new Promise<void>((resolve) => {
+        socket!.send(Buffer.from(frame), port, host, (error) => {
+          if (error) {
+            reportError(error);
+          }
+          resolve();
+        });
+      });
+
+      pending.add(sending);
+      void sending.then(() => pending.delete(sending));
+    },
+
+    flush: () => settle(pending),
+
+    close: async () => {
+      await settle(pending);
+      const closing = socket;
+      socket = undefined;
+      if (closing) {
+        await new Promise<void>((resolve) => closing.close(() => resolve()));
+      }
+    },
+  };
+};
+
+const createStreamWriter = (
+  transport: 'tcp' | 'unix',
+  options: SyslogSinkOptions | undefined,
+  reportError: (error: unknown) => void,
+): FrameWriter => {
+  const framing = options?.framing ?? (transport === 'tcp' ? 'octet-counting' : 'newline');
+  const maxQueueSize = Math.max(1, options?.maxQueueSize ?? 1000);
+  const reconnectDelayMs = Math.max(0, options?.reconnectDelayMs ?? 1000);
+  const maxReconnectDelayMs = Math.max(0, options?.maxReconnectDelayMs ?? 30_000);
+  const socketPath = options?.path ?? '';
+
+  const queue: string[] = [];
+  const pending = new Set<Promise<void>>();
+  let socket: Socket | undefined;
+  let connected = false;
+  let attempts = 0;
+  let dropped = 0;
+  let reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const toData = (frame: string): string => {
+    if (framing === 'newline') {
+      return `${frame.replace(/\r?\n/g, ' ')}\n`;
+    }
+    return `${Buffer.byteLength(frame)} ${frame}`;
+  };
+
+  const send = (connection: Socket, frame: string): void => {
+    const writing = new Promise<void>((resolve) => {
+      connection.write(toData(frame), () => resolve());
+    });
+
+    pending.add(writing);
+    void writing.then(() => pending.delete(writing));
+  };
+
+  const connect = (): void => {
+    const connection =
+      transport === 'tcp'
+        ? createConnection({ host: options?.host ?? '127.0.0.1', port: options?.port ?? 514 })
+        : createConnection({ path: socketPath });
+    socket = connection;
+    connection.unref();
+
+    connection.on('connect', () => {
+      connected = true;
+      attempts = 0;
+      if (dropped) {
+        reportError(
+          new Error(`The syslog sink queue is full: dropped ${dropped} ${dropped === 1 ? 'frame' : 'frames'}`),
+        );
+        dropped = 0;
+      }
+      for (const frame of queue.splice(0)) {
+        send(connection, frame);
+      }
+    });
+
+    connection.on('error', (error) => {
+      reportError(
+        transport === 'unix' && (error as { readonly code?: unknown }).code === 'EPROTOTYPE'
+          ? new Error(`The syslog sink requires a Unix stream socket but '${socketPath}' is not one`, { cause: error })
+          : error,
+      );
+    });
+
+    connection.on('close', () => {
+      if (socket !== connection) {
+        return;
+      }
+
+      socket = undefined;
+      connected = false;
+      if (!closed) {
+        const delay = Math.min(maxReconnectDelayMs, reconnectDelayMs * 2 ** attempts++);
+        reconnectTimeout = setTimeout(() => {
+          reconnectTimeout = undefined;
+          if (!closed && !socket) {
+            connect();
+          }
+        }, delay);
+        reconnectTimeout.unref();
+      }
+    });
+  };
+
+  return {
+    write: (frame) => {
+      if (socket && connected) {
+        send(socket, frame);
+        return;
+      }
+
+      if (queue.length >= maxQueueSize) {
+        queue.shift();
+        dropped++;
+      }
+      queue.push(frame);
+
+      if (!socket && !reconnectTimeout) {
+        connect();
+      }
+    },
+
+    flush: () => settle(pending),
+
+    close: async () => {
+      closed = true;
+      clearTimeout(reconnectTimeout);
+      reconnectTimeout = undefined;
+      queue.length = 0;
+
+      await settle(pending);
+      const closing = socket;
+      socket = undefined;
+      connected = false;
+      if (closing && !closing.destroyed) {
+        await new Promise<void>((resolve) => {
+          closing.once('close', () => resolve());
+          closing.end();
+        });
+      }
+    },
+  };
+};
+
+/**
+ * Waits for the pending writes, including the ones started while waiting.
+ */
+const settle = async (pending: ReadonlySet<Promise<void>>): Promise<void> => {
+  if (pending.size) {
+    await Promise.all(pending);
+    await settle(pending);
+  }
+};
+
+const messageFormatter: LogFormatter = (_level, message, args) => {
+  const { args: values, context } = splitContextArgs(args);
+  const parts = [message];
+  if (values) {
+    parts.push(...values.map((value) => stringify(value)));
+  }
+  if (context) {
+    parts.push(stringify(context));
+  }
+  return parts.join(' ');
+};
+
+/**
+ * Restricts a header field to its maximum length and to the printable US-ASCII characters allowed by RFC 5424, using
+ * the nil value (`-`) for empty fields.
+ */
+const toHeaderField = (value: string, maxLength: number): string =>
+  value.replace(/[^\x21-\x7e]/g, '_').slice(0, maxLength) || '-';
+
+const toFacilityCode = (facility: SyslogFacility | number): number => {
+  if (typeof facility === 'number') {
+    if (!Number.isInteger(facility) || facility < 0 || facility > 23) {
+      throw new Error(`IllegalArgument: the syslog facility must be an integer between 0 and 23, got ${facility}`);
+    }
+    return facility;
+  }
+
+  const code = FACILITIES.indexOf(facility);
+  if (code < 0) {
+    throw new Error(`IllegalArgument: unknown syslog facility '${facility}'`);
+  }
+  return code;
+};
+
+const FACILITIES: readonly SyslogFacility[] = [
+  'kern',
+  'user',
+  'mail',
+  'daemon',
+  'auth',
+  'syslog',
+  'lpr',
+  'news',
+  'uucp',
+  'cron',
+  'authpriv',
+  'ftp',
+  'ntp',
+  'security',
+  'console',
+  'solaris-cron',
+  'local0',
+  'local1',
+  'local2',
+  'local3',
+  'local4',
+  'local5',
+  'local6',
+  'local7',
+];
+
+const toSyslogSeverity = (level: LogLevel): number => {
+  switch (level) {
+    case 'emergency':
+      return 0;
+    case 'alert':
+      return 1;
+    case 'critical':
+      return 2;
+    case 'error':
+      return 3;
+    case 'warning':
+      return 4;
+    case 'notice':
+      return 5;
+    case 'info':
+      return 6;
+    case 'debug':
+    case 'trace':
+      return 7;
+
+    default:
+      exhaustiveCheck(level);
+      return 7;
+  }
+};
@@ -0,0 +1,381 @@
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { Worker } from 'node:worker_threads';
+
+import { errorify } from '../../utils/converter/errorify.ts';
+import { stringify } from '../../utils/converter/stringify.ts';
+import type { LogContext, LogLevel } from '../definition.ts';
+import type { LogSink } from '../emitter/sink.ts';
+import { splitContextArgs } from '../implementation/context-utils.ts';
+import type { AsyncFinalizer } from '../implementation/finalizer.ts';
+
+/**
+ * Configuration options for the worker sink.
+ */
+export type WorkerSinkOptions = {
+  /**
+   * A value passed to the factory of the target sink. It must be supported by the structured clone algorithm (e.g., the
+   * path of a log file or the options of the target sink without functions).
+   */
+  readonly workerData?: unknown;
+
+  /**
+   * Maximum number of entries waiting to be processed, including the entries already transferred to the worker. When
+   * this limit is reached, the `backpressure` policy decides what happens to the new entries.
+   *
+   * @default 1000
+   */
+  readonly maxBufferSize?: number;
+
+  /**
+   * What happens to the entries emitted while the buffer is full:
+   *
+   * - `drop`: the new entries are dropped
+   * - `block`: the main thread waits (up to `blockTimeoutMs`) for the worker to process the transferred entries, dropping
+   *   the entry if the worker does not catch up in time
+   * - `sample`: each new entry replaces a random entry of the buffer with the probability required to keep a uniform
+   *   sample of the entries emitted since the buffer filled up
+   *
+   * The dropped entries are reported to the error handler.
+   *
+   * @default 'drop'
+   */
+  readonly backpressure?: 'drop' | 'block' | 'sample';
+
+  /**
+   * The maximum time in milliseconds the `block` policy waits for the worker before dropping an entry.
+   *
+   * @default 1000
+   */
+  readonly blockTimeoutMs?: number;
+
+  /**
+   * Error handler callback for the errors of the worker and of the target sink, and for dropped entries. If not
+   * provided, errors are ignored.
+   */
+  readonly errorHandler?: (error: Error) => void;
+};
+
+/**
+ * Creates a log sink that offloads the formatting and I/O of another sink to a `worker_threads` worker, keeping that
+ * work away from the main thread.
+ *
+ * Since functions cannot be transferred to a worker, the target sink is created inside the worker by the default export
+ * of the `targetFactory` module: a function that receives the `workerData` option and returns the target sink (or a
+ * promise of it). The module is specified by its path (resolved from the current working directory) or file URL and is
+ * loaded with a dynamic `import`, so it must be JavaScript that NodeJS can load.
+ *
+ * The entries emitted in the same synchronous block are transferred together to the worker, which forwards them to the
+ * target sink. The number of pending entries is bounded by `maxBufferSize` and the `backpressure` policy decides what
+ * happens when the worker cannot keep up. Because the entries are processed in the worker, timestamps added by the
+ * target sink reflect when the entries were processed rather than when they were emitted. Arguments that cannot be
+ * cloned (e.g., functions) are transferred as strings.
+ *
+ * The `flush` method waits for the worker to process the pending entries and to flush the target sink, and `close` also
+ * closes the target sink and terminates the worker. The worker does not keep the process alive, so the sink should be
+ * closed (or flushed) before the process exits. Entries emitted after `close` are ignored.
+ *
+ * @example
+ *
+ * ```ts
+ * // file-sink-factory.mjs
+ * import { emitter } from 'emitnlog/logger';
+ *
+ * export default ({ filePath }) => emitter.fileSink(filePath, { formatter: emitter.ndjsonFormatter });
+ * ```
+ *
+ * ```ts
+ * import { emitter } from 'emitnlog/logger';
+ *
+ * const logger = emitter.createLogger(
+ *   'info',
+ *   emitter.workerSink(new URL('./file-sink-factory.mjs', import.meta.url), {
+ *     workerData: { filePath: '/var/log/app.log' },
+ *     maxBufferSize: 10_000,
+ *     backpressure: 'block',
+ *   }),
+ * );
+ *
+ * // Waits for the worker to write the pending entries
+ * await logger.close?.();
+ * ```
+ *
+ * @param targetFactory The path or file URL of the module whose default export creates the target sink
+ * @param options Configuration options for the worker sink
+ * @returns A log sink that forwards the entries to the target sink running in a worker
+ */
+export const workerSink = (targetFactory: string | URL, options?: WorkerSinkOptions): AsyncFinalizer<LogSink> => {
+  const maxBufferSize = Math.max(1, options?.maxBufferSize ?? 1000);
+  const backpressure = options?.backpressure ?? 'drop';
+  const blockTimeoutMs = Math.max(0, options?.blockTimeoutMs ?? 1000);
+
+  const reportError = (error: unknown): void => {
+    try {
+      options?.errorHandler?.(errorify(error));
+    } catch {
+      // ignore
+    }
+  };
+
+  // Counts the entries processed by the worker, allowing the main thread to track (and wait for) its progress
+  const processed = new BigInt64Array(new SharedArrayBuffer(BigInt64Array.BYTES_PER_ELEMENT));
+  const worker = new Worker(WORKER_SOURCE, {
+    eval: true,
+    workerData: { target: toModuleUrl(targetFactory), data: options?.workerData, processed: processed.buffer },
+  });
+  worker.unref();
+
+  const queue: WorkerEntry[] = [];
+  const requests = new Map<number, () => void>();
+  let transferred = 0n;
+  let overflow = 0;
+  let dropped = 0;
+  let lastRequestId = 0;
+  let scheduled = false;
+  let exited = false;
+  let closing: Promise<void> | undefined;
+
+  const pendingInWorker = (): number => Number(transferred - Atomics.load(processed, 0));
+
+  const transfer = (): void => {
+    if (dropped) {
+      reportError(
+        new Error(`The worker sink buffer is full: dropped ${dropped} ${dropped === 1 ? 'entry' : 'entries'}`),
+      );
+      dropped = 0;
+    }
+
+    overflow = 0;
+    if (!queue.length || exited) {
+      return;
+    }
+
+    const entries = queue.splice(0);
+    try {
+      worker.postMessage({ type: 'entries', entries });
+    } catch {
+      worker.postMessage({ type: 'entries', entries: entries.map(toCloneableEntry) });
+    }
+    transferred += BigInt(entries.length);
+  };
+
+  const scheduleTransfer = (): void => {
+    if (!scheduled) {
+      scheduled = true;
+      queueMicrotask(() => {
+        scheduled = false;
+        transfer();
+      });
+    }
+  };
+
+  const waitForWorker = (): boolean => {
+    transfer();
+    const deadline = Date.now() + blockTimeoutMs;
+    while (pendingInWorker() >= maxBufferSize) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0 || exited) {
+        return false;
+      }
+      Atomics.wait(processed, 0, Atomics.load(processed, 0), remaining);
+    }
+    return true;
+  };
+
+  const request = (type: 'flush' | 'close'): Promise<void> => {
+    transfer();
+    if (exited) {
+      return Promise.resolve();
+    }
+
+    const id = ++lastRequestId;
+    return new Promise<void>((resolve) => {
+      requests.set(id, resolve);
+      worker.ref();
+      worker.postMessage({ type, id });
+    });
+  };
+
+  const settleRequest = (id: number): void => {
+    requests.get(id)?.();
+    requests.delete(id);
+    if (!requests.size) {
+      worker.unref();
+    }
+  };
+
+  worker.on('message', (message: WorkerMessage) => {
+    if (message.type === 'done') {
+      settleRequest(message.id);
+    } else {
+      reportError(message.error);
+    }
+  });
+
+  worker.on('error', reportError);
+
+  worker.on('exit', () => {
+    exited = true;
+    queue.length = 0;
+    for (const id of [...requests.keys()]) {
+      settleRequest(id);
+    }
+  });
+
+  return {
+    sink: (level, message, args) => {
+      if (closing || exited) {
+        return;
+      }
+
+      const entry = toWorkerEntry(level, message, args);
+      if (queue.length + pendingInWorker() >= maxBufferSize) {
+        if (backpressure === 'block') {
+          if (!waitForWorker()) {
+            dropped++;
+            return;
+          }
+        } else {
+          dropped++;
+          overflow++;
+          if (backpressure === 'sample' && queue.length) {
+            const index = Math.floor(Math.random() * (queue.length + overflow));
+            if (index < queue.length) {
+              queue.splice(index, 1);
+              queue.push(entry);
+            }
+          }
+          return;
+        }
+      }
+
+      queue.push(entry);
+      scheduleTransfer();
+    },
+
+    flush: () => request('flush'),
+
+    close: () => {
+      closing ??= request('close').then(() => worker.terminate().then(() => undefined));
+      return closing;
+    },
+  };
+};
+
+type WorkerEntry = {
+  readonly level: LogLevel;
+  readonly message: string;
+  readonly args?: readonly unknown[];
+  readonly context?: LogContext;
+};
+
+type WorkerMessage =
+  | { readonly type: 'done'; readonly id: number }
+  | { readonly type: 'error'; readonly error: unknown };
+
+/**
+ * The context is transferred separately from the other arguments because the marker that identifies the context
+ * argument is a symbol property, which is not cloned.
+ */
+const toWorkerEntry = (level: LogLevel, message: string, args: readonly unknown[] | undefined): WorkerEntry => {
+  const split = splitContextArgs(args);
+  return {
+    level,
+    message,
+    args: split.args?.length ? split.args : undefined,
+    context: split.context && { ...split.context },
+  };
+};
+
+const toCloneableEntry = (entry: WorkerEntry): WorkerEntry => ({
+  ...entry,
+  args: entry.args?.map(toCloneable),
+  context:
+    entry.context && Object.fromEntries(Object.entries(entry.context).map(([key, value]) => [key, toCloneable(value)])),
+});
+
+const toCloneable = (value: unknown): unknown => {
+  try {
+    structuredClone(value);
+    return value;
+  } catch {
+    return stringify(value);
+  }
+};
+
+const toModuleUrl = (module: string | URL): string => {
+  if (module instanceof URL) {
+    return module.href;
+  }
+
+  return module.startsWith('file:') ? module : pathToFileURL(path.resolve(module)).href;
+};
+
+/**
+ * The code of the worker, which is evaluated as a CommonJS script. The context marker must match the symbol registered
+ * by `toContextArg`.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('node:worker_threads');
+
+const processed = new BigInt64Array(workerData.processed);
+const contextKey = Symbol.for('@emitnlog/logger/context');
+
+const reportError = (error) => {
+  try {
+    parentPort.postMessage({ type: 'error', error });
+  } catch {
+    parentPort.postMessage({ type: 'error', error: String(error) });
+  }
+};
+
+const toArgs = (entry) => {
+  const args = entry.args ? [...entry.args] : [];
+  if (entry.context) {
+    Object.defineProperty(entry.context, contextKey, { value: true });
+    args.push(Object.freeze(entry.context));
+  }
+  return args;
+};
+
+let ready = import(workerData.target).then((module) => {
+  if (typeof module.default !== 'function') {
+    throw new Error('IllegalArgument: the default export of the worker sink target (' + workerData.target + ') is not a function');
+  }
+  return module.default(workerData.data);
+});
+
+ready.catch((error) => {
+  reportError(error);
+  process.exit(1);
+});
+
+parentPort.on('message', (message) => {
+  ready = ready.then(async (sink) => {
+    switch (message.type) {
+      case 'entries':
+        for (const entry of message.entries) {
+          try {
+            sink.sink(entry.level, entry.message, toArgs(entry));
+          } catch (error) {
+            reportError(error);
+          }
+        }
+        Atomics.add(processed, 0, BigInt(message.entries.length));
+        Atomics.notify(processed, 0);
+        break;
+
+      case 'flush':
+      case 'close':
+        try {
+          await (message.type === 'flush' ? sink.flush?.() : sink.close?.());
+        } catch (error) {
+          reportError(error);
+        }
+        parentPort.postMessage({ type: 'done', id: message.id });
+        break;
+    }
+    return sink;
+  });
+});
+`;
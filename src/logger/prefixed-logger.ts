@@ -3,6 +3,7 @@ import type { Writable } from 'type-fest';
 import { isNotNullable } from '../utils/common/is-not-nullable.ts';
 import type { Logger, LogMessage, LogTemplateStringsArray } from './definition.ts';
 import { BaseLogger } from './implementation/base-logger.ts';
+import { toPrefixView } from './implementation/prefix-view.ts';
 import { OFF_LOGGER } from './off-logger.ts';
 
 export type PrefixedLogger<
@@ -240,7 +241,11 @@ const createPrefixedLogger = <TPrefix extends string = string, TSeparator extend
   };
 
   const runLogOperation = (internalLogger: InternalPrefixedLogger, operation: (logger: Logger) => void) => {
-    const logger = internalLogger[rootLoggerSymbol];
+    const logger = toPrefixView(
+      internalLogger[rootLoggerSymbol],
+      internalLogger[prefixSymbol],
+      internalLogger[separatorSymbol] || '.',
+    );
     const currentArgs = consumePendingArgs();
     if (currentArgs) {
       logger.args(...currentArgs);
@@ -255,7 +260,11 @@ const createPrefixedLogger = <TPrefix extends string = string, TSeparator extend
     [rootLoggerSymbol]: rootLogger,
 
     get level() {
-      return internalLogger[rootLoggerSymbol].level;
+      return toPrefixView(
+        internalLogger[rootLoggerSymbol],
+        internalLogger[prefixSymbol],
+        internalLogger[separatorSymbol] || '.',
+      ).level;
     },
 
     args: (...args) => {
@@ -1,10 +1,14 @@
 import type { SetReturnType } from 'type-fest';
 
+import type { Clock } from '../utils/async/clock.ts';
+import { systemClock } from '../utils/async/clock.ts';
 import { emptyArray, emptyRecord } from '../utils/common/empty.ts';
 import type { Logger, LogLevel } from './definition.ts';
 import { createLogger } from './emitter/emitter-logger.ts';
 import type { LogSink } from './emitter/sink.ts';
-import { shouldEmitEntry } from './implementation/level-utils.ts';
+import { shouldEmitEntry, toLevelSeverity } from './implementation/level-utils.ts';
+import type { RedactionRules } from './implementation/redaction.ts';
+import { createRedactor } from './implementation/redaction.ts';
 import { OFF_LOGGER } from './off-logger.ts';
 import { handlePrefixWrapping } from './prefixed-logger.ts';
 
@@ -217,6 +221,13 @@ export const withDedup = (
      * @returns A string key used to identify the entry in the buffer.
      */
     readonly keyProvider?: SetReturnType<LogSink['sink'], string>;
+
+    /**
+     * The clock used to measure the flush interval, which can be a manual clock (see `createManualClock`) in tests.
+     *
+     * @default systemClock
+     */
+    readonly clock?: Clock;
   },
 ): Logger => {
   if (logger === OFF_LOGGER) {
@@ -228,13 +239,14 @@ export const withDedup = (
     flushInterval = 1000,
     emitOnArgs = false,
     keyProvider = DEFAULT_KEY_PROVIDER,
+    clock = systemClock,
   } = options ?? emptyRecord<string, undefined>();
   const bufferSize = Math.max(1, flushSize);
   const interval = Math.max(0, flushInterval);
-  let lastFlushTime = Date.now();
+  let lastFlushTime = clock.now();
 
   const buffer = new Set<string>();
-  const refreshBuffer = (timestamp = Date.now()) => {
+  const refreshBuffer = (timestamp = clock.now()) => {
     lastFlushTime = timestamp;
     buffer.clear();
   };
@@ -247,7 +259,7 @@ export const withDedup = (
           return;
         }
 
-        const now = Date.now();
+        const now = clock.now();
         if ((interval && now - lastFlushTime >= interval) || buffer.size >= bufferSize) {
           refreshBuffer(now);
         }
@@ -334,3 +346,334 @@ export const withFilter = (
     ),
   );
 };
+
+/**
+ * Returns a logger that redacts sensitive information (passwords, tokens, personal data, etc.) before delegating the
+ * entries to the decorated logger.
+ *
+ * The redaction is applied to the structure of the values, and not to the formatted output:
+ *
+ * - The `keys` rule replaces the values of matching properties at any depth of the log arguments, including the values
+ *   interpolated in template logs.
+ * - The `patterns` rule replaces the matching text in the log message and in the string values of the arguments.
+ * - The custom `replacer` is invoked for every value of the arguments.
+ *
+ * Objects, arrays, maps, and sets passed as arguments are delegated as redacted copies that keep their types (the
+ * originals are never modified), errors are delegated as copies with redacted messages, stacks, and causes, and the
+ * context bound by `withContext` is redacted as well. The returned logger preserves the decorated logger’s level and
+ * works correctly with prefixed loggers. Use `emitter.redactSink` to apply the same rules to a sink.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createConsoleLogLogger, withRedaction } from 'emitnlog/logger';
+ *
+ * const logger = withRedaction(createConsoleLogLogger('info'), {
+ *   keys: ['password', 'authorization', /token/i],
+ *   patterns: [/\b\d{4}-\d{4}-\d{4}-\d{4}\b/],
+ * });
+ *
+ * logger.info('login', { user: 'john', password: 'secret' }); // args: [{ user: 'john', password: '[REDACTED]' }]
+ * logger.i`card 1234-5678-9012-3456 declined`; // message: 'card [REDACTED] declined'
+ * ```
+ *
+ * @param logger The logger to decorate.
+ * @param rules The redaction rules.
+ * @returns A logger that redacts the entries before delegating them to `logger`.
+ */
+export const withRedaction = (logger: Logger, rules: RedactionRules): Logger => {
+  if (logger === OFF_LOGGER) {
+    return OFF_LOGGER;
+  }
+
+  const redactor = createRedactor(rules);
+  return handlePrefixWrapping(logger, (original: Logger) =>
+    createLogger(
+      () => original.level,
+      {
+        sink: (level, message, args) => {
+          original.log(level, redactor.redactText(message), ...redactor.redactArgs(args ?? emptyArray()));
+        },
+        flush: () => original.flush?.(),
+        close: () => original.close?.(),
+      },
+      { stringifyOptions: { replacer: redactor.replacer } },
+    ),
+  );
+};
+
+/**
+ * Returns a logger that forwards a random sample of the entries, reducing the volume of noisy code paths while keeping
+ * a representative picture of what is happening.
+ *
+ * Each entry is forwarded with the probability defined by `rate` (or by the `perLevel` rate of its level), where `1`
+ * forwards every entry and `0` drops every entry. The dropped entries are counted and a summary entry (e.g.,
+ * `suppressed 1,234 entries`) is emitted, at the most severe level of the dropped entries, once per `summaryInterval`
+ * while entries are being dropped, and when the returned logger is flushed or closed. The returned logger preserves the
+ * wrapped logger’s level (and dynamic level changes) and works correctly with prefixed loggers.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createConsoleLogLogger, withSampling } from 'emitnlog/logger';
+ *
+ * // Keeps 10% of the entries, but all warnings and errors
+ * const logger = withSampling(createConsoleLogLogger('trace'), {
+ *   rate: 0.1,
+ *   perLevel: { warning: 1, error: 1, critical: 1, alert: 1, emergency: 1 },
+ * });
+ *
+ * for (const item of items) {
+ *   logger.d`processing ${item.id}`;
+ * }
+ * ```
+ *
+ * @param logger The logger to decorate.
+ * @param options The sampling options.
+ * @returns A logger that forwards a sample of the entries.
+ */
+export const withSampling = (
+  logger: Logger,
+  options: {
+    /**
+     * The probability, between `0` and `1`, of an entry being forwarded.
+     *
+     * @default 1
+     */
+    readonly rate?: number;
+
+    /**
+     * The probability of an entry being forwarded for specific levels, overriding `rate`.
+     */
+    readonly perLevel?: Partial<Record<LogLevel, number>>;
+
+    /**
+     * The interval in milliseconds between the summary entries reporting the number of dropped entries.
+     *
+     * Setting this to `0` disables the summary entries.
+     *
+     * @default 10s (10000)
+     */
+    readonly summaryInterval?: number;
+
+    /**
+     * The clock used to schedule the summary entries, which can be a manual clock (see `createManualClock`) in tests.
+     *
+     * @default systemClock
+     */
+    readonly clock?: Clock;
+  },
+): Logger => {
+  if (logger === OFF_LOGGER) {
+    return OFF_LOGGER;
+  }
+
+  const { rate = 1, perLevel, summaryInterval = 10_000, clock = systemClock } = options;
+
+  return handlePrefixWrapping(logger, (original: Logger) => {
+    const suppressions = trackSuppressions(original, summaryInterval, clock);
+    return createLogger(() => original.level, {
+      sink: (level, message, args) => {
+        const levelRate = perLevel?.[level] ?? rate;
+        if (levelRate >= 1 || (levelRate > 0 && Math.random() < levelRate)) {
+          original.log(level, message, ...(args ?? emptyArray()));
+        } else {
+          suppressions.suppress(level);
+        }
+      },
+
+      flush: () => {
+        suppressions.report();
+        return original.flush?.();
+      },
+
+      close: () => {
+        suppressions.close();
+        return original.close?.();
+      },
+    });
+  });
+};
+
+/**
+ * Returns a logger that limits the rate of the forwarded entries using a token bucket per key, protecting the sinks
+ * from being flooded by a hot loop that logs varied messages (which `withDedup` would not suppress).
+ *
+ * Each bucket holds up to `maxPerInterval` tokens and is continuously refilled at `maxPerInterval` tokens per
+ * `interval`, allowing short bursts while enforcing the average rate. An entry is forwarded when its bucket has a token
+ * and dropped otherwise. By default all entries share the same bucket, use `key` to have independent limits (e.g., per
+ * level or per message). The dropped entries are counted and a summary entry (e.g., `suppressed 1,234 entries`) is
+ * emitted, at the most severe level of the dropped entries, once per `summaryInterval` while entries are being dropped,
+ * and when the returned logger is flushed or closed. The returned logger preserves the wrapped logger’s level (and
+ * dynamic level changes) and works correctly with prefixed loggers.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createConsoleLogLogger, withRateLimit } from 'emitnlog/logger';
+ *
+ * // Up to 100 entries per second for each level
+ * const logger = withRateLimit(createConsoleLogLogger('info'), {
+ *   maxPerInterval: 100,
+ *   interval: 1000,
+ *   key: (level) => level,
+ * });
+ * ```
+ *
+ * @param logger The logger to decorate.
+ * @param options The rate limiting options.
+ * @returns A logger that limits the rate of the forwarded entries.
+ */
+export const withRateLimit = (
+  logger: Logger,
+  options: {
+    /**
+     * The maximum number of entries forwarded per interval (and the maximum burst size) for each key.
+     */
+    readonly maxPerInterval: number;
+
+    /**
+     * The interval in milliseconds.
+     *
+     * @default 1s (1000)
+     */
+    readonly interval?: number;
+
+    /**
+     * Provides the key of the bucket used to rate limit an entry.
+     *
+     * @default All entries share the same bucket
+     * @param level
+     * @param message
+     * @param args
+     * @returns A string key identifying the bucket.
+     */
+    readonly key?: SetReturnType<LogSink['sink'], string>;
+
+    /**
+     * The interval in milliseconds between the summary entries reporting the number of dropped entries.
+     *
+     * Setting this to `0` disables the summary entries.
+     *
+     * @default 10s (10000)
+     */
+    readonly summaryInterval?: number;
+
+    /**
+     * The clock used to refill the buckets and to schedule the summary entries, which can be a manual clock (see
+     * `createManualClock`) in tests.
+     *
+     * @default systemClock
+     */
+    readonly clock?: Clock;
+  },
+): Logger => {
+  if (logger === OFF_LOGGER) {
+    return OFF_LOGGER;
+  }
+
+  const maxTokens = Math.max(0, options.maxPerInterval);
+  const interval = Math.max(1, options.interval ?? 1000);
+  const { key: keyProvider, summaryInterval = 10_000, clock = systemClock } = options;
+
+  const buckets = new Map<string, { tokens: number; lastRefill: number }>();
+  const takeToken = (key: string): boolean => {
+    const now = clock.now();
+
+    let bucket = buckets.get(key);
+    if (bucket) {
+      bucket.tokens = Math.min(maxTokens, bucket.tokens + ((now - bucket.lastRefill) * maxTokens) / interval);
+      bucket.lastRefill = now;
+    } else {
+      if (buckets.size >= MAX_RATE_LIMIT_BUCKETS) {
+        // Full buckets are equivalent to new ones
+        for (const [bucketKey, { tokens, lastRefill }] of buckets) {
+          if (tokens + ((now - lastRefill) * maxTokens) / interval >= maxTokens) {
+            buckets.delete(bucketKey);
+          }
+        }
+      }
+
+      bucket = { tokens: maxTokens, lastRefill: now };
+      buckets.set(key, bucket);
+    }
+
+    if (bucket.tokens < 1) {
+      return false;
+    }
+
+    bucket.tokens--;
+    return true;
+  };
+
+  return handlePrefixWrapping(logger, (original: Logger) => {
+    const suppressions = trackSuppressions(original, summaryInterval, clock);
+    return createLogger(() => original.level, {
+      sink: (level, message, args) => {
+        if (takeToken(keyProvider ? keyProvider(level, message, args) : '')) {
+          original.log(level, message, ...(args ?? emptyArray()));
+        } else {
+          suppressions.suppress(level);
+        }
+      },
+
+      flush: () => {
+        suppressions.report();
+        return original.flush?.();
+      },
+
+      close: () => {
+        suppressions.close();
+        return original.close?.();
+      },
+    });
+  });
+};
+
+const MAX_RATE_LIMIT_BUCKETS = 1000;
+
+const trackSuppressions = (logger: Logger, summaryInterval: number, clock: Clock) => {
+  let count = 0;
+  let summaryLevel: LogLevel | undefined;
+  let timeoutId: unknown;
+  let closed = false;
+
+  const report = (): void => {
+    if (timeoutId !== undefined) {
+      clock.clearTimeout(timeoutId);
+      timeoutId = undefined;
+    }
+
+    if (count && summaryLevel) {
+      const message = `suppressed ${count.toLocaleString('en-US')} ${count === 1 ? 'entry' : 'entries'}`;
+      const level = summaryLevel;
+      count = 0;
+      summaryLevel = undefined;
+      logger.log(level, message);
+    }
+  };
+
+  const suppress = (level: LogLevel): void => {
+    if (summaryInterval <= 0 || closed) {
+      return;
+    }
+
+    count++;
+    if (!summaryLevel || toLevelSeverity(level) > toLevelSeverity(summaryLevel)) {
+      summaryLevel = level;
+    }
+
+    if (timeoutId === undefined) {
+      timeoutId = clock.setTimeout(report, summaryInterval);
+      // The pending summary must not keep a NodeJS process alive
+      (timeoutId as { unref?: () => void }).unref?.();
+    }
+  };
+
+  const close = (): void => {
+    closed = true;
+    report();
+  };
+
+  return { suppress, report, close };
+};
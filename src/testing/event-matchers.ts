@@ -0,0 +1,141 @@
+import type { OnEvent } from '../notifier/definition.ts';
+import type { SyncClosable } from '../utils/common/closable.ts';
+import type { Matcher } from './matcher.ts';
+import { describeList, toMatcherResult } from './matcher.ts';
+
+/**
+ * The events recorded by {@link recordEvents}.
+ */
+export type EventRecorder<T> = SyncClosable & {
+  /**
+   * The recorded events, from the oldest to the newest.
+   */
+  readonly events: readonly T[];
+
+  /**
+   * Removes the recorded events, without stopping the recording.
+   */
+  readonly clear: () => void;
+};
+
+/**
+ * Records the events of an `OnEvent` (e.g., the `onEvent` of an `EventNotifier` or the `onInvoked` of an
+ * `InvocationTracker`), to be checked with the {@link eventMatchers} or directly through the `events` property.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createEventNotifier } from 'emitnlog/notifier';
+ * import { recordEvents } from 'emitnlog/testing';
+ *
+ * const notifier = createEventNotifier<{ readonly id: number }>();
+ * const recorder = recordEvents(notifier.onEvent);
+ *
+ * notifier.notify({ id: 1 });
+ * expect(recorder.events).toEqual([{ id: 1 }]);
+ *
+ * recorder.close();
+ * ```
+ *
+ * @param onEvent The event to record.
+ * @returns The recorder, which stops recording when closed.
+ */
+export const recordEvents = <T>(onEvent: OnEvent<T>): EventRecorder<T> => {
+  const events: T[] = [];
+  const subscription = onEvent((event) => {
+    events.push(event);
+  });
+
+  return {
+    events,
+    clear: () => {
+      events.length = 0;
+    },
+    close: () => {
+      subscription.close();
+    },
+  };
+};
+
+/**
+ * The matchers of {@link eventMatchers}, used to declare the types of the matchers registered with `expect.extend`.
+ */
+export interface EventMatchers<R = unknown> {
+  /**
+   * Checks if an event recorder (see `recordEvents`) has recorded an event equal to the expected value, using the deep
+   * equality of the test framework (so asymmetric matchers like `expect.objectContaining` are supported), or any event
+   * if no value is specified.
+   *
+   * @param expected The expected event.
+   */
+  toHaveEmitted(expected?: unknown): R;
+
+  /**
+   * Checks if an event recorder (see `recordEvents`) has recorded exactly `times` events equal to the expected value,
+   * or `times` events if no value is specified.
+   *
+   * @param times The expected number of events.
+   * @param expected The expected event.
+   */
+  toHaveEmittedTimes(times: number, expected?: unknown): R;
+}
+
+/**
+ * Matchers for the events recorded by {@link recordEvents}, to be registered with `expect.extend` in Vitest or Jest.
+ *
+ * @example
+ *
+ * ```ts
+ * import { eventMatchers, recordEvents } from 'emitnlog/testing';
+ *
+ * expect.extend(eventMatchers);
+ *
+ * const recorder = recordEvents(store.onChange);
+ * store.set('theme', 'dark');
+ *
+ * expect(recorder).toHaveEmitted(expect.objectContaining({ key: 'theme' }));
+ * expect(recorder).toHaveEmittedTimes(1);
+ * ```
+ */
+export const eventMatchers: { readonly [K in keyof EventMatchers]: Matcher<Parameters<EventMatchers[K]>> } = {
+  toHaveEmitted(received, ...args) {
+    const events = toEvents(received);
+    const count = countEvents(this.equals, events, args);
+    const description = args.length ? 'event equal to the expected value' : 'event';
+    return toMatcherResult(
+      count > 0,
+      `Expected an ${description}, but none was found in:`,
+      `Expected no ${description}, but one was found in:`,
+      describeList(events),
+    );
+  },
+
+  toHaveEmittedTimes(received, times, ...args) {
+    const events = toEvents(received);
+    const count = countEvents(this.equals, events, args);
+    const description = args.length ? 'events equal to the expected value' : 'events';
+    return toMatcherResult(
+      count === times,
+      `Expected ${times} ${description}, but found ${count} in:`,
+      `Expected other than ${times} ${description}, but found ${count} in:`,
+      describeList(events),
+    );
+  },
+};
+
+/**
+ * The expected value is received as rest arguments to distinguish a missing value from an expected `undefined` event.
+ */
+const countEvents = (
+  equals: (a: unknown, b: unknown) => boolean,
+  events: readonly unknown[],
+  expected: readonly unknown[],
+): number => (expected.length ? events.filter((event) => equals(event, expected[0])).length : events.length);
+
+const toEvents = (received: unknown): readonly unknown[] => {
+  const events = (received as { readonly events?: unknown } | undefined)?.events;
+  if (!Array.isArray(events)) {
+    throw new Error('IllegalArgument: the received value is not an event recorder (it has no events array)');
+  }
+  return events;
+};
@@ -0,0 +1,5 @@
+export * from './event-matchers.ts';
+export * from './invocation-matchers.ts';
+export * from './log-matchers.ts';
+export type { Matcher, MatcherContext, MatcherResult, MessagePattern } from './matcher.ts';
+export * from './matchers.ts';
@@ -0,0 +1,120 @@
+import type { Invocation, InvocationStage, InvocationTracker } from '../tracker/invocation/definition.ts';
+import type { EventRecorder } from './event-matchers.ts';
+import { recordEvents } from './event-matchers.ts';
+import type { Matcher } from './matcher.ts';
+import { describeList, toMatcherResult } from './matcher.ts';
+
+/**
+ * Records the invocations tracked by an invocation tracker on all stages, to be checked with the
+ * {@link invocationMatchers} or directly through the `events` property.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createInvocationTracker } from 'emitnlog/tracker';
+ * import { recordInvocations } from 'emitnlog/testing';
+ *
+ * const tracker = createInvocationTracker();
+ * const recorder = recordInvocations(tracker);
+ *
+ * const fetchUser = tracker.track('fetchUser', (id: number) => ({ id }));
+ * fetchUser(1);
+ *
+ * expect(recorder.events.map((invocation) => invocation.stage.type)).toEqual(['started', 'completed']);
+ * ```
+ *
+ * @param tracker The invocation tracker.
+ * @returns The recorder, which stops recording when closed.
+ */
+export const recordInvocations = <TOperation extends string>(
+  tracker: InvocationTracker<TOperation>,
+): EventRecorder<Invocation<TOperation>> => recordEvents(tracker.onInvoked);
+
+/**
+ * The matchers of {@link invocationMatchers}, used to declare the types of the matchers registered with `expect.extend`.
+ */
+export interface InvocationMatchers<R = unknown> {
+  /**
+   * Checks if an invocation recorder (see `recordInvocations`) has recorded an invocation of the operation at the stage
+   * (or at any stage, if no stage is specified).
+   *
+   * @param operation The name of the tracked operation.
+   * @param stage The stage of the invocation.
+   */
+  toHaveTracked(operation: string, stage?: InvocationStage['type']): R;
+
+  /**
+   * Checks if an invocation recorder (see `recordInvocations`) has recorded exactly `times` invocations of the
+   * operation at the stage (or at any stage, if no stage is specified).
+   *
+   * @param times The expected number of invocations.
+   * @param operation The name of the tracked operation.
+   * @param stage The stage of the invocations.
+   */
+  toHaveTrackedTimes(times: number, operation: string, stage?: InvocationStage['type']): R;
+}
+
+/**
+ * Matchers for the invocations recorded by {@link recordInvocations}, to be registered with `expect.extend` in Vitest or
+ * Jest.
+ *
+ * @example
+ *
+ * ```ts
+ * import { invocationMatchers, recordInvocations } from 'emitnlog/testing';
+ *
+ * expect.extend(invocationMatchers);
+ *
+ * const recorder = recordInvocations(tracker);
+ * await service.refresh();
+ *
+ * expect(recorder).toHaveTracked('fetchUser', 'completed');
+ * expect(recorder).toHaveTrackedTimes(2, 'fetchOrders', 'started');
+ * expect(recorder).not.toHaveTracked('fetchUser', 'errored');
+ * ```
+ */
+export const invocationMatchers: {
+  readonly [K in keyof InvocationMatchers]: Matcher<Parameters<InvocationMatchers[K]>>;
+} = {
+  toHaveTracked(received, operation, stage) {
+    const invocations = toInvocations(received);
+    const pass = invocations.some((invocation) => matchesInvocation(invocation, operation, stage));
+    return toMatcherResult(
+      pass,
+      `Expected an invocation of '${operation}' ${describeStage(stage)}, but none was found in:`,
+      `Expected no invocation of '${operation}' ${describeStage(stage)}, but one was found in:`,
+      describeInvocations(invocations),
+    );
+  },
+
+  toHaveTrackedTimes(received, times, operation, stage) {
+    const invocations = toInvocations(received);
+    const count = invocations.filter((invocation) => matchesInvocation(invocation, operation, stage)).length;
+    return toMatcherResult(
+      count === times,
+      `Expected ${times} invocations of '${operation}' ${describeStage(stage)}, but found ${count} in:`,
+      `Expected other than ${times} invocations of '${operation}' ${describeStage(stage)}, but found ${count} in:`,
+      describeInvocations(invocations),
+    );
+  },
+};
+
+const toInvocations = (received: unknown): readonly Invocation[] => {
+  const events = (received as { readonly events?: unknown } | undefined)?.events;
+  if (!Array.isArray(events)) {
+    throw new Error('IllegalArgument: the received value is not an invocation recorder (it has no events array)');
+  }
+  return events as readonly Invocation[];
+};
+
+const matchesInvocation = (
+  invocation: Invocation,
+  operation: string,
+  stage: InvocationStage['type'] | undefined,
+): boolean => invocation.key.operation === operation && (!stage || invocation.stage.type === stage);
+
+const describeStage = (stage: InvocationStage['type'] | undefined): string =>
+  stage ? `at the '${stage}' stage` : 'at any stage';
+
+const describeInvocations = (invocations: readonly Invocation[]): string =>
+  describeList(invocations, (invocation) => `${invocation.key.operation} (${invocation.stage.type})`);
@@ -0,0 +1,149 @@
+import type { LogLevel } from '../logger/definition.ts';
+import { toLevelSeverity } from '../logger/implementation/level-utils.ts';
+import type { LogEntry } from '../logger/log-entry.ts';
+import type { Matcher, MessagePattern } from './matcher.ts';
+import { describeList, describePattern, matchesPattern, toMatcherResult } from './matcher.ts';
+
+/**
+ * The matchers of {@link logMatchers}, used to declare the types of the matchers registered with `expect.extend`.
+ *
+ * @example Vitest
+ *
+ * ```ts
+ * import type { LogMatchers } from 'emitnlog/testing';
+ *
+ * declare module 'vitest' {
+ *   interface Assertion<T = any> extends LogMatchers<T> {}
+ * }
+ * ```
+ */
+export interface LogMatchers<R = unknown> {
+  /**
+   * Checks if a memory logger (or memory sink) has an entry with the level and a message matching the pattern.
+   *
+   * @param level The level of the entry.
+   * @param message A substring of the message or a regular expression tested against the message.
+   */
+  toHaveLogged(level: LogLevel, message?: MessagePattern): R;
+
+  /**
+   * Checks if a memory logger (or memory sink) has exactly `times` entries with the level and a message matching the
+   * pattern.
+   *
+   * @param times The expected number of entries.
+   * @param level The level of the entries.
+   * @param message A substring of the message or a regular expression tested against the message.
+   */
+  toHaveLoggedTimes(times: number, level: LogLevel, message?: MessagePattern): R;
+
+  /**
+   * Checks if a memory logger (or memory sink) has entries matching the expectations in the specified order, allowing
+   * other entries between them.
+   *
+   * @param expected The level and the (optional) message pattern of each expected entry.
+   */
+  toHaveLoggedInOrder(expected: readonly (readonly [level: LogLevel, message?: MessagePattern])[]): R;
+
+  /**
+   * Checks if a memory logger (or memory sink) has an entry more severe than the level, usually negated to assert that
+   * nothing worse than the level was logged (e.g., `expect(logger).not.toHaveLoggedAbove('warning')`).
+   *
+   * @param level The level the entries are compared to.
+   */
+  toHaveLoggedAbove(level: LogLevel): R;
+}
+
+/**
+ * Matchers for the entries of a memory logger (see `createMemoryLogger`) or memory sink (see `emitter.memorySink`), to
+ * be registered with `expect.extend` in Vitest or Jest.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createMemoryLogger } from 'emitnlog/logger';
+ * import { logMatchers } from 'emitnlog/testing';
+ *
+ * expect.extend(logMatchers);
+ *
+ * const logger = createMemoryLogger('trace');
+ * await fetchWithRetries(logger);
+ *
+ * expect(logger).toHaveLogged('error', /timeout/);
+ * expect(logger).toHaveLoggedTimes(2, 'warning', 'retrying');
+ * expect(logger).toHaveLoggedInOrder([
+ *   ['info', 'connecting'],
+ *   ['error', /timeout/],
+ * ]);
+ * expect(logger).not.toHaveLoggedAbove('error');
+ * ```
+ */
+export const logMatchers: { readonly [K in keyof LogMatchers]: Matcher<Parameters<LogMatchers[K]>> } = {
+  toHaveLogged(received, level, message) {
+    const entries = toEntries(received);
+    const pass = entries.some((entry) => matchesEntry(entry, level, message));
+    return toMatcherResult(
+      pass,
+      `Expected an entry with level '${level}' and ${describePattern(message)}, but none was found in:`,
+      `Expected no entry with level '${level}' and ${describePattern(message)}, but one was found in:`,
+      describeEntries(entries),
+    );
+  },
+
+  toHaveLoggedTimes(received, times, level, message) {
+    const entries = toEntries(received);
+    const count = entries.filter((entry) => matchesEntry(entry, level, message)).length;
+    return toMatcherResult(
+      count === times,
+      `Expected ${times} entries with level '${level}' and ${describePattern(message)}, but found ${count} in:`,
+      `Expected other than ${times} entries with level '${level}' and ${describePattern(message)}, but found ${count} in:`,
+      describeEntries(entries),
+    );
+  },
+
+  toHaveLoggedInOrder(received, expected) {
+    const entries = toEntries(received);
+
+    let matched = 0;
+    for (const entry of entries) {
+      if (matched < expected.length && matchesEntry(entry, expected[matched][0], expected[matched][1])) {
+        matched++;
+      }
+    }
+
+    const describeExpected = expected.map(([level, message]) => `'${level}' with ${describePattern(message)}`);
+    return toMatcherResult(
+      matched === expected.length,
+      `Expected the entries in order: ${describeExpected.join(', ')}; the first missing entry is ${describeExpected[matched]} in:`,
+      `Expected the entries not to be in order: ${describeExpected.join(', ')}; but they were found in:`,
+      describeEntries(entries),
+    );
+  },
+
+  toHaveLoggedAbove(received, level) {
+    const entries = toEntries(received);
+    const severity = toLevelSeverity(level);
+    const above = entries.filter((entry) => toLevelSeverity(entry.level) > severity);
+    return toMatcherResult(
+      above.length > 0,
+      `Expected an entry more severe than '${level}', but none was found in:`,
+      `Expected no entry more severe than '${level}', but found:`,
+      describeEntries(above.length ? above : entries),
+    );
+  },
+};
+
+const toEntries = (received: unknown): readonly LogEntry[] => {
+  const entries = (received as { readonly entries?: unknown } | undefined)?.entries;
+  if (!Array.isArray(entries)) {
+    throw new Error(
+      'IllegalArgument: the received value is not a memory logger or memory sink (it has no entries array)',
+    );
+  }
+  return entries as readonly LogEntry[];
+};
+
+const matchesEntry = (entry: LogEntry, level: LogLevel, message: MessagePattern | undefined): boolean =>
+  entry.level === level && matchesPattern(entry.message, message);
+
+const describeEntries = (entries: readonly LogEntry[]): string =>
+  describeList(entries, (entry) => `[${entry.level}] ${entry.message}`);
@@ -0,0 +1,61 @@
+import { stringify } from '../utils/converter/stringify.ts';
+
+/**
+ * The subset of the `this` context of the Vitest and Jest matchers used by the emitnlog matchers.
+ */
+export type MatcherContext = {
+  /**
+   * True when the matcher is negated (e.g., `expect(logger).not.toHaveLogged('error')`).
+   */
+  readonly isNot?: boolean;
+
+  /**
+   * The deep equality of the test framework, which supports asymmetric matchers (e.g., `expect.objectContaining`).
+   */
+  readonly equals: (a: unknown, b: unknown) => boolean;
+};
+
+/**
+ * The result of a matcher, as expected by Vitest and Jest.
+ */
+export type MatcherResult = { readonly pass: boolean; readonly message: () => string };
+
+/**
+ * A matcher that can be registered with `expect.extend` in Vitest or Jest.
+ */
+export type Matcher<TArgs extends readonly unknown[]> = (
+  this: MatcherContext,
+  received: unknown,
+  ...args: TArgs
+) => MatcherResult;
+
+/**
+ * A message pattern: a substring of the message or a regular expression tested against the message.
+ */
+export type MessagePattern = string | RegExp;
+
+export const matchesPattern = (text: string, pattern: MessagePattern | undefined): boolean => {
+  if (pattern === undefined) {
+    return true;
+  }
+
+  if (typeof pattern === 'string') {
+    return text.includes(pattern);
+  }
+
+  pattern.lastIndex = 0;
+  return pattern.test(text);
+};
+
+export const describePattern = (pattern: MessagePattern | undefined): string =>
+  pattern === undefined ? 'any message' : typeof pattern === 'string' ? `'${pattern}'` : pattern.toString();
+
+export const describeList = <T>(items: readonly T[], describeItem: (item: T) => string = stringify): string =>
+  items.length ? items.map((item) => `  - ${describeItem(item)}`).join('\n') : '  (none)';
+
+export const toMatcherResult = (
+  pass: boolean,
+  expected: string,
+  notExpected: string,
+  details: string,
+): MatcherResult => ({ pass, message: () => `${pass ? notExpected : expected}\n${details}` });
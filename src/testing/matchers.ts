@@ -0,0 +1,48 @@
+import type { EventMatchers } from './event-matchers.ts';
+import { eventMatchers } from './event-matchers.ts';
+import type { InvocationMatchers } from './invocation-matchers.ts';
+import { invocationMatchers } from './invocation-matchers.ts';
+import type { LogMatchers } from './log-matchers.ts';
+import { logMatchers } from './log-matchers.ts';
+
+/**
+ * All the matchers of {@link testingMatchers}, used to declare the types of the matchers registered with
+ * `expect.extend`.
+ *
+ * @example Vitest
+ *
+ * ```ts
+ * // vitest.setup.ts
+ * import type { TestingMatchers } from 'emitnlog/testing';
+ * import { testingMatchers } from 'emitnlog/testing';
+ * import { expect } from 'vitest';
+ *
+ * expect.extend(testingMatchers);
+ *
+ * declare module 'vitest' {
+ *   interface Assertion<T = any> extends TestingMatchers<T> {}
+ * }
+ * ```
+ *
+ * @example Jest
+ *
+ * ```ts
+ * // jest.setup.ts
+ * import type { TestingMatchers } from 'emitnlog/testing';
+ * import { testingMatchers } from 'emitnlog/testing';
+ *
+ * expect.extend(testingMatchers);
+ *
+ * declare global {
+ *   namespace jest {
+ *     interface Matchers<R> extends TestingMatchers<R> {}
+ *   }
+ * }
+ * ```
+ */
+export interface TestingMatchers<R = unknown> extends LogMatchers<R>, EventMatchers<R>, InvocationMatchers<R> {}
+
+/**
+ * The log, event, and invocation matchers, to be registered at once with `expect.extend` in Vitest or Jest.
+ */
+export const testingMatchers = { ...logMatchers, ...eventMatchers, ...invocationMatchers } as const;
@@ -1,2 +1,3 @@
 export * from './index.ts';
 export * from './node/invocation/async-local-storage-stack.ts';
+export * from './node/prometheus-metrics.ts';
@@ -1,8 +1,12 @@
 export * from './invocation/definition.ts';
 export * from './invocation/implementation.ts';
+export * from './invocation/metrics.ts';
+export * from './invocation/recorder.ts';
+export * from './invocation/span-exporter.ts';
 export * from './invocation/stack/definition.ts';
 export * from './invocation/stack/implementation.ts';
 export * from './invocation/stage-invocation.ts';
+export * from './invocation/trace-recorder.ts';
 export * from './invocation/track-methods.ts';
 export * from './promise/definition.ts';
 export * from './promise/implementation.ts';
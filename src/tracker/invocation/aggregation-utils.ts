@@ -0,0 +1,25 @@
+/**
+ * The default upper bounds, in milliseconds, of the buckets of the latency histograms.
+ */
+export const DEFAULT_BUCKETS: readonly number[] = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10_000];
+
+/**
+ * Returns the finite, non-negative and distinct upper bounds of the buckets, sorted in ascending order.
+ *
+ * @param buckets The upper bounds specified by the user, or undefined to use the default ones.
+ * @returns The upper bounds of the buckets.
+ */
+export const toBucketBounds = (buckets: readonly number[] | undefined): readonly number[] =>
+  [...new Set(buckets ?? DEFAULT_BUCKETS)].filter((bound) => bound >= 0 && bound < Infinity).sort((a, b) => a - b);
+
+/**
+ * Appends the value to the list of the key, creating the list if needed.
+ */
+export const addTo = <T>(map: Map<string, T[]>, key: string, value: T): void => {
+  const list = map.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+};
@@ -0,0 +1,329 @@
+import type { OnEvent } from '../../notifier/definition.ts';
+import { createEventNotifier } from '../../notifier/implementation.ts';
+import type { Clock } from '../../utils/async/clock.ts';
+import { systemClock } from '../../utils/async/clock.ts';
+import type { SyncClosable } from '../../utils/common/closable.ts';
+import { closeAll } from '../../utils/common/closable.ts';
+import { toNonNegativeInteger } from '../../utils/common/duration.ts';
+import { addTo, toBucketBounds } from './aggregation-utils.ts';
+import type { Invocation, InvocationTracker } from './definition.ts';
+
+/**
+ * Configuration options for the invocation metrics.
+ */
+export type InvocationMetricsOptions = {
+  /**
+   * The upper bounds, in milliseconds, of the buckets of the latency histograms. A last bucket without upper bound
+   * (`Infinity`) is always added.
+   *
+   * @default [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000]
+   */
+  readonly buckets?: readonly number[];
+
+  /**
+   * The duration in milliseconds of the sliding window: only the invocations that ended within the window are
+   * aggregated.
+   *
+   * @default 1min (60000)
+   */
+  readonly window?: number;
+
+  /**
+   * The maximum number of invocations kept in the window. When exceeded, the oldest invocations are discarded.
+   *
+   * @default 10000
+   */
+  readonly maxSamples?: number;
+
+  /**
+   * The interval in milliseconds between the snapshots notified by `onSnapshot`. The snapshots are only produced while
+   * there are listeners.
+   *
+   * Setting this to `0` disables the notified snapshots.
+   *
+   * @default 10s (10000)
+   */
+  readonly interval?: number;
+
+  /**
+   * The clock used to time the window and the interval, which can be a manual clock (see `createManualClock`) in tests.
+   *
+   * @default systemClock
+   */
+  readonly clock?: Clock;
+};
+
+/**
+ * A cumulative bucket of a latency histogram: the number of invocations that took at most `le` milliseconds.
+ */
+export type LatencyBucket = { readonly le: number; readonly count: number };
+
+/**
+ * The statistics of the invocations (of all operations, of an operation, or with a tag) that ended within the window.
+ * The latency values are in milliseconds and are 0 when there are no invocations.
+ */
+export type InvocationStats = {
+  /**
+   * The number of completed and errored invocations.
+   */
+  readonly count: number;
+
+  /**
+   * The number of errored invocations.
+   */
+  readonly errors: number;
+
+  /**
+   * The ratio of errored invocations (between 0 and 1).
+   */
+  readonly errorRate: number;
+
+  readonly min: number;
+  readonly max: number;
+  readonly mean: number;
+  readonly p50: number;
+  readonly p95: number;
+  readonly p99: number;
+
+  /**
+   * The cumulative latency histogram, with one bucket per configured upper bound plus the `Infinity` bucket.
+   */
+  readonly histogram: readonly LatencyBucket[];
+};
+
+/**
+ * The statistics of the invocations that ended within the window.
+ */
+export type InvocationMetricsSnapshot = {
+  /**
+   * The time of the snapshot in milliseconds since epoch.
+   */
+  readonly timestamp: number;
+
+  /**
+   * The duration of the window in milliseconds.
+   */
+  readonly window: number;
+
+  /**
+   * The statistics of all invocations.
+   */
+  readonly total: InvocationStats;
+
+  /**
+   * The statistics per operation.
+   */
+  readonly operations: { readonly [operation: string]: InvocationStats };
+
+  /**
+   * The statistics per tag, keyed by `name=value`.
+   */
+  readonly tags: { readonly [tag: string]: InvocationStats };
+};
+
+/**
+ * Aggregates the invocations of a tracker over a sliding window.
+ */
+export type InvocationMetrics = SyncClosable & {
+  /**
+   * Computes the statistics of the invocations that ended within the window.
+   */
+  readonly snapshot: () => InvocationMetricsSnapshot;
+
+  /**
+   * Registers a listener notified with a snapshot on each interval.
+   */
+  readonly onSnapshot: OnEvent<InvocationMetricsSnapshot>;
+
+  /**
+   * Discards the aggregated invocations.
+   */
+  readonly reset: () => void;
+};
+
+/**
+ * Creates metrics that aggregate the completed and errored invocations of a tracker over a sliding window, per
+ * operation and per tag: counts, error rate, min/max/mean and p50/p95/p99 latencies and latency histograms.
+ *
+ * The percentiles are computed from the durations of the invocations kept in the window (up to `maxSamples`), using the
+ * nearest-rank method.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createInvocationMetrics, createInvocationTracker } from 'emitnlog/tracker';
+ *
+ * const tracker = createInvocationTracker();
+ * const metrics = createInvocationMetrics(tracker, { window: 60_000, interval: 15_000 });
+ *
+ * metrics.onSnapshot((snapshot) => {
+ *   for (const [operation, stats] of Object.entries(snapshot.operations)) {
+ *     dashboard.publish(operation, { rate: stats.count, errors: stats.errorRate, p95: stats.p95 });
+ *   }
+ * });
+ *
+ * const fetchUser = tracker.track('fetchUser', fetchUserFn);
+ * ```
+ *
+ * @param tracker The invocation tracker.
+ * @param options Optional configuration of the metrics.
+ * @returns The invocation metrics, which stop aggregating when closed.
+ */
+export const createInvocationMetrics = <TOperation extends string = string>(
+  tracker: InvocationTracker<TOperation>,
+  options?: InvocationMetricsOptions,
+): InvocationMetrics => {
+  const bounds = toBucketBounds(options?.buckets);
+  const window = Math.max(1, toNonNegativeInteger(options?.window, 60_000));
+  const maxSamples = Math.max(1, toNonNegativeInteger(options?.maxSamples, 10_000));
+  const interval = toNonNegativeInteger(options?.interval, 10_000);
+  const clock = options?.clock ?? systemClock;
+
+  let samples: Sample[] = [];
+  let timeoutId: unknown;
+  let closed = false;
+
+  const prune = (now: number): void => {
+    if (samples.length > maxSamples) {
+      samples = samples.slice(-maxSamples);
+    }
+
+    const start = now - window;
+    const firstIndex = samples.findIndex((sample) => sample.end > start);
+    if (firstIndex === -1) {
+      samples = [];
+    } else if (firstIndex > 0) {
+      samples = samples.slice(firstIndex);
+    }
+  };
+
+  const record = (invocation: Invocation, errored: boolean): void => {
+    if (invocation.stage.type === 'started') {
+      return;
+    }
+
+    samples.push({
+      end: clock.now(),
+      operation: invocation.key.operation,
+      tags: invocation.tags?.map((tag) => `${tag.name}=${String(tag.value)}`),
+      duration: invocation.stage.duration,
+      errored,
+    });
+
+    // The oldest samples are discarded in batches, so that recording does not shift the list on each invocation
+    if (samples.length >= maxSamples * 2) {
+      samples = samples.slice(-maxSamples);
+    }
+  };
+
+  const snapshot = (): InvocationMetricsSnapshot => {
+    const timestamp = clock.now();
+    prune(timestamp);
+
+    const operations = new Map<string, Sample[]>();
+    const tags = new Map<string, Sample[]>();
+    for (const sample of samples) {
+      addTo(operations, sample.operation, sample);
+      for (const tag of sample.tags ?? []) {
+        addTo(tags, tag, sample);
+      }
+    }
+
+    return {
+      timestamp,
+      window,
+      total: toStats(samples, bounds),
+      operations: toStatsRecord(operations, bounds),
+      tags: toStatsRecord(tags, bounds),
+    };
+  };
+
+  const stopInterval = (): void => {
+    clock.clearTimeout(timeoutId);
+    timeoutId = undefined;
+  };
+
+  const startInterval = (): void => {
+    timeoutId = clock.setTimeout(() => {
+      startInterval();
+      snapshotNotifier.notify(snapshot);
+    }, interval);
+  };
+
+  const snapshotNotifier = createEventNotifier<InvocationMetricsSnapshot>({
+    onChange: ({ active }) => {
+      if (active && !closed && interval && timeoutId === undefined) {
+        startInterval();
+      } else if (!active) {
+        stopInterval();
+      }
+    },
+  });
+
+  const completedSubscription = tracker.onCompleted((invocation) => record(invocation, false));
+  const erroredSubscription = tracker.onErrored((invocation) => record(invocation, true));
+
+  return {
+    snapshot,
+    onSnapshot: snapshotNotifier.onEvent,
+    reset: () => {
+      samples = [];
+    },
+    close: () => {
+      if (!closed) {
+        closed = true;
+        stopInterval();
+        closeAll(completedSubscription, erroredSubscription, snapshotNotifier);
+        samples = [];
+      }
+    },
+  };
+};
+
+type Sample = {
+  readonly end: number;
+  readonly operation: string;
+  readonly tags: readonly string[] | undefined;
+  readonly duration: number;
+  readonly errored: boolean;
+};
+
+const toStatsRecord = (
+  map: ReadonlyMap<string, readonly Sample[]>,
+  bounds: readonly number[],
+): { readonly [key: string]: InvocationStats } =>
+  Object.fromEntries([...map.entries()].map(([key, list]) => [key, toStats(list, bounds)]));
+
+const toStats = (samples: readonly Sample[], bounds: readonly number[]): InvocationStats => {
+  const durations = samples.map((sample) => sample.duration).sort((a, b) => a - b);
+  const count = durations.length;
+  const errors = samples.filter((sample) => sample.errored).length;
+  const sum = durations.reduce((total, duration) => total + duration, 0);
+
+  let index = 0;
+  const histogram: LatencyBucket[] = [...bounds, Infinity].map((le) => {
+    while (index < count && durations[index] <= le) {
+      index++;
+    }
+    return { le, count: index };
+  });
+
+  return {
+    count,
+    errors,
+    errorRate: count ? errors / count : 0,
+    min: count ? durations[0] : 0,
+    max: count ? durations[count - 1] : 0,
+    mean: count ? sum / count : 0,
+    p50: toPercentile(durations, 0.5),
+    p95: toPercentile(durations, 0.95),
+    p99: toPercentile(durations, 0.99),
+    histogram,
+  };
+};
+
+/**
+ * Nearest-rank percentile of the sorted durations.
+ */
+const toPercentile = (sortedDurations: readonly number[], percentile: number): number =>
+  sortedDurations.length ? sortedDurations[Math.max(0, Math.ceil(percentile * sortedDurations.length) - 1)] : 0;
@@ -0,0 +1,268 @@
+import type { Clock } from '../../utils/async/clock.ts';
+import { systemClock } from '../../utils/async/clock.ts';
+import type { SyncClosable } from '../../utils/common/closable.ts';
+import { closeAll } from '../../utils/common/closable.ts';
+import { toNonNegativeInteger } from '../../utils/common/duration.ts';
+import type { Invocation, InvocationKey, InvocationStage, InvocationTracker, Tag } from './definition.ts';
+
+/**
+ * Configuration options for the invocation recorder.
+ */
+export type InvocationRecorderOptions = {
+  /**
+   * The maximum number of ended invocations kept by the recorder. When exceeded, the invocations that ended first are
+   * discarded. The invocations in flight are always kept.
+   *
+   * @default 1000
+   */
+  readonly maxInvocations?: number;
+
+  /**
+   * The clock used to timestamp the start of the invocations, which can be a manual clock (see `createManualClock`) in
+   * tests.
+   *
+   * @default systemClock
+   */
+  readonly clock?: Clock;
+};
+
+/**
+ * An invocation kept by the recorder, with its latest stage.
+ */
+export type RecordedInvocation<TOperation extends string = string> = Invocation<TOperation> & {
+  /**
+   * The time when the invocation started, in milliseconds since epoch.
+   */
+  readonly startedAt: number;
+};
+
+/**
+ * The criteria of `InvocationRecorder.find`. An invocation matches when it satisfies all the specified criteria.
+ */
+export type InvocationQuery<TOperation extends string = string> = {
+  readonly operation?: TOperation;
+
+  /**
+   * A tag of the invocation. If the value is not specified, any invocation with a tag with the name matches.
+   */
+  readonly tag?: { readonly name: string; readonly value?: Tag['value'] };
+
+  /**
+   * The latest stage of the invocation.
+   */
+  readonly stage?: InvocationStage['type'];
+};
+
+/**
+ * Keeps the live tree of the invocations of a tracker.
+ */
+export type InvocationRecorder<TOperation extends string = string> = SyncClosable & {
+  /**
+   * Returns the recorded invocation with the key, if any.
+   */
+  readonly get: (key: InvocationKey) => RecordedInvocation<TOperation> | undefined;
+
+  /**
+   * Returns the recorded invocations whose parent is the invocation with the key, in the order they started.
+   */
+  readonly children: (key: InvocationKey) => readonly RecordedInvocation<TOperation>[];
+
+  /**
+   * Returns the recorded ancestors of the invocation with the key, starting with its parent. The list stops at the
+   * first ancestor that is not recorded (e.g., discarded, or tracked by another tracker sharing the same stack).
+   */
+  readonly ancestors: (key: InvocationKey) => readonly RecordedInvocation<TOperation>[];
+
+  /**
+   * Returns the invocations that have started but have not ended, in the order they started.
+   */
+  readonly inFlight: () => readonly RecordedInvocation<TOperation>[];
+
+  /**
+   * Returns up to `count` ended invocations with the longest durations, sorted by descending duration.
+   */
+  readonly slowest: (count: number) => readonly RecordedInvocation<TOperation>[];
+
+  /**
+   * Returns the recorded invocations that match the query, in the order they started.
+   */
+  readonly find: (query: InvocationQuery<TOperation>) => readonly RecordedInvocation<TOperation>[];
+
+  /**
+   * Discards the recorded invocations.
+   */
+  readonly clear: () => void;
+};
+
+/**
+ * Creates a recorder that reconstructs the tree of the invocations of a tracker from its flat stream of events, linking
+ * each invocation to its parent via `parentKey`. The recorded invocations are updated with their latest stage, which
+ * allows inspecting what is currently running and where it was called from (e.g., in a debugging endpoint).
+ *
+ * Only the invocations that start after the recorder is created are recorded. The ended invocations are kept up to
+ * `maxInvocations`, while the invocations in flight are kept until they end.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createInvocationRecorder, createInvocationTracker } from 'emitnlog/tracker';
+ *
+ * const tracker = createInvocationTracker();
+ * const recorder = createInvocationRecorder(tracker, { maxInvocations: 500 });
+ *
+ * app.get('/debug/invocations', (req, res) => {
+ *   res.json({
+ *     running: recorder
+ *       .inFlight()
+ *       .map((invocation) => ({
+ *         operation: invocation.key.operation,
+ *         startedAt: invocation.startedAt,
+ *         calledFrom: recorder.ancestors(invocation.key).map((ancestor) => ancestor.key.operation),
+ *       })),
+ *     slowest: recorder.slowest(10).map(({ key, stage }) => ({ operation: key.operation, stage })),
+ *     failures: recorder.find({ stage: 'errored' }).length,
+ *   });
+ * });
+ * ```
+ *
+ * @param tracker The invocation tracker.
+ * @param options Optional configuration of the recorder.
+ * @returns The invocation recorder, which stops recording and discards the invocations when closed.
+ */
+export const createInvocationRecorder = <TOperation extends string = string>(
+  tracker: InvocationTracker<TOperation>,
+  options?: InvocationRecorderOptions,
+): InvocationRecorder<TOperation> => {
+  const maxInvocations = toNonNegativeInteger(options?.maxInvocations, 1000);
+  const clock = options?.clock ?? systemClock;
+
+  // Kept in the order the invocations started
+  const invocations = new Map<string, RecordedInvocation<TOperation>>();
+  const childIds = new Map<string, Set<string>>();
+  const endedIds = new Set<string>();
+
+  const discard = (id: string): void => {
+    const parentId = invocations.get(id)?.parentKey?.id;
+    invocations.delete(id);
+    endedIds.delete(id);
+
+    if (parentId !== undefined) {
+      const siblings = childIds.get(parentId);
+      siblings?.delete(id);
+      if (!siblings?.size) {
+        childIds.delete(parentId);
+      }
+    }
+  };
+
+  const toList = (ids: Iterable<string>): RecordedInvocation<TOperation>[] => {
+    const list: RecordedInvocation<TOperation>[] = [];
+    for (const id of ids) {
+      const invocation = invocations.get(id);
+      if (invocation) {
+        list.push(invocation);
+      }
+    }
+    return list;
+  };
+
+  const end = (invocation: Invocation<TOperation>): void => {
+    const id = invocation.key.id;
+    const recorded = invocations.get(id);
+    if (!recorded) {
+      return;
+    }
+
+    invocations.set(id, { ...recorded, stage: invocation.stage });
+    endedIds.add(id);
+
+    for (const endedId of endedIds) {
+      if (endedIds.size <= maxInvocations) {
+        break;
+      }
+      discard(endedId);
+    }
+  };
+
+  const subscriptions = [
+    tracker.onStarted((invocation) => {
+      const id = invocation.key.id;
+      invocations.set(id, { ...invocation, startedAt: clock.now() });
+
+      const parentId = invocation.parentKey?.id;
+      if (parentId !== undefined) {
+        const siblings = childIds.get(parentId);
+        if (siblings) {
+          siblings.add(id);
+        } else {
+          childIds.set(parentId, new Set([id]));
+        }
+      }
+    }),
+
+    tracker.onCompleted(end),
+    tracker.onErrored(end),
+  ];
+
+  return {
+    get: (key) => invocations.get(key.id),
+
+    children: (key) => toList(childIds.get(key.id) ?? []),
+
+    ancestors: (key) => {
+      const list: RecordedInvocation<TOperation>[] = [];
+      const visited = new Set<string>([key.id]);
+      let parentKey = invocations.get(key.id)?.parentKey;
+      while (parentKey && !visited.has(parentKey.id)) {
+        const parent = invocations.get(parentKey.id);
+        if (!parent) {
+          break;
+        }
+
+        list.push(parent);
+        visited.add(parentKey.id);
+        parentKey = parent.parentKey;
+      }
+      return list;
+    },
+
+    inFlight: () => [...invocations.values()].filter((invocation) => invocation.stage.type === 'started'),
+
+    slowest: (count) =>
+      toList(endedIds)
+        .sort((a, b) => toDuration(b) - toDuration(a))
+        .slice(0, toNonNegativeInteger(count)),
+
+    find: (query) =>
+      [...invocations.values()].filter(
+        (invocation) =>
+          (query.operation === undefined || invocation.key.operation === query.operation) &&
+          (query.stage === undefined || invocation.stage.type === query.stage) &&
+          (query.tag === undefined || hasTag(invocation, query.tag)),
+      ),
+
+    clear: () => {
+      invocations.clear();
+      childIds.clear();
+      endedIds.clear();
+    },
+
+    close: () => {
+      closeAll(...subscriptions);
+      invocations.clear();
+      childIds.clear();
+      endedIds.clear();
+    },
+  };
+};
+
+const toDuration = (invocation: Invocation): number =>
+  invocation.stage.type === 'started' ? 0 : invocation.stage.duration;
+
+const hasTag = (invocation: Invocation, tag: NonNullable<InvocationQuery['tag']>): boolean =>
+  Boolean(
+    invocation.tags?.some(
+      (invocationTag) =>
+        invocationTag.name === tag.name && (tag.value === undefined || invocationTag.value === tag.value),
+    ),
+  );
@@ -0,0 +1,426 @@
+import { httpPost } from '../../logger/implementation/http-post.ts';
+import type { Clock } from '../../utils/async/clock.ts';
+import { systemClock } from '../../utils/async/clock.ts';
+import type { AsyncClosable } from '../../utils/common/closable.ts';
+import { closeAll } from '../../utils/common/closable.ts';
+import { toNonNegativeInteger } from '../../utils/common/duration.ts';
+import type { Invocation, InvocationKey, InvocationTracker, Tag } from './definition.ts';
+
+/**
+ * An OpenTelemetry attribute value in the OTLP/JSON encoding.
+ */
+export type OtlpValue =
+  | { readonly stringValue: string }
+  | { readonly boolValue: boolean }
+  | { readonly intValue: string }
+  | { readonly doubleValue: number }
+  | { readonly arrayValue: { readonly values: readonly OtlpValue[] } };
+
+/**
+ * An OpenTelemetry attribute in the OTLP/JSON encoding.
+ */
+export type OtlpKeyValue = { readonly key: string; readonly value: OtlpValue };
+
+/**
+ * A span in the OTLP/JSON encoding, created from an ended invocation.
+ */
+export type OtlpSpan = {
+  /**
+   * The trace ID (32 hex characters), shared by all the invocations of the same invocation tree.
+   */
+  readonly traceId: string;
+
+  /**
+   * The span ID (16 hex characters), derived from the invocation key.
+   */
+  readonly spanId: string;
+
+  /**
+   * The span ID of the parent invocation, if any.
+   */
+  readonly parentSpanId?: string;
+
+  /**
+   * The operation of the invocation.
+   */
+  readonly name: string;
+
+  /**
+   * Always `1` (`SPAN_KIND_INTERNAL`).
+   */
+  readonly kind: number;
+
+  readonly startTimeUnixNano: string;
+  readonly endTimeUnixNano: string;
+
+  /**
+   * The invocation tags and the `emitnlog.invocation.id` attribute.
+   */
+  readonly attributes: readonly OtlpKeyValue[];
+
+  /**
+   * The `exception` event of errored invocations.
+   */
+  readonly events?: readonly {
+    readonly name: string;
+    readonly timeUnixNano: string;
+    readonly attributes: readonly OtlpKeyValue[];
+  }[];
+
+  /**
+   * The status of the span: unset (`{}`) for completed invocations, and `2` (`STATUS_CODE_ERROR`) with the error
+   * message for errored invocations.
+   */
+  readonly status: { readonly code?: number; readonly message?: string };
+};
+
+/**
+ * The OTLP/JSON payload of an export request, as sent to the `/v1/traces` endpoint of a collector.
+ */
+export type OtlpTracesPayload = {
+  readonly resourceSpans: readonly {
+    readonly resource: { readonly attributes: readonly OtlpKeyValue[] };
+    readonly scopeSpans: readonly { readonly scope: { readonly name: string }; readonly spans: readonly OtlpSpan[] }[];
+  }[];
+};
+
+/**
+ * Configuration options for the span exporter.
+ */
+export type SpanExporterOptions = (
+  | {
+      /**
+       * The function that receives each batch of spans (e.g., to write them to a file or to a log sink).
+       */
+      readonly sink: (payload: OtlpTracesPayload) => void | Promise<void>;
+      readonly url?: never;
+    }
+  | {
+      /**
+       * The URL of the OTLP/HTTP traces endpoint (e.g., `http://localhost:4318/v1/traces`), to which each batch of
+       * spans is POSTed as JSON using `fetch`.
+       */
+      readonly url: string;
+      readonly sink?: never;
+
+      /**
+       * Additional headers sent with each request (e.g., `authorization`).
+       */
+      readonly headers?: Readonly<Record<string, string>>;
+
+      /**
+       * Maximum number of times a failed request is retried. Requests are retried when `fetch` throws or when the
+       * response status is 408, 429 or 5xx.
+       *
+       * @default 3
+       */
+      readonly retries?: number;
+
+      /**
+       * The time in milliseconds after which a request is aborted, and retried like a network error, so that a
+       * collector that does not respond cannot block `flush` and `close`.
+       *
+       * @default 10000 (10s)
+       */
+      readonly timeoutMs?: number;
+    }
+) & {
+  /**
+   * The `service.name` resource attribute.
+   *
+   * @default 'unknown_service'
+   */
+  readonly serviceName?: string;
+
+  /**
+   * Additional resource attributes (e.g., `{ 'deployment.environment': 'production' }`).
+   */
+  readonly resource?: { readonly [name: string]: Tag['value'] };
+
+  /**
+   * Maximum number of spans exported in a single batch.
+   *
+   * @default 100
+   */
+  readonly maxBatchSize?: number;
+
+  /**
+   * Maximum time in milliseconds that an ended invocation waits before its span is exported.
+   *
+   * @default 1000 (1s)
+   */
+  readonly flushDelayMs?: number;
+
+  /**
+   * Error handler callback for failed exports. If not provided, errors are ignored.
+   */
+  readonly errorHandler?: (error: unknown) => void;
+
+  /**
+   * The clock used to timestamp the spans and to schedule the exports, which can be a manual clock (see
+   * `createManualClock`) in tests.
+   *
+   * @default systemClock
+   */
+  readonly clock?: Clock;
+};
+
+/**
+ * Exports the invocations of a tracker as OpenTelemetry spans.
+ */
+export type SpanExporter = AsyncClosable & {
+  /**
+   * Exports the spans of the ended invocations that are waiting for the next batch, resolving when all the exports are
+   * done.
+   */
+  readonly flush: () => Promise<void>;
+};
+
+/**
+ * Creates an exporter that converts the ended invocations of a tracker into
+ * [OTLP/JSON](https://opentelemetry.io/docs/specs/otlp/#json-protobuf-encoding) spans, and sends them in batches to a
+ * sink or to the traces endpoint of an OpenTelemetry collector, without depending on the OpenTelemetry SDK.
+ *
+ * The spans are built as follows:
+ *
+ * - `spanId` is derived from the invocation key and `parentSpanId` from the parent key, so nested invocations (see
+ *   `parentKey`) are linked even when the parent is tracked by another tracker sharing the same stack
+ * - `traceId` is inherited from the parent invocation when it is in flight, or derived from the root key otherwise
+ * - `name` is the operation, and the tags are mapped to attributes
+ * - Errored invocations have the error status and an `exception` event with `exception.type`, `exception.message`, and
+ *   `exception.stacktrace`
+ *
+ * Only the invocations that start after the exporter is created are exported.
+ *
+ * @example Jaeger (or any OTLP/HTTP collector)
+ *
+ * ```ts
+ * import { createInvocationTracker, createSpanExporter } from 'emitnlog/tracker';
+ *
+ * const tracker = createInvocationTracker();
+ * const exporter = createSpanExporter(tracker, {
+ *   url: 'http://localhost:4318/v1/traces',
+ *   serviceName: 'user-service',
+ *   errorHandler: (error) => console.error(error),
+ * });
+ *
+ * const fetchUser = tracker.track('fetchUser', fetchUserFn);
+ *
+ * // before exiting
+ * await exporter.close();
+ * ```
+ *
+ * @example Writing the spans to a sink
+ *
+ * ```ts
+ * const exporter = createSpanExporter(tracker, {
+ *   sink: (payload) => fs.appendFileSync('spans.ndjson', `${JSON.stringify(payload)}\n`),
+ * });
+ * ```
+ *
+ * @param tracker The invocation tracker.
+ * @param options The destination of the spans and the export options.
+ * @returns The span exporter, which exports the pending spans and stops exporting when closed.
+ */
+export const createSpanExporter = <TOperation extends string = string>(
+  tracker: InvocationTracker<TOperation>,
+  options: SpanExporterOptions,
+): SpanExporter => {
+  if (!options.sink && !options.url) {
+    throw new Error('IllegalArgument: either a sink or a url must be specified');
+  }
+
+  const maxBatchSize = Math.max(1, toNonNegativeInteger(options.maxBatchSize, 100));
+  const flushDelayMs = toNonNegativeInteger(options.flushDelayMs, 1000);
+  const clock = options.clock ?? systemClock;
+  const resource: readonly OtlpKeyValue[] = toAttributes([
+    { name: 'service.name', value: options.serviceName ?? 'unknown_service' },
+    ...Object.entries(options.resource ?? {}).map(([name, value]) => ({ name, value })),
+  ]);
+
+  const started = new Map<string, { readonly traceId: string; readonly start: number }>();
+  let pending: OtlpSpan[] = [];
+  const exporting = new Set<Promise<void>>();
+  let timeoutId: unknown;
+  let closed = false;
+
+  const reportError = (error: unknown): void => {
+    try {
+      options.errorHandler?.(error);
+    } catch {
+      // ignore
+    }
+  };
+
+  const send = async (payload: OtlpTracesPayload): Promise<void> => {
+    if (options.sink) {
+      await options.sink(payload);
+      return;
+    }
+
+    await httpPost(options.url, JSON.stringify(payload), {
+      name: 'span export',
+      headers: { 'content-type': 'application/json', ...options.headers },
+      retries: toNonNegativeInteger(options.retries, 3),
+      timeoutMs: Math.max(1, toNonNegativeInteger(options.timeoutMs, 10_000)),
+      clock,
+    });
+  };
+
+  const exportPending = (): void => {
+    clock.clearTimeout(timeoutId);
+    timeoutId = undefined;
+
+    while (pending.length) {
+      const spans = pending.slice(0, maxBatchSize);
+      pending = pending.slice(maxBatchSize);
+
+      const exported = send({
+        resourceSpans: [{ resource: { attributes: resource }, scopeSpans: [{ scope: { name: 'emitnlog' }, spans }] }],
+      })
+        .catch(reportError)
+        .finally(() => {
+          exporting.delete(exported);
+        });
+      exporting.add(exported);
+    }
+  };
+
+  const flush = async (): Promise<void> => {
+    exportPending();
+    await Promise.all(exporting);
+  };
+
+  const end = (invocation: Invocation<TOperation>): void => {
+    if (invocation.stage.type === 'started') {
+      return;
+    }
+
+    const info = started.get(invocation.key.id);
+    if (!info) {
+      return;
+    }
+
+    started.delete(invocation.key.id);
+    pending.push(toSpan(invocation, info.traceId, info.start, info.start + invocation.stage.duration));
+
+    if (pending.length >= maxBatchSize || !flushDelayMs) {
+      exportPending();
+    } else if (timeoutId === undefined) {
+      timeoutId = clock.setTimeout(exportPending, flushDelayMs);
+    }
+  };
+
+  const subscriptions = [
+    tracker.onStarted((invocation) => {
+      const { key, parentKey } = invocation;
+      const traceId = (parentKey && started.get(parentKey.id)?.traceId) ?? toHexId((parentKey ?? key).id, 32);
+      started.set(key.id, { traceId, start: clock.now() });
+    }),
+    tracker.onCompleted(end),
+    tracker.onErrored(end),
+  ];
+
+  return {
+    flush,
+    close: async () => {
+      if (!closed) {
+        closed = true;
+        closeAll(...subscriptions);
+        started.clear();
+      }
+      await flush();
+    },
+  };
+};
+
+const toSpan = (invocation: Invocation, traceId: string, start: number, end: number): OtlpSpan => {
+  const attributes = toAttributes([
+    ...(invocation.tags ?? []),
+    { name: 'emitnlog.invocation.id', value: invocation.key.id },
+  ]);
+  const span = {
+    traceId,
+    spanId: toSpanId(invocation.key),
+    parentSpanId: invocation.parentKey ? toSpanId(invocation.parentKey) : undefined,
+    name: invocation.key.operation,
+    kind: 1,
+    startTimeUnixNano: toUnixNano(start),
+    endTimeUnixNano: toUnixNano(end),
+    attributes,
+  };
+
+  if (invocation.stage.type !== 'errored') {
+    return { ...span, status: {} };
+  }
+
+  const error = invocation.stage.error;
+  const exception: Tag[] =
+    error instanceof Error
+      ? [
+          { name: 'exception.type', value: error.name },
+          { name: 'exception.message', value: error.message },
+          ...(error.stack ? [{ name: 'exception.stacktrace', value: error.stack }] : []),
+        ]
+      : [{ name: 'exception.message', value: String(error) }];
+
+  return {
+    ...span,
+    events: [{ name: 'exception', timeUnixNano: toUnixNano(end), attributes: toAttributes(exception) }],
+    status: { code: 2, message: error instanceof Error ? error.message : String(error) },
+  };
+};
+
+/**
+ * Converts the tags into attributes, combining the values of the tags with the same name into an array.
+ */
+const toAttributes = (tags: readonly Tag[]): OtlpKeyValue[] => {
+  const values = new Map<string, OtlpValue[]>();
+  for (const tag of tags) {
+    const list = values.get(tag.name);
+    if (list) {
+      list.push(toOtlpValue(tag.value));
+    } else {
+      values.set(tag.name, [toOtlpValue(tag.value)]);
+    }
+  }
+
+  return [...values].map(([key, list]) => ({
+    key,
+    value: list.length === 1 ? list[0] : { arrayValue: { values: list } },
+  }));
+};
+
+const toOtlpValue = (value: Tag['value']): OtlpValue =>
+  typeof value === 'string'
+    ? { stringValue: value }
+    : typeof value === 'boolean'
+      ? { boolValue: value }
+      : Number.isSafeInteger(value)
+        ? { intValue: String(value) }
+        : { doubleValue: value };
+
+const toSpanId = (key: InvocationKey): string => toHexId(key.id, 16);
+
+/* eslint-disable no-bitwise */
+/**
+ * Derives a hex ID with the specified length from the value by concatenating 32-bit FNV-1a hashes computed with
+ * different seeds.
+ */
+const toHexId = (value: string, length: number): string => {
+  let id = '';
+  for (let seed = 0; id.length < length; seed++) {
+    let hash = 0x811c9dc5 ^ seed;
+    for (let i = 0; i < value.length; i++) {
+      hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+    }
+    id += (hash >>> 0).toString(16).padStart(8, '0');
+  }
+  return id.slice(0, length);
+};
+/* eslint-enable no-bitwise */
+
+/**
+ * Converts milliseconds since epoch into nanoseconds, keeping the microseconds.
+ */
+const toUnixNano = (ms: number): string => String(BigInt(Math.round(ms * 1000)) * 1000n);
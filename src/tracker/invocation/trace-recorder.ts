@@ -0,0 +1,363 @@
+import type { Clock } from '../../utils/async/clock.ts';
+import { systemClock } from '../../utils/async/clock.ts';
+import type { SyncClosable } from '../../utils/common/closable.ts';
+import { closeAll } from '../../utils/common/closable.ts';
+import { stringifyDuration } from '../../utils/common/duration.ts';
+import { addTo } from './aggregation-utils.ts';
+import type { Invocation, InvocationKey, InvocationTracker, Tag } from './definition.ts';
+
+/**
+ * Configuration options for the trace recorder.
+ */
+export type TraceRecorderOptions = {
+  /**
+   * The clock whose `performance.now()` timestamps the recorded invocations, which can be a manual clock (see
+   * `createManualClock`) in tests.
+   *
+   * @default systemClock
+   */
+  readonly clock?: Clock;
+};
+
+/**
+ * An event of the [Chrome Trace Event
+ * format](https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU).
+ */
+export type ChromeTraceEvent = {
+  readonly name: string;
+  readonly cat: string;
+
+  /**
+   * The phase of the event, which is always `X` (complete event).
+   */
+  readonly ph: 'X';
+
+  /**
+   * The start of the event in microseconds since the recorder was created.
+   */
+  readonly ts: number;
+
+  /**
+   * The duration of the event in microseconds.
+   */
+  readonly dur: number;
+
+  readonly pid: number;
+
+  /**
+   * The row of the event. Nested invocations share the row of their parent, unless they overlap one of their siblings.
+   */
+  readonly tid: number;
+
+  /**
+   * The invocation id, the tags and, for errored invocations, the error.
+   */
+  readonly args: { readonly [name: string]: unknown };
+};
+
+/**
+ * A trace in the Chrome Trace Event JSON format, which can be loaded into `chrome://tracing` or
+ * [Perfetto](https://ui.perfetto.dev).
+ */
+export type ChromeTrace = { readonly traceEvents: readonly ChromeTraceEvent[]; readonly displayTimeUnit: 'ms' };
+
+/**
+ * The aggregated invocations of an operation at a position of the call tree.
+ */
+export type CallTreeNode = {
+  readonly operation: string;
+
+  /**
+   * The number of invocations.
+   */
+  readonly count: number;
+
+  /**
+   * The number of errored invocations.
+   */
+  readonly errors: number;
+
+  /**
+   * The sum of the durations of the invocations in milliseconds.
+   */
+  readonly total: number;
+
+  /**
+   * The sum of the durations of the invocations in milliseconds, excluding the time spent in the nested invocations.
+   */
+  readonly self: number;
+
+  /**
+   * The nodes of the nested invocations, sorted by descending total.
+   */
+  readonly children: readonly CallTreeNode[];
+};
+
+/**
+ * Records the invocations of a tracker to export them as a trace or as a call tree.
+ */
+export type TraceRecorder = SyncClosable & {
+  /**
+   * Returns the ended invocations as a Chrome trace, ready to be written with `JSON.stringify`.
+   */
+  readonly toChromeTrace: () => ChromeTrace;
+
+  /**
+   * Returns the ended invocations aggregated as a call tree, with one root node per operation of the top-level
+   * invocations.
+   */
+  readonly toCallTree: () => readonly CallTreeNode[];
+
+  /**
+   * Returns the call tree as a text report, with the count, errors, total and self time of each node.
+   */
+  readonly report: () => string;
+
+  /**
+   * Discards the recorded invocations.
+   */
+  readonly clear: () => void;
+};
+
+/**
+ * Creates a recorder that keeps the invocations of a tracker, for local profiling, and exports them as:
+ *
+ * - A trace in the Chrome Trace Event JSON format (`toChromeTrace`), which shows the nested durations built from
+ *   `parentKey` in `chrome://tracing` or Perfetto
+ * - A call tree (`toCallTree`) and its text report (`report`), with the count and the total and self time of the
+ *   operations at each position of the tree
+ *
+ * Only the invocations that start after the recorder is created and that have ended are exported. The recorder keeps
+ * all invocations until `clear` or `close` is called.
+ *
+ * @example
+ *
+ * ```ts
+ * import { writeFileSync } from 'node:fs';
+ *
+ * import { createInvocationTracker, createTraceRecorder } from 'emitnlog/tracker';
+ *
+ * const tracker = createInvocationTracker();
+ * const recorder = createTraceRecorder(tracker);
+ *
+ * await tracker.track('build', build)();
+ *
+ * writeFileSync('build-trace.json', JSON.stringify(recorder.toChromeTrace()));
+ * console.log(recorder.report());
+ * // Operation   Count  Errors    Total     Self
+ * // build           1       0   2500ms    120ms
+ * //   compile      12       0   2100ms   2100ms
+ * //   bundle        1       0  280.0ms  280.0ms
+ * ```
+ *
+ * @param tracker The invocation tracker.
+ * @param options Optional configuration of the recorder.
+ * @returns The trace recorder, which stops recording and discards the invocations when closed.
+ */
+export const createTraceRecorder = <TOperation extends string = string>(
+  tracker: InvocationTracker<TOperation>,
+  options?: TraceRecorderOptions,
+): TraceRecorder => {
+  const clock = options?.clock ?? systemClock;
+  const origin = clock.performance.now();
+
+  // Kept in the order the invocations started, so parents precede their children
+  let recorded = new Map<string, RecordedInvocation>();
+
+  const end = (invocation: Invocation<TOperation>, error?: { readonly error: unknown }): void => {
+    const entry = recorded.get(invocation.key.id);
+    if (entry && invocation.stage.type !== 'started') {
+      entry.end = clock.performance.now();
+      entry.duration = invocation.stage.duration;
+      entry.error = error;
+    }
+  };
+
+  const subscriptions = [
+    tracker.onStarted((invocation) => {
+      recorded.set(invocation.key.id, {
+        key: invocation.key,
+        parentKey: invocation.parentKey,
+        tags: invocation.tags,
+        start: clock.performance.now(),
+      });
+    }),
+    tracker.onCompleted((invocation) => end(invocation)),
+    tracker.onErrored((invocation) => end(invocation, { error: invocation.stage.error })),
+  ];
+
+  const toEnded = (): Map<string, EndedInvocation> =>
+    new Map([...recorded].filter((entry): entry is [string, EndedInvocation] => entry[1].end !== undefined));
+
+  const toCallTree = (): readonly CallTreeNode[] => {
+    const ended = toEnded();
+    const children = new Map<string, EndedInvocation[]>();
+    const roots: EndedInvocation[] = [];
+    for (const invocation of ended.values()) {
+      const parentId = invocation.parentKey?.id;
+      if (parentId !== undefined && ended.has(parentId)) {
+        addTo(children, parentId, invocation);
+      } else {
+        roots.push(invocation);
+      }
+    }
+
+    return toNodes(roots, children);
+  };
+
+  return {
+    toChromeTrace: () => ({ traceEvents: toTraceEvents([...toEnded().values()], origin), displayTimeUnit: 'ms' }),
+
+    toCallTree,
+
+    report: () => toReport(toCallTree()),
+
+    clear: () => {
+      recorded = new Map();
+    },
+
+    close: () => {
+      closeAll(...subscriptions);
+      recorded = new Map();
+    },
+  };
+};
+
+type RecordedInvocation = {
+  readonly key: InvocationKey;
+  readonly parentKey: InvocationKey | undefined;
+  readonly tags: readonly Tag[] | undefined;
+  readonly start: number;
+  end?: number;
+  duration?: number;
+  error?: { readonly error: unknown };
+};
+
+type EndedInvocation = RecordedInvocation & { readonly end: number; readonly duration: number };
+
+/**
+ * Places each invocation in the row of its parent when it nests within the parent and does not overlap the siblings
+ * already in the row, and otherwise in the first row with no invocation in progress (or in a new row).
+ */
+const toTraceEvents = (invocations: readonly EndedInvocation[], origin: number): ChromeTraceEvent[] => {
+  const rows: EndedInvocation[][] = [];
+  const rowOf = new Map<string, number>();
+
+  const prune = (row: EndedInvocation[], start: number): void => {
+    while (row.length && row[row.length - 1].end <= start) {
+      row.pop();
+    }
+  };
+
+  return invocations.map((invocation) => {
+    const parentRow = invocation.parentKey && rowOf.get(invocation.parentKey.id);
+    let index = -1;
+    if (parentRow !== undefined) {
+      prune(rows[parentRow], invocation.start);
+      const top = rows[parentRow].at(-1);
+      if (top && top.key.id === invocation.parentKey?.id && invocation.end <= top.end) {
+        index = parentRow;
+      }
+    }
+
+    if (index === -1) {
+      index = rows.findIndex((row) => {
+        prune(row, invocation.start);
+        return !row.length;
+      });
+    }
+
+    if (index === -1) {
+      index = rows.push([]) - 1;
+    }
+
+    rows[index].push(invocation);
+    rowOf.set(invocation.key.id, index);
+
+    const tags = new Map<string, Tag['value'][]>();
+    for (const tag of invocation.tags ?? []) {
+      tags.set(tag.name, [...(tags.get(tag.name) ?? []), tag.value]);
+    }
+
+    const args: Record<string, unknown> = { id: invocation.key.id };
+    for (const [name, values] of tags) {
+      args[name] = values.length === 1 ? values[0] : values;
+    }
+
+    if (invocation.error) {
+      const error = invocation.error.error;
+      args.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return {
+      name: invocation.key.operation,
+      cat: 'emitnlog',
+      ph: 'X',
+      ts: toMicroseconds(invocation.start - origin),
+      dur: toMicroseconds(invocation.end - invocation.start),
+      pid: 1,
+      tid: index + 1,
+      args,
+    };
+  });
+};
+
+const toMicroseconds = (ms: number): number => Math.round(ms * 1000);
+
+const toNodes = (
+  invocations: readonly EndedInvocation[],
+  children: ReadonlyMap<string, readonly EndedInvocation[]>,
+): CallTreeNode[] => {
+  const byOperation = new Map<string, EndedInvocation[]>();
+  for (const invocation of invocations) {
+    addTo(byOperation, invocation.key.operation, invocation);
+  }
+
+  return [...byOperation]
+    .map(([operation, list]): CallTreeNode => {
+      let total = 0;
+      let self = 0;
+      const nested: EndedInvocation[] = [];
+      for (const invocation of list) {
+        const invocationChildren = children.get(invocation.key.id) ?? [];
+        const childrenDuration = invocationChildren.reduce((sum, child) => sum + child.duration, 0);
+        total += invocation.duration;
+        self += Math.max(0, invocation.duration - childrenDuration);
+        nested.push(...invocationChildren);
+      }
+
+      return {
+        operation,
+        count: list.length,
+        errors: list.filter((invocation) => invocation.error).length,
+        total,
+        self,
+        children: toNodes(nested, children),
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+};
+
+const toReport = (tree: readonly CallTreeNode[]): string => {
+  const rows: string[][] = [['Operation', 'Count', 'Errors', 'Total', 'Self']];
+  const addRows = (nodes: readonly CallTreeNode[], depth: number): void => {
+    for (const node of nodes) {
+      rows.push([
+        `${'  '.repeat(depth)}${node.operation}`,
+        String(node.count),
+        String(node.errors),
+        stringifyDuration(node.total),
+        stringifyDuration(node.self),
+      ]);
+      addRows(node.children, depth + 1);
+    }
+  };
+  addRows(tree, 0);
+
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows
+    .map((row) =>
+      row.map((cell, column) => (column ? cell.padStart(widths[column]) : cell.padEnd(widths[column]))).join('  '),
+    )
+    .join('\n');
+};
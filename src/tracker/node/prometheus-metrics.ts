@@ -0,0 +1,219 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+import type { SyncClosable } from '../../utils/common/closable.ts';
+import { closeAll } from '../../utils/common/closable.ts';
+import { toBucketBounds } from '../invocation/aggregation-utils.ts';
+import type { InvocationTracker } from '../invocation/definition.ts';
+import type { PromiseTracker } from '../promise/definition.ts';
+
+/**
+ * Configuration options for the Prometheus metrics.
+ */
+export type PrometheusMetricsOptions = {
+  /**
+   * The invocation trackers whose completed and errored invocations are counted per operation.
+   */
+  readonly invocationTrackers?: readonly InvocationTracker[];
+
+  /**
+   * The promise trackers whose settled promises are counted per label, and whose unsettled promises are reported by the
+   * in-flight gauge.
+   */
+  readonly promiseTrackers?: readonly PromiseTracker[];
+
+  /**
+   * The prefix of the metric names.
+   *
+   * @default 'emitnlog'
+   */
+  readonly prefix?: string;
+
+  /**
+   * The upper bounds, in milliseconds, of the buckets of the duration histograms, which are rendered in seconds. A last
+   * bucket without upper bound (`+Inf`) is always added.
+   *
+   * @default [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000]
+   */
+  readonly buckets?: readonly number[];
+};
+
+/**
+ * The metrics of invocation and promise trackers in the Prometheus text format.
+ */
+export type PrometheusMetrics = SyncClosable & {
+  /**
+   * Renders the metrics in the Prometheus text exposition format (version 0.0.4).
+   */
+  readonly render: () => string;
+
+  /**
+   * A request handler that responds with the rendered metrics to `GET` and `HEAD` requests, and with `405` to other
+   * methods.
+   */
+  readonly handler: (req: IncomingMessage, res: ServerResponse) => void;
+};
+
+/**
+ * Creates the Prometheus metrics of invocation and promise trackers, to be scraped through `handler` or exposed with
+ * `render`.
+ *
+ * The following metrics are rendered, with the names prefixed by `prefix` (e.g., `emitnlog_invocations_total`):
+ *
+ * - `invocations_total` and `invocation_errors_total`: counters of the ended and errored invocations per `operation`
+ * - `invocation_duration_seconds`: histogram of the invocation durations per `operation`
+ * - `promises_settled_total` and `promise_rejections_total`: counters of the settled and rejected promises per `label`
+ * - `promise_duration_seconds`: histogram of the promise durations per `label`
+ * - `promises_in_flight`: gauge of the unsettled promises (the sum of `PromiseTracker.size`)
+ *
+ * The counters and histograms accumulate the events emitted after the metrics are created, until closed.
+ *
+ * @example Node HTTP server
+ *
+ * ```ts
+ * import { createServer } from 'node:http';
+ *
+ * import { createInvocationTracker, createPrometheusMetrics, trackPromises } from 'emitnlog/tracker';
+ *
+ * const tracker = createInvocationTracker();
+ * const promises = trackPromises();
+ * const metrics = createPrometheusMetrics({ invocationTrackers: [tracker], promiseTrackers: [promises] });
+ *
+ * createServer((req, res) => {
+ *   if (req.url === '/metrics') {
+ *     metrics.handler(req, res);
+ *   }
+ * }).listen(9464);
+ * ```
+ *
+ * @example Express, beside the request logger
+ *
+ * ```ts
+ * import { requestLogger } from 'emitnlog/logger';
+ *
+ * app.use(requestLogger(logger));
+ * app.get('/metrics', metrics.handler);
+ * ```
+ *
+ * @param options The trackers and the rendering options.
+ * @returns The Prometheus metrics, which stop counting when closed.
+ */
+export const createPrometheusMetrics = (options: PrometheusMetricsOptions): PrometheusMetrics => {
+  const prefix = options.prefix ?? 'emitnlog';
+  const bounds = toBucketBounds(options.buckets);
+  const promiseTrackers = options.promiseTrackers ?? [];
+
+  const invocations = new Map<string, Series>();
+  const promises = new Map<string, Series>();
+
+  const observe = (map: Map<string, Series>, key: string, duration: number, failed: boolean): void => {
+    let series = map.get(key);
+    if (!series) {
+      series = { count: 0, errors: 0, sum: 0, buckets: bounds.map(() => 0) };
+      map.set(key, series);
+    }
+
+    series.count++;
+    series.sum += duration;
+    if (failed) {
+      series.errors++;
+    }
+
+    const index = bounds.findIndex((bound) => duration <= bound);
+    if (index !== -1) {
+      series.buckets[index]++;
+    }
+  };
+
+  const subscriptions = [
+    ...(options.invocationTrackers ?? []).flatMap((tracker) => [
+      tracker.onCompleted((invocation) => {
+        observe(invocations, invocation.key.operation, invocation.stage.duration, false);
+      }),
+      tracker.onErrored((invocation) => {
+        observe(invocations, invocation.key.operation, invocation.stage.duration, true);
+      }),
+    ]),
+    ...promiseTrackers.map((tracker) =>
+      tracker.onSettled((event) => {
+        observe(promises, event.label ?? '', event.duration, Boolean(event.rejected));
+      }),
+    ),
+  ];
+
+  const render = (): string => {
+    const lines: string[] = [];
+
+    const counter = (name: string, help: string, label: string, map: ReadonlyMap<string, Series>, errors: boolean) => {
+      lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} counter`);
+      for (const [key, series] of map) {
+        lines.push(`${prefix}_${name}{${toLabel(label, key)}} ${errors ? series.errors : series.count}`);
+      }
+    };
+
+    const histogram = (name: string, help: string, label: string, map: ReadonlyMap<string, Series>) => {
+      lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} histogram`);
+      for (const [key, series] of map) {
+        const labelPair = toLabel(label, key);
+        let cumulative = 0;
+        bounds.forEach((bound, index) => {
+          cumulative += series.buckets[index];
+          lines.push(`${prefix}_${name}_bucket{${labelPair},le="${bound / 1000}"} ${cumulative}`);
+        });
+        lines.push(
+          `${prefix}_${name}_bucket{${labelPair},le="+Inf"} ${series.count}`,
+          `${prefix}_${name}_sum{${labelPair}} ${series.sum / 1000}`,
+          `${prefix}_${name}_count{${labelPair}} ${series.count}`,
+        );
+      }
+    };
+
+    if (options.invocationTrackers?.length) {
+      counter('invocations_total', 'Number of ended invocations.', 'operation', invocations, false);
+      counter('invocation_errors_total', 'Number of errored invocations.', 'operation', invocations, true);
+      histogram('invocation_duration_seconds', 'Duration of the invocations in seconds.', 'operation', invocations);
+    }
+
+    if (promiseTrackers.length) {
+      counter('promises_settled_total', 'Number of settled promises.', 'label', promises, false);
+      counter('promise_rejections_total', 'Number of rejected promises.', 'label', promises, true);
+      histogram('promise_duration_seconds', 'Duration of the promises in seconds.', 'label', promises);
+
+      const inFlight = promiseTrackers.reduce((total, tracker) => total + tracker.size, 0);
+      lines.push(
+        `# HELP ${prefix}_promises_in_flight Number of unsettled promises.`,
+        `# TYPE ${prefix}_promises_in_flight gauge`,
+        `${prefix}_promises_in_flight ${inFlight}`,
+      );
+    }
+
+    return lines.length ? `${lines.join('\n')}\n` : '';
+  };
+
+  return {
+    render,
+
+    handler: (req, res) => {
+      if (req.method && req.method !== 'GET' && req.method !== 'HEAD') {
+        res.writeHead(405, { Allow: 'GET, HEAD' });
+        res.end();
+        return;
+      }
+
+      const body = render();
+      res.writeHead(200, {
+        'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+        'Content-Length': Buffer.byteLength(body),
+      });
+      res.end(req.method === 'HEAD' ? undefined : body);
+    },
+
+    close: () => {
+      closeAll(...subscriptions);
+    },
+  };
+};
+
+type Series = { count: number; errors: number; sum: number; readonly buckets: number[] };
+
+const toLabel = (name: string, value: string): string =>
+  `${name}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`;
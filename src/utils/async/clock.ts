@@ -0,0 +1,221 @@
+import { toNonNegativeInteger } from '../common/duration.ts';
+import type { Timeout } from './types.ts';
+
+/**
+ * The source of time and timers used by the time-based utilities (e.g., `debounce`, `startPolling`, `withTimeout`,
+ * `cancelableDelay`), which can be replaced by a {@link ManualClock} to test code built on them without patching the
+ * globals.
+ */
+export type Clock = {
+  /**
+   * Returns the current time in milliseconds since epoch, like `Date.now()`.
+   */
+  readonly now: () => number;
+
+  /**
+   * Schedules the callback to be invoked after the delay, like `setTimeout`.
+   *
+   * @param callback The function to invoke.
+   * @param delay The delay in milliseconds.
+   * @returns The id of the timer, to be used with `clearTimeout`.
+   */
+  readonly setTimeout: (callback: () => void, delay: number) => unknown;
+
+  /**
+   * Cancels a timer scheduled by `setTimeout`, like the global `clearTimeout`. Unknown or already invoked timers are
+   * ignored.
+   *
+   * @param timeoutId The id returned by `setTimeout`.
+   */
+  readonly clearTimeout: (timeoutId: unknown) => void;
+
+  /**
+   * The high resolution time, like the global `performance`.
+   */
+  readonly performance: {
+    /**
+     * Returns the elapsed time in milliseconds since an arbitrary origin, like `performance.now()`.
+     */
+    readonly now: () => number;
+  };
+};
+
+/**
+ * The options of the utilities that accept a clock.
+ */
+export type ClockOptions = {
+  /**
+   * The clock used to read the time and to schedule the timers.
+   *
+   * @default systemClock
+   */
+  readonly clock?: Clock;
+};
+
+/**
+ * The clock backed by `Date.now()`, `setTimeout`, `clearTimeout` and `performance.now()`.
+ *
+ * The globals are read on each call, so test frameworks that replace them (e.g., `vi.useFakeTimers()`) are still
+ * honored.
+ */
+export const systemClock: Clock = Object.freeze({
+  now: () => Date.now(),
+  setTimeout: (callback: () => void, delay: number) => setTimeout(callback, delay),
+  clearTimeout: (timeoutId: unknown) => {
+    clearTimeout(timeoutId as Timeout | undefined);
+  },
+  performance: Object.freeze({ now: () => performance.now() }),
+});
+
+/**
+ * A clock whose time only moves when advanced, invoking the timers that become due in order.
+ */
+export type ManualClock = Clock & {
+  /**
+   * The number of scheduled timers that were not invoked or cleared yet.
+   */
+  readonly pending: number;
+
+  /**
+   * Moves the time forward, synchronously invoking the timers that become due (including the ones scheduled by the
+   * invoked timers) in the order of their due time.
+   *
+   * Promise callbacks (e.g., the code after an `await`) only run after `advance` returns, so use `advanceAsync` when
+   * the timers trigger asynchronous code that schedules other timers.
+   *
+   * @param milliseconds The amount of time to move forward (0 if negative, and rounded down if decimal).
+   */
+  readonly advance: (milliseconds: number) => void;
+
+  /**
+   * Moves the time forward like `advance`, but lets the pending promise callbacks run before and after each timer is
+   * invoked.
+   *
+   * The promise callbacks are drained by waiting for a `setTimeout` of the global clock, so this method should not be
+   * used while the global timers are faked (e.g., with `vi.useFakeTimers()`).
+   *
+   * @param milliseconds The amount of time to move forward (0 if negative, and rounded down if decimal).
+   * @returns A promise that resolves once the time was moved and the due timers were invoked.
+   */
+  readonly advanceAsync: (milliseconds: number) => Promise<void>;
+};
+
+/**
+ * Creates a clock that only moves when advanced, to deterministically test code that relies on time without using fake
+ * timers.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createManualClock, debounce } from 'emitnlog/utils';
+ *
+ * const clock = createManualClock();
+ * const save = debounce((value: string) => value.toUpperCase(), { delay: 500, clock });
+ *
+ * const promise = save('draft');
+ * clock.advance(499); // nothing happens
+ * clock.advance(1); // the debounced function runs
+ *
+ * expect(await promise).toBe('DRAFT');
+ * ```
+ *
+ * @example Asynchronous code
+ *
+ * ```ts
+ * import { createManualClock, startPolling } from 'emitnlog/utils';
+ *
+ * const clock = createManualClock();
+ * const { wait } = startPolling(() => fetchStatus(), 1000, { clock, interrupt: (status) => status === 'done' });
+ *
+ * // Runs the polled operation 5 times, awaiting each fetch
+ * await clock.advanceAsync(5000);
+ * ```
+ *
+ * @param start The initial time, as a date or as milliseconds since epoch (default: 0). The `performance.now()` of the
+ *   clock always starts at 0.
+ * @returns A manual clock.
+ */
+export const createManualClock = (start: Date | number = 0): ManualClock => {
+  const origin = Number(start);
+  let elapsed = 0;
+  let lastId = 0;
+
+  const timers = new Map<number, ManualTimer>();
+
+  const nextTimer = (until: number): [number, ManualTimer] | undefined => {
+    let next: [number, ManualTimer] | undefined;
+    for (const entry of timers) {
+      if (entry[1].due <= until && (!next || entry[1].due < next[1].due)) {
+        next = entry;
+      }
+    }
+    return next;
+  };
+
+  const invokeNext = (until: number): boolean => {
+    const next = nextTimer(until);
+    if (!next) {
+      return false;
+    }
+
+    const [id, timer] = next;
+    timers.delete(id);
+    elapsed = Math.max(elapsed, timer.due);
+    timer.callback();
+    return true;
+  };
+
+  // Lets the promise callbacks run before each due timer, since they may schedule new timers
+  const invokeDueAsync = async (until: number): Promise<void> => {
+    await drainPromiseCallbacks();
+    if (invokeNext(until)) {
+      await invokeDueAsync(until);
+    }
+  };
+
+  const clock: ManualClock = {
+    now: () => origin + elapsed,
+
+    setTimeout: (callback, delay) => {
+      const id = ++lastId;
+      timers.set(id, { due: elapsed + toNonNegativeInteger(delay), callback });
+      return id;
+    },
+
+    clearTimeout: (timeoutId) => {
+      if (typeof timeoutId === 'number') {
+        timers.delete(timeoutId);
+      }
+    },
+
+    performance: { now: () => elapsed },
+
+    get pending() {
+      return timers.size;
+    },
+
+    advance: (milliseconds) => {
+      const until = elapsed + toNonNegativeInteger(milliseconds);
+      while (invokeNext(until)) {
+        // keeps invoking the due timers
+      }
+      elapsed = until;
+    },
+
+    advanceAsync: async (milliseconds) => {
+      const until = elapsed + toNonNegativeInteger(milliseconds);
+      await invokeDueAsync(until);
+      elapsed = until;
+      await drainPromiseCallbacks();
+    },
+  };
+
+  return clock;
+};
+
+type ManualTimer = { readonly due: number; readonly callback: () => void };
+
+const drainPromiseCallbacks = (): Promise<void> =>
+  new Promise((resolve) => {
+    setTimeout(resolve, 0);
+  });
@@ -1,8 +1,9 @@
 import { CanceledError } from '../common/canceled-error.ts';
 import { toNonNegativeInteger } from '../common/duration.ts';
+import type { Clock } from './clock.ts';
+import { systemClock } from './clock.ts';
 import type { DeferredValue } from './deferred-value.ts';
 import { createDeferredValue } from './deferred-value.ts';
-import type { Timeout } from './types.ts';
 
 /**
  * Configuration options for the debounce utility.
@@ -43,6 +44,13 @@ export type DebounceOptions<TArgs extends unknown[] = unknown[]> = {
    * @returns The accumulated arguments to use for the next call or final execution
    */
   readonly accumulator?: (previousArgs: TArgs | undefined, currentArgs: TArgs) => [...TArgs];
+
+  /**
+   * The clock used to schedule the executions, which can be a manual clock (see `createManualClock`) in tests.
+   *
+   * @default systemClock
+   */
+  readonly clock?: Clock;
 };
 
 /**
@@ -181,7 +189,7 @@ export const debounce = <TArgs extends unknown[], TReturn>(
   fn: (...args: TArgs) => TReturn | Promise<TReturn>,
   options: number | DebounceOptions<TArgs>,
 ): DebouncedFunction<TArgs, TReturn> => {
-  let timeoutId: Timeout | undefined;
+  let timeoutId: unknown;
   let lastArgs: TArgs | undefined;
   let pendingDeferred: DeferredValue<TReturn> | undefined;
   let nextDeferred: DeferredValue<TReturn> | undefined;
@@ -193,6 +201,8 @@ export const debounce = <TArgs extends unknown[], TReturn>(
       ? { delay: toNonNegativeInteger(options), waitForPrevious: false }
       : { waitForPrevious: false, ...options, delay: toNonNegativeInteger(options.delay) };
 
+  const clock = options.clock ?? systemClock;
+
   const executeFunction = async (args: TArgs): Promise<TReturn> => {
     isExecuting = true;
     try {
@@ -220,9 +230,9 @@ export const debounce = <TArgs extends unknown[], TReturn>(
         const argsForNext = lastArgs;
         lastArgs = undefined;
         if (timeoutId !== undefined) {
-          clearTimeout(timeoutId);
+          clock.clearTimeout(timeoutId);
         }
-        timeoutId = setTimeout(() => {
+        timeoutId = clock.setTimeout(() => {
           timeoutId = undefined;
           if (!isExecuting) {
             void executeFunction(argsForNext).catch(() => void 0);
@@ -261,10 +271,10 @@ export const debounce = <TArgs extends unknown[], TReturn>(
 
       // Set up timeout to reset leading edge flag
       if (timeoutId !== undefined) {
-        clearTimeout(timeoutId);
+        clock.clearTimeout(timeoutId);
       }
 
-      timeoutId = setTimeout(() => {
+      timeoutId = clock.setTimeout(() => {
         hasLeadingBeenCalled = false;
         timeoutId = undefined;
       }, options.delay);
@@ -274,7 +284,7 @@ export const debounce = <TArgs extends unknown[], TReturn>(
 
     // Clear any existing timeout
     if (timeoutId !== undefined) {
-      clearTimeout(timeoutId);
+      clock.clearTimeout(timeoutId);
     }
 
     const debouncedExecution = async () => {
@@ -291,14 +301,14 @@ export const debounce = <TArgs extends unknown[], TReturn>(
       }
     };
 
-    timeoutId = setTimeout(() => void debouncedExecution(), options.delay);
+    timeoutId = clock.setTimeout(() => void debouncedExecution(), options.delay);
 
     return pendingDeferred.promise;
   };
 
   debouncedFunction.cancel = (silent?: boolean) => {
     if (timeoutId !== undefined) {
-      clearTimeout(timeoutId);
+      clock.clearTimeout(timeoutId);
       timeoutId = undefined;
     }
 
@@ -325,7 +335,7 @@ export const debounce = <TArgs extends unknown[], TReturn>(
 
   debouncedFunction.flush = (): Promise<TReturn> | undefined => {
     if (timeoutId !== undefined) {
-      clearTimeout(timeoutId);
+      clock.clearTimeout(timeoutId);
       timeoutId = undefined;
     }
 
@@ -1,6 +1,7 @@
 import { CanceledError } from '../common/canceled-error.ts';
 import { toNonNegativeInteger } from '../common/duration.ts';
-import type { Timeout } from './types.ts';
+import type { ClockOptions } from './clock.ts';
+import { systemClock } from './clock.ts';
 
 /**
  * Delays the execution of the code for the specified amount of milliseconds.
@@ -25,9 +26,11 @@ import type { Timeout } from './types.ts';
  * ```
  *
  * @param milliseconds The amount of milliseconds to wait (0 if negatived, and ceil if decimal).
+ * @param options Optional clock used to schedule the delay (default: the system clock).
  * @returns A promise that resolves after the specified amount of milliseconds.
  */
-export const delay = (milliseconds: number): Promise<void> => cancelableDelay(milliseconds).promise;
+export const delay = (milliseconds: number, options?: ClockOptions): Promise<void> =>
+  cancelableDelay(milliseconds, options).promise;
 
 export type CancelableDelay = Readonly<{ promise: Promise<void>; cancel: () => void }>;
 
@@ -54,19 +57,33 @@ export type CancelableDelay = Readonly<{ promise: Promise<void>; cancel: () => v
  * }
  * ```
  *
+ * @example With a manual clock
+ *
+ * ```ts
+ * import { cancelableDelay, createManualClock } from 'emitnlog/utils';
+ *
+ * const clock = createManualClock();
+ * const { promise } = cancelableDelay(500, { clock });
+ *
+ * clock.advance(500);
+ * await promise;
+ * ```
+ *
  * @param milliseconds The amount of milliseconds to wait (0 if negatived, and ceil if decimal).
+ * @param options Optional clock used to schedule the delay (default: the system clock).
  * @returns A promise that resolves after the specified amount of milliseconds, and a cancel function that rejects the
  *   promise with `CanceledError` when invoked.
  */
-export const cancelableDelay = (milliseconds: number): CancelableDelay => {
+export const cancelableDelay = (milliseconds: number, options?: ClockOptions): CancelableDelay => {
   const duration = toNonNegativeInteger(milliseconds);
-  let timeoutId: Timeout | undefined;
+  const clock = options?.clock ?? systemClock;
+  let timeoutId: unknown;
   let settled = false;
 
   // eslint-disable-next-line @typescript-eslint/no-invalid-void-type
   const { promise, resolve, reject } = Promise.withResolvers<void>();
 
-  timeoutId = setTimeout(() => {
+  timeoutId = clock.setTimeout(() => {
     if (settled) {
       return;
     }
@@ -84,7 +101,7 @@ export const cancelableDelay = (milliseconds: number): CancelableDelay => {
     settled = true;
 
     if (timeoutId !== undefined) {
-      clearTimeout(timeoutId);
+      clock.clearTimeout(timeoutId);
       timeoutId = undefined;
     }
 
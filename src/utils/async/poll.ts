@@ -2,6 +2,8 @@ import type { Logger } from '../../logger/definition.ts';
 import { withLogger } from '../../logger/off-logger.ts';
 import { withPrefix } from '../../logger/prefixed-logger.ts';
 import { stringifyDuration, toNonNegativeInteger } from '../common/duration.ts';
+import type { Clock } from './clock.ts';
+import { systemClock } from './clock.ts';
 import { createDeferredValue } from './deferred-value.ts';
 import { cancelableDelay } from './delay.ts';
 
@@ -47,6 +49,14 @@ export type PollingOptions<T, V> = {
    * Logger to capture polling events and errors.
    */
   readonly logger?: Logger;
+
+  /**
+   * The clock used to schedule the invocations and the timeout, which can be a manual clock (see `createManualClock`)
+   * in tests.
+   *
+   * @default systemClock
+   */
+  readonly clock?: Clock;
 };
 
 /**
@@ -153,6 +163,9 @@ export const startPolling = <T, const V = undefined>(
   let active = true;
   let lastResult: T | V | undefined;
   let cancelTimeoutDelay: (() => void) | undefined;
+  let timeoutId: unknown;
+
+  const clock = options?.clock ?? systemClock;
 
   const logger = withPrefix(withLogger(options?.logger), 'poll', { fallbackPrefix: 'emitnlog' });
 
@@ -211,7 +224,7 @@ export const startPolling = <T, const V = undefined>(
       cancelTimeoutDelay?.();
 
       logger.d`closing the poll after ${invocationIndex + 1} invocations`;
-      clearInterval(intervalId);
+      clock.clearTimeout(timeoutId);
       deferred.resolve(lastResult);
     }
 
@@ -227,11 +240,19 @@ export const startPolling = <T, const V = undefined>(
     }
   }
 
-  const intervalId = setInterval(polledOperation, interval);
+  // The next invocation is scheduled before the current one, keeping the pace of an interval
+  const scheduleOperation = (): void => {
+    timeoutId = clock.setTimeout(() => {
+      scheduleOperation();
+      polledOperation();
+    }, interval);
+  };
+
+  scheduleOperation();
 
   const timeout = options?.timeout;
   if (timeout !== undefined && timeout >= 0) {
-    const { promise: timeoutPromise, cancel } = cancelableDelay(timeout);
+    const { promise: timeoutPromise, cancel } = cancelableDelay(timeout, { clock });
     cancelTimeoutDelay = cancel;
     void timeoutPromise
       .then(() => {
@@ -0,0 +1,306 @@
+import type { Logger } from '../../logger/definition.ts';
+import { withLogger } from '../../logger/off-logger.ts';
+import { withPrefix } from '../../logger/prefixed-logger.ts';
+import type { OnEvent } from '../../notifier/definition.ts';
+import { createEventNotifier } from '../../notifier/implementation.ts';
+import { CanceledError } from '../common/canceled-error.ts';
+import { stringifyDuration, toNonNegativeInteger } from '../common/duration.ts';
+import type { Clock } from './clock.ts';
+import { systemClock } from './clock.ts';
+import { createDeferredValue } from './deferred-value.ts';
+import { cancelableDelay } from './delay.ts';
+
+/**
+ * The strategy used to compute the delay before each retry: `exponential` doubles the base delay on each retry,
+ * `linear` adds the base delay on each retry, and a function returns the delay in milliseconds for the retry number (1
+ * for the first retry) and the error of the failed attempt.
+ */
+export type RetryBackoff = 'exponential' | 'linear' | ((retry: number, error: unknown) => number);
+
+/**
+ * Configuration options for retry operations.
+ */
+export type RetryOptions = {
+  /**
+   * The maximum number of retries after the first attempt.
+   *
+   * @default 3
+   */
+  readonly retries?: number;
+
+  /**
+   * The base delay in milliseconds used by the `exponential` and `linear` backoffs.
+   *
+   * @default 100
+   */
+  readonly delay?: number;
+
+  /**
+   * The maximum delay in milliseconds before a retry, applied to all backoffs.
+   *
+   * @default 30s (30000)
+   */
+  readonly maxDelay?: number;
+
+  /**
+   * The strategy used to compute the delay before each retry.
+   *
+   * @default 'exponential'
+   */
+  readonly backoff?: RetryBackoff;
+
+  /**
+   * Randomly reduces each delay to spread the retries of concurrent operations: `true` picks a delay between 0 and the
+   * computed delay ("full jitter"), while a number between 0 and 1 is the maximum fraction of the delay that is
+   * removed.
+   *
+   * @default false
+   */
+  readonly jitter?: boolean | number;
+
+  /**
+   * Returns true if the error of a failed attempt should be retried. The retry stops, rejecting with the error, when it
+   * returns false.
+   *
+   * @default All errors are retried
+   * @param error The error of the failed attempt.
+   * @param attempt The number of the failed attempt (1 for the first attempt).
+   * @returns `true` to retry, `false` to stop.
+   */
+  readonly retryOn?: (error: unknown, attempt: number) => boolean;
+
+  /**
+   * The maximum time in milliseconds of each attempt. An attempt that does not settle in time fails with a timeout
+   * error (whose message starts with `Timeout:`), which is retried like any other error. The operation itself is not
+   * interrupted.
+   */
+  readonly timeout?: number;
+
+  /**
+   * A signal that cancels the retry when aborted, rejecting with a `CanceledError` without waiting for the current
+   * attempt or delay.
+   */
+  // eslint-disable-next-line no-undef
+  readonly signal?: AbortSignal;
+
+  /**
+   * Logger to capture the attempts and errors.
+   */
+  readonly logger?: Logger;
+
+  /**
+   * The clock used to schedule the delays and timeouts, and to measure the attempts, which can be a manual clock (see
+   * `createManualClock`) in tests.
+   *
+   * @default systemClock
+   */
+  readonly clock?: Clock;
+};
+
+/**
+ * The event notified after each attempt of a retry operation.
+ */
+export type RetryAttempt = {
+  /**
+   * The number of the attempt (1 for the first attempt).
+   */
+  readonly attempt: number;
+
+  /**
+   * The duration of the attempt in milliseconds.
+   */
+  readonly duration: number;
+} & (
+  | { readonly outcome: 'succeeded' }
+  | {
+      readonly outcome: 'failed';
+
+      /**
+       * The error of the attempt.
+       */
+      readonly error: unknown;
+
+      /**
+       * The delay in milliseconds before the next attempt, or undefined if the error is not retried.
+       */
+      readonly retryDelay?: number;
+    }
+);
+
+/**
+ * A running retry operation.
+ */
+export type Retry<T> = {
+  /**
+   * Resolves with the value of the first successful attempt, or rejects with the error of the last attempt (or with a
+   * `CanceledError` if the signal is aborted).
+   */
+  readonly wait: Promise<T>;
+
+  /**
+   * Registers a listener notified after each attempt, which is useful to collect metrics.
+   */
+  readonly onAttempt: OnEvent<RetryAttempt>;
+};
+
+/**
+ * Invokes an operation until it succeeds, the error is not retryable, the number of retries is exhausted, or the signal
+ * is aborted, waiting for a backoff delay between the attempts.
+ *
+ * The operation handles both synchronous and asynchronous (Promise-returning) functions. The first attempt starts on
+ * the next microtask, so the listeners registered on `onAttempt` right after `retry` returns are notified of all
+ * attempts.
+ *
+ * @example Basic usage
+ *
+ * ```ts
+ * import { retry } from 'emitnlog/utils';
+ *
+ * const { wait } = retry(() => fetchUser(id), { retries: 5, jitter: true, logger });
+ * const user = await wait;
+ * ```
+ *
+ * @example Only retrying some errors, with cancellation
+ *
+ * ```ts
+ * import { retry } from 'emitnlog/utils';
+ *
+ * const controller = new AbortController();
+ * const { wait, onAttempt } = retry(() => fetchReport(), {
+ *   backoff: 'linear',
+ *   delay: 1000,
+ *   timeout: 5000,
+ *   retryOn: (error) => !(error instanceof NotFoundError),
+ *   signal: controller.signal,
+ * });
+ *
+ * onAttempt((event) => metrics.record('report.attempt', event.duration, { outcome: event.outcome }));
+ * ```
+ *
+ * @param operation Function to execute on each attempt, receiving the number of the attempt (1 for the first attempt).
+ * @param options Optional configuration for the retry behavior.
+ * @returns The `wait` promise with the result of the operation and the `onAttempt` event.
+ */
+export const retry = <T>(operation: (attempt: number) => T | Promise<T>, options?: RetryOptions): Retry<T> => {
+  const retries = toNonNegativeInteger(options?.retries, 3);
+  const baseDelay = toNonNegativeInteger(options?.delay, 100);
+  const maxDelay = toNonNegativeInteger(options?.maxDelay, 30_000);
+  const backoff = options?.backoff ?? 'exponential';
+  const jitter = options?.jitter === true ? 1 : Math.min(1, Math.max(0, Number(options?.jitter ?? 0)));
+  const timeout = options?.timeout;
+  const signal = options?.signal;
+  const clock = options?.clock ?? systemClock;
+
+  const logger = withPrefix(withLogger(options?.logger), 'retry', { fallbackPrefix: 'emitnlog' });
+  const attemptNotifier = createEventNotifier<RetryAttempt>();
+
+  const canceled = createDeferredValue<never>();
+  canceled.promise.catch(() => void 0);
+  let cancelDelay: (() => void) | undefined;
+
+  const onAbort = (): void => {
+    cancelDelay?.();
+    canceled.reject(new CanceledError('the retry was cancelled'));
+  };
+
+  const invoke = async (attempt: number): Promise<T> => {
+    const result = operation(attempt);
+    if (timeout === undefined) {
+      return result;
+    }
+
+    const { promise: timeoutPromise, cancel } = cancelableDelay(timeout, { clock });
+    try {
+      return await Promise.race([
+        result,
+        timeoutPromise.then(() => {
+          throw new Error(`Timeout: attempt ${attempt} did not settle within ${timeout}ms`);
+        }),
+      ]);
+    } finally {
+      cancel();
+    }
+  };
+
+  const toRetryDelay = (retryNumber: number, error: unknown): number => {
+    const value =
+      typeof backoff === 'function'
+        ? backoff(retryNumber, error)
+        : backoff === 'linear'
+          ? baseDelay * retryNumber
+          : baseDelay * 2 ** (retryNumber - 1);
+    const capped = Math.min(maxDelay, toNonNegativeInteger(value));
+    return jitter ? toNonNegativeInteger(capped * (1 - jitter * Math.random())) : capped;
+  };
+
+  const run = async (attempt: number): Promise<T> => {
+    if (signal?.aborted) {
+      return await canceled.promise;
+    }
+
+    logger.d`starting attempt ${attempt} of ${retries + 1}`;
+    const start = clock.performance.now();
+
+    let error: unknown;
+    try {
+      const value = await Promise.race([invoke(attempt), canceled.promise]);
+      const duration = clock.performance.now() - start;
+      logger.d`attempt ${attempt} succeeded after ${stringifyDuration(duration)}`;
+      attemptNotifier.notify({ attempt, duration, outcome: 'succeeded' });
+      return value;
+    } catch (attemptError) {
+      if (canceled.settled) {
+        throw attemptError;
+      }
+
+      error = attemptError;
+    }
+
+    const duration = clock.performance.now() - start;
+    if (attempt > retries || (options?.retryOn && !options.retryOn(error, attempt))) {
+      if (attempt > retries) {
+        logger.args(error).e`giving up after ${attempt} attempts: ${error}`;
+      } else {
+        logger.args(error).e`attempt ${attempt} failed with an error that is not retried: ${error}`;
+      }
+
+      attemptNotifier.notify({ attempt, duration, outcome: 'failed', error });
+      throw error;
+    }
+
+    const retryDelay = toRetryDelay(attempt, error);
+    logger.args(error).w`attempt ${attempt} failed, retrying in ${retryDelay}ms: ${error}`;
+    attemptNotifier.notify({ attempt, duration, outcome: 'failed', error, retryDelay });
+
+    const { promise: delayPromise, cancel } = cancelableDelay(retryDelay, { clock });
+    cancelDelay = cancel;
+    await Promise.race([delayPromise, canceled.promise]);
+    cancelDelay = undefined;
+
+    return run(attempt + 1);
+  };
+
+  const wait = (async (): Promise<T> => {
+    if (signal?.aborted) {
+      logger.d`the retry was cancelled before the first attempt`;
+      throw new CanceledError('the retry was cancelled');
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      // Lets the listeners registered right after `retry` returns be notified of the first attempt
+      await Promise.resolve();
+      return await run(1);
+    } catch (error) {
+      if (canceled.settled) {
+        logger.d`the retry was cancelled`;
+      }
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      attemptNotifier.close();
+    }
+  })();
+
+  return { wait, onAttempt: attemptNotifier.onEvent };
+};
@@ -1,4 +1,5 @@
 import { CanceledError } from '../common/canceled-error.ts';
+import type { ClockOptions } from './clock.ts';
 import { cancelableDelay } from './delay.ts';
 
 /**
@@ -28,10 +29,23 @@ import { cancelableDelay } from './delay.ts';
  * const content: string | undefined = await promise.then((value) => (value === -1 ? undefined : value));
  * ```
  *
+ * @example With a manual clock
+ *
+ * ```ts
+ * import { createManualClock, withTimeout } from 'emitnlog/utils';
+ *
+ * const clock = createManualClock();
+ * const promise = withTimeout(new Promise(() => void 0), 5000, 'timeout', { clock });
+ *
+ * clock.advance(5000);
+ * expect(await promise).toBe('timeout');
+ * ```
+ *
  * @param promise The promise to be wrapped with a timeout.
  * @param timeout The maximum duration (in milliseconds) to wait before resolving with `timeoutValue`. (0 if negatived,
  *   and ceil if decimal).
  * @param timeoutValue The value to resolve with if the timeout is reached before the promise completes.
+ * @param options Optional clock used to schedule the timeout (default: the system clock).
  * @returns A promise that resolves with the original promise's value if completed within the timeout, or with
  *   `timeoutValue` otherwise.
  */
@@ -39,8 +53,9 @@ export const withTimeout = <T, const R = undefined>(
   promise: Promise<T>,
   timeout: number,
   timeoutValue?: R,
+  options?: ClockOptions,
 ): Promise<T | R> => {
-  const { promise: delayPromise, cancel } = cancelableDelay(timeout);
+  const { promise: delayPromise, cancel } = cancelableDelay(timeout, options);
   const timeoutPromise = delayPromise.then(
     () => timeoutValue as R,
     (error: unknown) => {
@@ -69,6 +69,19 @@ export type StringifyOptions = {
    * @default false
    */
   readonly excludeObjectTruncationProperty?: boolean;
+
+  /**
+   * A function invoked for each value visited while the value is walked, before it is converted, returning the value to
+   * use instead (similar to the `JSON.stringify` replacer). The `key` is the property name, the array index, or `''`
+   * for the root value.
+   *
+   * This is useful to redact or transform values at any depth, for example:
+   *
+   * ```ts
+   * stringify(config, { replacer: (key, value) => (key === 'password' ? '[REDACTED]' : value) });
+   * ```
+   */
+  readonly replacer?: (key: string, value: unknown) => unknown;
 };
 
 /**
@@ -111,8 +124,11 @@ export const stringify = (value: unknown, options?: StringifyOptions): string =>
     useLocale = false,
     maxArrayElements = 100,
     maxProperties = 50,
+    replacer,
   } = options ?? emptyRecord<string, undefined>();
 
+  const replace = (key: string, val: unknown): unknown => (replacer ? replacer(key, val) : val);
+
   const prepare = (val: unknown, depth = 0, seen = new WeakSet()): unknown => {
     const type = typeof val;
     switch (type) {
@@ -211,7 +227,7 @@ export const stringify = (value: unknown, options?: StringifyOptions): string =>
             }
 
             try {
-              return (val as unknown[]).map((item) => prepare(item, depth + 1, seen));
+              return (val as unknown[]).map((item, i) => prepare(replace(String(i), item), depth + 1, seen));
             } catch {
               // ignore
             }
@@ -234,7 +250,7 @@ export const stringify = (value: unknown, options?: StringifyOptions): string =>
 
             const prepareValue = (key: string) => {
               const v = (val as Record<string, unknown>)[key];
-              return prepare(v, depth + 1, seen);
+              return prepare(replace(key, v), depth + 1, seen);
             };
 
             if (maxProperties >= 0 && keys.length > maxProperties) {
@@ -321,7 +337,7 @@ export const stringify = (value: unknown, options?: StringifyOptions): string =>
   };
 
   try {
-    const converted = prepare(value);
+    const converted = prepare(replace('', value));
     return convert(converted);
   } catch {
     return '[Stringify Error]';
@@ -1,7 +1,9 @@
+export * from './async/clock.ts';
 export * from './async/debounce.ts';
 export * from './async/deferred-value.ts';
 export * from './async/delay.ts';
 export * from './async/poll.ts';
+export * from './async/retry.ts';
 export * from './async/types.ts';
 export * from './async/with-timeout.ts';
 export * from './common/canceled-error.ts';
@@ -1,13 +1,21 @@
-import { resolve } from 'node:path';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
 
-import type { Logger } from '../../logger/definition.ts';
+import type { Logger, LogLevel } from '../../logger/definition.ts';
+import type { LogFormatter } from '../../logger/emitter/formatter.ts';
+import { ndjsonFormatter } from '../../logger/emitter/formatter.ts';
+import type { MemoryLogger } from '../../logger/memory-logger.ts';
+import { createMemoryLogger } from '../../logger/memory-logger.ts';
 import { withLogger } from '../../logger/off-logger.ts';
 import { withPrefix } from '../../logger/prefixed-logger.ts';
+import { tee } from '../../logger/tee-logger.ts';
 import type { Closer, SyncClosable } from '../common/closable.ts';
 import { asClosable, createCloser, safeClose } from '../common/closable.ts';
 import { stringifyDuration } from '../common/duration.ts';
 import { exhaustiveCheck } from '../common/exhaustive-check.ts';
+import { stringify } from '../converter/stringify.ts';
 
 /**
  * Indicates whether the current module is the main entry point of the running process.
@@ -108,13 +116,50 @@ export type ProcessMainInput = {
   readonly isClosing: () => boolean;
 
   /**
-   * A logger instance, either the one passed via the `options` parameter or the `OFF_LOGGER`.
+   * A logger instance, either the one passed via the `options` parameter or the `OFF_LOGGER`. When the flight recorder
+   * is enabled, the entries of this logger are also recorded, regardless of the level of the logger passed via the
+   * `options` parameter.
    *
    * This logger is closed when the process ends.
    */
   readonly logger: Logger;
 };
 
+/**
+ * Configuration options of the flight recorder of {@link runProcessMain}.
+ */
+export type FlightRecorderOptions = {
+  /**
+   * The maximum number of entries kept by the recorder. When exceeded, the oldest entries are removed.
+   *
+   * @default 1000
+   */
+  readonly capacity?: number;
+
+  /**
+   * The level of the recorded entries. Since the recorder receives the entries of the logger, a level more verbose than
+   * the level of the logger (e.g., `trace`) also lowers the level of the logger passed to `main`, which evaluates the
+   * entries below its original level only for the recorder.
+   *
+   * @default the level of the logger, which is `off` if no logger is provided
+   */
+  readonly level?: LogLevel | 'off';
+
+  /**
+   * The path of the crash report or a function that computes it from the start `Date` of the process.
+   *
+   * @default `emitnlog-crash-<pid>-<start>.log` in the temporary directory of the operating system
+   */
+  readonly filePath?: string | ((start: Date) => string);
+
+  /**
+   * The formatter of the recorded entries in the crash report.
+   *
+   * @default ndjsonFormatter
+   */
+  readonly formatter?: LogFormatter;
+};
+
 /**
  * Wraps the main entry point of a NodeJS process with automatic lifecycle management.
  *
@@ -124,6 +169,11 @@ export type ProcessMainInput = {
  * - If the function "fails" (throws or rejects), the process exits with code `1`.
  * - If a logger is provided via the `options` parameter, it will be used to log the start and end of the process
  *   lifecycle, with the duration of the operation. This logger is closed when the applications exists.
+ * - If the `flightRecorder` option is enabled, the latest entries of the logger are recorded, at the level of the logger
+ *   unless the recorder has its own level (e.g., `trace`). If the main function fails or the process exits because of
+ *   an uncaught exception or an unhandled rejection, the recorded entries are written with the error to a crash report
+ *   file. Nothing is written when the process ends normally or because of a signal. Only the logger passed to `main` is
+ *   recorded: the entries of other loggers of the application are not.
  *
  * If the current module is not the main entry point, this function does nothing. This allows the same module to be
  * safely imported elsewhere without side effects.
@@ -191,6 +241,25 @@ export type ProcessMainInput = {
  * );
  * ```
  *
+ * @example With a flight recorder:
+ *
+ * ```ts
+ * import { createConsoleErrorLogger } from 'emitnlog/logger';
+ * import { runProcessMain } from 'emitnlog/utils';
+ *
+ * runProcessMain(
+ *   import.meta.url,
+ *   async ({ logger }) => {
+ *     logger.t`connecting to the database...`; // Not emitted, but written to the crash report if the process crashes
+ *     // ... your application logic
+ *   },
+ *   {
+ *     logger: createConsoleErrorLogger('info'),
+ *     flightRecorder: { capacity: 5000, filePath: (start) => `/var/log/my-app/crash-${start.valueOf()}.log` },
+ *   },
+ * );
+ * ```
+ *
  * @param moduleReference `import.meta.url`, `__filename`, `module.filename`, or `undefined` as described above.
  * @param main The async function to execute as the process entry point. Receives an input object as argument as
  *   described above.
@@ -212,13 +281,24 @@ export const runProcessMain = (
      * passed to the `main` method, to enable timestamp-based logger configuration.
      */
     readonly logger?: Logger | ((start: Date) => Logger);
+
+    /**
+     * If `true` or an options object, records the latest entries of the logger and writes them with the error to a
+     * crash report file if the process fails. Only the entries of the lifecycle and of the logger passed to `main` (and
+     * of the loggers derived from it, like prefixed loggers) are recorded.
+     */
+    readonly flightRecorder?: boolean | FlightRecorderOptions;
   },
 ): void => {
   if (isProcessMain(moduleReference)) {
     const start = new Date();
     const closer = createCloser();
 
-    const logger = withLogger(typeof options?.logger === 'function' ? options.logger(start) : options?.logger);
+    const baseLogger = withLogger(typeof options?.logger === 'function' ? options.logger(start) : options?.logger);
+    const recorder = options?.flightRecorder
+      ? createFlightRecorder(start, baseLogger, options.flightRecorder === true ? undefined : options.flightRecorder)
+      : undefined;
+    const logger = recorder ? tee(baseLogger, recorder.logger) : baseLogger;
 
     let closedLogger = false;
     const doClose = async (): Promise<void> => {
@@ -267,7 +347,11 @@ export const runProcessMain = (
     if (!options?.skipOnProcessExit) {
       closer.add(
         onProcessExit(
-          () => {
+          (event) => {
+            // A promise may be rejected with any value, including undefined
+            if (event.signal === 'uncaughtException' || event.signal === 'unhandledRejection') {
+              recorder?.writeReport(event.error, logger);
+            }
             void close();
           },
           { logger },
@@ -287,12 +371,65 @@ export const runProcessMain = (
         const end = new Date();
         logger.args(error)
           .e`an error occurred while running the main operation on process ${process.pid} and the operation finished at ${end} after ${stringifyDuration(end.valueOf() - start.valueOf())}`;
+        recorder?.writeReport(error, logger);
         await close();
         process.exit(1);
       });
   }
 };
 
+type FlightRecorder = { readonly logger: MemoryLogger; readonly writeReport: (error: unknown, logger: Logger) => void };
+
+const createFlightRecorder = (
+  start: Date,
+  baseLogger: Logger,
+  options: FlightRecorderOptions | undefined,
+): FlightRecorder => {
+  const logger = createMemoryLogger(options?.level ?? (() => baseLogger.level), {
+    capacity: options?.capacity ?? 1000,
+  });
+  const formatter = options?.formatter ?? ndjsonFormatter;
+
+  let written = false;
+  return {
+    logger,
+    writeReport: (error, lifecycleLogger) => {
+      if (written) {
+        return;
+      }
+      written = true;
+
+      const filePath = resolve(
+        typeof options?.filePath === 'function'
+          ? options.filePath(start)
+          : (options?.filePath ?? join(tmpdir(), `emitnlog-crash-${process.pid}-${start.valueOf()}.log`)),
+      );
+
+      const report = [
+        `Crash report of process ${process.pid}`,
+        `Started at: ${start.toISOString()}`,
+        `Crashed at: ${new Date().toISOString()}`,
+        '',
+        error instanceof Error ? error.stack || error.message : `Failed with a non-error value: ${stringify(error)}`,
+        '',
+        logger.dropped
+          ? `Last ${logger.entries.length} log entries (${logger.dropped} older entries dropped):`
+          : `Log entries (${logger.entries.length}):`,
+        logger.dump(formatter),
+        '',
+      ].join('\n');
+
+      try {
+        mkdirSync(dirname(filePath), { recursive: true });
+        writeFileSync(filePath, report);
+        lifecycleLogger.i`the crash report of process ${process.pid} was written to '${filePath}'`;
+      } catch (writeError) {
+        lifecycleLogger.args(writeError).e`failed to write the crash report of process ${process.pid} to '${filePath}'`;
+      }
+    },
+  };
+};
+
 // Do not add 'exit':
 // - Fires on every normal shutdown
 // - Runs after the event loop is drained and Node forbids asynchronous work at that point.
@@ -43,4 +43,10 @@ describe('CJS Flat imports', () => {
     expect(typeof emitnlog.runProcessMain).toBe('function');
     expect(emitnlog.isProcessMain(__filename)).toBe(false);
   });
+
+  test('Testing exports are only available from the testing path', () => {
+    expect(emitnlog.testing).toBeUndefined();
+    expect(emitnlog.testingMatchers).toBeUndefined();
+    expect(emitnlog.recordEvents).toBeUndefined();
+  });
 });
@@ -1,5 +1,6 @@
 const { createConsoleLogLogger, createFileLogger, fromEnv, requestLogger, OFF_LOGGER } = require('emitnlog/logger');
 const { createEventNotifier } = require('emitnlog/notifier');
+const { recordEvents, testingMatchers } = require('emitnlog/testing');
 const {
   createAsyncLocalStorageInvocationStack,
   createInvocationTracker,
@@ -35,6 +36,11 @@ describe('CJS path imports', () => {
     expect(typeof createEventNotifier).toBe('function');
   });
 
+  test('Testing import works', () => {
+    expect(typeof recordEvents).toBe('function');
+    expect(typeof testingMatchers.toHaveLogged).toBe('function');
+  });
+
   test('Tracker import works', () => {
     expect(typeof createAsyncLocalStorageInvocationStack).toBe('function');
     expect(typeof createInvocationTracker).toBe('function');
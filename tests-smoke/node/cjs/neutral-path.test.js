@@ -1,5 +1,6 @@
 const logging = require('emitnlog/neutral/logger');
 const notifying = require('emitnlog/neutral/notifier');
+const testing = require('emitnlog/neutral/testing');
 const tracking = require('emitnlog/neutral/tracker');
 const utils = require('emitnlog/neutral/utils');
 
@@ -37,6 +38,11 @@ describe('CJS neutral path imports', () => {
     expect(typeof tracking.trackPromises).toBe('function');
   });
 
+  test('Testing path exports are available', () => {
+    expect(typeof testing.recordEvents).toBe('function');
+    expect(typeof testing.testingMatchers.toHaveLogged).toBe('function');
+  });
+
   test('Utils path exports are available', () => {
     expect(typeof utils.createDeferredValue).toBe('function');
     expect(typeof utils.emptyArray).toBe('function');
@@ -42,4 +42,10 @@ describe('ESM flat imports', () => {
     expect(typeof emitnlog.runProcessMain).toBe('function');
     expect(emitnlog.isProcessMain(import.meta.url)).toBe(false);
   });
+
+  test('Testing exports are only available from the testing path', () => {
+    expect(emitnlog.testing).toBeUndefined();
+    expect(emitnlog.testingMatchers).toBeUndefined();
+    expect(emitnlog.recordEvents).toBeUndefined();
+  });
 });
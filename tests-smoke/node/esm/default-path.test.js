@@ -1,5 +1,6 @@
 import { createConsoleLogLogger, createFileLogger, fromEnv, requestLogger, OFF_LOGGER } from 'emitnlog/logger';
 import { createEventNotifier } from 'emitnlog/notifier';
+import { recordEvents, testingMatchers } from 'emitnlog/testing';
 import {
   createAsyncLocalStorageInvocationStack,
   createInvocationTracker,
@@ -34,6 +35,11 @@ describe('ESM path imports', () => {
     expect(typeof createEventNotifier).toBe('function');
   });
 
+  test('Testing import works', () => {
+    expect(typeof recordEvents).toBe('function');
+    expect(typeof testingMatchers.toHaveLogged).toBe('function');
+  });
+
   test('Tracker import works', () => {
     expect(typeof createAsyncLocalStorageInvocationStack).toBe('function');
     expect(typeof createInvocationTracker).toBe('function');
@@ -1,5 +1,6 @@
 import * as logging from 'emitnlog/neutral/logger';
 import * as notifying from 'emitnlog/neutral/notifier';
+import * as testing from 'emitnlog/neutral/testing';
 import * as tracking from 'emitnlog/neutral/tracker';
 import * as utils from 'emitnlog/neutral/utils';
 import { expect, test, describe } from 'vitest';
@@ -37,6 +38,11 @@ describe('ESM neutral path imports', () => {
     expect(typeof tracking.trackPromises).toBe('function');
   });
 
+  test('Testing path exports are available', () => {
+    expect(typeof testing.recordEvents).toBe('function');
+    expect(typeof testing.testingMatchers.toHaveLogged).toBe('function');
+  });
+
   test('Utils path exports are available', () => {
     expect(typeof utils.createDeferredValue).toBe('function');
     expect(typeof utils.emptyArray).toBe('function');
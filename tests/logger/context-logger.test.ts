@@ -0,0 +1,219 @@
+import { describe, expect, test, vi } from 'vitest';
+
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import {
+  createMemoryLogger,
+  emitter,
+  implementation,
+  inspectLogContext,
+  OFF_LOGGER,
+  tee,
+  withContext,
+  withMinimumLevel,
+  withPrefix,
+} from '../../src/logger/index.ts';
+import { createFileLogger } from '../../src/logger/index-node.ts';
+
+describe('emitnlog.logger.context-logger', () => {
+  test('should return OFF_LOGGER when logger is OFF_LOGGER', () => {
+    expect(withContext(OFF_LOGGER, { requestId: 'abc' })).toBe(OFF_LOGGER);
+  });
+
+  test('should bind the context to every entry', () => {
+    const memoryLogger = createMemoryLogger('trace');
+    const logger = withContext(memoryLogger, { requestId: 'abc', tenant: 'acme' });
+
+    logger.info('first');
+    logger.e`second`;
+    logger.args({ id: 1 }).warning('third', 'extra');
+
+    expect(memoryLogger.entries).toHaveLength(3);
+    expect(memoryLogger.entries[0]).toMatchObject({
+      level: 'info',
+      message: 'first',
+      context: { requestId: 'abc', tenant: 'acme' },
+    });
+    expect(memoryLogger.entries[0].args).toBeUndefined();
+    expect(memoryLogger.entries[1]).toMatchObject({ level: 'error', message: 'second', context: { requestId: 'abc' } });
+    expect(memoryLogger.entries[2]).toMatchObject({ level: 'warning', message: 'third', args: [{ id: 1 }, 'extra'] });
+    expect(memoryLogger.entries[2].context).toEqual({ requestId: 'abc', tenant: 'acme' });
+  });
+
+  test('should not affect the decorated logger', () => {
+    const memoryLogger = createMemoryLogger('trace');
+    withContext(memoryLogger, { requestId: 'abc' }).info('with context');
+    memoryLogger.info('without context');
+
+    expect(memoryLogger.entries[0].context).toEqual({ requestId: 'abc' });
+    expect(memoryLogger.entries[1].context).toBeUndefined();
+  });
+
+  test('should not be affected by changes to the original context object', () => {
+    const memoryLogger = createMemoryLogger('trace');
+    const context: Record<string, unknown> = { requestId: 'abc' };
+    const logger = withContext(memoryLogger, context);
+    context.requestId = 'changed';
+
+    logger.info('message');
+
+    expect(memoryLogger.entries[0].context).toEqual({ requestId: 'abc' });
+  });
+
+  test('should merge the context of nested calls', () => {
+    const memoryLogger = createMemoryLogger('trace');
+    const requestLogger = withContext(memoryLogger, { requestId: 'abc', user: 'anonymous' });
+    const userLogger = withContext(requestLogger, { user: 'john' });
+
+    userLogger.info('user message');
+    requestLogger.info('request message');
+
+    expect(memoryLogger.entries[0].context).toEqual({ requestId: 'abc', user: 'john' });
+    expect(memoryLogger.entries[1].context).toEqual({ requestId: 'abc', user: 'anonymous' });
+    expect(inspectLogContext(userLogger)).toEqual({ requestId: 'abc', user: 'john' });
+  });
+
+  test('should work with prefixed loggers', () => {
+    const memoryLogger = createMemoryLogger('trace');
+    const prefixed = withPrefix(memoryLogger, 'api');
+    const logger = withPrefix(withContext(prefixed, { requestId: 'abc' }), 'users');
+    const nested = withContext(logger, { userId: 42 });
+
+    logger.info('listing');
+    nested.info('loading');
+
+    expect(memoryLogger.entries[0]).toMatchObject({ message: 'api.users: listing', context: { requestId: 'abc' } });
+    expect(memoryLogger.entries[1]).toMatchObject({
+      message: 'api.users: loading',
+      context: { requestId: 'abc', userId: 42 },
+    });
+    expect(inspectLogContext(nested)).toEqual({ requestId: 'abc', userId: 42 });
+    expect(inspectLogContext(prefixed)).toBeUndefined();
+  });
+
+  test('should work with other decorators', () => {
+    const memoryLogger1 = createMemoryLogger('trace');
+    const memoryLogger2 = createMemoryLogger('trace');
+    const logger = withMinimumLevel(withContext(tee(memoryLogger1, memoryLogger2), { requestId: 'abc' }), 'warning');
+
+    logger.info('filtered');
+    logger.error('emitted');
+
+    expect(memoryLogger1.entries).toEqual([
+      expect.objectContaining({ message: 'emitted', context: { requestId: 'abc' } }),
+    ]);
+    expect(memoryLogger2.entries).toEqual([
+      expect.objectContaining({ message: 'emitted', context: { requestId: 'abc' } }),
+    ]);
+  });
+
+  test('should respect the level of the decorated logger', () => {
+    let level: 'info' | 'error' = 'info';
+    const memoryLogger = createMemoryLogger(() => level);
+    const logger = withContext(memoryLogger, { requestId: 'abc' });
+
+    expect(logger.level).toBe('info');
+    logger.info('emitted');
+
+    level = 'error';
+    expect(logger.level).toBe('error');
+    logger.info('filtered');
+
+    expect(memoryLogger.entries).toHaveLength(1);
+  });
+
+  test('should forward flush and close to the decorated logger', async () => {
+    const flush = vi.fn();
+    const close = vi.fn();
+    const logger = withContext(emitter.createLogger('info', { sink: () => void 0, flush, close }), {
+      requestId: 'abc',
+    });
+
+    await logger.flush?.();
+    await logger.close?.();
+
+    expect(flush).toHaveBeenCalledTimes(1);
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+
+  test('should pass the context as the last argument to sinks', () => {
+    const sink = vi.fn();
+    const logger = withContext(emitter.createLogger('info', sink), { requestId: 'abc' });
+
+    logger.info('message', 1, 2);
+
+    const args = sink.mock.calls[0][2] as unknown[];
+    expect(args).toHaveLength(3);
+    expect(implementation.isContextArg(args[2])).toBe(true);
+    expect(args[2]).toEqual({ requestId: 'abc' });
+    expect(Object.isFrozen(args[2])).toBe(true);
+    expect(implementation.splitContextArgs(args)).toEqual({ context: { requestId: 'abc' }, args: [1, 2] });
+  });
+
+  test('should write the context with batched sinks like the file logger', async () => {
+    const testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'context-logger-test-'));
+    const filePath = path.join(testDir, 'app.log');
+
+    try {
+      const logger = withContext(createFileLogger(filePath, { format: 'ndjson' }), { requestId: 'abc' });
+      logger.info('handled', 42);
+      await logger.close?.();
+
+      const [line] = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+      expect(JSON.parse(line)).toMatchObject({ message: 'handled', args: [42], requestId: 'abc' });
+    } finally {
+      await fs.rm(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('formatters', () => {
+    test('should output the context as top-level keys with ndjsonFormatter', () => {
+      const line = emitter.ndjsonFormatter('info', 'message', [
+        { id: 1 },
+        implementation.toContextArg({ requestId: 'abc', level: 'ignored', tenant: 'acme' }),
+      ]);
+
+      const parsed = JSON.parse(line) as Record<string, unknown>;
+      expect(parsed).toMatchObject({ level: 'info', message: 'message', requestId: 'abc', tenant: 'acme' });
+      expect(parsed.args).toEqual([{ id: 1 }]);
+      expect(parsed.context).toBeUndefined();
+      expect(Object.keys(parsed)).toEqual(['level', 'timestamp', 'iso', 'message', 'requestId', 'tenant', 'args']);
+    });
+
+    test('should not output the context keys named after the entry properties when the entry lacks them', () => {
+      const args: unknown[] = [];
+      withContext(emitter.createLogger('info', { sink: (_level, _message, a) => args.push(...(a ?? [])) }), {
+        args: 1,
+        context: 2,
+        requestId: 'abc',
+      }).info('message');
+
+      const parsed = JSON.parse(emitter.ndjsonFormatter('info', 'message', args)) as Record<string, unknown>;
+      expect(parsed.args).toBeUndefined();
+      expect(parsed.context).toBeUndefined();
+      expect(parsed.requestId).toBe('abc');
+    });
+
+    test('should output the context as top-level keys with jsonPrettyFormatter', () => {
+      const line = emitter.jsonPrettyFormatter('info', 'message', [implementation.toContextArg({ requestId: 'abc' })]);
+
+      expect(line).toContain('\n  "requestId": "abc"');
+      const parsed = JSON.parse(line) as Record<string, unknown>;
+      expect(parsed).toMatchObject({ level: 'info', message: 'message', requestId: 'abc' });
+      expect(parsed.args).toBeUndefined();
+    });
+
+    test('should output the context in a separate line with plainArgAppendingFormatter', () => {
+      const formatter = emitter.plainArgAppendingFormatter(emitter.basicFormatter);
+
+      expect(formatter('info', 'message', [{ id: 1 }, implementation.toContextArg({ requestId: 'abc' })])).toBe(
+        '[info] message\n[arg0] {\n  "id": 1\n}\n[context] {\n  "requestId": "abc"\n}',
+      );
+      expect(formatter('info', 'message', [implementation.toContextArg({ requestId: 'abc' })])).toBe(
+        '[info] message\n[context] {\n  "requestId": "abc"\n}',
+      );
+    });
+  });
+});
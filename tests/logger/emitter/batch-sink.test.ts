@@ -2,7 +2,8 @@ import type { Mock } from 'vitest';
 import { beforeEach, describe, expect, test, vi } from 'vitest';
 
 import type { LogLevel } from '../../../src/logger/index.ts';
-import { emitter } from '../../../src/logger/index.ts';
+import { asLogEntry, emitter, withContext } from '../../../src/logger/index.ts';
+import { createManualClock } from '../../../src/utils/index.ts';
 import { flushFakeTimePromises } from '../../test-kit.ts';
 
 describe('emitnlog.logger.emitter.batch-sink', () => {
@@ -230,6 +231,38 @@ describe('emitnlog.logger.emitter.batch-sink', () => {
       expect(capturedLogs).toHaveLength(5);
       expect(capturedLogs.map((log) => log.level)).toEqual(levels);
     });
+
+    test('should forward the context of the entries', async () => {
+      const logger = withContext(
+        emitter.createLogger('info', emitter.batchSink(mockSink, { maxBufferSize: 5, flushDelayMs: 1000 })),
+        { requestId: 'abc' },
+      );
+
+      logger.info('message', 42);
+      await logger.flush?.();
+
+      expect(capturedLogs).toHaveLength(1);
+      expect(asLogEntry(capturedLogs[0].level, capturedLogs[0].message, capturedLogs[0].args)).toMatchObject({
+        message: 'message',
+        args: [42],
+        context: { requestId: 'abc' },
+      });
+    });
+
+    test('should schedule the time-based flushes with the clock from the options', async () => {
+      const clock = createManualClock();
+      const batchedSink = emitter.batchSink(mockSink, { flushDelayMs: 1000, skipFlushOnExit: true, clock });
+
+      batchedSink.sink('info', 'message 1');
+      batchedSink.sink('info', 'message 2');
+      clock.advance(999);
+      expect(capturedLogs).toHaveLength(0);
+
+      clock.advance(1);
+      expect(capturedLogs.map(({ message }) => message)).toEqual(['message 1', 'message 2']);
+
+      await batchedSink.close();
+    });
   });
 
   describe('batchSizeSink', () => {
@@ -1,7 +1,7 @@
 import { afterEach, beforeAll, beforeEach, describe, expect, test, vi } from 'vitest';
 
 import type { LogLevel } from '../../../src/logger/index.ts';
-import { emitter } from '../../../src/logger/index.ts';
+import { emitter, withContext } from '../../../src/logger/index.ts';
 import { jsonParse, jsonStringify } from '../../../src/utils/index.ts';
 
 describe('emitnlog.logger.emitter.formatter', () => {
@@ -68,6 +68,11 @@ describe('emitnlog.logger.emitter.formatter', () => {
       expect(formatted).toContain('[emergency]');
     });
 
+    test('should use the timestamp of the entry', () => {
+      const formatted = emitter.plainFormatter('info', 'Past message', [], Date.parse('2024-01-14T08:00:00.000Z'));
+      expect(formatted).toBe('2024-01-14T08:00:00.000Z [info     ] Past message');
+    });
+
     test('should ignore args in plain formatter', () => {
       const formatted = emitter.plainFormatter('debug', 'Debug info', ['ignored', 'args']);
       expect(formatted).toBe('2024-01-15T12:30:45.123Z [debug    ] Debug info');
@@ -245,6 +250,211 @@ describe('emitnlog.logger.emitter.formatter', () => {
     });
   });
 
+  describe('otelFormatter', () => {
+    type OtelRecord = {
+      timeUnixNano: string;
+      observedTimeUnixNano: string;
+      severityNumber: number;
+      severityText: string;
+      body: { stringValue: string };
+      attributes?: { key: string; value: Record<string, unknown> }[];
+    };
+
+    test('should format the entry as an OTLP/JSON log record', () => {
+      const formatted = emitter.otelFormatter('info', 'Test message', []);
+      expect(formatted).not.toContain('\n');
+
+      const parsed = jsonParse<OtelRecord>(formatted);
+      expect(parsed).toEqual({
+        timeUnixNano: '1705321845123000000',
+        observedTimeUnixNano: '1705321845123000000',
+        severityNumber: 9,
+        severityText: 'INFO',
+        body: { stringValue: 'Test message' },
+      });
+    });
+
+    test('should map the severity of all levels', () => {
+      const levels: [LogLevel, number][] = [
+        ['trace', 1],
+        ['debug', 5],
+        ['info', 9],
+        ['notice', 10],
+        ['warning', 13],
+        ['error', 17],
+        ['critical', 21],
+        ['alert', 22],
+        ['emergency', 23],
+      ];
+
+      for (const [level, severityNumber] of levels) {
+        const parsed = jsonParse<OtelRecord>(emitter.otelFormatter(level, 'message'));
+        expect(parsed.severityNumber).toBe(severityNumber);
+        expect(parsed.severityText).toBe(level.toUpperCase());
+      }
+    });
+
+    test('should convert the args to attributes', () => {
+      const formatted = emitter.otelFormatter('info', 'Message', [
+        { id: 7, ratio: 0.5, ok: true, tags: ['a', 'b'], nothing: null },
+        'text',
+      ]);
+
+      const parsed = jsonParse<OtelRecord>(formatted);
+      expect(parsed.attributes).toEqual([
+        {
+          key: 'args',
+          value: {
+            arrayValue: {
+              values: [
+                {
+                  kvlistValue: {
+                    values: [
+                      { key: 'id', value: { intValue: '7' } },
+                      { key: 'ratio', value: { doubleValue: 0.5 } },
+                      { key: 'ok', value: { boolValue: true } },
+                      { key: 'tags', value: { arrayValue: { values: [{ stringValue: 'a' }, { stringValue: 'b' }] } } },
+                      { key: 'nothing', value: {} },
+                    ],
+                  },
+                },
+                { stringValue: 'text' },
+              ],
+            },
+          },
+        },
+      ]);
+    });
+
+    test('should convert the context fields and errors to attributes', () => {
+      const contextArgs: unknown[] = [];
+      withContext(
+        emitter.createLogger('info', { sink: (_level, _message, args) => contextArgs.push(...(args ?? [])) }),
+        { requestId: 'abc', attempt: 2 },
+      ).error(new TypeError('Boom'));
+
+      const parsed = jsonParse<OtelRecord>(emitter.otelFormatter('error', 'Boom', contextArgs));
+      expect(parsed.attributes?.map((attribute) => attribute.key)).toEqual([
+        'requestId',
+        'attempt',
+        'exception.type',
+        'exception.message',
+        'exception.stacktrace',
+      ]);
+      expect(parsed.attributes?.[0].value).toEqual({ stringValue: 'abc' });
+      expect(parsed.attributes?.[1].value).toEqual({ intValue: '2' });
+      expect(parsed.attributes?.[2].value).toEqual({ stringValue: 'TypeError' });
+      expect(parsed.attributes?.[3].value).toEqual({ stringValue: 'Boom' });
+    });
+
+    test('should handle circular references', () => {
+      const circular: Record<string, unknown> = { name: 'circular' };
+      circular.self = circular;
+
+      const formatted = emitter.otelFormatter('info', 'Circular ref', [circular]);
+      expect(jsonParse<OtelRecord>(formatted).body).toEqual({ stringValue: 'Circular ref' });
+    });
+
+    test('should fall back to a string attribute when the args cannot be converted', () => {
+      const broken = {
+        name: 'broken',
+        get value(): string {
+          throw new Error('getter failed');
+        },
+      };
+
+      const formatted = emitter.otelFormatter('warning', 'Broken arg', [broken]);
+      const parsed = jsonParse<OtelRecord>(formatted);
+      expect(parsed.severityText).toBe('WARNING');
+      expect(parsed.body).toEqual({ stringValue: 'Broken arg' });
+      expect(parsed.attributes).toEqual([{ key: 'args', value: { stringValue: expect.stringContaining('broken') } }]);
+    });
+  });
+
+  describe('logfmtFormatter', () => {
+    test('should format the entry as key=value pairs', () => {
+      const formatted = emitter.logfmtFormatter('info', 'Application started', []);
+      expect(formatted).toBe('time=2024-01-15T12:30:45.123Z level=info msg="Application started"');
+    });
+
+    test('should not quote simple values', () => {
+      const formatted = emitter.logfmtFormatter('debug', 'ready', [42, true, 'word']);
+      expect(formatted).toBe('time=2024-01-15T12:30:45.123Z level=debug msg=ready arg0=42 arg1=true arg2=word');
+    });
+
+    test('should quote and escape values', () => {
+      const formatted = emitter.logfmtFormatter('info', 'say "hi"\nnow', ['a=b', '', { host: 'db' }]);
+      expect(formatted).toBe(
+        'time=2024-01-15T12:30:45.123Z level=info msg="say \\"hi\\"\\nnow" arg0="a=b" arg1="" arg2="{\\"host\\":\\"db\\"}"',
+      );
+    });
+
+    test('should output the context fields as keys', () => {
+      const args: unknown[] = [];
+      withContext(emitter.createLogger('info', { sink: (_level, _message, a) => args.push(...(a ?? [])) }), {
+        'request id': 'abc',
+        level: 'ignored',
+        user: { id: 1 },
+      }).info('message', 'extra');
+
+      const formatted = emitter.logfmtFormatter('info', 'message', args);
+      expect(formatted).toBe(
+        'time=2024-01-15T12:30:45.123Z level=info msg=message request_id=abc user="{\\"id\\":1}" arg0=extra',
+      );
+    });
+  });
+
+  describe('ecsFormatter', () => {
+    test('should format the entry as an ECS object', () => {
+      const formatted = emitter.ecsFormatter('warning', 'Disk almost full', []);
+      expect(formatted).not.toContain('\n');
+      expect(formatted.startsWith('{"@timestamp":')).toBe(true);
+      expect(jsonParse<Record<string, unknown>>(formatted)).toEqual({
+        '@timestamp': '2024-01-15T12:30:45.123Z',
+        'log.level': 'warning',
+        message: 'Disk almost full',
+        'ecs.version': '8.11.0',
+      });
+    });
+
+    test('should output the first error and the other args', () => {
+      const error = new TypeError('Boom');
+      const formatted = emitter.ecsFormatter('error', 'Failed', [{ id: 1 }, error, new Error('other')]);
+
+      const parsed = jsonParse<Record<string, unknown>>(formatted);
+      expect(parsed['error.type']).toBe('TypeError');
+      expect(parsed['error.message']).toBe('Boom');
+      expect(parsed['error.stack_trace']).toBe(error.stack);
+      expect(parsed.args).toEqual([{ id: 1 }, {}]);
+    });
+
+    test('should output the context fields as top-level keys', () => {
+      const args: unknown[] = [];
+      withContext(emitter.createLogger('info', { sink: (_level, _message, a) => args.push(...(a ?? [])) }), {
+        requestId: 'abc',
+        message: 'ignored',
+        'log.level': 'ignored',
+      }).info('message');
+
+      const parsed = jsonParse<Record<string, unknown>>(emitter.ecsFormatter('info', 'Handled', args));
+      expect(parsed).toEqual({
+        '@timestamp': '2024-01-15T12:30:45.123Z',
+        'log.level': 'info',
+        message: 'Handled',
+        'ecs.version': '8.11.0',
+        requestId: 'abc',
+      });
+    });
+
+    test('should handle circular references', () => {
+      const circular: Record<string, unknown> = { name: 'circular' };
+      circular.self = circular;
+
+      const formatted = emitter.ecsFormatter('info', 'Circular ref', [circular]);
+      expect(jsonParse<Record<string, unknown>>(formatted).message).toBe('Circular ref');
+    });
+  });
+
   describe('plainArgAppendingFormatter', () => {
     test('should append args to base formatter output', () => {
       const baseFormatter = emitter.basicFormatter;
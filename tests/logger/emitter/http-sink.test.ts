@@ -0,0 +1,246 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { emitter } from '../../../src/logger/index.ts';
+
+describe('emitnlog.logger.emitter.http-sink', () => {
+  let server: Server;
+  let url: string;
+  let requests: { headers: IncomingMessage['headers']; body: string }[];
+  let respond: (response: ServerResponse, index: number) => void;
+
+  beforeEach(async () => {
+    requests = [];
+    respond = (response) => {
+      response.statusCode = 200;
+      response.end();
+    };
+
+    server = createServer((request, response) => {
+      const chunks: Buffer[] = [];
+      request.on('data', (chunk: Buffer) => chunks.push(chunk));
+      request.on('end', () => {
+        requests.push({ headers: request.headers, body: Buffer.concat(chunks).toString('utf8') });
+        respond(response, requests.length - 1);
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/logs`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const toLines = (body: string): { level: string; message: string }[] =>
+    body
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as { level: string; message: string });
+
+  test('should post the entries as ndjson', async () => {
+    const sink = emitter.httpSink(url, { headers: { authorization: 'Bearer token' } });
+
+    sink.sink('info', 'first', []);
+    sink.sink('error', 'second', [{ id: 1 }]);
+    await sink.flush();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].headers['content-type']).toBe('application/x-ndjson');
+    expect(requests[0].headers.authorization).toBe('Bearer token');
+    expect(requests[0].body.endsWith('\n')).toBe(true);
+
+    const lines = toLines(requests[0].body);
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({ level: 'info', message: 'first' });
+    expect(lines[1]).toMatchObject({ level: 'error', message: 'second', args: [{ id: 1 }] });
+  });
+
+  test('should split the entries in batches of maxBatchSize', async () => {
+    const sink = emitter.httpSink(url, { maxBatchSize: 2 });
+
+    for (let i = 0; i < 5; i++) {
+      sink.sink('info', `message ${i}`, []);
+    }
+    await sink.flush();
+
+    expect(requests.map((request) => toLines(request.body).map((line) => line.message))).toEqual([
+      ['message 0', 'message 1'],
+      ['message 2', 'message 3'],
+      ['message 4'],
+    ]);
+  });
+
+  test('should use the formatter', async () => {
+    const sink = emitter.httpSink(url, { formatter: (level, message) => `${level}|${message}` });
+
+    sink.sink('warning', 'careful', []);
+    await sink.flush();
+
+    expect(requests[0].body).toBe('warning|careful\n');
+  });
+
+  test('should retry failed requests with backoff', async () => {
+    respond = (response, index) => {
+      response.statusCode = index < 2 ? 503 : 200;
+      response.end();
+    };
+
+    const errorHandler = vi.fn();
+    const sink = emitter.httpSink(url, { retryDelayMs: 5, errorHandler });
+
+    sink.sink('info', 'message', []);
+    await sink.flush();
+
+    expect(requests).toHaveLength(3);
+    expect(requests.map((request) => toLines(request.body)[0].message)).toEqual(['message', 'message', 'message']);
+    expect(errorHandler).not.toHaveBeenCalled();
+  });
+
+  test('should report the error when the retries are exhausted', async () => {
+    respond = (response) => {
+      response.statusCode = 500;
+      response.end();
+    };
+
+    const errorHandler = vi.fn();
+    const sink = emitter.httpSink(url, { maxRetries: 2, retryDelayMs: 1, errorHandler });
+
+    sink.sink('info', 'message', []);
+    await sink.flush();
+
+    expect(requests).toHaveLength(3);
+    expect(errorHandler).toHaveBeenCalledTimes(1);
+    expect(String(errorHandler.mock.calls[0][0])).toContain('500');
+  });
+
+  test('should not retry client errors', async () => {
+    respond = (response) => {
+      response.statusCode = 400;
+      response.end();
+    };
+
+    const errorHandler = vi.fn();
+    const sink = emitter.httpSink(url, { retryDelayMs: 1, errorHandler });
+
+    sink.sink('info', 'message', []);
+    await sink.flush();
+
+    expect(requests).toHaveLength(1);
+    expect(errorHandler).toHaveBeenCalledTimes(1);
+    expect(String(errorHandler.mock.calls[0][0])).toContain('400');
+  });
+
+  test('should retry network errors', async () => {
+    const errorHandler = vi.fn();
+    const sink = emitter.httpSink('http://127.0.0.1:1/logs', { maxRetries: 1, retryDelayMs: 1, errorHandler });
+
+    sink.sink('info', 'message', []);
+    await sink.flush();
+
+    expect(errorHandler).toHaveBeenCalledTimes(1);
+  });
+
+  test('should abort and retry the requests that time out', async () => {
+    respond = (response, index) => {
+      if (index) {
+        response.statusCode = 200;
+        response.end();
+      }
+    };
+
+    const errorHandler = vi.fn();
+    const sink = emitter.httpSink(url, { timeoutMs: 50, retryDelayMs: 1, errorHandler });
+
+    sink.sink('info', 'message', []);
+    await sink.flush();
+
+    expect(requests).toHaveLength(2);
+    expect(errorHandler).not.toHaveBeenCalled();
+  });
+
+  test('should report the requests that time out when the retries are exhausted', async () => {
+    respond = () => undefined;
+
+    const errorHandler = vi.fn();
+    const sink = emitter.httpSink(url, { timeoutMs: 50, maxRetries: 0, errorHandler });
+
+    sink.sink('info', 'message', []);
+    await sink.close();
+
+    expect(requests).toHaveLength(1);
+    expect(errorHandler).toHaveBeenCalledTimes(1);
+    expect(errorHandler.mock.calls[0][0]).toMatchObject({ name: 'TimeoutError' });
+  });
+
+  test('should drop the oldest entries when the queue is full', async () => {
+    let release: (() => void) | undefined;
+    respond = (response, index) => {
+      if (index) {
+        response.statusCode = 200;
+        response.end();
+      } else {
+        release = () => {
+          response.statusCode = 200;
+          response.end();
+        };
+      }
+    };
+
+    const errorHandler = vi.fn();
+    const sink = emitter.httpSink(url, { maxQueueSize: 2, errorHandler });
+
+    sink.sink('info', 'in flight', []);
+    await vi.waitFor(() => expect(release).toBeDefined());
+
+    sink.sink('info', 'message 1', []);
+    sink.sink('info', 'message 2', []);
+    sink.sink('info', 'message 3', []);
+    release!();
+    await sink.flush();
+
+    expect(requests).toHaveLength(2);
+    expect(toLines(requests[1].body).map((line) => line.message)).toEqual(['message 2', 'message 3']);
+    expect(errorHandler).toHaveBeenCalledTimes(1);
+    expect(String(errorHandler.mock.calls[0][0])).toContain('dropped 1 entry');
+  });
+
+  test('should drain the pending entries on close and ignore entries after close', async () => {
+    const sink = emitter.httpSink(url);
+
+    sink.sink('info', 'before close', []);
+    await sink.close();
+
+    sink.sink('info', 'after close', []);
+    await sink.flush();
+
+    expect(requests).toHaveLength(1);
+    expect(toLines(requests[0].body).map((line) => line.message)).toEqual(['before close']);
+  });
+
+  test('should send the batches of batchSink in single requests', async () => {
+    const sink = emitter.batchSink(emitter.httpSink(url), {
+      maxBufferSize: 3,
+      flushDelayMs: 60_000,
+      skipFlushOnExit: true,
+    });
+
+    for (let i = 0; i < 3; i++) {
+      sink.sink('info', `message ${i}`, []);
+    }
+    await vi.waitFor(() => expect(requests).toHaveLength(1));
+
+    sink.sink('info', 'message 3', []);
+    await sink.close();
+
+    expect(requests.map((request) => toLines(request.body).map((line) => line.message))).toEqual([
+      ['message 0', 'message 1', 'message 2'],
+      ['message 3'],
+    ]);
+  });
+});
@@ -1,7 +1,7 @@
-import { describe, expect, test } from 'vitest';
+import { describe, expect, test, vi } from 'vitest';
 
 import type { LogEntry, LogLevel } from '../../../src/index.ts';
-import { emitter } from '../../../src/index.ts';
+import { createMemoryLogger, emitter, withContext, withPrefix } from '../../../src/index.ts';
 
 describe('emitnlog.logger.emitter.memory-sink', () => {
   describe('memorySink', () => {
@@ -282,4 +282,173 @@ describe('emitnlog.logger.emitter.memory-sink', () => {
       expect(sink.entries).toHaveLength(0);
     });
   });
+
+  describe('capacity', () => {
+    test('should keep only the latest entries', () => {
+      const sink = emitter.memorySink([], { capacity: 3 });
+
+      for (let i = 0; i < 5; i++) {
+        sink.sink('info', `Message ${i}`, []);
+      }
+
+      expect(sink.entries.map((entry) => entry.message)).toEqual(['Message 2', 'Message 3', 'Message 4']);
+      expect(sink.dropped).toBe(2);
+
+      sink.sink('info', 'Message 5', []);
+      expect(sink.entries.map((entry) => entry.message)).toEqual(['Message 3', 'Message 4', 'Message 5']);
+      expect(sink.snapshot()).toEqual(sink.entries);
+      expect(sink.dropped).toBe(3);
+
+      sink.flush();
+      expect(sink.entries).toHaveLength(0);
+      expect(sink.dropped).toBe(0);
+    });
+
+    test('should trim the provided array', () => {
+      const customArray = [1, 2, 3].map(
+        (i) => ({ level: 'info', message: `Message ${i}`, timestamp: i, iso: '' }) as const,
+      );
+      const sink = emitter.memorySink([...customArray], { capacity: 2 });
+
+      expect(sink.entries.map((entry) => entry.message)).toEqual(['Message 2', 'Message 3']);
+      expect(sink.dropped).toBe(1);
+    });
+
+    test('should support a capacity in the memory logger', () => {
+      const logger = createMemoryLogger('trace', { capacity: 2 });
+
+      logger.t`first`;
+      logger.d`second`;
+      logger.i`third`;
+
+      expect(logger.entries.map((entry) => entry.message)).toEqual(['second', 'third']);
+      expect(logger.dropped).toBe(1);
+      expect(logger.query({ level: 'info' }).map((entry) => entry.message)).toEqual(['third']);
+
+      logger.flush();
+      expect(logger.entries).toHaveLength(0);
+      expect(logger.dropped).toBe(0);
+    });
+  });
+
+  describe('query', () => {
+    const createEntries = () => {
+      const sink = emitter.memorySink();
+      const logger = emitter.createLogger('trace', sink);
+
+      vi.useFakeTimers({ now: 1000 });
+      try {
+        logger.d`starting`;
+        vi.advanceTimersByTime(1000);
+        withPrefix(logger, 'db').i`connected`;
+        vi.advanceTimersByTime(1000);
+        withPrefix(withPrefix(logger, 'db'), 'pool').w`exhausted`;
+        vi.advanceTimersByTime(1000);
+        withPrefix(logger, 'dbx').e`failed`;
+      } finally {
+        vi.useRealTimers();
+      }
+
+      return sink;
+    };
+
+    const messages = (entries: readonly LogEntry[]) => entries.map((entry) => entry.message);
+
+    test('should select the entries by level', () => {
+      const sink = createEntries();
+
+      expect(messages(sink.query({ level: 'warning' }))).toEqual(['db.pool: exhausted', 'dbx: failed']);
+      expect(messages(sink.query({}))).toHaveLength(4);
+    });
+
+    test('should select the entries by prefix', () => {
+      const sink = createEntries();
+
+      expect(messages(sink.query({ prefix: 'db' }))).toEqual(['db: connected', 'db.pool: exhausted']);
+      expect(messages(sink.query({ prefix: 'db.pool' }))).toEqual(['db.pool: exhausted']);
+      expect(messages(sink.query({ prefix: 'dbx', level: 'error' }))).toEqual(['dbx: failed']);
+    });
+
+    test('should not select the messages starting with the prefix as text', () => {
+      const sink = emitter.memorySink();
+      const logger = emitter.createLogger('trace', sink);
+      logger.i`db is down`;
+      logger.i`db.json loaded`;
+      withPrefix(logger, 'db').i`connected`;
+
+      expect(messages(sink.query({ prefix: 'db' }))).toEqual(['db: connected']);
+    });
+
+    test('should select the entries by time', () => {
+      const sink = createEntries();
+
+      expect(messages(sink.query({ since: 2000, until: new Date(3000) }))).toEqual([
+        'db: connected',
+        'db.pool: exhausted',
+      ]);
+      expect(messages(sink.query({ since: new Date(3500) }))).toEqual(['dbx: failed']);
+    });
+
+    test('should return a snapshot of the entries', () => {
+      const sink = createEntries();
+
+      const snapshot = sink.snapshot();
+      sink.sink('info', 'later', []);
+      sink.flush();
+
+      expect(messages(snapshot)).toEqual(['starting', 'db: connected', 'db.pool: exhausted', 'dbx: failed']);
+    });
+  });
+
+  describe('dump', () => {
+    test('should format the entries with their original date', () => {
+      const sink = emitter.memorySink();
+      const logger = withContext(emitter.createLogger('trace', sink), { requestId: 'r-1' });
+
+      vi.useFakeTimers({ now: Date.parse('2024-01-15T10:30:45.123Z') });
+      try {
+        logger.i`first`;
+        vi.advanceTimersByTime(1000);
+        logger.args({ id: 1 }).e`second`;
+      } finally {
+        vi.useRealTimers();
+      }
+
+      expect(sink.dump()).toBe(
+        '2024-01-15T10:30:45.123Z [info     ] first\n2024-01-15T10:30:46.123Z [error    ] second',
+      );
+
+      const lines = sink.dump(emitter.ndjsonFormatter).split('\n');
+      expect(lines.map((line) => JSON.parse(line) as unknown)).toEqual([
+        {
+          level: 'info',
+          timestamp: 1705314645123,
+          iso: '2024-01-15T10:30:45.123Z',
+          message: 'first',
+          requestId: 'r-1',
+        },
+        {
+          level: 'error',
+          timestamp: 1705314646123,
+          iso: '2024-01-15T10:30:46.123Z',
+          message: 'second',
+          requestId: 'r-1',
+          args: [{ id: 1 }],
+        },
+      ]);
+
+      expect(sink.dump(emitter.createTemplateFormatter('{time} {message}'))).toBe(
+        '10:30:45.123 first\n10:30:46.123 second',
+      );
+    });
+
+    test('should dump the entries satisfying a query', () => {
+      const sink = emitter.memorySink();
+      sink.sink('debug', 'first', []);
+      sink.sink('error', 'second', []);
+
+      expect(sink.dump(emitter.basicFormatter, { level: 'warning' })).toBe('[error] second');
+      expect(emitter.memorySink().dump()).toBe('');
+    });
+  });
 });
@@ -0,0 +1,61 @@
+import { describe, expect, test, vi } from 'vitest';
+
+import { emitter, implementation } from '../../../src/logger/index.ts';
+
+describe('emitnlog.logger.emitter.redact-sink', () => {
+  test('should redact the message and the args before forwarding them', () => {
+    const sink = vi.fn();
+    const redacted = emitter.redactSink(emitter.asLogSink(sink), { keys: ['password'], patterns: [/\d{3}-\d{4}/] });
+
+    const args = [{ user: 'john', password: 'secret' }, 'call 555-1234'];
+    redacted.sink('info', 'phone 555-1234', args);
+
+    expect(sink).toHaveBeenCalledWith('info', 'phone [REDACTED]', [
+      { user: 'john', password: '[REDACTED]' },
+      'call [REDACTED]',
+    ]);
+    expect(args[0]).toEqual({ user: 'john', password: 'secret' });
+  });
+
+  test('should handle entries without args', () => {
+    const sink = vi.fn();
+    const redacted = emitter.redactSink({ sink }, { patterns: [/secret/] });
+
+    redacted.sink('info', 'a secret');
+
+    expect(sink).toHaveBeenCalledWith('info', 'a [REDACTED]', []);
+  });
+
+  test('should preserve the properties of the sink', () => {
+    const memory = emitter.memorySink();
+    const redacted = emitter.redactSink(memory, { keys: ['token'] });
+
+    redacted.sink('info', 'message', [implementation.toContextArg({ token: 'abc', user: 'john' })]);
+
+    expect(redacted.entries).toBe(memory.entries);
+    expect(memory.entries[0].context).toEqual({ token: '[REDACTED]', user: 'john' });
+
+    redacted.flush();
+    expect(memory.entries).toHaveLength(0);
+  });
+
+  test('should forward the getters of the sink', () => {
+    const memory = emitter.memorySink([], { capacity: 1 });
+    const redacted = emitter.redactSink(memory, { patterns: [/secret/] });
+
+    redacted.sink('info', 'first secret');
+    redacted.sink('info', 'second secret');
+
+    expect(redacted.dropped).toBe(1);
+    expect(redacted.entries.map((entry) => entry.message)).toEqual(['second [REDACTED]']);
+  });
+
+  test('should work with loggers', () => {
+    const memory = emitter.memorySink();
+    const logger = emitter.createLogger('info', emitter.redactSink(memory, { keys: ['password'] }));
+
+    logger.info('login', { password: 'secret' });
+
+    expect(memory.entries[0].args).toEqual([{ password: '[REDACTED]' }]);
+  });
+});
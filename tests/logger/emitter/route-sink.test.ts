@@ -0,0 +1,145 @@
+import { describe, expect, test, vi } from 'vitest';
+
+import type { LogLevel } from '../../../src/logger/index.ts';
+import { emitter, withContext, withPrefix } from '../../../src/logger/index.ts';
+
+describe('emitnlog.logger.emitter.route-sink', () => {
+  const levels: readonly LogLevel[] = [
+    'trace',
+    'debug',
+    'info',
+    'notice',
+    'warning',
+    'error',
+    'critical',
+    'alert',
+    'emergency',
+  ];
+
+  const captureSink = () => {
+    const messages: string[] = [];
+    return { messages, sink: emitter.asLogSink((_level, message) => messages.push(message)) };
+  };
+
+  test('should route the entries by level range', () => {
+    const errors = captureSink();
+    const debug = captureSink();
+    const middle = captureSink();
+
+    const sink = emitter.routeSink([
+      { when: { min: 'error' }, sink: errors.sink },
+      { when: { max: 'debug' }, sink: debug.sink },
+      { when: { min: 'info', max: 'warning' }, sink: middle.sink },
+    ]);
+
+    for (const level of levels) {
+      sink.sink(level, level, []);
+    }
+
+    expect(errors.messages).toEqual(['error', 'critical', 'alert', 'emergency']);
+    expect(debug.messages).toEqual(['trace', 'debug']);
+    expect(middle.messages).toEqual(['info', 'notice', 'warning']);
+  });
+
+  test('should forward the entries to every matching route', () => {
+    const all = captureSink();
+    const errors = captureSink();
+
+    const sink = emitter.routeSink([
+      { when: {}, sink: all.sink },
+      { when: { min: 'error' }, sink: errors.sink },
+    ]);
+
+    sink.sink('info', 'info', []);
+    sink.sink('error', 'error', []);
+
+    expect(all.messages).toEqual(['info', 'error']);
+    expect(errors.messages).toEqual(['error']);
+  });
+
+  test('should forward an entry only once to a sink used by several routes', () => {
+    const shared = captureSink();
+
+    const sink = emitter.routeSink([
+      { when: { min: 'warning' }, sink: shared.sink },
+      { when: (_level, message) => message.startsWith('audit'), sink: shared.sink },
+    ]);
+
+    sink.sink('error', 'audit error', []);
+    sink.sink('info', 'audit info', []);
+    sink.sink('info', 'ignored', []);
+
+    expect(shared.messages).toEqual(['audit error', 'audit info']);
+  });
+
+  test('should route the entries with predicates', () => {
+    const audit = captureSink();
+    const predicate = vi.fn((_level: LogLevel, message: string) => message.startsWith('audit: '));
+
+    const logger = emitter.createLogger('info', emitter.routeSink([{ when: predicate, sink: audit.sink }]));
+    withPrefix(logger, 'audit').info('user created', { id: 1 });
+    logger.info('not audited');
+
+    expect(audit.messages).toEqual(['audit: user created']);
+    expect(predicate).toHaveBeenCalledWith('info', 'audit: user created', [{ id: 1 }]);
+    expect(predicate).toHaveBeenCalledWith('info', 'not audited', []);
+  });
+
+  test('should forward the unmatched entries to the fallback', () => {
+    const errors = captureSink();
+    const fallback = captureSink();
+
+    const sink = emitter.routeSink([{ when: { min: 'error' }, sink: errors.sink }], fallback.sink);
+    sink.sink('info', 'info', []);
+    sink.sink('error', 'error', []);
+    sink.sink('debug', 'debug', []);
+
+    expect(errors.messages).toEqual(['error']);
+    expect(fallback.messages).toEqual(['info', 'debug']);
+  });
+
+  test('should forward the args and the context', () => {
+    const memory = emitter.memorySink();
+
+    const logger = emitter.createLogger('info', emitter.routeSink([{ when: { min: 'info' }, sink: memory }]));
+    withContext(logger, { requestId: 'abc' }).info('handled', 42);
+
+    expect(memory.entries).toHaveLength(1);
+    expect(memory.entries[0]).toMatchObject({ message: 'handled', args: [42], context: { requestId: 'abc' } });
+  });
+
+  test('should flush and close all the sinks', async () => {
+    const syncSink = { sink: vi.fn(), flush: vi.fn(), close: vi.fn() };
+    const asyncSink = { sink: vi.fn(), flush: vi.fn(() => Promise.resolve()), close: vi.fn(() => Promise.resolve()) };
+    const fallback = { sink: vi.fn(), close: vi.fn() };
+
+    const sink = emitter.routeSink(
+      [
+        { when: { min: 'error' }, sink: syncSink },
+        { when: { max: 'debug' }, sink: asyncSink },
+        { when: { min: 'critical' }, sink: syncSink },
+      ],
+      fallback,
+    );
+
+    await sink.flush();
+    expect(syncSink.flush).toHaveBeenCalledTimes(1);
+    expect(asyncSink.flush).toHaveBeenCalledTimes(1);
+
+    await sink.close();
+    expect(syncSink.close).toHaveBeenCalledTimes(1);
+    expect(asyncSink.close).toHaveBeenCalledTimes(1);
+    expect(fallback.close).toHaveBeenCalledTimes(1);
+  });
+
+  test('should work without routes', async () => {
+    const fallback = captureSink();
+
+    const sink = emitter.routeSink([], fallback.sink);
+    sink.sink('info', 'message', []);
+    await sink.flush();
+    await sink.close();
+
+    expect(fallback.messages).toEqual(['message']);
+  });
+});
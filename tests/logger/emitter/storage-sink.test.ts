@@ -0,0 +1,325 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import { emitter, withContext } from '../../../src/logger/index.ts';
+
+describe('emitnlog.logger.emitter.storage-sink', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  /**
+   * An in-memory stand-in of the IndexedDB API subset used by the sink: the requests succeed asynchronously (unless
+   * `fail` is set, aborting their transaction) and the transactions complete once no request is pending.
+   */
+  const createFakeIndexedDb = () => {
+    const databases = new Map<string, Map<string, { nextKey: number; records: Map<number, unknown> }>>();
+    let closed = 0;
+    let failing = false;
+
+    const createRequest = <T>(onDone: (error?: Error) => void, compute: () => T) => {
+      const request = {
+        result: undefined as T | undefined,
+        error: undefined as unknown,
+        onsuccess: null as (() => void) | null,
+        onerror: null as (() => void) | null,
+      };
+      setTimeout(() => {
+        if (failing) {
+          request.error = new Error('request failed');
+          request.onerror?.();
+          onDone(request.error as Error);
+          return;
+        }
+
+        request.result = compute();
+        request.onsuccess?.();
+        onDone();
+      }, 0);
+      return request;
+    };
+
+    const createTransaction = (stores: Map<string, { nextKey: number; records: Map<number, unknown> }>) => {
+      let pending = 0;
+      const transaction = {
+        error: undefined as unknown,
+        oncomplete: null as (() => void) | null,
+        onerror: null as (() => void) | null,
+        onabort: null as (() => void) | null,
+        objectStore: (name: string) => {
+          const store = stores.get(name)!;
+          const request = <T>(compute: () => T) => {
+            pending++;
+            return createRequest((error) => {
+              pending--;
+              setTimeout(() => {
+                if (error) {
+                  transaction.error = error;
+                  transaction.onabort?.();
+                } else if (!pending) {
+                  transaction.oncomplete?.();
+                }
+              }, 0);
+            }, compute);
+          };
+
+          return {
+            add: (value: unknown) => request(() => store.records.set(store.nextKey++, structuredClone(value))),
+            count: () => request(() => store.records.size),
+            getAll: () => request(() => [...store.records.values()].map((value) => structuredClone(value))),
+            getAllKeys: (_query: undefined, count: number) => request(() => [...store.records.keys()].slice(0, count)),
+            delete: (key: number) => request(() => void store.records.delete(key)),
+            clear: () => request(() => store.records.clear()),
+          };
+        },
+      };
+      return transaction;
+    };
+
+    const indexedDB = {
+      open: (name: string) => {
+        const request = {
+          result: undefined as unknown,
+          error: undefined as unknown,
+          onsuccess: null as (() => void) | null,
+          onerror: null as (() => void) | null,
+          onupgradeneeded: null as (() => void) | null,
+        };
+
+        setTimeout(() => {
+          let stores = databases.get(name);
+          const upgrade = !stores;
+          stores ??= new Map();
+          databases.set(name, stores);
+
+          const database = {
+            objectStoreNames: { contains: (storeName: string) => stores.has(storeName) },
+            createObjectStore: (storeName: string) => stores.set(storeName, { nextKey: 1, records: new Map() }),
+            transaction: () => createTransaction(stores),
+            close: () => {
+              closed++;
+            },
+          };
+
+          request.result = database;
+          if (upgrade) {
+            request.onupgradeneeded?.();
+          }
+          request.onsuccess?.();
+        }, 0);
+
+        return request;
+      },
+    };
+
+    return {
+      indexedDB,
+      databases,
+      closed: () => closed,
+      fail: () => {
+        failing = true;
+      },
+    };
+  };
+
+  const createFakeLocalStorage = (quota = Infinity) => {
+    const items = new Map<string, string>();
+    return {
+      items,
+      localStorage: {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+          if (value.length > quota) {
+            throw new Error('QuotaExceededError');
+          }
+          items.set(key, value);
+        },
+        removeItem: (key: string) => items.delete(key),
+      },
+    };
+  };
+
+  test('should persist the entries in IndexedDB across sink instances', async () => {
+    const fake = createFakeIndexedDb();
+    vi.stubGlobal('indexedDB', fake.indexedDB);
+    vi.stubGlobal('localStorage', createFakeLocalStorage().localStorage);
+
+    const first = emitter.storageSink();
+    expect(first.storage).toBe('indexeddb');
+
+    const logger = emitter.createLogger('info', first);
+    logger.i`first`;
+    logger.args({ id: 1 }).w`second`;
+    await logger.close();
+    expect(fake.closed()).toBe(1);
+
+    const second = emitter.storageSink();
+    second.sink('error', 'third', []);
+
+    const entries = await second.read();
+    expect(entries.map((entry) => [entry.level, entry.message])).toEqual([
+      ['info', 'first'],
+      ['warning', 'second'],
+      ['error', 'third'],
+    ]);
+    expect(entries[1].args).toEqual([{ id: 1 }]);
+    expect(typeof entries[0].timestamp).toBe('number');
+    expect(entries[0].iso).toBe(new Date(entries[0].timestamp).toISOString());
+
+    await second.close();
+  });
+
+  test('should keep only the newest entries in IndexedDB', async () => {
+    const fake = createFakeIndexedDb();
+    vi.stubGlobal('indexedDB', fake.indexedDB);
+
+    const sink = emitter.storageSink({ name: 'ring', maxEntries: 3 });
+    for (let i = 0; i < 5; i++) {
+      sink.sink('info', `message ${i}`, []);
+    }
+    await sink.flush();
+    sink.sink('info', 'message 5', []);
+
+    expect((await sink.read()).map((entry) => entry.message)).toEqual(['message 3', 'message 4', 'message 5']);
+    expect(fake.databases.get('ring')?.get('entries')?.records.size).toBe(3);
+  });
+
+  test('should report the failed IndexedDB transactions', async () => {
+    const fake = createFakeIndexedDb();
+    vi.stubGlobal('indexedDB', fake.indexedDB);
+
+    const errorHandler = vi.fn();
+    const sink = emitter.storageSink({ storage: 'indexeddb', errorHandler });
+    fake.fail();
+    sink.sink('info', 'lost', []);
+    await sink.flush();
+    // Lets an unhandled rejection of the aborted transaction surface before the test ends
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(errorHandler).toHaveBeenCalledTimes(1);
+    expect(errorHandler).toHaveBeenCalledWith(new Error('request failed'));
+    await sink.close();
+  });
+
+  test('should fall back to localStorage', async () => {
+    const fake = createFakeLocalStorage();
+    vi.stubGlobal('localStorage', fake.localStorage);
+
+    const sink = emitter.storageSink({ name: 'app-logs', maxEntries: 2 });
+    expect(sink.storage).toBe('localstorage');
+
+    sink.sink('info', 'first', []);
+    sink.sink('info', 'second', []);
+    sink.sink('info', 'third', []);
+    await sink.close();
+
+    const stored = JSON.parse(fake.items.get('app-logs')!) as { message: string }[];
+    expect(stored.map((entry) => entry.message)).toEqual(['second', 'third']);
+
+    const reloaded = emitter.storageSink({ name: 'app-logs', maxEntries: 2 });
+    reloaded.sink('info', 'fourth', []);
+    expect((await reloaded.read()).map((entry) => entry.message)).toEqual(['third', 'fourth']);
+  });
+
+  test('should drop the oldest entries when the localStorage quota is exceeded', async () => {
+    const fake = createFakeLocalStorage(600);
+    vi.stubGlobal('localStorage', fake.localStorage);
+
+    const errorHandler = vi.fn();
+    const sink = emitter.storageSink({ errorHandler });
+    for (let i = 0; i < 10; i++) {
+      sink.sink('info', `message ${i}`, []);
+    }
+
+    const entries = await sink.read();
+    expect(entries.length).toBeGreaterThan(0);
+    expect(entries.length).toBeLessThan(10);
+    expect(entries.at(-1)?.message).toBe('message 9');
+    expect(fake.items.get('emitnlog')!.length).toBeLessThanOrEqual(600);
+    expect(errorHandler).toHaveBeenCalledWith(new Error('QuotaExceededError'));
+  });
+
+  test('should use the memory when no storage is available', async () => {
+    const errorHandler = vi.fn();
+    const sink = emitter.storageSink({ storage: 'indexeddb', maxEntries: 2, errorHandler });
+    expect(sink.storage).toBe('memory');
+    expect(errorHandler).toHaveBeenCalledWith(
+      new Error('The storage sink cannot use indexeddb: falling back to the memory'),
+    );
+
+    sink.sink('info', 'first', []);
+    sink.sink('info', 'second', []);
+    sink.sink('info', 'third', []);
+    expect((await sink.read()).map((entry) => entry.message)).toEqual(['second', 'third']);
+  });
+
+  test('should use the requested storage', () => {
+    vi.stubGlobal('indexedDB', createFakeIndexedDb().indexedDB);
+    vi.stubGlobal('localStorage', createFakeLocalStorage().localStorage);
+
+    expect(emitter.storageSink({ storage: 'localstorage' }).storage).toBe('localstorage');
+    expect(emitter.storageSink({ storage: 'memory' }).storage).toBe('memory');
+  });
+
+  test('should store the args and context as JSON values', async () => {
+    vi.stubGlobal('indexedDB', createFakeIndexedDb().indexedDB);
+
+    const sink = emitter.storageSink();
+    const logger = withContext(emitter.createLogger('info', sink), { requestId: 'r-1' });
+    logger.args(new Error('boom'), { when: new Date(0), callback: () => 1 }).e`failed`;
+
+    const [entry] = await sink.read();
+    expect(entry.context).toEqual({ requestId: 'r-1' });
+    expect(entry.args).toHaveLength(2);
+    expect(JSON.parse(JSON.stringify(entry.args))).toEqual(entry.args);
+    expect((entry.args![1] as { when: unknown }).when).toBe('1970-01-01T00:00:00.000Z');
+  });
+
+  test('should export the entries as an NDJSON blob', async () => {
+    vi.stubGlobal('indexedDB', createFakeIndexedDb().indexedDB);
+
+    const sink = emitter.storageSink();
+    const logger = withContext(emitter.createLogger('info', sink), { requestId: 'r-1', args: 'ignored' });
+    logger.i`first`;
+    logger.args({ id: 2 }).w`second`;
+
+    const blob = await sink.export();
+    expect(blob.type).toBe('application/x-ndjson');
+
+    const lines = (await blob.text()).split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe('');
+
+    const records = lines.slice(0, 2).map((line) => JSON.parse(line) as Record<string, unknown>);
+    expect(records[0]).toEqual({
+      level: 'info',
+      timestamp: expect.any(Number),
+      iso: expect.any(String),
+      message: 'first',
+      requestId: 'r-1',
+    });
+    expect(records[1]).toMatchObject({ level: 'warning', message: 'second', requestId: 'r-1', args: [{ id: 2 }] });
+  });
+
+  test('should clear the entries', async () => {
+    vi.stubGlobal('indexedDB', createFakeIndexedDb().indexedDB);
+
+    const sink = emitter.storageSink();
+    sink.sink('info', 'first', []);
+    await sink.clear();
+    expect(await sink.read()).toEqual([]);
+
+    sink.sink('info', 'second', []);
+    expect((await sink.read()).map((entry) => entry.message)).toEqual(['second']);
+  });
+
+  test('should ignore the entries emitted after close', async () => {
+    vi.stubGlobal('indexedDB', createFakeIndexedDb().indexedDB);
+
+    const sink = emitter.storageSink();
+    sink.sink('info', 'first', []);
+    await sink.close();
+    sink.sink('info', 'second', []);
+
+    expect((await sink.read()).map((entry) => entry.message)).toEqual(['first']);
+  });
+});
@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+
+import { emitter, withContext, withPrefix } from '../../../src/logger/index.ts';
+import { terminalFormatter } from '../../../src/utils/index.ts';
+
+describe('emitnlog.logger.emitter.template-formatter', () => {
+  const now = new Date('2024-01-15T12:30:45.123Z');
+
+  beforeAll(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  const capture = (
+    emit: (sink: emitter.LogSink) => void,
+    template: string,
+    options?: emitter.TemplateFormatterOptions,
+  ): string[] => {
+    const formatter = emitter.createTemplateFormatter(template, options);
+    const lines: string[] = [];
+    emit({ sink: (level, message, args) => lines.push(formatter(level, message, args)) });
+    return lines;
+  };
+
+  test('should render the placeholders', () => {
+    const formatter = emitter.createTemplateFormatter('{iso} {date} {time} {epoch} {level} {message} {args}');
+    expect(formatter('info', 'Hello', ['world', { id: 1 }])).toBe(
+      '2024-01-15T12:30:45.123Z 2024-01-15 12:30:45.123 1705321845123 info Hello world {"id":1}',
+    );
+  });
+
+  test('should render the timestamp of the entry', () => {
+    const formatter = emitter.createTemplateFormatter('{iso} {epoch} {message}');
+    expect(formatter('info', 'Hello', [], Date.parse('2024-01-14T08:00:00.000Z'))).toBe(
+      '2024-01-14T08:00:00.000Z 1705219200000 Hello',
+    );
+  });
+
+  test('should use the local time zone', () => {
+    const formatter = emitter.createTemplateFormatter('{iso}|{date}|{time}', { timeZone: 'local' });
+    const [iso, date, time] = formatter('info', 'Hello').split('|');
+
+    const pad = (value: number) => String(value).padStart(2, '0');
+    expect(date).toBe(`${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`);
+    expect(time).toBe(`${pad(now.getHours())}:${pad(now.getMinutes())}:${pad(now.getSeconds())}.123`);
+    expect(iso.startsWith(`${date}T${time}`)).toBe(true);
+    expect(new Date(iso).getTime()).toBe(now.getTime());
+  });
+
+  test('should apply the modifiers', () => {
+    const formatter = emitter.createTemplateFormatter('[{level:upper:pad}] {message:lower}');
+    expect(formatter('warning', 'Hello World')).toBe('[WARNING  ] hello world');
+    expect(formatter('emergency', 'Hello')).toBe('[EMERGENCY] hello');
+  });
+
+  test('should apply the level colors and dim', () => {
+    const formatter = emitter.createTemplateFormatter('{time:dim} {level:color} {message}');
+    expect(formatter('error', 'Failed')).toBe(
+      `${terminalFormatter.dim('12:30:45.123')} ${terminalFormatter.red('error')} Failed`,
+    );
+  });
+
+  test('should remove the trailing whitespace', () => {
+    const formatter = emitter.createTemplateFormatter('{level} {message} {args} ');
+    expect(formatter('info', 'No args', [])).toBe('info No args');
+  });
+
+  test('should render the args with the stringify options', () => {
+    const formatter = emitter.createTemplateFormatter('{message} {args}', { stringifyOptions: { maxDepth: 1 } });
+    expect(formatter('info', 'Nested', [{ a: { b: { c: 1 } } }])).toBe('Nested {"a":"[object Object]"}');
+  });
+
+  test('should render the prefix of prefixed loggers with splitPrefix', () => {
+    const lines = capture(
+      (sink) => {
+        const logger = emitter.createLogger('info', sink);
+        logger.info('plain message');
+        withPrefix(logger, 'db').info('connected');
+        withPrefix(withPrefix(logger, 'db'), 'pool').info('Error: timeout');
+      },
+      '[{prefix}] {message}',
+      { splitPrefix: true },
+    );
+
+    expect(lines).toEqual(['[] plain message', '[db] connected', '[db.pool] Error: timeout']);
+  });
+
+  test('should keep the messages with a separator intact without splitPrefix', () => {
+    const formatter = emitter.createTemplateFormatter('[{prefix}] {message}');
+    expect(formatter('error', 'Error: boom')).toBe('[] Error: boom');
+    expect(formatter('info', 'status: ok')).toBe('[] status: ok');
+    expect(formatter('info', 'db: connected')).toBe('[] db: connected');
+  });
+
+  test('should not split messages with whitespace before the separator', () => {
+    const formatter = emitter.createTemplateFormatter('{prefix}|{message}', { splitPrefix: true });
+    expect(formatter('info', 'Connection failed: timeout')).toBe('|Connection failed: timeout');
+  });
+
+  test('should use the messageSeparator option', () => {
+    const formatter = emitter.createTemplateFormatter('{prefix}|{message}', {
+      splitPrefix: true,
+      messageSeparator: ' >> ',
+    });
+    expect(formatter('info', 'db >> connected')).toBe('db|connected');
+    expect(formatter('info', 'status: ok')).toBe('|status: ok');
+  });
+
+  test('should render the context separately from the args', () => {
+    const lines = capture((sink) => {
+      withContext(emitter.createLogger('info', sink), { requestId: 'abc' }).info('Handled', 42);
+    }, '{message} {args} {context}');
+
+    expect(lines).toEqual(['Handled 42 {"requestId":"abc"}']);
+  });
+
+  test('should output literal braces', () => {
+    const formatter = emitter.createTemplateFormatter('{{level}} {{{level}}}');
+    expect(formatter('info', 'Hello')).toBe('{level} {info}');
+  });
+
+  test('should throw on unknown placeholders and modifiers', () => {
+    expect(() => emitter.createTemplateFormatter('{timestamp} {message}')).toThrow(
+      "IllegalArgument: unknown placeholder '{timestamp}' in the template",
+    );
+    expect(() => emitter.createTemplateFormatter('{level:bold} {message}')).toThrow(
+      "IllegalArgument: unknown modifier 'bold' in the template placeholder '{level:bold}'",
+    );
+  });
+});
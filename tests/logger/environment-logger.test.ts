@@ -52,6 +52,7 @@ describe('emitnlog.logger.environment-logger', () => {
     delete process.env.EMITNLOG_LOGGER;
     delete process.env.EMITNLOG_LEVEL;
     delete process.env.EMITNLOG_FORMAT;
+    delete process.env.EMITNLOG_FILE_ROTATION;
 
     // Setup mock factory functions to return test loggers with proper level
     (factory.createConsoleLogLogger as MockedFunction<typeof factory.createConsoleLogLogger>).mockImplementation(
@@ -181,6 +182,63 @@ describe('emitnlog.logger.environment-logger', () => {
         expect(factory.createConsoleErrorLogger).not.toHaveBeenCalled();
       });
 
+      test('should create FileLogger with rotation when EMITNLOG_FILE_ROTATION is set', () => {
+        process.env.EMITNLOG_LOGGER = 'file:/path/to/log.txt';
+        process.env.EMITNLOG_FILE_ROTATION = 'maxSize=10mb, interval=daily,maxFiles=7,compress';
+        fromEnv();
+        expect(nodeFactory.createFileLogger).toHaveBeenCalledWith('/path/to/log.txt', {
+          rotation: { maxSize: 10 * 1024 * 1024, interval: 'daily', maxFiles: 7, compress: true },
+        });
+        expect(mockConsoleWarn).not.toHaveBeenCalled();
+      });
+
+      test('should decode the size units of EMITNLOG_FILE_ROTATION', () => {
+        process.env.EMITNLOG_LOGGER = 'file:/path/to/log.txt';
+
+        for (const [value, maxSize] of [
+          ['500', 500],
+          ['500b', 500],
+          ['2kb', 2048],
+          ['3MB', 3 * 1024 * 1024],
+          ['1gb', 1024 * 1024 * 1024],
+        ] as const) {
+          process.env.EMITNLOG_FILE_ROTATION = `maxSize=${value},compress=false`;
+          fromEnv();
+          expect(nodeFactory.createFileLogger).toHaveBeenLastCalledWith('/path/to/log.txt', {
+            rotation: { maxSize, compress: false },
+          });
+        }
+      });
+
+      test('should warn when EMITNLOG_FILE_ROTATION is invalid', () => {
+        process.env.EMITNLOG_LOGGER = 'file:/path/to/log.txt';
+
+        for (const value of [
+          'maxSize=10tb',
+          'interval=weekly',
+          'maxFiles=-1',
+          'compress=yes',
+          'unknown=1',
+          'maxFiles=3',
+        ]) {
+          mockConsoleWarn.mockClear();
+          process.env.EMITNLOG_FILE_ROTATION = value;
+          fromEnv();
+          expect(mockConsoleWarn).toHaveBeenCalledWith(
+            `The value of the environment variable 'EMITNLOG_FILE_ROTATION' is not a valid rotation: '${value}'.\nConsult the emitnlog documentation for the rotation syntax.`,
+          );
+          expect(nodeFactory.createFileLogger).toHaveBeenLastCalledWith('/path/to/log.txt', { rotation: undefined });
+        }
+      });
+
+      test('should ignore EMITNLOG_FILE_ROTATION when the logger is not a file logger', () => {
+        process.env.EMITNLOG_LOGGER = 'console-log';
+        process.env.EMITNLOG_FILE_ROTATION = 'invalid';
+        fromEnv();
+        expect(factory.createConsoleLogLogger).toHaveBeenCalled();
+        expect(mockConsoleWarn).not.toHaveBeenCalled();
+      });
+
       test('should warn when FileLogger has empty path', () => {
         process.env.EMITNLOG_LOGGER = 'file:';
         fromEnv();
@@ -286,7 +344,7 @@ describe('emitnlog.logger.environment-logger', () => {
 
     describe('EMITNLOG_FORMAT environment variable', () => {
       test('should use valid formats from environment', () => {
-        const formats = ['plain', 'colorful', 'ndjson', 'json-pretty'] as const;
+        const formats = ['plain', 'colorful', 'ndjson', 'json-pretty', 'otel', 'logfmt', 'ecs'] as const;
 
         formats.forEach((format) => {
           process.env.EMITNLOG_LOGGER = 'console-log';
@@ -233,6 +233,9 @@ describe('emitnlog.logger.factory', () => {
       const colorfulFormatter = toLogFormatter('colorful');
       const ndjsonFormatter = toLogFormatter('ndjson');
       const jsonPrettyFormatter = toLogFormatter('json-pretty');
+      const otelFormatter = toLogFormatter('otel');
+      const logfmtFormatter = toLogFormatter('logfmt');
+      const ecsFormatter = toLogFormatter('ecs');
 
       const testLevel: LogLevel = 'info';
       const testMessage = 'Test';
@@ -242,6 +245,9 @@ describe('emitnlog.logger.factory', () => {
       expect(colorfulFormatter(testLevel, testMessage, testArgs)).toMatch(/\x1b\[\d+m/);
       expect(ndjsonFormatter(testLevel, testMessage, testArgs)).toContain('"level":"info"');
       expect(jsonPrettyFormatter(testLevel, testMessage, testArgs)).toContain('\n');
+      expect(otelFormatter(testLevel, testMessage, testArgs)).toContain('"severityNumber":9');
+      expect(logfmtFormatter(testLevel, testMessage, testArgs)).toContain('level=info msg=Test');
+      expect(ecsFormatter(testLevel, testMessage, testArgs)).toContain('"log.level":"info"');
     });
   });
 
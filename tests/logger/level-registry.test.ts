@@ -0,0 +1,255 @@
+import { describe, expect, test, vi } from 'vitest';
+
+import type { LevelRules } from '../../src/logger/index.ts';
+import {
+  createLevelRegistry,
+  createMemoryLogger,
+  OFF_LOGGER,
+  parseLevelRules,
+  withContext,
+  withLevelRegistry,
+  withPrefix,
+} from '../../src/logger/index.ts';
+import { createEventNotifier } from '../../src/notifier/index.ts';
+
+describe('emitnlog.logger.level-registry', () => {
+  describe('createLevelRegistry', () => {
+    test('should resolve the most specific rule', () => {
+      const registry = createLevelRegistry({
+        '*': 'info',
+        db: 'warning',
+        'db.pool': 'debug',
+        '*.cache': 'error',
+        'db.cache': 'trace',
+        'http.*.retry': 'off',
+      });
+
+      expect(registry.resolve()).toBe('info');
+      expect(registry.resolve('')).toBe('info');
+      expect(registry.resolve('api')).toBe('info');
+      expect(registry.resolve('db')).toBe('warning');
+      expect(registry.resolve('db.migrations')).toBe('warning');
+      expect(registry.resolve('db.pool')).toBe('debug');
+      expect(registry.resolve('db.pool.connection')).toBe('debug');
+      expect(registry.resolve('api.cache')).toBe('error');
+      expect(registry.resolve('api.cache.entries')).toBe('error');
+      expect(registry.resolve('db.cache')).toBe('trace');
+      expect(registry.resolve('http.client.retry')).toBe('off');
+      expect(registry.resolve('http.client')).toBe('info');
+      expect(registry.resolve('dbx')).toBe('info');
+    });
+
+    test('should resolve undefined without a matching rule', () => {
+      const registry = createLevelRegistry({ 'db.pool': 'debug' });
+      expect(registry.resolve()).toBeUndefined();
+      expect(registry.resolve('db')).toBeUndefined();
+      expect(registry.resolve('db.pool')).toBe('debug');
+      expect(createLevelRegistry().resolve('db')).toBeUndefined();
+    });
+
+    test('should replace the rules and notify the listeners', () => {
+      const registry = createLevelRegistry({ '*': 'info' });
+      const listener = vi.fn();
+      registry.onChange(listener);
+
+      expect(registry.resolve('db')).toBe('info');
+      registry.set({ '*': 'warning', db: 'debug' });
+
+      expect(registry.rules).toEqual({ '*': 'warning', db: 'debug' });
+      expect(registry.resolve('db')).toBe('debug');
+      expect(registry.resolve('api')).toBe('warning');
+      expect(listener).toHaveBeenCalledWith({ '*': 'warning', db: 'debug' });
+    });
+
+    test('should reject invalid levels', () => {
+      expect(() => createLevelRegistry({ db: 'verbose' } as unknown as LevelRules)).toThrow(
+        "IllegalArgument: invalid level 'verbose' for the level rule 'db'",
+      );
+
+      const registry = createLevelRegistry({ '*': 'info' });
+      expect(() => registry.set({ db: 'verbose' } as unknown as LevelRules)).toThrow('IllegalArgument');
+      expect(registry.rules).toEqual({ '*': 'info' });
+    });
+
+    test('should follow a configuration source', () => {
+      const notifier = createEventNotifier<LevelRules>();
+      const registry = createLevelRegistry({ '*': 'info' });
+      const subscription = registry.listen(notifier.onEvent);
+
+      notifier.notify({ '*': 'info', 'http.*': 'debug' });
+      expect(registry.resolve('http.client')).toBe('debug');
+
+      subscription.close();
+      notifier.notify({ '*': 'error' });
+      expect(registry.resolve('http.client')).toBe('debug');
+    });
+
+    test('should stop following the configuration sources when closed', () => {
+      const notifier = createEventNotifier<LevelRules>();
+      const registry = createLevelRegistry({ '*': 'info' });
+      const listener = vi.fn();
+      registry.listen(notifier.onEvent);
+      registry.onChange(listener);
+
+      registry.close();
+      notifier.notify({ '*': 'error' });
+
+      expect(registry.resolve()).toBe('info');
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('withLevelRegistry', () => {
+    test('should return OFF_LOGGER when logger is OFF_LOGGER', () => {
+      expect(withLevelRegistry(OFF_LOGGER, createLevelRegistry())).toBe(OFF_LOGGER);
+    });
+
+    test('should filter the entries of the prefixed loggers using the registry', () => {
+      const memory = createMemoryLogger('trace');
+      const registry = createLevelRegistry({ '*': 'info', 'db.pool': 'debug', 'http.*': 'warning' });
+      const logger = withLevelRegistry(memory, registry);
+
+      const dbLogger = withPrefix(logger, 'db');
+      const poolLogger = withPrefix(dbLogger, 'pool');
+      const clientLogger = withPrefix(withPrefix(logger, 'http'), 'client');
+
+      logger.d`root debug`;
+      logger.i`root info`;
+      dbLogger.d`db debug`;
+      poolLogger.d`pool debug`;
+      poolLogger.t`pool trace`;
+      clientLogger.i`client info`;
+      clientLogger.w`client warning`;
+
+      expect(memory.entries.map((entry) => [entry.level, entry.message])).toEqual([
+        ['info', 'root info'],
+        ['debug', 'db.pool: pool debug'],
+        ['warning', 'http.client: client warning'],
+      ]);
+
+      expect(logger.level).toBe('info');
+      expect(dbLogger.level).toBe('info');
+      expect(poolLogger.level).toBe('debug');
+      expect(clientLogger.level).toBe('warning');
+    });
+
+    test('should apply the changes of the registry to the existing loggers', () => {
+      const memory = createMemoryLogger('trace');
+      const registry = createLevelRegistry({ '*': 'info' });
+      const poolLogger = withPrefix(withLevelRegistry(memory, registry), 'db.pool');
+
+      poolLogger.d`before`;
+      registry.set({ '*': 'info', db: 'debug' });
+      poolLogger.d`after`;
+      registry.set({ '*': 'info', db: 'off' });
+      poolLogger.e`off`;
+
+      expect(memory.entries.map((entry) => entry.message)).toEqual(['db.pool: after']);
+    });
+
+    test('should fall back to the level of the decorated logger', () => {
+      const memory = createMemoryLogger('warning');
+      const logger = withLevelRegistry(memory, createLevelRegistry({ db: 'debug' }));
+
+      logger.i`root info`;
+      logger.w`root warning`;
+      expect(logger.level).toBe('warning');
+      expect(withPrefix(logger, 'api').level).toBe('warning');
+
+      // Entries filtered by the decorated logger are emitted using its level
+      withPrefix(logger, 'db').d`db debug`;
+
+      expect(memory.entries.map((entry) => [entry.level, entry.message])).toEqual([
+        ['warning', 'root warning'],
+        ['warning', 'db: db debug'],
+      ]);
+    });
+
+    test('should consult the registry when decorating a prefixed logger', () => {
+      const memory = createMemoryLogger('trace');
+      const registry = createLevelRegistry({ '*': 'error', 'db.pool': 'debug' });
+      const poolLogger = withLevelRegistry(withPrefix(withPrefix(memory, 'db'), 'pool'), registry);
+
+      poolLogger.d`pool debug`;
+      withPrefix(poolLogger, 'connection').d`connection debug`;
+
+      expect(memory.entries.map((entry) => entry.message)).toEqual([
+        'db.pool: pool debug',
+        'db.pool.connection: connection debug',
+      ]);
+    });
+
+    test('should match the prefixes with custom separators by their segments', () => {
+      const memory = createMemoryLogger('trace');
+      const registry = createLevelRegistry({ '*': 'info', 'db.pool': 'debug', 'db/cache': 'debug' });
+      const dbLogger = withPrefix(withLevelRegistry(memory, registry), 'db', {
+        prefixSeparator: '/',
+        messageSeparator: ' | ',
+      });
+      const poolLogger = withPrefix(dbLogger, 'pool');
+
+      poolLogger.d`pool debug`;
+      withPrefix(poolLogger, 'connection').d`connection debug`;
+      withPrefix(dbLogger, 'cache').d`cache debug`;
+
+      expect(poolLogger.level).toBe('debug');
+      expect(memory.entries.map((entry) => entry.message)).toEqual([
+        'db/pool | pool debug',
+        'db/pool/connection | connection debug',
+      ]);
+    });
+
+    test('should preserve the args and the context', () => {
+      const memory = createMemoryLogger('trace');
+      const logger = withLevelRegistry(memory, createLevelRegistry({ '*': 'info' }));
+
+      withContext(withPrefix(logger, 'api'), { requestId: 'abc' }).args({ id: 1 }).i`handled`;
+
+      expect(memory.entries).toHaveLength(1);
+      expect(memory.entries[0]).toMatchObject({
+        message: 'api: handled',
+        args: [{ id: 1 }],
+        context: { requestId: 'abc' },
+      });
+    });
+
+    test('should forward flush and close', async () => {
+      const memory = createMemoryLogger('trace');
+      const flush = vi.spyOn(memory, 'flush');
+      const close = vi.spyOn(memory, 'close');
+      const logger = withPrefix(withLevelRegistry(memory, createLevelRegistry()), 'db');
+
+      await logger.flush?.();
+      await logger.close?.();
+
+      expect(flush).toHaveBeenCalledTimes(1);
+      expect(close).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('parseLevelRules', () => {
+    test('should parse pattern=level pairs', () => {
+      expect(parseLevelRules(' *=info, db.pool = debug ,http.*=off,')).toEqual({
+        '*': 'info',
+        'db.pool': 'debug',
+        'http.*': 'off',
+      });
+      expect(parseLevelRules('')).toEqual({});
+    });
+
+    test('should parse JSON objects', () => {
+      expect(parseLevelRules('{"*":"info","db.pool":"debug"}')).toEqual({ '*': 'info', 'db.pool': 'debug' });
+    });
+
+    test('should reject invalid rules', () => {
+      expect(() => parseLevelRules('db.pool')).toThrow(
+        "IllegalArgument: invalid level rule 'db.pool', expected 'pattern=level'",
+      );
+      expect(() => parseLevelRules('db=verbose')).toThrow(
+        "IllegalArgument: invalid level 'verbose' for the level rule 'db'",
+      );
+      expect(() => parseLevelRules('{"db":1}')).toThrow("IllegalArgument: invalid level '1' for the level rule 'db'");
+      expect(() => parseLevelRules('{"db":')).toThrow();
+    });
+  });
+});
@@ -3,10 +3,12 @@ import { beforeEach, describe, expect, test, vi } from 'vitest';
 import { promises as fs } from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
+import { gunzipSync } from 'node:zlib';
 
 import { delay, jsonParse } from '../../../src/index-node.ts';
 import type { FileLoggerOptions, LogFormat } from '../../../src/logger/index-node.ts';
 import { createFileLogger, tee } from '../../../src/logger/index-node.ts';
+import { listRotatedFiles } from '../../../src/logger/node/rotated-log-files.ts';
 
 describe('emitnlog.logger.node.FileLogger', () => {
   const TEST_FLUSH_DELAY = { flushDelayMs: 50 } as const satisfies FileLoggerOptions;
@@ -272,6 +274,9 @@ describe('emitnlog.logger.node.FileLogger', () => {
       { format: 'colorful', description: 'colorful format' },
       { format: 'json-pretty', description: 'JSON format' },
       { format: 'ndjson', description: 'NDJSON format' },
+      { format: 'otel', description: 'OTLP format' },
+      { format: 'logfmt', description: 'logfmt format' },
+      { format: 'ecs', description: 'ECS format' },
     ];
 
     // Create all loggers and log messages
@@ -305,6 +310,16 @@ describe('emitnlog.logger.node.FileLogger', () => {
         const parsed = jsonParse<Record<string, unknown>>(firstLine);
         expect(parsed.message).toBe(`Testing ${description}`);
         expect(parsed.level).toBe('info');
+      } else if (format === 'logfmt') {
+        expect(content).toContain(`level=info msg="Testing ${description}"`);
+      } else if (format === 'ecs') {
+        const parsed = jsonParse<Record<string, unknown>>(content.trim());
+        expect(parsed.message).toBe(`Testing ${description}`);
+        expect(parsed['log.level']).toBe('info');
+      } else if (format === 'otel') {
+        const parsed = jsonParse<{ severityText: string; body: { stringValue: string } }>(content.trim());
+        expect(parsed.body.stringValue).toBe(`Testing ${description}`);
+        expect(parsed.severityText).toBe('INFO');
       } else {
         // Plain and colorful formats should have level indicator
         expect(content).toContain('[info     ]');
@@ -836,4 +851,205 @@ describe('emitnlog.logger.node.FileLogger', () => {
       expect(entry.message).toBe('Logger 2 only entry');
     });
   });
+
+  describe('rotation', () => {
+    const readAllEntries = async (): Promise<string[]> => {
+      const rotatedFiles = await listRotatedFiles(testLogFile);
+      const contents = await Promise.all(
+        rotatedFiles.map(async (file) =>
+          file.endsWith('.gz') ? gunzipSync(await fs.readFile(file)).toString('utf8') : fs.readFile(file, 'utf8'),
+        ),
+      );
+      contents.push(await readLogFile());
+      return contents.flatMap((content) => content.split('\n').filter(Boolean));
+    };
+
+    test('should rotate the file when it reaches the maximum size', async () => {
+      const logger = createFileLogger(testLogFile, { format: 'ndjson', omitArgs: true, rotation: { maxSize: 300 } });
+      for (let i = 0; i < 10; i++) {
+        logger.info(`entry ${i}`);
+      }
+      await logger.close();
+
+      const rotatedFiles = await listRotatedFiles(testLogFile);
+      expect(rotatedFiles.length).toBeGreaterThan(1);
+      const files = [...rotatedFiles, testLogFile];
+      const stats = await Promise.all(files.map((file) => fs.stat(file)));
+      for (const [index, file] of files.entries()) {
+        expect(path.basename(file)).toMatch(/^test(\.\d{8}-\d{6}(-\d+)?)?\.log$/);
+        expect(stats[index].size).toBeLessThanOrEqual(300);
+      }
+
+      const entries = await readAllEntries();
+      expect(entries.map((entry) => (JSON.parse(entry) as { message: string }).message)).toEqual(
+        Array.from({ length: 10 }, (_, i) => `entry ${i}`),
+      );
+    });
+
+    test('should account for the size of an existing file', async () => {
+      await fs.writeFile(testLogFile, `${'x'.repeat(90)}\n`);
+
+      const logger = createFileLogger(testLogFile, { rotation: { maxSize: 100 } });
+      logger.info('new entry');
+      await logger.close();
+
+      const rotatedFiles = await listRotatedFiles(testLogFile);
+      expect(rotatedFiles).toHaveLength(1);
+      await expect(readLogFile(rotatedFiles[0])).resolves.toBe(`${'x'.repeat(90)}\n`);
+      await expect(readLogFile()).resolves.toContain('new entry');
+    });
+
+    test('should write an entry larger than the maximum size without rotating an empty file', async () => {
+      const logger = createFileLogger(testLogFile, { rotation: { maxSize: 10 } });
+      logger.info('an entry that is larger than the maximum size');
+      await logger.close();
+
+      await expect(listRotatedFiles(testLogFile)).resolves.toHaveLength(0);
+      await expect(readLogFile()).resolves.toContain('an entry that is larger than the maximum size');
+    });
+
+    test('should keep only the most recent rotated files and compress them', async () => {
+      const logger = createFileLogger(testLogFile, {
+        format: 'ndjson',
+        omitArgs: true,
+        rotation: { maxSize: 150, maxFiles: 2, compress: true },
+      });
+      for (let i = 0; i < 10; i++) {
+        logger.info(`entry ${i}`);
+      }
+      await logger.close();
+
+      const rotatedFiles = await listRotatedFiles(testLogFile);
+      expect(rotatedFiles).toHaveLength(2);
+      expect(rotatedFiles.every((file) => file.endsWith('.log.gz'))).toBe(true);
+
+      const entries = await readAllEntries();
+      expect(entries.length).toBeGreaterThan(2);
+      expect(entries.length).toBeLessThan(10);
+      expect(JSON.parse(entries[entries.length - 1]) as unknown).toMatchObject({ message: 'entry 9' });
+    });
+
+    test('should rotate the file when the day changes', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+
+      try {
+        vi.setSystemTime(new Date(2024, 0, 2, 23, 59, 58));
+        const logger = createFileLogger(testLogFile, { rotation: { interval: 'daily' } });
+        logger.info('first day');
+        await logger.flush();
+
+        vi.setSystemTime(new Date(2024, 0, 3, 0, 0, 1));
+        logger.info('second day');
+        await logger.close();
+
+        const rotatedFiles = await listRotatedFiles(testLogFile);
+        expect(rotatedFiles.map((file) => path.basename(file))).toEqual(['test.20240102-000000.log']);
+        await expect(readLogFile(rotatedFiles[0])).resolves.toContain('first day');
+
+        const content = await readLogFile();
+        expect(content).toContain('second day');
+        expect(content).not.toContain('first day');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    test('should rotate the file when the hour changes', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+
+      try {
+        vi.setSystemTime(new Date(2024, 0, 2, 10, 30, 0));
+        const logger = createFileLogger(testLogFile, { rotation: { interval: 'hourly' } });
+        logger.info('10h');
+        await logger.flush();
+
+        vi.setSystemTime(new Date(2024, 0, 2, 10, 59, 59));
+        logger.info('still 10h');
+        await logger.flush();
+
+        vi.setSystemTime(new Date(2024, 0, 2, 11, 0, 0));
+        logger.info('11h');
+        await logger.close();
+
+        const rotatedFiles = await listRotatedFiles(testLogFile);
+        expect(rotatedFiles.map((file) => path.basename(file))).toEqual(['test.20240102-100000.log']);
+        const rotatedContent = await readLogFile(rotatedFiles[0]);
+        expect(rotatedContent).toContain('still 10h');
+        expect(rotatedContent).not.toContain('11h');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    test('should rotate an existing file last modified in a previous period', async () => {
+      await fs.writeFile(testLogFile, 'old entry\n');
+      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      await fs.utimes(testLogFile, yesterday, yesterday);
+
+      const logger = createFileLogger(testLogFile, { rotation: { interval: 'daily' } });
+      logger.info('new entry');
+      await logger.close();
+
+      const p = (n: number) => String(n).padStart(2, '0');
+      const day = `${yesterday.getFullYear()}${p(yesterday.getMonth() + 1)}${p(yesterday.getDate())}`;
+      const rotatedFiles = await listRotatedFiles(testLogFile);
+      expect(rotatedFiles.map((file) => path.basename(file))).toEqual([`test.${day}-000000.log`]);
+      await expect(readLogFile(rotatedFiles[0])).resolves.toBe('old entry\n');
+      await expect(readLogFile()).resolves.not.toContain('old entry');
+    });
+
+    test('should name the file rotated by size after the time it was created', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+
+      try {
+        vi.setSystemTime(new Date(2024, 0, 2, 10, 0, 0));
+        const logger = createFileLogger(testLogFile, { rotation: { maxSize: 50 } });
+        logger.info(`first ${'-'.repeat(20)}`);
+        await logger.flush();
+
+        vi.setSystemTime(new Date(2024, 0, 2, 10, 30, 0));
+        logger.info(`second ${'-'.repeat(20)}`);
+        await logger.flush();
+
+        vi.setSystemTime(new Date(2024, 0, 2, 11, 15, 0));
+        logger.info(`third ${'-'.repeat(20)}`);
+        await logger.close();
+
+        const rotatedFiles = await listRotatedFiles(testLogFile);
+        expect(rotatedFiles.map((file) => path.basename(file))).toEqual([
+          'test.20240102-100000.log',
+          'test.20240102-103000.log',
+        ]);
+        await expect(readLogFile(rotatedFiles[0])).resolves.toContain('first');
+        await expect(readLogFile(rotatedFiles[1])).resolves.toContain('second');
+        await expect(readLogFile()).resolves.toContain('third');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    test('should add a suffix when the rotated file name already exists', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+
+      try {
+        vi.setSystemTime(new Date(2024, 0, 2, 10, 0, 0));
+        const logger = createFileLogger(testLogFile, { rotation: { maxSize: 50 } });
+        for (let i = 0; i < 3; i++) {
+          logger.info(`entry ${i} ${'-'.repeat(20)}`);
+        }
+        await logger.close();
+
+        const rotatedFiles = await listRotatedFiles(testLogFile);
+        expect(rotatedFiles.map((file) => path.basename(file))).toEqual([
+          'test.20240102-100000.log',
+          'test.20240102-100000-1.log',
+        ]);
+        await expect(readLogFile(rotatedFiles[0])).resolves.toContain('entry 0');
+        await expect(readLogFile(rotatedFiles[1])).resolves.toContain('entry 1');
+        await expect(readLogFile()).resolves.toContain('entry 2');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
 });
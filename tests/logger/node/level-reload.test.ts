@@ -0,0 +1,123 @@
+import { afterAll, afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import type { LevelReloader } from '../../../src/logger/index-node.ts';
+import { createLevelRegistry, reloadLevelsOnSignal } from '../../../src/logger/index-node.ts';
+
+describe('emitnlog.logger.node.level-reload', () => {
+  const testDir = path.join(os.tmpdir(), `level-reload-test-${Date.now()}`);
+  const rulesFile = path.join(testDir, 'levels.json');
+  const originalEnv = process.env.EMITNLOG_LEVELS;
+  let reloader: LevelReloader | undefined;
+
+  beforeEach(async () => {
+    delete process.env.EMITNLOG_LEVELS;
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    reloader?.close();
+    reloader = undefined;
+    if (originalEnv === undefined) {
+      delete process.env.EMITNLOG_LEVELS;
+    } else {
+      process.env.EMITNLOG_LEVELS = originalEnv;
+    }
+  });
+
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should read the rules from the environment variable on signal', () => {
+    process.env.EMITNLOG_LEVELS = '*=info,db.pool=debug';
+    const registry = createLevelRegistry({ '*': 'error' });
+
+    reloader = reloadLevelsOnSignal(registry);
+    expect(registry.rules).toEqual({ '*': 'info', 'db.pool': 'debug' });
+
+    process.env.EMITNLOG_LEVELS = '{"*":"warning"}';
+    process.emit('SIGHUP', 'SIGHUP');
+    expect(registry.rules).toEqual({ '*': 'warning' });
+  });
+
+  test('should read the rules from the file of the environment variable', async () => {
+    await fs.writeFile(rulesFile, JSON.stringify({ '*': 'info', http: 'debug' }));
+    process.env.EMITNLOG_LEVELS = `file:${rulesFile}`;
+    const registry = createLevelRegistry();
+
+    reloader = reloadLevelsOnSignal(registry);
+    expect(registry.resolve('http.client')).toBe('debug');
+
+    await fs.writeFile(rulesFile, 'http=error');
+    process.emit('SIGHUP', 'SIGHUP');
+    expect(registry.resolve('http.client')).toBe('error');
+  });
+
+  test('should read the rules from the file option on the configured signal', async () => {
+    await fs.writeFile(rulesFile, '*=notice');
+    const registry = createLevelRegistry();
+
+    reloader = reloadLevelsOnSignal(registry, { filePath: rulesFile, signal: 'SIGUSR2' });
+    expect(registry.resolve()).toBe('notice');
+
+    await fs.writeFile(rulesFile, '*=trace');
+    process.emit('SIGHUP', 'SIGHUP');
+    expect(registry.resolve()).toBe('notice');
+
+    process.emit('SIGUSR2', 'SIGUSR2');
+    expect(registry.resolve()).toBe('trace');
+
+    await fs.writeFile(rulesFile, '*=alert');
+    reloader.reload();
+    expect(registry.resolve()).toBe('alert');
+  });
+
+  test('should keep the rules when nothing is configured', () => {
+    const registry = createLevelRegistry({ '*': 'info' });
+
+    reloader = reloadLevelsOnSignal(registry);
+    process.emit('SIGHUP', 'SIGHUP');
+
+    expect(registry.rules).toEqual({ '*': 'info' });
+  });
+
+  test('should report invalid rules and keep the current rules', async () => {
+    const errorHandler = vi.fn();
+    const registry = createLevelRegistry({ '*': 'info' });
+
+    process.env.EMITNLOG_LEVELS = '*=verbose';
+    reloader = reloadLevelsOnSignal(registry, { errorHandler });
+    expect(registry.rules).toEqual({ '*': 'info' });
+    expect(String(errorHandler.mock.calls[0][0])).toContain("invalid level 'verbose'");
+
+    process.env.EMITNLOG_LEVELS = `file:${path.join(testDir, 'missing.json')}`;
+    process.emit('SIGHUP', 'SIGHUP');
+    expect(registry.rules).toEqual({ '*': 'info' });
+    expect(errorHandler).toHaveBeenCalledTimes(2);
+
+    await fs.writeFile(rulesFile, '*=debug');
+    process.env.EMITNLOG_LEVELS = `file:${rulesFile}`;
+    process.emit('SIGHUP', 'SIGHUP');
+    expect(registry.rules).toEqual({ '*': 'debug' });
+  });
+
+  test('should stop listening to the signal when closed', () => {
+    process.env.EMITNLOG_LEVELS = '*=info';
+    const registry = createLevelRegistry();
+    const listeners = process.listenerCount('SIGHUP');
+
+    reloader = reloadLevelsOnSignal(registry);
+    expect(process.listenerCount('SIGHUP')).toBe(listeners + 1);
+
+    reloader.close();
+    expect(process.listenerCount('SIGHUP')).toBe(listeners);
+
+    process.env.EMITNLOG_LEVELS = '*=error';
+    process.emit('SIGHUP', 'SIGHUP');
+    expect(registry.resolve()).toBe('info');
+  });
+});
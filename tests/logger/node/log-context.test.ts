@@ -0,0 +1,100 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  createMemoryLogger,
+  delay,
+  getAmbientLogContext,
+  OFF_LOGGER,
+  runWithLogContext,
+  withAmbientContext,
+  withContext,
+  withPrefix,
+} from '../../../src/index-node.ts';
+
+describe('emitnlog.logger.node.log-context', () => {
+  test('should return OFF_LOGGER when logger is OFF_LOGGER', () => {
+    expect(withAmbientContext(OFF_LOGGER)).toBe(OFF_LOGGER);
+  });
+
+  test('should expose the ambient context only within runWithLogContext', () => {
+    expect(getAmbientLogContext()).toBeUndefined();
+
+    const result = runWithLogContext({ requestId: 'abc' }, () => {
+      expect(getAmbientLogContext()).toEqual({ requestId: 'abc' });
+      return 42;
+    });
+
+    expect(result).toBe(42);
+    expect(getAmbientLogContext()).toBeUndefined();
+  });
+
+  test('should merge nested contexts', () => {
+    runWithLogContext({ requestId: 'abc', user: 'anonymous' }, () => {
+      runWithLogContext({ user: 'john' }, () => {
+        expect(getAmbientLogContext()).toEqual({ requestId: 'abc', user: 'john' });
+      });
+      expect(getAmbientLogContext()).toEqual({ requestId: 'abc', user: 'anonymous' });
+    });
+  });
+
+  test('should add the ambient context to the emitted entries', () => {
+    const memoryLogger = createMemoryLogger('trace');
+    const logger = withAmbientContext(memoryLogger);
+
+    logger.info('outside');
+    runWithLogContext({ requestId: 'abc' }, () => {
+      logger.args({ id: 1 }).info('inside');
+    });
+
+    expect(memoryLogger.entries).toHaveLength(2);
+    expect(memoryLogger.entries[0].context).toBeUndefined();
+    expect(memoryLogger.entries[1]).toMatchObject({
+      message: 'inside',
+      args: [{ id: 1 }],
+      context: { requestId: 'abc' },
+    });
+  });
+
+  test('should propagate the context through asynchronous calls', async () => {
+    const memoryLogger = createMemoryLogger('trace');
+    const logger = withAmbientContext(memoryLogger);
+
+    const deepOperation = async (value: number) => {
+      await delay(1);
+      logger.i`deep ${value}`;
+    };
+
+    await Promise.all([
+      runWithLogContext({ requestId: 'a' }, () => deepOperation(1)),
+      runWithLogContext({ requestId: 'b' }, () => deepOperation(2)),
+    ]);
+
+    expect(memoryLogger.entries).toHaveLength(2);
+    const contexts = Object.fromEntries(memoryLogger.entries.map((entry) => [entry.message, entry.context]));
+    expect(contexts).toEqual({ 'deep 1': { requestId: 'a' }, 'deep 2': { requestId: 'b' } });
+  });
+
+  test('should give precedence to the fields bound with withContext', () => {
+    const memoryLogger = createMemoryLogger('trace');
+    const ambientLogger = withAmbientContext(memoryLogger);
+    const logger = withContext(ambientLogger, { user: 'john' });
+
+    runWithLogContext({ requestId: 'abc', user: 'anonymous' }, () => {
+      logger.info('message', 'arg');
+    });
+
+    expect(memoryLogger.entries[0].args).toEqual(['arg']);
+    expect(memoryLogger.entries[0].context).toEqual({ requestId: 'abc', user: 'john' });
+  });
+
+  test('should work with prefixed loggers', () => {
+    const memoryLogger = createMemoryLogger('trace');
+    const logger = withPrefix(withAmbientContext(withPrefix(memoryLogger, 'app')), 'db');
+
+    runWithLogContext({ requestId: 'abc' }, () => {
+      logger.info('query');
+    });
+
+    expect(memoryLogger.entries[0]).toMatchObject({ message: 'app.db: query', context: { requestId: 'abc' } });
+  });
+});
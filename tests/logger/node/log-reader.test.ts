@@ -0,0 +1,226 @@
+import { afterAll, beforeEach, describe, expect, test } from 'vitest';
+
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { gzipSync } from 'node:zlib';
+
+import type { LogEntry, LogEntryFilter } from '../../../src/logger/index-node.ts';
+import { createFileLogger, readLogEntries, withPrefix } from '../../../src/logger/index-node.ts';
+
+describe('emitnlog.logger.node.log-reader', () => {
+  const testDir = path.join(os.tmpdir(), `log-reader-test-${Date.now()}`);
+  const testLogFile = path.join(testDir, 'app.log');
+
+  const toLine = (level: string, timestamp: number, message: string, extra?: Record<string, unknown>) =>
+    JSON.stringify({ level, timestamp, iso: new Date(timestamp).toISOString(), message, ...extra });
+
+  const readAll = async (filePath: string, filter?: LogEntryFilter): Promise<LogEntry[]> => {
+    const entries: LogEntry[] = [];
+    for await (const entry of readLogEntries(filePath, filter)) {
+      entries.push(entry);
+    }
+    return entries;
+  };
+
+  beforeEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should read the entries written by the ndjson file logger', async () => {
+    const logger = createFileLogger(testLogFile, { level: 'debug', format: 'ndjson' });
+    logger.debug('first');
+    withPrefix(logger, 'db').error('failed', { code: 42 });
+    logger.info('handled');
+    await logger.close();
+
+    const entries = await readAll(testLogFile);
+    expect(entries).toHaveLength(3);
+    expect(entries[0]).toMatchObject({ level: 'debug', message: 'first' });
+    expect(entries[0].timestamp).toEqual(expect.any(Number));
+    expect(entries[0].iso).toEqual(expect.stringContaining('T'));
+    expect(entries[1]).toEqual({
+      level: 'error',
+      timestamp: expect.any(Number),
+      iso: expect.any(String),
+      message: 'db: failed',
+      args: [{ code: 42 }],
+    });
+    expect(entries[2]).toMatchObject({ level: 'info', message: 'handled' });
+    expect(entries[2].args).toBeUndefined();
+  });
+
+  test('should read the context of the entries', async () => {
+    await fs.writeFile(testLogFile, toLine('info', 1000, 'handled', { requestId: 'abc' }));
+
+    const entries = await readAll(testLogFile);
+    expect(entries).toEqual([expect.objectContaining({ message: 'handled', context: { requestId: 'abc' } })]);
+  });
+
+  test('should ignore invalid lines', async () => {
+    await fs.writeFile(
+      testLogFile,
+      [
+        toLine('info', 1000, 'valid'),
+        'not json',
+        '',
+        '[1, 2]',
+        JSON.stringify({ level: 'verbose', timestamp: 1, message: 'invalid level' }),
+        JSON.stringify({ level: 'info', message: 'no timestamp' }),
+        toLine('warning', 2000, 'also valid'),
+      ].join('\n'),
+    );
+
+    const entries = await readAll(testLogFile);
+    expect(entries.map((entry) => entry.message)).toEqual(['valid', 'also valid']);
+  });
+
+  test('should yield nothing for a missing file', async () => {
+    await expect(readAll(path.join(testDir, 'missing.log'))).resolves.toEqual([]);
+  });
+
+  test('should filter by level range', async () => {
+    await fs.writeFile(
+      testLogFile,
+      [
+        toLine('debug', 1, 'debug'),
+        toLine('info', 2, 'info'),
+        toLine('warning', 3, 'warning'),
+        toLine('error', 4, 'error'),
+        toLine('emergency', 5, 'emergency'),
+      ].join('\n'),
+    );
+
+    const messages = async (filter: LogEntryFilter) => (await readAll(testLogFile, filter)).map((e) => e.message);
+    await expect(messages({ minLevel: 'warning' })).resolves.toEqual(['warning', 'error', 'emergency']);
+    await expect(messages({ maxLevel: 'info' })).resolves.toEqual(['debug', 'info']);
+    await expect(messages({ minLevel: 'info', maxLevel: 'error' })).resolves.toEqual(['info', 'warning', 'error']);
+  });
+
+  test('should filter by time range', async () => {
+    await fs.writeFile(
+      testLogFile,
+      [toLine('info', 1000, 'a'), toLine('info', 2000, 'b'), toLine('info', 3000, 'c')].join('\n'),
+    );
+
+    const entries = await readAll(testLogFile, { from: 2000, to: new Date(3000) });
+    expect(entries.map((entry) => entry.message)).toEqual(['b', 'c']);
+  });
+
+  test('should filter by prefix and message', async () => {
+    await fs.writeFile(
+      testLogFile,
+      [
+        toLine('info', 1, 'db: connected'),
+        toLine('info', 2, 'db.pool: timeout acquiring'),
+        toLine('info', 3, 'dbx: timeout'),
+        toLine('info', 4, 'api: timeout'),
+        toLine('info', 5, 'db: Query Timeout'),
+      ].join('\n'),
+    );
+
+    const byPrefix = await readAll(testLogFile, { prefix: 'db' });
+    expect(byPrefix.map((entry) => entry.message)).toEqual([
+      'db: connected',
+      'db.pool: timeout acquiring',
+      'db: Query Timeout',
+    ]);
+
+    const byPrefixAndMessage = await readAll(testLogFile, { prefix: 'db', message: /timeout/gi });
+    expect(byPrefixAndMessage.map((entry) => entry.message)).toEqual([
+      'db.pool: timeout acquiring',
+      'db: Query Timeout',
+    ]);
+  });
+
+  test('should not match a prefix that only starts the message', async () => {
+    await fs.writeFile(
+      testLogFile,
+      [toLine('info', 1, 'db.pool exhausted'), toLine('info', 2, 'db: connected')].join('\n'),
+    );
+
+    const byPrefix = await readAll(testLogFile, { prefix: 'db' });
+    expect(byPrefix.map((entry) => entry.message)).toEqual(['db: connected']);
+  });
+
+  test('should filter by prefix with custom separators', async () => {
+    await fs.writeFile(
+      testLogFile,
+      [
+        toLine('info', 1, 'db/pool | timeout'),
+        toLine('info', 2, 'db.pool: timeout'),
+        toLine('info', 3, 'db | up'),
+      ].join('\n'),
+    );
+
+    const byPrefix = await readAll(testLogFile, { prefix: 'db', prefixSeparator: '/', messageSeparator: ' | ' });
+    expect(byPrefix.map((entry) => entry.message)).toEqual(['db/pool | timeout', 'db | up']);
+  });
+
+  test('should read the rotated and gzipped files in order', async () => {
+    await fs.writeFile(path.join(testDir, 'app.20250101-000000.log'), `${toLine('info', 1, 'oldest')}\n`);
+    await fs.writeFile(
+      path.join(testDir, 'app.20250102-000000.log.gz'),
+      gzipSync(`${toLine('info', 2, 'compressed')}\n${toLine('error', 3, 'compressed error')}\n`),
+    );
+    await fs.writeFile(testLogFile, `${toLine('info', 4, 'current')}\n`);
+
+    const entries = await readAll(testLogFile);
+    expect(entries.map((entry) => entry.message)).toEqual(['oldest', 'compressed', 'compressed error', 'current']);
+
+    const current = await readAll(testLogFile, { rotated: false });
+    expect(current.map((entry) => entry.message)).toEqual(['current']);
+
+    const errors = await readAll(testLogFile, { minLevel: 'error' });
+    expect(errors.map((entry) => entry.message)).toEqual(['compressed error']);
+  });
+
+  test('should read a gzipped file directly', async () => {
+    const gzipFile = path.join(testDir, 'archive.log.gz');
+    await fs.writeFile(gzipFile, gzipSync(`${toLine('info', 1, 'archived')}\n`));
+
+    const entries = await readAll(gzipFile);
+    expect(entries.map((entry) => entry.message)).toEqual(['archived']);
+  });
+
+  test('should read the rotated files written by the file logger', async () => {
+    const logger = createFileLogger(testLogFile, {
+      format: 'ndjson',
+      omitArgs: true,
+      rotation: { maxSize: 150, compress: true },
+    });
+
+    for (let i = 0; i < 5; i++) {
+      logger.info(`message ${i}`);
+      // eslint-disable-next-line no-await-in-loop
+      await logger.flush();
+    }
+    await logger.close();
+
+    const entries = await readAll(testLogFile);
+    expect(entries.map((entry) => entry.message)).toEqual([
+      'message 0',
+      'message 1',
+      'message 2',
+      'message 3',
+      'message 4',
+    ]);
+  });
+
+  test('should stop reading when the iteration is interrupted', async () => {
+    await fs.writeFile(testLogFile, [toLine('info', 1, 'a'), toLine('info', 2, 'b')].join('\n'));
+
+    const messages: string[] = [];
+    for await (const entry of readLogEntries(testLogFile)) {
+      messages.push(entry.message);
+      break;
+    }
+
+    expect(messages).toEqual(['a']);
+  });
+});
@@ -3,7 +3,13 @@ import { afterEach, describe, expect, test, vi } from 'vitest';
 import { EventEmitter } from 'node:events';
 import type { IncomingMessage, ServerResponse } from 'node:http';
 
-import { createMemoryLogger, OFF_LOGGER, requestLogger } from '../../../src/logger/index-node.ts';
+import {
+  createMemoryLogger,
+  getAmbientLogContext,
+  OFF_LOGGER,
+  requestLogger,
+  withAmbientContext,
+} from '../../../src/logger/index-node.ts';
 
 type RequestLike = IncomingMessage & { path?: string };
 
@@ -180,4 +186,62 @@ describe('emitnlog.logger.node.requestLogger', () => {
     expect(received.message).toBe('received 0|GET:/ping');
     expect(finish.message).toMatch(/^finished 0\|GET:\/ping in \d+(?:\.\d+)?ms$/);
   });
+
+  describe('context', () => {
+    test('does not bind a context by default', () => {
+      const logger = createMemoryLogger('debug');
+      const middleware = requestLogger(logger);
+
+      middleware(createRequest({ method: 'GET', path: '/users' }), createResponse().response, () => {
+        expect(getAmbientLogContext()).toBeUndefined();
+      });
+
+      expect(logger.entries[0].context).toBeUndefined();
+    });
+
+    test('binds the request id to the lifecycle entries and to the ambient context', () => {
+      const memoryLogger = createMemoryLogger('debug');
+      const logger = withAmbientContext(memoryLogger);
+      const middleware = requestLogger(logger, { context: true });
+
+      const handle = (path: string) => {
+        const { emitter: resEmitter, response: res } = createResponse();
+        middleware(createRequest({ method: 'GET', path }), res, () => {
+          logger.info(`handling ${path}`);
+        });
+        resEmitter.emit('finish');
+      };
+
+      handle('/users');
+      handle('/orders');
+
+      expect(memoryLogger.entries.map((entry) => [entry.message.replace(/ in .*$/, ''), entry.context])).toEqual([
+        ['http: received 0|GET:/users', { requestId: 0 }],
+        ['handling /users', { requestId: 0 }],
+        ['http: finished 0|GET:/users', { requestId: 0 }],
+        ['http: received 1|GET:/orders', { requestId: 1 }],
+        ['handling /orders', { requestId: 1 }],
+        ['http: finished 1|GET:/orders', { requestId: 1 }],
+      ]);
+    });
+
+    test('uses the context provided by a function', () => {
+      const logger = createMemoryLogger('debug');
+      const middleware = requestLogger(logger, {
+        context: (req, requestId) => ({ requestId: `req-${requestId}`, tenant: req.headers.tenant }),
+      });
+
+      let ambientContext: unknown;
+      middleware(
+        createRequest({ method: 'GET', path: '/users', headers: { tenant: 'acme' } }),
+        createResponse().response,
+        () => {
+          ambientContext = getAmbientLogContext();
+        },
+      );
+
+      expect(ambientContext).toEqual({ requestId: 'req-0', tenant: 'acme' });
+      expect(logger.entries[0].context).toEqual({ requestId: 'req-0', tenant: 'acme' });
+    });
+  });
 });
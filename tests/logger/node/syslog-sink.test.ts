@@ -0,0 +1,302 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import type { Socket as DatagramSocket } from 'node:dgram';
+import { createSocket } from 'node:dgram';
+import { promises as fs } from 'node:fs';
+import type * as net from 'node:net';
+import type { AddressInfo, Server } from 'node:net';
+import { createConnection, createServer, Socket } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import { emitter, withContext } from '../../../src/logger/index-node.ts';
+
+vi.mock('node:net', async (importOriginal) => {
+  const actual = await importOriginal<typeof net>();
+  return { ...actual, createConnection: vi.fn(actual.createConnection) };
+});
+
+describe('emitnlog.logger.node.syslog-sink', () => {
+  const cleanups: (() => Promise<void>)[] = [];
+
+  afterEach(async () => {
+    for (const cleanup of cleanups.splice(0).reverse()) {
+      // eslint-disable-next-line no-await-in-loop
+      await cleanup();
+    }
+  });
+
+  const FRAME = /^<(\d+)>1 (\S+) (\S+) (\S+) (\S+) - - (.*)$/s;
+
+  const parseFrame = (frame: string) => {
+    const match = FRAME.exec(frame);
+    expect(match).not.toBeNull();
+    const [, pri, timestamp, hostname, appName, procId, message] = match!;
+    return { pri: Number(pri), timestamp, hostname, appName, procId, message };
+  };
+
+  const startUdpServer = async (): Promise<{ port: number; frames: string[] }> => {
+    const frames: string[] = [];
+    const server: DatagramSocket = createSocket('udp4');
+    server.on('message', (data) => frames.push(data.toString('utf8')));
+    await new Promise<void>((resolve) => server.bind(0, '127.0.0.1', resolve));
+    cleanups.push(() => new Promise<void>((resolve) => server.close(() => resolve())));
+    return { port: server.address().port, frames };
+  };
+
+  const startStreamServer = async (
+    listen: (server: Server) => Promise<void>,
+  ): Promise<{ server: Server; sockets: Socket[]; data: () => string }> => {
+    const sockets: Socket[] = [];
+    const chunks: Buffer[] = [];
+    const server = createServer((socket) => {
+      sockets.push(socket);
+      socket.on('data', (chunk: Buffer) => chunks.push(chunk));
+    });
+
+    await listen(server);
+    cleanups.push(async () => {
+      for (const socket of sockets) {
+        socket.destroy();
+      }
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+    return { server, sockets, data: () => Buffer.concat(chunks).toString('utf8') };
+  };
+
+  const startTcpServer = () =>
+    startStreamServer((server) => new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve)));
+
+  const splitOctetCounted = (data: string): string[] => {
+    const frames: string[] = [];
+    let buffer = Buffer.from(data);
+    while (buffer.length) {
+      const space = buffer.indexOf(' ');
+      const length = Number(buffer.subarray(0, space).toString());
+      frames.push(buffer.subarray(space + 1, space + 1 + length).toString('utf8'));
+      buffer = buffer.subarray(space + 1 + length);
+    }
+    return frames;
+  };
+
+  test('should send RFC 5424 frames over udp', async () => {
+    const { port, frames } = await startUdpServer();
+    const sink = emitter.syslogSink({ port, appName: 'my-app', hostname: 'my-host' });
+
+    sink.sink('info', 'Application started', []);
+    sink.sink('error', 'Connection failed', [{ code: 42 }]);
+    await sink.flush();
+    await vi.waitFor(() => expect(frames).toHaveLength(2));
+    await sink.close();
+
+    const first = parseFrame(frames[0]);
+    expect(first).toEqual({
+      pri: 14,
+      timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/),
+      hostname: 'my-host',
+      appName: 'my-app',
+      procId: String(process.pid),
+      message: 'Application started',
+    });
+    expect(parseFrame(frames[1])).toMatchObject({ pri: 11, message: 'Connection failed {"code":42}' });
+  });
+
+  test('should map the levels and facility to the priority', async () => {
+    const { port, frames } = await startUdpServer();
+    const sink = emitter.syslogSink({ port, facility: 'local0' });
+
+    const levels = ['emergency', 'alert', 'critical', 'error', 'warning', 'notice', 'info', 'debug', 'trace'] as const;
+    for (const level of levels) {
+      sink.sink(level, level, []);
+    }
+    await sink.flush();
+    await vi.waitFor(() => expect(frames).toHaveLength(levels.length));
+    await sink.close();
+
+    const priorities = Object.fromEntries(frames.map((frame) => parseFrame(frame)).map((f) => [f.message, f.pri]));
+    expect(priorities).toEqual({
+      emergency: 128,
+      alert: 129,
+      critical: 130,
+      error: 131,
+      warning: 132,
+      notice: 133,
+      info: 134,
+      debug: 135,
+      trace: 135,
+    });
+  });
+
+  test('should accept numeric facilities and sanitize the header fields', async () => {
+    const { port, frames } = await startUdpServer();
+    const sink = emitter.syslogSink({ port, facility: 3, appName: 'my app', hostname: '' });
+
+    sink.sink('notice', 'Started', []);
+    await sink.flush();
+    await vi.waitFor(() => expect(frames).toHaveLength(1));
+    await sink.close();
+
+    expect(parseFrame(frames[0])).toMatchObject({ pri: 29, hostname: '-', appName: 'my_app' });
+  });
+
+  test('should throw on invalid facilities', () => {
+    expect(() => emitter.syslogSink({ facility: 24 })).toThrow(
+      'IllegalArgument: the syslog facility must be an integer between 0 and 23, got 24',
+    );
+    expect(() => emitter.syslogSink({ facility: 'local8' as emitter.SyslogFacility })).toThrow(
+      "IllegalArgument: unknown syslog facility 'local8'",
+    );
+  });
+
+  test('should render the context and use the formatter', async () => {
+    const { port, frames } = await startUdpServer();
+
+    const sink = emitter.syslogSink({ port });
+    withContext(emitter.createLogger('info', sink), { requestId: 'abc' }).info('Handled', 42);
+    await sink.flush();
+
+    const formatted = emitter.syslogSink({ port, formatter: (level, message) => `${level.toUpperCase()} ${message}` });
+    formatted.sink('warning', 'Careful', []);
+    await formatted.flush();
+
+    await vi.waitFor(() => expect(frames).toHaveLength(2));
+    await sink.close();
+    await formatted.close();
+
+    expect(frames.map((frame) => parseFrame(frame).message).sort()).toEqual([
+      'Handled 42 {"requestId":"abc"}',
+      'WARNING Careful',
+    ]);
+  });
+
+  test('should send octet-counted frames over tcp', async () => {
+    const { server, data } = await startTcpServer();
+    const port = (server.address() as AddressInfo).port;
+    const sink = emitter.syslogSink({ transport: 'tcp', port });
+
+    sink.sink('info', 'first', []);
+    sink.sink('error', 'multi\nline ü', []);
+    await vi.waitFor(() => expect(splitOctetCounted(data())).toHaveLength(2));
+    await sink.close();
+
+    const frames = splitOctetCounted(data()).map((frame) => parseFrame(frame));
+    expect(frames.map((frame) => [frame.pri, frame.message])).toEqual([
+      [14, 'first'],
+      [11, 'multi\nline ü'],
+    ]);
+  });
+
+  test('should use newline framing', async () => {
+    const { server, data } = await startTcpServer();
+    const port = (server.address() as AddressInfo).port;
+    const sink = emitter.syslogSink({ transport: 'tcp', port, framing: 'newline' });
+
+    sink.sink('info', 'multi\nline', []);
+    sink.sink('info', 'second', []);
+    await vi.waitFor(() => expect(data().split('\n')).toHaveLength(3));
+    await sink.close();
+
+    const lines = data().split('\n').filter(Boolean);
+    expect(lines.map((line) => parseFrame(line).message)).toEqual(['multi line', 'second']);
+  });
+
+  test('should reconnect when the tcp connection drops', async () => {
+    const { server, sockets, data } = await startTcpServer();
+    const port = (server.address() as AddressInfo).port;
+    const errorHandler = vi.fn();
+    const sink = emitter.syslogSink({ transport: 'tcp', port, reconnectDelayMs: 10, errorHandler });
+
+    sink.sink('info', 'before drop', []);
+    await vi.waitFor(() => expect(splitOctetCounted(data())).toHaveLength(1));
+    await sink.flush();
+
+    sockets[0].destroy();
+    await vi.waitFor(() => expect(sockets).toHaveLength(2));
+
+    sink.sink('info', 'after drop', []);
+    await vi.waitFor(() => expect(splitOctetCounted(data())).toHaveLength(2));
+    await sink.close();
+
+    expect(splitOctetCounted(data()).map((frame) => parseFrame(frame).message)).toEqual(['before drop', 'after drop']);
+  });
+
+  test('should queue the frames until the server is reachable', async () => {
+    const { server, data } = await startTcpServer();
+    const port = (server.address() as AddressInfo).port;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+
+    const errorHandler = vi.fn();
+    const sink = emitter.syslogSink({ transport: 'tcp', port, reconnectDelayMs: 10, maxQueueSize: 2, errorHandler });
+
+    sink.sink('info', 'message 1', []);
+    sink.sink('info', 'message 2', []);
+    sink.sink('info', 'message 3', []);
+    await vi.waitFor(() => expect(errorHandler).toHaveBeenCalled());
+
+    await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+    await vi.waitFor(() => expect(splitOctetCounted(data())).toHaveLength(2));
+    await sink.close();
+
+    expect(splitOctetCounted(data()).map((frame) => parseFrame(frame).message)).toEqual(['message 2', 'message 3']);
+    expect(errorHandler.mock.calls.map(([error]) => String(error))).toContain(
+      'Error: The syslog sink queue is full: dropped 1 frame',
+    );
+  });
+
+  test('should send newline terminated frames over a unix socket', async () => {
+    const socketPath = path.join(os.tmpdir(), `syslog-sink-test-${process.pid}-${Date.now()}.sock`);
+    await fs.rm(socketPath, { force: true });
+    const { data } = await startStreamServer(
+      (server) => new Promise<void>((resolve) => server.listen(socketPath, resolve)),
+    );
+
+    const sink = emitter.syslogSink({ transport: 'unix', path: socketPath });
+    sink.sink('warning', 'local', []);
+    await vi.waitFor(() => expect(data()).toContain('\n'));
+    await sink.close();
+
+    expect(parseFrame(data().trimEnd())).toMatchObject({ pri: 12, message: 'local' });
+  });
+
+  test('should require the path of the unix transport', () => {
+    expect(() => emitter.syslogSink({ transport: 'unix' })).toThrow(
+      'IllegalArgument: the unix transport of the syslog sink requires the path of a stream socket',
+    );
+  });
+
+  test('should report the unix sockets that are not stream sockets', async () => {
+    vi.mocked(createConnection).mockImplementationOnce(() => {
+      const socket = new Socket();
+      process.nextTick(() =>
+        socket.destroy(Object.assign(new Error('connect EPROTOTYPE /dev/log'), { code: 'EPROTOTYPE' })),
+      );
+      return socket;
+    });
+
+    const errorHandler = vi.fn();
+    const sink = emitter.syslogSink({ transport: 'unix', path: '/dev/log', reconnectDelayMs: 60_000, errorHandler });
+    sink.sink('info', 'lost', []);
+
+    await vi.waitFor(() => expect(errorHandler).toHaveBeenCalledTimes(1));
+    await sink.close();
+
+    const error = errorHandler.mock.calls[0][0] as Error;
+    expect(error.message).toBe("The syslog sink requires a Unix stream socket but '/dev/log' is not one");
+    expect((error.cause as Error).message).toBe('connect EPROTOTYPE /dev/log');
+  });
+
+  test('should ignore the entries after close', async () => {
+    const { server, data } = await startTcpServer();
+    const port = (server.address() as AddressInfo).port;
+    const sink = emitter.syslogSink({ transport: 'tcp', port });
+
+    sink.sink('info', 'before close', []);
+    await vi.waitFor(() => expect(data()).not.toBe(''));
+    await sink.close();
+
+    sink.sink('info', 'after close', []);
+    await sink.flush();
+
+    expect(splitOctetCounted(data()).map((frame) => parseFrame(frame).message)).toEqual(['before close']);
+  });
+});
@@ -0,0 +1,227 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import { emitter, withContext } from '../../../src/logger/index-node.ts';
+
+describe('emitnlog.logger.node.worker-sink', () => {
+  const testDir = path.join(os.tmpdir(), `worker-sink-test-${Date.now()}`);
+  const targetModule = path.join(testDir, 'target.mjs');
+  let fileIndex = 0;
+
+  beforeAll(async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(
+      targetModule,
+      `
+import { appendFileSync } from 'node:fs';
+
+const contextKey = Symbol.for('@emitnlog/logger/context');
+
+export default ({ filePath, delayMs, failOn }) => {
+  const append = (value) => appendFileSync(filePath, JSON.stringify(value) + '\\n');
+  return {
+    sink: (level, message, args) => {
+      if (message === failOn) {
+        throw new Error('target failure');
+      }
+      const end = Date.now() + (delayMs ?? 0);
+      while (Date.now() < end);
+      const context = args.find((arg) => arg && typeof arg === 'object' && arg[contextKey]);
+      append({ level, message, args: args.filter((arg) => arg !== context), context });
+    },
+    flush: () => append('flush'),
+    close: () => append('close'),
+  };
+};
+`,
+    );
+    await fs.writeFile(path.join(testDir, 'invalid.mjs'), 'export default 42;\n');
+  });
+
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const nextFilePath = () => path.join(testDir, `entries-${fileIndex++}.ndjson`);
+
+  const readRecords = async (filePath: string): Promise<unknown[]> => {
+    const content = await fs.readFile(filePath, 'utf8').catch(() => '');
+    return content
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as unknown);
+  };
+
+  const readMessages = async (filePath: string): Promise<unknown[]> =>
+    (await readRecords(filePath)).map((record) =>
+      typeof record === 'string' ? record : (record as { message: string }).message,
+    );
+
+  test('should forward the entries to the target sink running in the worker', async () => {
+    const filePath = nextFilePath();
+    const sink = emitter.workerSink(targetModule, { workerData: { filePath } });
+
+    const logger = emitter.createLogger('info', sink);
+    logger.info('first');
+    logger.args({ id: 1 }, [2, 3]).error('second');
+    withContext(logger, { requestId: 'abc' }).warning('third', 'arg');
+    await sink.flush();
+
+    expect(await readRecords(filePath)).toEqual([
+      { level: 'info', message: 'first', args: [] },
+      { level: 'error', message: 'second', args: [{ id: 1 }, [2, 3]] },
+      { level: 'warning', message: 'third', args: ['arg'], context: { requestId: 'abc' } },
+      'flush',
+    ]);
+
+    await sink.close();
+  });
+
+  test('should accept file urls', async () => {
+    const filePath = nextFilePath();
+    const sink = emitter.workerSink(pathToFileURL(targetModule), { workerData: { filePath } });
+
+    sink.sink('info', 'from url', []);
+    await sink.close();
+
+    expect(await readMessages(filePath)).toEqual(['from url', 'close']);
+  });
+
+  test('should close the target sink and ignore the entries after close', async () => {
+    const filePath = nextFilePath();
+    const sink = emitter.workerSink(targetModule, { workerData: { filePath } });
+
+    sink.sink('info', 'before close', []);
+    await sink.close();
+
+    sink.sink('info', 'after close', []);
+    await sink.flush();
+    await sink.close();
+
+    expect(await readMessages(filePath)).toEqual(['before close', 'close']);
+  });
+
+  test('should drop the new entries when the buffer is full', async () => {
+    const filePath = nextFilePath();
+    const errorHandler = vi.fn();
+    const sink = emitter.workerSink(targetModule, { workerData: { filePath }, maxBufferSize: 2, errorHandler });
+
+    for (let i = 0; i < 5; i++) {
+      sink.sink('info', `message ${i}`, []);
+    }
+    await sink.close();
+
+    expect(await readMessages(filePath)).toEqual(['message 0', 'message 1', 'close']);
+    expect(errorHandler).toHaveBeenCalledTimes(1);
+    expect(String(errorHandler.mock.calls[0][0])).toContain('The worker sink buffer is full: dropped 3 entries');
+  });
+
+  test('should block until the worker catches up', async () => {
+    const filePath = nextFilePath();
+    const errorHandler = vi.fn();
+    const sink = emitter.workerSink(targetModule, {
+      workerData: { filePath, delayMs: 10 },
+      maxBufferSize: 2,
+      backpressure: 'block',
+      blockTimeoutMs: 5000,
+      errorHandler,
+    });
+
+    for (let i = 0; i < 6; i++) {
+      sink.sink('info', `message ${i}`, []);
+    }
+    await sink.close();
+
+    expect(await readMessages(filePath)).toEqual([
+      'message 0',
+      'message 1',
+      'message 2',
+      'message 3',
+      'message 4',
+      'message 5',
+      'close',
+    ]);
+    expect(errorHandler).not.toHaveBeenCalled();
+  });
+
+  test('should drop the entry when blocking times out', async () => {
+    const filePath = nextFilePath();
+    const errorHandler = vi.fn();
+    const sink = emitter.workerSink(targetModule, {
+      workerData: { filePath, delayMs: 200 },
+      maxBufferSize: 1,
+      backpressure: 'block',
+      blockTimeoutMs: 10,
+      errorHandler,
+    });
+
+    sink.sink('info', 'message 0', []);
+    sink.sink('info', 'message 1', []);
+    await sink.close();
+
+    expect(await readMessages(filePath)).toEqual(['message 0', 'close']);
+    expect(String(errorHandler.mock.calls[0][0])).toContain('dropped 1 entry');
+  });
+
+  test('should keep a sample of the entries in order when the buffer is full', async () => {
+    const filePath = nextFilePath();
+    const errorHandler = vi.fn();
+    const sink = emitter.workerSink(targetModule, {
+      workerData: { filePath },
+      maxBufferSize: 5,
+      backpressure: 'sample',
+      errorHandler,
+    });
+
+    for (let i = 0; i < 100; i++) {
+      sink.sink('info', String(i).padStart(3, '0'), []);
+    }
+    await sink.close();
+
+    const messages = (await readMessages(filePath)).slice(0, -1) as string[];
+    expect(messages).toHaveLength(5);
+    expect([...messages].sort()).toEqual(messages);
+    expect(String(errorHandler.mock.calls[0][0])).toContain('dropped 95 entries');
+  });
+
+  test('should transfer the arguments that cannot be cloned as strings', async () => {
+    const filePath = nextFilePath();
+    const sink = emitter.workerSink(targetModule, { workerData: { filePath } });
+
+    sink.sink('info', 'with function', [() => 42, { id: 1 }]);
+    await sink.close();
+
+    const [record] = (await readRecords(filePath)) as { args: unknown[] }[];
+    expect(record.args).toEqual([expect.any(String), { id: 1 }]);
+  });
+
+  test('should report the errors of the target sink', async () => {
+    const filePath = nextFilePath();
+    const errorHandler = vi.fn();
+    const sink = emitter.workerSink(targetModule, { workerData: { filePath, failOn: 'fail' }, errorHandler });
+
+    sink.sink('info', 'fail', []);
+    sink.sink('info', 'ok', []);
+    await sink.close();
+
+    expect(await readMessages(filePath)).toEqual(['ok', 'close']);
+    expect(errorHandler).toHaveBeenCalledTimes(1);
+    expect(String(errorHandler.mock.calls[0][0])).toContain('target failure');
+  });
+
+  test('should report an invalid target module', async () => {
+    const errorHandler = vi.fn();
+    const sink = emitter.workerSink(path.join(testDir, 'invalid.mjs'), { errorHandler });
+
+    sink.sink('info', 'lost', []);
+    await sink.flush();
+    await vi.waitFor(() => expect(errorHandler).toHaveBeenCalled());
+    await sink.close();
+
+    expect(String(errorHandler.mock.calls[0][0])).toContain('is not a function');
+  });
+});
@@ -4,12 +4,17 @@ import type { Logger, LogLevel } from '../../src/logger/index.ts';
 import {
   createMemoryLogger,
   OFF_LOGGER,
+  withContext,
   withDedup,
   withFilter,
   withFixedLevel,
   withMinimumLevel,
   withPrefix,
+  withRateLimit,
+  withRedaction,
+  withSampling,
 } from '../../src/logger/index.ts';
+import { createManualClock } from '../../src/utils/index.ts';
 import { createTestLogger } from '../test-kit.ts';
 
 describe('emitnlog.logger.with-utils', () => {
@@ -1104,6 +1109,282 @@ describe('emitnlog.logger.with-utils', () => {
       expect(baseLogger.entries[1]).toMatchObject({ message: 'duplicate', args: ['first'] });
       expect(baseLogger.entries[2]).toMatchObject({ message: 'duplicate', args: ['second'] });
     });
+
+    test('should measure the flush interval with the clock from the options', () => {
+      const clock = createManualClock();
+      const baseLogger = createMemoryLogger('trace');
+      const dedupedLogger = withDedup(baseLogger, { flushInterval: 1000, clock });
+
+      dedupedLogger.info('duplicate');
+      clock.advance(999);
+      dedupedLogger.info('duplicate');
+      expect(baseLogger.entries).toHaveLength(1);
+
+      clock.advance(1);
+      dedupedLogger.info('duplicate');
+      expect(baseLogger.entries).toHaveLength(2);
+    });
+  });
+
+  describe('withSampling', () => {
+    test('should return OFF_LOGGER when logger is OFF_LOGGER', () => {
+      const logger = withSampling(OFF_LOGGER, { rate: 0.5 });
+      expect(logger).toBe(OFF_LOGGER);
+    });
+
+    test('should forward the sampled entries only', () => {
+      const randomSpy = vi.spyOn(Math, 'random');
+      try {
+        const baseLogger = createMemoryLogger('trace');
+        const sampledLogger = withSampling(baseLogger, { rate: 0.5, summaryInterval: 0 });
+
+        randomSpy.mockReturnValueOnce(0.2).mockReturnValueOnce(0.7).mockReturnValueOnce(0.49);
+        sampledLogger.info('first');
+        sampledLogger.info('second');
+        sampledLogger.info('third');
+
+        expect(baseLogger.entries.map((entry) => entry.message)).toEqual(['first', 'third']);
+      } finally {
+        randomSpy.mockRestore();
+      }
+    });
+
+    test('should use the per level rates', () => {
+      const randomSpy = vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      try {
+        const baseLogger = createMemoryLogger('trace');
+        const sampledLogger = withSampling(baseLogger, {
+          rate: 0,
+          perLevel: { error: 1, warning: 0.6 },
+          summaryInterval: 0,
+        });
+
+        sampledLogger.info('info');
+        sampledLogger.warning('warning');
+        sampledLogger.error('error');
+
+        expect(baseLogger.entries.map((entry) => entry.level)).toEqual(['warning', 'error']);
+      } finally {
+        randomSpy.mockRestore();
+      }
+    });
+
+    test('should respect the level of the wrapped logger', () => {
+      const baseLogger = createMemoryLogger('warning');
+      const sampledLogger = withSampling(baseLogger, { rate: 1 });
+
+      sampledLogger.info('info');
+      sampledLogger.error('error');
+
+      expect(baseLogger.entries.map((entry) => entry.message)).toEqual(['error']);
+      expect(sampledLogger.level).toBe('warning');
+    });
+
+    test('should emit a periodic summary of the dropped entries', () => {
+      const clock = createManualClock();
+      const baseLogger = createMemoryLogger('trace');
+      const sampledLogger = withSampling(baseLogger, { rate: 0, summaryInterval: 1000, clock });
+
+      for (let i = 0; i < 1234; i++) {
+        sampledLogger.log(i === 10 ? 'error' : 'debug', `message ${i}`);
+      }
+      expect(baseLogger.entries).toHaveLength(0);
+
+      clock.advance(1000);
+      expect(baseLogger.entries).toHaveLength(1);
+      expect(baseLogger.entries[0]).toMatchObject({ level: 'error', message: 'suppressed 1,234 entries' });
+
+      clock.advance(5000);
+      expect(baseLogger.entries).toHaveLength(1);
+
+      sampledLogger.info('dropped');
+      clock.advance(1000);
+      expect(baseLogger.entries).toHaveLength(2);
+      expect(baseLogger.entries[1]).toMatchObject({ level: 'info', message: 'suppressed 1 entry' });
+    });
+
+    test('should emit the pending summary on flush and close', async () => {
+      const clock = createManualClock();
+      const baseLogger = createMemoryLogger('trace');
+      // the memory logger clears its entries on close
+      const closeSpy = vi.spyOn(baseLogger, 'close').mockImplementation(() => undefined);
+      const sampledLogger = withSampling(baseLogger, { rate: 0, clock });
+
+      sampledLogger.info('one');
+      sampledLogger.info('two');
+      void sampledLogger.flush?.();
+      expect(baseLogger.entries).toHaveLength(0);
+
+      sampledLogger.warning('three');
+      await sampledLogger.close?.();
+      expect(closeSpy).toHaveBeenCalledTimes(1);
+      expect(baseLogger.entries).toHaveLength(1);
+      expect(baseLogger.entries[0]).toMatchObject({ level: 'warning', message: 'suppressed 1 entry' });
+
+      clock.advance(20_000);
+      expect(baseLogger.entries).toHaveLength(1);
+    });
+
+    test('should not keep the process alive nor schedule summaries after close', async () => {
+      const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+      try {
+        const baseLogger = createMemoryLogger('trace');
+        const sampledLogger = withSampling(baseLogger, { rate: 0, summaryInterval: 60_000 });
+
+        sampledLogger.info('dropped');
+        expect(setTimeoutSpy).toHaveBeenCalledTimes(1);
+        const timeout = setTimeoutSpy.mock.results[0].value as ReturnType<typeof setTimeout>;
+        expect(timeout.hasRef()).toBe(false);
+
+        await sampledLogger.close?.();
+        sampledLogger.info('dropped after close');
+        expect(setTimeoutSpy).toHaveBeenCalledTimes(1);
+      } finally {
+        setTimeoutSpy.mockRestore();
+      }
+    });
+
+    test('should not emit summaries when summaryInterval is zero', () => {
+      const clock = createManualClock();
+      const baseLogger = createMemoryLogger('trace');
+      const sampledLogger = withSampling(baseLogger, { rate: 0, summaryInterval: 0, clock });
+
+      sampledLogger.info('dropped');
+      clock.advance(60_000);
+      void sampledLogger.close?.();
+
+      expect(baseLogger.entries).toHaveLength(0);
+    });
+
+    test('should work with prefixed loggers', () => {
+      const randomSpy = vi.spyOn(Math, 'random').mockReturnValue(0.1);
+      try {
+        const baseLogger = createMemoryLogger('trace');
+        const prefixedLogger = withPrefix(baseLogger, 'prefix');
+        const sampledLogger = withSampling(prefixedLogger, { rate: 0.5 });
+
+        sampledLogger.info('message');
+        withPrefix(sampledLogger, 'sub').info('message');
+
+        expect(baseLogger.entries.map((entry) => entry.message)).toEqual(['prefix: message', 'prefix.sub: message']);
+      } finally {
+        randomSpy.mockRestore();
+      }
+    });
+  });
+
+  describe('withRateLimit', () => {
+    test('should return OFF_LOGGER when logger is OFF_LOGGER', () => {
+      const logger = withRateLimit(OFF_LOGGER, { maxPerInterval: 10 });
+      expect(logger).toBe(OFF_LOGGER);
+    });
+
+    test('should limit the entries per interval', () => {
+      const clock = createManualClock();
+      const baseLogger = createMemoryLogger('trace');
+      const limitedLogger = withRateLimit(baseLogger, { maxPerInterval: 3, interval: 1000, summaryInterval: 0, clock });
+
+      for (let i = 0; i < 5; i++) {
+        limitedLogger.info(`message ${i}`);
+      }
+      expect(baseLogger.entries.map((entry) => entry.message)).toEqual(['message 0', 'message 1', 'message 2']);
+
+      clock.advance(1000);
+      for (let i = 5; i < 10; i++) {
+        limitedLogger.info(`message ${i}`);
+      }
+      expect(baseLogger.entries.map((entry) => entry.message)).toEqual([
+        'message 0',
+        'message 1',
+        'message 2',
+        'message 5',
+        'message 6',
+        'message 7',
+      ]);
+    });
+
+    test('should refill the tokens continuously', () => {
+      const clock = createManualClock();
+      const baseLogger = createMemoryLogger('trace');
+      const limitedLogger = withRateLimit(baseLogger, { maxPerInterval: 4, interval: 1000, summaryInterval: 0, clock });
+
+      for (let i = 0; i < 4; i++) {
+        limitedLogger.info('burst');
+      }
+      limitedLogger.info('dropped');
+      expect(baseLogger.entries).toHaveLength(4);
+
+      clock.advance(250);
+      limitedLogger.info('refilled');
+      limitedLogger.info('dropped');
+      expect(baseLogger.entries).toHaveLength(5);
+      expect(baseLogger.entries[4].message).toBe('refilled');
+    });
+
+    test('should use a bucket per key', () => {
+      const clock = createManualClock();
+      const baseLogger = createMemoryLogger('trace');
+      const limitedLogger = withRateLimit(baseLogger, {
+        maxPerInterval: 1,
+        key: (level) => level,
+        summaryInterval: 0,
+        clock,
+      });
+
+      limitedLogger.info('info 1');
+      limitedLogger.info('info 2');
+      limitedLogger.error('error 1');
+      limitedLogger.error('error 2');
+
+      expect(baseLogger.entries.map((entry) => entry.message)).toEqual(['info 1', 'error 1']);
+    });
+
+    test('should emit a periodic summary of the dropped entries', () => {
+      const clock = createManualClock();
+      const baseLogger = createMemoryLogger('trace');
+      const limitedLogger = withRateLimit(baseLogger, { maxPerInterval: 1, interval: 60_000, clock });
+
+      limitedLogger.info('first');
+      limitedLogger.info('second');
+      limitedLogger.warning('third');
+      expect(baseLogger.entries).toHaveLength(1);
+
+      clock.advance(10_000);
+      expect(baseLogger.entries).toHaveLength(2);
+      expect(baseLogger.entries[1]).toMatchObject({ level: 'warning', message: 'suppressed 2 entries' });
+    });
+
+    test('should forward flush and close operations', async () => {
+      const baseLogger = createMemoryLogger('trace');
+      const flushSpy = vi.spyOn(baseLogger, 'flush');
+      const closeSpy = vi.spyOn(baseLogger, 'close');
+      const limitedLogger = withRateLimit(baseLogger, { maxPerInterval: 1, interval: 60_000 });
+
+      limitedLogger.info('first');
+      limitedLogger.info('second');
+      void limitedLogger.flush?.();
+      expect(flushSpy).toHaveBeenCalledTimes(1);
+      expect(baseLogger.entries).toHaveLength(0);
+
+      await limitedLogger.close?.();
+      expect(closeSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test('should work with prefixed loggers', () => {
+      const clock = createManualClock();
+      const baseLogger = createMemoryLogger('trace');
+      const limitedLogger = withRateLimit(withPrefix(baseLogger, 'prefix'), {
+        maxPerInterval: 2,
+        summaryInterval: 0,
+        clock,
+      });
+
+      limitedLogger.info('first');
+      withPrefix(limitedLogger, 'sub').info('second');
+      limitedLogger.info('third');
+
+      expect(baseLogger.entries.map((entry) => entry.message)).toEqual(['prefix: first', 'prefix.sub: second']);
+    });
   });
 
   describe('withFilter', () => {
@@ -1217,4 +1498,174 @@ describe('emitnlog.logger.with-utils', () => {
       expect(baseLogger.entries[0].message).toBe('SVC: emitted');
     });
   });
+
+  describe('withRedaction', () => {
+    test('should return OFF_LOGGER when logger is OFF_LOGGER', () => {
+      expect(withRedaction(OFF_LOGGER, { keys: ['password'] })).toBe(OFF_LOGGER);
+    });
+
+    test('should redact the values of matching keys at any depth', () => {
+      const memoryLogger = createMemoryLogger('trace');
+      const logger = withRedaction(memoryLogger, { keys: ['password', 'Authorization', /token/i] });
+
+      const body = {
+        user: 'john',
+        PASSWORD: 'secret',
+        headers: { authorization: 'Bearer abc', accept: 'json' },
+        sessions: [{ accessToken: 'xyz', id: 1 }],
+      };
+      logger.info('request', body, 'plain');
+
+      expect(memoryLogger.entries[0].args).toEqual([
+        {
+          user: 'john',
+          PASSWORD: '[REDACTED]',
+          headers: { authorization: '[REDACTED]', accept: 'json' },
+          sessions: [{ accessToken: '[REDACTED]', id: 1 }],
+        },
+        'plain',
+      ]);
+      expect(body.PASSWORD).toBe('secret');
+      expect(body.headers.authorization).toBe('Bearer abc');
+    });
+
+    test('should redact the message and the string values with patterns', () => {
+      const memoryLogger = createMemoryLogger('trace');
+      const logger = withRedaction(memoryLogger, { patterns: [/\d{4}-\d{4}/, /secret/i], replacement: '***' });
+
+      logger.info('cards 1234-5678 and 8765-4321 are SECRET', '1111-2222', { note: 'a secret' });
+
+      expect(memoryLogger.entries[0].message).toBe('cards *** and *** are ***');
+      expect(memoryLogger.entries[0].args).toEqual(['***', { note: 'a ***' }]);
+    });
+
+    test('should redact the values interpolated in template logs', () => {
+      const memoryLogger = createMemoryLogger('trace');
+      const logger = withRedaction(memoryLogger, { keys: ['password'] });
+
+      const config = { host: 'localhost', password: 'secret' };
+      logger.i`config: ${config}`;
+
+      expect(memoryLogger.entries[0].message).toBe('config: {"host":"localhost","password":"[REDACTED]"}');
+    });
+
+    test('should apply custom replacers', () => {
+      const memoryLogger = createMemoryLogger('trace');
+      const logger = withRedaction(memoryLogger, {
+        keys: ['password'],
+        replacer: (key, value) =>
+          key === 'email' && typeof value === 'string' ? value.replace(/^[^@]+/, '...') : value,
+      });
+
+      logger.info('user', { email: 'john@example.com', password: 'secret' });
+
+      expect(memoryLogger.entries[0].args).toEqual([{ email: '...@example.com', password: '[REDACTED]' }]);
+    });
+
+    test('should redact errors while keeping them as errors', () => {
+      const memoryLogger = createMemoryLogger('trace');
+      const logger = withRedaction(memoryLogger, { patterns: [/token=\w+/] });
+
+      class CustomError extends Error {}
+      const error = new CustomError('failed with token=abc');
+      logger.error(error);
+
+      expect(memoryLogger.entries[0].message).toBe('failed with [REDACTED]');
+      const redactedError = memoryLogger.entries[0].args?.[0] as Error;
+      expect(redactedError).toBeInstanceOf(CustomError);
+      expect(redactedError).not.toBe(error);
+      expect(redactedError.message).toBe('failed with [REDACTED]');
+      expect(redactedError.stack).not.toContain('token=abc');
+      expect(error.message).toBe('failed with token=abc');
+
+      const untouchedError = new Error('nothing to redact');
+      logger.error(untouchedError);
+      expect(memoryLogger.entries[1].args?.[0]).toBe(untouchedError);
+    });
+
+    test('should redact nested errors, dates, and circular references', () => {
+      const memoryLogger = createMemoryLogger('trace');
+      const logger = withRedaction(memoryLogger, { keys: ['password'], patterns: [/token=\w+/] });
+
+      const date = new Date(0);
+      const value: Record<string, unknown> = {
+        error: new Error('token=abc', { cause: { password: 'secret' } }),
+        date,
+        password: { nested: 'secret' },
+      };
+      value.self = value;
+      logger.info('complex', value);
+
+      const [redacted] = memoryLogger.entries[0].args as [Record<string, unknown>];
+      expect(redacted).not.toBe(value);
+      expect(redacted.self).toBe(redacted);
+      expect(redacted.date).toBe(date);
+      expect(redacted.password).toBe('[REDACTED]');
+      expect(redacted.error).toBeInstanceOf(Error);
+      expect(redacted.error).toMatchObject({ message: '[REDACTED]', cause: { password: '[REDACTED]' } });
+      expect(value.password).toEqual({ nested: 'secret' });
+    });
+
+    test('should redact the contents of maps, sets, and class instances', () => {
+      const memoryLogger = createMemoryLogger('trace');
+      const logger = withRedaction(memoryLogger, { keys: ['token'], patterns: [/secret/] });
+
+      class Session {
+        public constructor(
+          public readonly user: string,
+          public readonly token: string,
+        ) {}
+      }
+      const headers = new Map<unknown, unknown>([
+        ['token', 'abc'],
+        ['accept', 'json'],
+        [1, 'a secret'],
+      ]);
+      const notes = new Set(['secret note', 'public note']);
+      logger.info('state', headers, notes, new Session('john', 'abc'));
+
+      const [redactedHeaders, redactedNotes, session] = memoryLogger.entries[0].args as [
+        Map<unknown, unknown>,
+        Set<string>,
+        Session,
+      ];
+      expect(redactedHeaders).toBeInstanceOf(Map);
+      expect([...redactedHeaders]).toEqual([
+        ['token', '[REDACTED]'],
+        ['accept', 'json'],
+        [1, 'a [REDACTED]'],
+      ]);
+      expect(redactedNotes).toBeInstanceOf(Set);
+      expect([...redactedNotes]).toEqual(['[REDACTED] note', 'public note']);
+      expect(session).toBeInstanceOf(Session);
+      expect(session).toEqual(new Session('john', '[REDACTED]'));
+      expect(headers.get('token')).toBe('abc');
+    });
+
+    test('should redact the context fields', () => {
+      const memoryLogger = createMemoryLogger('trace');
+      const logger = withRedaction(withContext(memoryLogger, { user: 'john', token: 'abc' }), { keys: ['token'] });
+      const contextLogger = withContext(withRedaction(memoryLogger, { keys: ['token'] }), { token: 'abc' });
+
+      logger.info('message');
+      contextLogger.info('message');
+
+      // The context is only redacted when bound before the entries reach the redaction logger
+      expect(memoryLogger.entries[0].context).toEqual({ user: 'john', token: 'abc' });
+      expect(memoryLogger.entries[1].context).toEqual({ token: '[REDACTED]' });
+    });
+
+    test('should work with prefixed loggers and preserve the level', () => {
+      const memoryLogger = createMemoryLogger('info');
+      const logger = withRedaction(withPrefix(memoryLogger, 'auth'), { patterns: [/secret/] });
+
+      expect(logger.level).toBe('info');
+      logger.debug('secret debug');
+      withPrefix(logger, 'login').info('secret', { password: 'secret' });
+
+      expect(memoryLogger.entries).toHaveLength(1);
+      expect(memoryLogger.entries[0].message).toBe('auth.login: [REDACTED]');
+      expect(memoryLogger.entries[0].args).toEqual([{ password: '[REDACTED]' }]);
+    });
+  });
 });
@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'vitest';
+
+import { createEventNotifier } from '../../src/notifier/index.ts';
+import type { EventMatchers } from '../../src/testing/index.ts';
+import { eventMatchers, recordEvents } from '../../src/testing/index.ts';
+
+declare module 'vitest' {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-empty-object-type
+  interface Assertion<T = any> extends EventMatchers<T> {}
+}
+
+expect.extend(eventMatchers);
+
+describe('emitnlog.testing.event-matchers', () => {
+  test('recordEvents should record the events until closed', () => {
+    const notifier = createEventNotifier<{ readonly id: number }>();
+    const recorder = recordEvents(notifier.onEvent);
+
+    notifier.notify({ id: 1 });
+    notifier.notify({ id: 2 });
+    expect(recorder.events).toEqual([{ id: 1 }, { id: 2 }]);
+
+    recorder.clear();
+    notifier.notify({ id: 3 });
+    expect(recorder.events).toEqual([{ id: 3 }]);
+
+    recorder.close();
+    notifier.notify({ id: 4 });
+    expect(recorder.events).toEqual([{ id: 3 }]);
+  });
+
+  test('toHaveEmitted should match the events', () => {
+    const notifier = createEventNotifier<{ readonly key: string; readonly value?: string }>();
+    const recorder = recordEvents(notifier.onEvent);
+
+    expect(recorder).not.toHaveEmitted();
+
+    notifier.notify({ key: 'theme', value: 'dark' });
+
+    expect(recorder).toHaveEmitted();
+    expect(recorder).toHaveEmitted({ key: 'theme', value: 'dark' });
+    expect(recorder).toHaveEmitted(expect.objectContaining({ key: 'theme' }));
+    expect(recorder).not.toHaveEmitted({ key: 'theme' });
+    expect(() => expect(recorder).toHaveEmitted({ key: 'locale' })).toThrow(
+      'Expected an event equal to the expected value, but none was found in:\n  - {"key":"theme","value":"dark"}',
+    );
+  });
+
+  test('toHaveEmitted should distinguish an expected undefined event', () => {
+    const notifier = createEventNotifier<number | undefined>();
+    const recorder = recordEvents(notifier.onEvent);
+
+    notifier.notify(1);
+
+    expect(recorder).toHaveEmitted();
+    expect(recorder).not.toHaveEmitted(undefined);
+  });
+
+  test('toHaveEmittedTimes should count the events', () => {
+    const notifier = createEventNotifier<string>();
+    const recorder = recordEvents(notifier.onEvent);
+
+    notifier.notify('a');
+    notifier.notify('b');
+    notifier.notify('a');
+
+    expect(recorder).toHaveEmittedTimes(3);
+    expect(recorder).toHaveEmittedTimes(2, 'a');
+    expect(recorder).toHaveEmittedTimes(0, 'c');
+    expect(recorder).not.toHaveEmittedTimes(1, 'a');
+    expect(() => expect(recorder).toHaveEmittedTimes(2, 'b')).toThrow(
+      'Expected 2 events equal to the expected value, but found 1 in:',
+    );
+  });
+
+  test('should reject values that are not event recorders', () => {
+    expect(() => expect([]).toHaveEmitted()).toThrow(
+      'IllegalArgument: the received value is not an event recorder (it has no events array)',
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'vitest';
+
+import type { InvocationMatchers } from '../../src/testing/index.ts';
+import { invocationMatchers, recordInvocations } from '../../src/testing/index.ts';
+import { createInvocationTracker } from '../../src/tracker/index.ts';
+
+declare module 'vitest' {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-empty-object-type
+  interface Assertion<T = any> extends InvocationMatchers<T> {}
+}
+
+expect.extend(invocationMatchers);
+
+describe('emitnlog.testing.invocation-matchers', () => {
+  const createTrackedOperations = () => {
+    const tracker = createInvocationTracker<'fetchUser' | 'fetchOrders'>();
+    const recorder = recordInvocations(tracker);
+
+    const fetchUser = tracker.track('fetchUser', (id: number) => ({ id }));
+    const fetchOrders = tracker.track('fetchOrders', (id: number) => {
+      if (id < 0) {
+        throw new Error('Invalid id');
+      }
+      return [];
+    });
+
+    return { tracker, recorder, fetchUser, fetchOrders };
+  };
+
+  test('recordInvocations should record the invocations on all stages', () => {
+    const { tracker, recorder, fetchUser } = createTrackedOperations();
+
+    fetchUser(1);
+
+    expect(recorder.events.map((invocation) => [invocation.key.operation, invocation.stage.type])).toEqual([
+      ['fetchUser', 'started'],
+      ['fetchUser', 'completed'],
+    ]);
+
+    recorder.close();
+    fetchUser(2);
+    expect(recorder.events).toHaveLength(2);
+
+    tracker.close();
+  });
+
+  test('toHaveTracked should match the operation and stage', () => {
+    const { tracker, recorder, fetchUser, fetchOrders } = createTrackedOperations();
+
+    fetchUser(1);
+    expect(() => fetchOrders(-1)).toThrow('Invalid id');
+
+    expect(recorder).toHaveTracked('fetchUser');
+    expect(recorder).toHaveTracked('fetchUser', 'completed');
+    expect(recorder).toHaveTracked('fetchOrders', 'errored');
+    expect(recorder).not.toHaveTracked('fetchUser', 'errored');
+    expect(recorder).not.toHaveTracked('fetchInvoices');
+    expect(() => expect(recorder).toHaveTracked('fetchOrders', 'completed')).toThrow(
+      "Expected an invocation of 'fetchOrders' at the 'completed' stage, but none was found in:\n  - fetchUser (started)",
+    );
+
+    tracker.close();
+  });
+
+  test('toHaveTrackedTimes should count the invocations', () => {
+    const { tracker, recorder, fetchUser } = createTrackedOperations();
+
+    fetchUser(1);
+    fetchUser(2);
+
+    expect(recorder).toHaveTrackedTimes(4, 'fetchUser');
+    expect(recorder).toHaveTrackedTimes(2, 'fetchUser', 'started');
+    expect(recorder).toHaveTrackedTimes(0, 'fetchOrders');
+    expect(recorder).not.toHaveTrackedTimes(1, 'fetchUser', 'completed');
+    expect(() => expect(recorder).toHaveTrackedTimes(1, 'fetchUser', 'completed')).toThrow(
+      "Expected 1 invocations of 'fetchUser' at the 'completed' stage, but found 2 in:",
+    );
+
+    tracker.close();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'vitest';
+
+import { createMemoryLogger, emitter, withPrefix } from '../../src/logger/index.ts';
+import type { LogMatchers } from '../../src/testing/index.ts';
+import { logMatchers } from '../../src/testing/index.ts';
+
+declare module 'vitest' {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-empty-object-type
+  interface Assertion<T = any> extends LogMatchers<T> {}
+}
+
+expect.extend(logMatchers);
+
+describe('emitnlog.testing.log-matchers', () => {
+  const createLogger = () => {
+    const logger = createMemoryLogger('trace');
+    logger.i`connecting to the database`;
+    logger.w`retrying after a timeout`;
+    logger.w`retrying after a reset`;
+    withPrefix(logger, 'db').e`connection timeout after 3 retries`;
+    return logger;
+  };
+
+  test('toHaveLogged should match the level and message', () => {
+    const logger = createLogger();
+
+    expect(logger).toHaveLogged('info');
+    expect(logger).toHaveLogged('info', 'connecting');
+    expect(logger).toHaveLogged('error', /^db: .*timeout/);
+    expect(logger).not.toHaveLogged('debug');
+    expect(logger).not.toHaveLogged('info', /timeout/);
+  });
+
+  test('toHaveLogged should describe the entries on failure', () => {
+    const logger = createLogger();
+
+    expect(() => expect(logger).toHaveLogged('error', 'refused')).toThrow(
+      "Expected an entry with level 'error' and 'refused', but none was found in:\n  - [info] connecting to the database",
+    );
+    expect(() => expect(logger).not.toHaveLogged('info')).toThrow(
+      "Expected no entry with level 'info' and any message, but one was found in:",
+    );
+  });
+
+  test('toHaveLoggedTimes should count the matching entries', () => {
+    const logger = createLogger();
+
+    expect(logger).toHaveLoggedTimes(2, 'warning');
+    expect(logger).toHaveLoggedTimes(1, 'warning', 'timeout');
+    expect(logger).toHaveLoggedTimes(0, 'critical');
+    expect(logger).not.toHaveLoggedTimes(1, 'warning');
+    expect(() => expect(logger).toHaveLoggedTimes(3, 'warning', 'retrying')).toThrow(
+      "Expected 3 entries with level 'warning' and 'retrying', but found 2 in:",
+    );
+  });
+
+  test('should match global patterns against every entry', () => {
+    const logger = createLogger();
+    const pattern = /retrying/g;
+
+    expect(logger).toHaveLoggedTimes(2, 'warning', pattern);
+    expect(logger).toHaveLoggedTimes(2, 'warning', pattern);
+    expect(logger).toHaveLoggedInOrder([
+      ['warning', pattern],
+      ['warning', pattern],
+    ]);
+  });
+
+  test('toHaveLoggedInOrder should match a subsequence of the entries', () => {
+    const logger = createLogger();
+
+    expect(logger).toHaveLoggedInOrder([
+      ['info', 'connecting'],
+      ['error', /timeout/],
+    ]);
+    expect(logger).toHaveLoggedInOrder([['warning', 'timeout'], ['warning', 'reset'], ['error']]);
+    expect(logger).toHaveLoggedInOrder([]);
+    expect(logger).not.toHaveLoggedInOrder([
+      ['warning', 'reset'],
+      ['warning', 'timeout'],
+    ]);
+    expect(() =>
+      expect(logger).toHaveLoggedInOrder([
+        ['error', /timeout/],
+        ['info', 'connecting'],
+      ]),
+    ).toThrow("the first missing entry is 'info' with 'connecting' in:");
+  });
+
+  test('toHaveLoggedAbove should check the severity of the entries', () => {
+    const logger = createLogger();
+
+    expect(logger).toHaveLoggedAbove('warning');
+    expect(logger).not.toHaveLoggedAbove('error');
+    expect(() => expect(logger).not.toHaveLoggedAbove('info')).toThrow(
+      "Expected no entry more severe than 'info', but found:\n  - [warning] retrying after a timeout",
+    );
+  });
+
+  test('should support memory sinks', () => {
+    const sink = emitter.memorySink();
+    sink.sink('notice', 'started', []);
+
+    expect(sink).toHaveLogged('notice', 'started');
+    expect(sink).not.toHaveLoggedAbove('notice');
+  });
+
+  test('should reject values that are not memory loggers', () => {
+    expect(() => expect({}).toHaveLogged('info')).toThrow(
+      'IllegalArgument: the received value is not a memory logger or memory sink (it has no entries array)',
+    );
+  });
+});
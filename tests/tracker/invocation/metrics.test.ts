@@ -0,0 +1,220 @@
+import { describe, expect, test, vi } from 'vitest';
+
+import { createEventNotifier } from '../../../src/notifier/index.ts';
+import type {
+  InvocationAtStage,
+  InvocationMetricsSnapshot,
+  InvocationTracker,
+  Tag,
+} from '../../../src/tracker/index.ts';
+import { createInvocationMetrics, createInvocationTracker } from '../../../src/tracker/index.ts';
+import { createManualClock } from '../../../src/utils/index.ts';
+
+describe('emitnlog.tracker.metrics', () => {
+  const createStubTracker = () => {
+    const completed = createEventNotifier<InvocationAtStage<'completed'>>();
+    const errored = createEventNotifier<InvocationAtStage<'errored'>>();
+    let index = 0;
+
+    const tracker = { onCompleted: completed.onEvent, onErrored: errored.onEvent } as unknown as InvocationTracker;
+
+    const end = (
+      operation: string,
+      duration: number,
+      options?: { readonly error?: unknown; readonly tags?: Tag[] },
+    ) => {
+      const key = { id: `id-${index}`, trackerId: 'stub', operation, index: index++ };
+      if (options && 'error' in options) {
+        errored.notify({ key, tags: options.tags, stage: { type: 'errored', duration, error: options.error } });
+      } else {
+        completed.notify({ key, tags: options?.tags, stage: { type: 'completed', duration } });
+      }
+    };
+
+    return { tracker, end };
+  };
+
+  test('should aggregate the invocations per operation', () => {
+    const { tracker, end } = createStubTracker();
+    const metrics = createInvocationMetrics(tracker, { clock: createManualClock() });
+
+    for (let i = 1; i <= 100; i++) {
+      end('fetchUser', i);
+    }
+    end('saveUser', 30, { error: new Error('boom') });
+    end('saveUser', 10);
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.window).toBe(60_000);
+    expect(snapshot.total).toMatchObject({ count: 102, errors: 1, min: 1, max: 100 });
+    expect(snapshot.operations.fetchUser).toMatchObject({
+      count: 100,
+      errors: 0,
+      errorRate: 0,
+      min: 1,
+      max: 100,
+      mean: 50.5,
+      p50: 50,
+      p95: 95,
+      p99: 99,
+    });
+    expect(snapshot.operations.saveUser).toMatchObject({
+      count: 2,
+      errors: 1,
+      errorRate: 0.5,
+      min: 10,
+      max: 30,
+      mean: 20,
+      p50: 10,
+      p95: 30,
+      p99: 30,
+    });
+
+    metrics.close();
+  });
+
+  test('should aggregate the invocations per tag', () => {
+    const { tracker, end } = createStubTracker();
+    const metrics = createInvocationMetrics(tracker, { clock: createManualClock() });
+
+    end('fetchUser', 10, { tags: [{ name: 'service', value: 'auth' }] });
+    end('fetchUser', 20, {
+      tags: [
+        { name: 'region', value: 1 },
+        { name: 'service', value: 'auth' },
+      ],
+    });
+    end('fetchUser', 30);
+
+    const { tags } = metrics.snapshot();
+    expect(Object.keys(tags).sort()).toEqual(['region=1', 'service=auth']);
+    expect(tags['service=auth']).toMatchObject({ count: 2, mean: 15 });
+    expect(tags['region=1']).toMatchObject({ count: 1, mean: 20 });
+
+    metrics.close();
+  });
+
+  test('should compute cumulative histograms with the buckets', () => {
+    const { tracker, end } = createStubTracker();
+    const metrics = createInvocationMetrics(tracker, { buckets: [100, 10, 50], clock: createManualClock() });
+
+    for (const duration of [5, 10, 11, 70, 500]) {
+      end('op', duration);
+    }
+
+    expect(metrics.snapshot().operations.op.histogram).toEqual([
+      { le: 10, count: 2 },
+      { le: 50, count: 3 },
+      { le: 100, count: 4 },
+      { le: Infinity, count: 5 },
+    ]);
+
+    metrics.close();
+  });
+
+  test('should only aggregate the invocations within the sliding window', () => {
+    const { tracker, end } = createStubTracker();
+    const clock = createManualClock();
+    const metrics = createInvocationMetrics(tracker, { window: 1000, clock });
+
+    end('op', 1);
+    clock.advance(600);
+    end('op', 2);
+    expect(metrics.snapshot().total.count).toBe(2);
+
+    clock.advance(400);
+    expect(metrics.snapshot().total).toMatchObject({ count: 1, min: 2 });
+
+    clock.advance(600);
+    expect(metrics.snapshot().total).toMatchObject({ count: 0, errorRate: 0, min: 0, max: 0, mean: 0, p99: 0 });
+    expect(metrics.snapshot().operations).toEqual({});
+
+    metrics.close();
+  });
+
+  test('should discard the oldest invocations beyond maxSamples', () => {
+    const { tracker, end } = createStubTracker();
+    const metrics = createInvocationMetrics(tracker, { maxSamples: 3, clock: createManualClock() });
+
+    for (let i = 1; i <= 5; i++) {
+      end('op', i);
+    }
+
+    expect(metrics.snapshot().total).toMatchObject({ count: 3, min: 3, max: 5 });
+
+    for (let i = 6; i <= 13; i++) {
+      end('op', i);
+    }
+
+    expect(metrics.snapshot().total).toMatchObject({ count: 3, min: 11, max: 13 });
+
+    metrics.reset();
+    expect(metrics.snapshot().total.count).toBe(0);
+
+    metrics.close();
+  });
+
+  test('should notify the snapshots on the interval while there are listeners', () => {
+    const { tracker, end } = createStubTracker();
+    const clock = createManualClock(1_000_000);
+    const metrics = createInvocationMetrics(tracker, { interval: 1000, clock });
+    expect(clock.pending).toBe(0);
+
+    const snapshots: InvocationMetricsSnapshot[] = [];
+    const subscription = metrics.onSnapshot((snapshot) => snapshots.push(snapshot));
+    expect(clock.pending).toBe(1);
+
+    end('op', 10);
+    clock.advance(1000);
+    end('op', 20);
+    clock.advance(1000);
+
+    expect(snapshots.map((snapshot) => [snapshot.timestamp, snapshot.total.count])).toEqual([
+      [1_001_000, 1],
+      [1_002_000, 2],
+    ]);
+
+    subscription.close();
+    expect(clock.pending).toBe(0);
+
+    clock.advance(5000);
+    expect(snapshots).toHaveLength(2);
+
+    metrics.close();
+  });
+
+  test('should stop aggregating when closed', () => {
+    const { tracker, end } = createStubTracker();
+    const clock = createManualClock();
+    const metrics = createInvocationMetrics(tracker, { interval: 1000, clock });
+    const listener = vi.fn();
+    metrics.onSnapshot(listener);
+
+    metrics.close();
+    end('op', 10);
+    clock.advance(5000);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(clock.pending).toBe(0);
+    expect(metrics.snapshot().total.count).toBe(0);
+  });
+
+  test('should aggregate the invocations of a tracker', async () => {
+    const tracker = createInvocationTracker();
+    const metrics = createInvocationMetrics(tracker);
+
+    const add = tracker.track('add', (a: number, b: number) => a + b);
+    const fail = tracker.track('fail', () => Promise.reject(new Error('boom')));
+
+    add(1, 2);
+    add(3, 4);
+    await expect(fail()).rejects.toThrow('boom');
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.operations.add).toMatchObject({ count: 2, errors: 0 });
+    expect(snapshot.operations.fail).toMatchObject({ count: 1, errors: 1, errorRate: 1 });
+
+    metrics.close();
+    tracker.close();
+  });
+});
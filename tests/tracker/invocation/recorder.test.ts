@@ -0,0 +1,183 @@
+import { describe, expect, test } from 'vitest';
+
+import { createEventNotifier } from '../../../src/notifier/index.ts';
+import type { InvocationAtStage, InvocationKey, InvocationTracker, Tag } from '../../../src/tracker/index.ts';
+import { createInvocationRecorder, createInvocationTracker } from '../../../src/tracker/index.ts';
+import { createManualClock } from '../../../src/utils/index.ts';
+
+describe('emitnlog.tracker.recorder', () => {
+  const createStubTracker = () => {
+    const started = createEventNotifier<InvocationAtStage<'started'>>();
+    const completed = createEventNotifier<InvocationAtStage<'completed'>>();
+    const errored = createEventNotifier<InvocationAtStage<'errored'>>();
+    let index = 0;
+
+    const tracker = {
+      onStarted: started.onEvent,
+      onCompleted: completed.onEvent,
+      onErrored: errored.onEvent,
+    } as unknown as InvocationTracker;
+
+    const start = (operation: string, parentKey?: InvocationKey, tags?: Tag[]): InvocationKey => {
+      const key = { id: `id-${index}`, trackerId: 'stub', operation, index: index++ };
+      started.notify({ key, parentKey, tags, stage: { type: 'started' } });
+      return key;
+    };
+
+    const complete = (key: InvocationKey, duration: number) => {
+      completed.notify({ key, stage: { type: 'completed', duration } });
+    };
+
+    const fail = (key: InvocationKey, duration: number) => {
+      errored.notify({ key, stage: { type: 'errored', duration, error: new Error('boom') } });
+    };
+
+    return { tracker, start, complete, fail };
+  };
+
+  const operations = (invocations: readonly { readonly key: InvocationKey }[]) =>
+    invocations.map((invocation) => invocation.key.operation);
+
+  test('should build the tree of invocations', () => {
+    const { tracker, start, complete } = createStubTracker();
+    const recorder = createInvocationRecorder(tracker);
+
+    const request = start('request');
+    const auth = start('auth', request);
+    const load = start('load', request);
+    const query = start('query', load);
+    complete(auth, 5);
+
+    expect(operations(recorder.children(request))).toEqual(['auth', 'load']);
+    expect(operations(recorder.children(load))).toEqual(['query']);
+    expect(recorder.children(query)).toEqual([]);
+
+    expect(operations(recorder.ancestors(query))).toEqual(['load', 'request']);
+    expect(recorder.ancestors(request)).toEqual([]);
+
+    expect(recorder.get(auth)).toMatchObject({ key: auth, parentKey: request, stage: { type: 'completed' } });
+    expect(recorder.get({ ...auth, id: 'unknown' })).toBeUndefined();
+
+    recorder.close();
+  });
+
+  test('should list the invocations in flight', () => {
+    const { tracker, start, complete, fail } = createStubTracker();
+    const clock = createManualClock(1000);
+    const recorder = createInvocationRecorder(tracker, { clock });
+
+    const first = start('first');
+    clock.advance(10);
+    const second = start('second', first);
+    const third = start('third');
+    expect(operations(recorder.inFlight())).toEqual(['first', 'second', 'third']);
+    expect(recorder.inFlight().map((invocation) => invocation.startedAt)).toEqual([1000, 1010, 1010]);
+
+    complete(second, 3);
+    fail(third, 4);
+    expect(operations(recorder.inFlight())).toEqual(['first']);
+
+    complete(first, 20);
+    expect(recorder.inFlight()).toEqual([]);
+    expect(recorder.get(second)?.startedAt).toBe(1010);
+
+    recorder.close();
+  });
+
+  test('should return the slowest ended invocations', () => {
+    const { tracker, start, complete, fail } = createStubTracker();
+    const recorder = createInvocationRecorder(tracker);
+
+    complete(start('fast'), 1);
+    fail(start('slow'), 50);
+    complete(start('medium'), 20);
+    start('running');
+
+    expect(operations(recorder.slowest(2))).toEqual(['slow', 'medium']);
+    expect(operations(recorder.slowest(10))).toEqual(['slow', 'medium', 'fast']);
+    expect(recorder.slowest(0)).toEqual([]);
+
+    recorder.close();
+  });
+
+  test('should find the invocations by operation, tag and stage', () => {
+    const { tracker, start, complete, fail } = createStubTracker();
+    const recorder = createInvocationRecorder(tracker);
+
+    const auth = [{ name: 'service', value: 'auth' }];
+    const billing = [{ name: 'service', value: 'billing' }];
+    const login = start('login', undefined, auth);
+    fail(start('login', undefined, auth), 1);
+    complete(start('charge', undefined, billing), 1);
+    start('charge');
+
+    expect(recorder.find({ operation: 'login' })).toHaveLength(2);
+    expect(recorder.find({ operation: 'login', stage: 'errored' })).toHaveLength(1);
+    expect(recorder.find({ stage: 'started' }).map((invocation) => invocation.key)).toEqual([
+      login,
+      expect.objectContaining({ operation: 'charge', index: 3 }),
+    ]);
+    expect(operations(recorder.find({ tag: { name: 'service' } }))).toEqual(['login', 'login', 'charge']);
+    expect(operations(recorder.find({ tag: { name: 'service', value: 'billing' } }))).toEqual(['charge']);
+    expect(recorder.find({ operation: 'charge', tag: { name: 'service', value: 'auth' } })).toEqual([]);
+    expect(recorder.find({})).toHaveLength(4);
+
+    recorder.close();
+  });
+
+  test('should discard the oldest ended invocations beyond maxInvocations', () => {
+    const { tracker, start, complete } = createStubTracker();
+    const recorder = createInvocationRecorder(tracker, { maxInvocations: 2 });
+
+    const parent = start('parent');
+    const children = [start('child-1', parent), start('child-2', parent), start('child-3', parent)];
+    children.forEach((child, index) => complete(child, index));
+
+    expect(operations(recorder.children(parent))).toEqual(['child-2', 'child-3']);
+    expect(operations(recorder.inFlight())).toEqual(['parent']);
+
+    complete(parent, 10);
+    expect(operations(recorder.find({}))).toEqual(['parent', 'child-3']);
+    expect(recorder.ancestors(children[2])).toEqual([expect.objectContaining({ key: parent })]);
+
+    recorder.clear();
+    expect(recorder.find({})).toEqual([]);
+
+    recorder.close();
+  });
+
+  test('should stop recording when closed', () => {
+    const { tracker, start } = createStubTracker();
+    const recorder = createInvocationRecorder(tracker);
+
+    start('before');
+    recorder.close();
+    start('after');
+
+    expect(recorder.find({})).toEqual([]);
+  });
+
+  test('should record the invocations of a tracker', async () => {
+    const tracker = createInvocationTracker();
+    const recorder = createInvocationRecorder(tracker);
+
+    let release: () => void = () => undefined;
+    const wait = tracker.track('wait', () => new Promise<void>((resolve) => (release = resolve)));
+    const handle = tracker.track('handle', async () => {
+      await wait();
+    });
+
+    const handling = handle();
+    const [waiting] = recorder.find({ operation: 'wait' });
+    expect(operations(recorder.inFlight())).toEqual(['handle', 'wait']);
+    expect(operations(recorder.ancestors(waiting.key))).toEqual(['handle']);
+
+    release();
+    await handling;
+    expect(recorder.inFlight()).toEqual([]);
+    expect(operations(recorder.slowest(1))).toHaveLength(1);
+
+    recorder.close();
+    tracker.close();
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, expect, test, vi } from 'vitest';
+
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import type { OtlpSpan, OtlpTracesPayload, SpanExporterOptions } from '../../../src/tracker/index.ts';
+import { createInvocationTracker, createSpanExporter } from '../../../src/tracker/index.ts';
+import { createManualClock } from '../../../src/utils/index.ts';
+
+describe('emitnlog.tracker.span-exporter', () => {
+  const createSink = () => {
+    const payloads: OtlpTracesPayload[] = [];
+    const sink = vi.fn((payload: OtlpTracesPayload) => {
+      payloads.push(payload);
+    });
+    const spans = () => payloads.flatMap((payload) => payload.resourceSpans[0].scopeSpans[0].spans);
+    return { sink, payloads, spans };
+  };
+
+  test('should export nested invocations as spans of the same trace', async () => {
+    const clock = createManualClock(1_700_000_000_000);
+    const { sink, payloads, spans } = createSink();
+    const tracker = createInvocationTracker({ tags: { service: 'users' } });
+    const exporter = createSpanExporter(tracker, { sink, clock, serviceName: 'user-service', resource: { pod: 3 } });
+
+    const load = tracker.track('load', () => 'loaded', { tags: { cached: false } });
+    const fetchUser = tracker.track('fetchUser', () => load());
+    fetchUser();
+    fetchUser();
+
+    expect(sink).not.toHaveBeenCalled();
+    await exporter.flush();
+
+    expect(payloads).toHaveLength(1);
+    expect(payloads[0].resourceSpans[0].resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'user-service' } },
+      { key: 'pod', value: { intValue: '3' } },
+    ]);
+    expect(payloads[0].resourceSpans[0].scopeSpans[0].scope).toEqual({ name: 'emitnlog' });
+
+    const [load1, fetch1, load2, fetch2] = spans();
+    expect([load1.name, fetch1.name, load2.name, fetch2.name]).toEqual(['load', 'fetchUser', 'load', 'fetchUser']);
+
+    expect(fetch1.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(fetch1.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(fetch1.parentSpanId).toBeUndefined();
+    expect(load1).toMatchObject({ traceId: fetch1.traceId, parentSpanId: fetch1.spanId });
+
+    expect(fetch2.traceId).not.toBe(fetch1.traceId);
+    expect(load2).toMatchObject({ traceId: fetch2.traceId, parentSpanId: fetch2.spanId });
+    expect(new Set(spans().map((span) => span.spanId)).size).toBe(4);
+
+    expect(load1).toMatchObject({
+      kind: 1,
+      startTimeUnixNano: '1700000000000000000',
+      status: {},
+      attributes: [
+        { key: 'cached', value: { boolValue: false } },
+        { key: 'service', value: { stringValue: 'users' } },
+        { key: 'emitnlog.invocation.id', value: { stringValue: `${tracker.id}.load.1` } },
+      ],
+    });
+    expect(BigInt(load1.endTimeUnixNano)).toBeGreaterThanOrEqual(BigInt(load1.startTimeUnixNano));
+
+    await exporter.close();
+    tracker.close();
+  });
+
+  test('should map the errors to the span status and an exception event', async () => {
+    const { sink, spans } = createSink();
+    const tracker = createInvocationTracker();
+    const exporter = createSpanExporter(tracker, { sink });
+
+    const fail = tracker.track('fail', () => Promise.reject(new TypeError('boom')));
+    await expect(fail()).rejects.toThrow('boom');
+    await exporter.close();
+
+    const [span] = spans();
+    expect(span.status).toEqual({ code: 2, message: 'boom' });
+    expect(span.events).toEqual([
+      {
+        name: 'exception',
+        timeUnixNano: span.endTimeUnixNano,
+        attributes: expect.arrayContaining([
+          { key: 'exception.type', value: { stringValue: 'TypeError' } },
+          { key: 'exception.message', value: { stringValue: 'boom' } },
+        ]) as unknown,
+      },
+    ]);
+
+    tracker.close();
+  });
+
+  test('should export the spans in batches', async () => {
+    const clock = createManualClock();
+    const { sink, payloads } = createSink();
+    const tracker = createInvocationTracker();
+    const exporter = createSpanExporter(tracker, { sink, clock, maxBatchSize: 3, flushDelayMs: 500 });
+    const op = tracker.track('op', () => undefined);
+
+    op();
+    op();
+    expect(clock.pending).toBe(1);
+    clock.advance(499);
+    expect(sink).not.toHaveBeenCalled();
+
+    clock.advance(1);
+    expect(payloads.map((payload) => payload.resourceSpans[0].scopeSpans[0].spans.length)).toEqual([2]);
+
+    op();
+    op();
+    op();
+    expect(payloads.map((payload) => payload.resourceSpans[0].scopeSpans[0].spans.length)).toEqual([2, 3]);
+    expect(clock.pending).toBe(0);
+
+    await exporter.close();
+    op();
+    await exporter.flush();
+    expect(sink).toHaveBeenCalledTimes(2);
+
+    tracker.close();
+  });
+
+  test('should report the sink errors', async () => {
+    const errorHandler = vi.fn();
+    const tracker = createInvocationTracker();
+    const exporter = createSpanExporter(tracker, { sink: () => Promise.reject(new Error('disk full')), errorHandler });
+
+    tracker.track('op', () => undefined)();
+    await exporter.close();
+
+    expect(errorHandler).toHaveBeenCalledWith(new Error('disk full'));
+    tracker.close();
+  });
+
+  test('should require a sink or a url', () => {
+    const tracker = createInvocationTracker();
+    expect(() => createSpanExporter(tracker, {} as SpanExporterOptions)).toThrow(
+      'IllegalArgument: either a sink or a url must be specified',
+    );
+    tracker.close();
+  });
+
+  test('should POST the spans to the collector and retry the failed requests', async () => {
+    const requests: { readonly headers: Record<string, unknown>; readonly body: OtlpTracesPayload }[] = [];
+    let failures = 1;
+    const server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => {
+        body += chunk.toString();
+      });
+      req.on('end', () => {
+        requests.push({ headers: req.headers, body: JSON.parse(body) as OtlpTracesPayload });
+        res.writeHead(failures-- > 0 ? 503 : 200).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/traces`;
+
+    const tracker = createInvocationTracker();
+    const errorHandler = vi.fn();
+    const exporter = createSpanExporter(tracker, { url, headers: { authorization: 'Bearer token' }, errorHandler });
+
+    try {
+      tracker.track('op', () => undefined)();
+      await exporter.close();
+
+      expect(errorHandler).not.toHaveBeenCalled();
+      expect(requests).toHaveLength(2);
+      expect(requests[1].headers).toMatchObject({ 'content-type': 'application/json', authorization: 'Bearer token' });
+
+      const spans: readonly OtlpSpan[] = requests[1].body.resourceSpans[0].scopeSpans[0].spans;
+      expect(spans.map((span) => span.name)).toEqual(['op']);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+      tracker.close();
+    }
+  });
+
+  test('should abort the requests that time out and not retry the client errors', async () => {
+    const statuses: (number | undefined)[] = [undefined, 400];
+    let requests = 0;
+    const server = createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        const status = statuses[requests++];
+        if (status) {
+          res.writeHead(status).end();
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/traces`;
+
+    const tracker = createInvocationTracker();
+    const errorHandler = vi.fn();
+    const exporter = createSpanExporter(tracker, { url, timeoutMs: 50, retries: 3, errorHandler });
+
+    try {
+      tracker.track('op', () => undefined)();
+      await exporter.close();
+
+      expect(requests).toBe(2);
+      expect(errorHandler).toHaveBeenCalledTimes(1);
+      expect(errorHandler.mock.calls[0][0]).toMatchObject({
+        message: 'The span export request failed with status 400 (Bad Request)',
+      });
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+      tracker.close();
+    }
+  });
+});
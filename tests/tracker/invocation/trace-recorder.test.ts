@@ -0,0 +1,200 @@
+import { describe, expect, test } from 'vitest';
+
+import { createEventNotifier } from '../../../src/notifier/index.ts';
+import type {
+  ChromeTraceEvent,
+  InvocationAtStage,
+  InvocationKey,
+  InvocationTracker,
+  Tag,
+} from '../../../src/tracker/index.ts';
+import { createInvocationTracker, createTraceRecorder } from '../../../src/tracker/index.ts';
+import { createManualClock } from '../../../src/utils/index.ts';
+
+describe('emitnlog.tracker.trace-recorder', () => {
+  const createStubTracker = () => {
+    const started = createEventNotifier<InvocationAtStage<'started'>>();
+    const completed = createEventNotifier<InvocationAtStage<'completed'>>();
+    const errored = createEventNotifier<InvocationAtStage<'errored'>>();
+    const clock = createManualClock();
+    const starts = new Map<string, number>();
+    let index = 0;
+
+    const tracker = {
+      onStarted: started.onEvent,
+      onCompleted: completed.onEvent,
+      onErrored: errored.onEvent,
+    } as unknown as InvocationTracker;
+
+    const start = (operation: string, parentKey?: InvocationKey, tags?: Tag[]): InvocationKey => {
+      const key = { id: `id-${index}`, trackerId: 'stub', operation, index: index++ };
+      starts.set(key.id, clock.performance.now());
+      started.notify({ key, parentKey, tags, stage: { type: 'started' } });
+      return key;
+    };
+
+    const end = (key: InvocationKey, error?: unknown) => {
+      const duration = clock.performance.now() - starts.get(key.id)!;
+      if (error) {
+        errored.notify({ key, stage: { type: 'errored', duration, error } });
+      } else {
+        completed.notify({ key, stage: { type: 'completed', duration } });
+      }
+    };
+
+    // build (0-100)
+    //   compile (10-30), compile (30-50, errored)
+    //   bundle (50-80) and lint (55-70), running concurrently
+    const recordBuild = () => {
+      const build = start('build', undefined, [
+        { name: 'target', value: 'esm' },
+        { name: 'target', value: 'cjs' },
+      ]);
+      clock.advance(10);
+      const compile1 = start('compile', build);
+      clock.advance(20);
+      end(compile1);
+      const compile2 = start('compile', build);
+      clock.advance(20);
+      end(compile2, new Error('syntax error'));
+      const bundle = start('bundle', build);
+      clock.advance(5);
+      const lint = start('lint', build);
+      clock.advance(15);
+      end(lint);
+      clock.advance(10);
+      end(bundle);
+      clock.advance(20);
+      end(build);
+    };
+
+    return { tracker, clock, start, end, recordBuild };
+  };
+
+  test('should export the invocations as Chrome trace events nested by parent', () => {
+    const { tracker, clock, start, recordBuild } = createStubTracker();
+    const recorder = createTraceRecorder(tracker, { clock });
+
+    recordBuild();
+    start('pending');
+
+    const trace = recorder.toChromeTrace();
+    expect(trace.displayTimeUnit).toBe('ms');
+    expect(
+      trace.traceEvents.map(
+        (event): Partial<ChromeTraceEvent> => ({ name: event.name, ts: event.ts, dur: event.dur, tid: event.tid }),
+      ),
+    ).toEqual([
+      { name: 'build', ts: 0, dur: 100_000, tid: 1 },
+      { name: 'compile', ts: 10_000, dur: 20_000, tid: 1 },
+      { name: 'compile', ts: 30_000, dur: 20_000, tid: 1 },
+      { name: 'bundle', ts: 50_000, dur: 30_000, tid: 1 },
+      { name: 'lint', ts: 55_000, dur: 15_000, tid: 2 },
+    ]);
+
+    expect(trace.traceEvents[0]).toMatchObject({
+      cat: 'emitnlog',
+      ph: 'X',
+      pid: 1,
+      args: { id: 'id-0', target: ['esm', 'cjs'] },
+    });
+    expect(trace.traceEvents[2].args).toEqual({ id: 'id-2', error: 'syntax error' });
+    expect(JSON.parse(JSON.stringify(trace))).toEqual(trace);
+
+    recorder.close();
+  });
+
+  test('should aggregate the invocations as a call tree', () => {
+    const { tracker, clock, recordBuild } = createStubTracker();
+    const recorder = createTraceRecorder(tracker, { clock });
+
+    recordBuild();
+    recordBuild();
+
+    expect(recorder.toCallTree()).toEqual([
+      {
+        operation: 'build',
+        count: 2,
+        errors: 0,
+        total: 200,
+        self: 30,
+        children: [
+          { operation: 'compile', count: 4, errors: 2, total: 80, self: 80, children: [] },
+          { operation: 'bundle', count: 2, errors: 0, total: 60, self: 60, children: [] },
+          { operation: 'lint', count: 2, errors: 0, total: 30, self: 30, children: [] },
+        ],
+      },
+    ]);
+
+    expect(recorder.report()).toBe(
+      [
+        'Operation  Count  Errors    Total     Self',
+        'build          2       0  200.0ms  30.00ms',
+        '  compile      4       2  80.00ms  80.00ms',
+        '  bundle       2       0  60.00ms  60.00ms',
+        '  lint         2       0  30.00ms  30.00ms',
+      ].join('\n'),
+    );
+
+    recorder.close();
+  });
+
+  test('should treat the invocations without recorded parent as roots', () => {
+    const { tracker, clock, start, end } = createStubTracker();
+    const parent = start('parent');
+    const recorder = createTraceRecorder(tracker, { clock });
+
+    const child = start('child', parent);
+    clock.advance(5);
+    end(child);
+    end(parent);
+
+    expect(recorder.toCallTree()).toEqual([
+      { operation: 'child', count: 1, errors: 0, total: 5, self: 5, children: [] },
+    ]);
+    expect(recorder.toChromeTrace().traceEvents).toEqual([expect.objectContaining({ name: 'child', tid: 1 })]);
+
+    recorder.close();
+  });
+
+  test('should discard the invocations when cleared and stop recording when closed', () => {
+    const { tracker, clock, recordBuild } = createStubTracker();
+    const recorder = createTraceRecorder(tracker, { clock });
+
+    recordBuild();
+    recorder.clear();
+    expect(recorder.toCallTree()).toEqual([]);
+    expect(recorder.report()).toBe('Operation  Count  Errors  Total  Self');
+
+    recorder.close();
+    recordBuild();
+    expect(recorder.toChromeTrace().traceEvents).toEqual([]);
+  });
+
+  test('should record the invocations of a tracker', async () => {
+    const tracker = createInvocationTracker();
+    const recorder = createTraceRecorder(tracker);
+
+    const parse = tracker.track('parse', (value: string) => JSON.parse(value) as unknown);
+    const load = tracker.track('load', async (values: readonly string[]) => {
+      await Promise.resolve();
+      return values.map((value) => parse(value));
+    });
+
+    await load(['1', '2']);
+
+    const [root] = recorder.toCallTree();
+    expect(root).toMatchObject({ operation: 'load', count: 1 });
+    expect(root.children).toEqual([expect.objectContaining({ operation: 'parse', count: 2 })]);
+
+    const events = recorder.toChromeTrace().traceEvents;
+    expect(events.map((event) => [event.name, event.tid])).toEqual([
+      ['load', 1],
+      ['parse', 1],
+      ['parse', 1],
+    ]);
+
+    recorder.close();
+    tracker.close();
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, expect, test } from 'vitest';
+
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { createEventNotifier } from '../../../src/notifier/index.ts';
+import type {
+  InvocationAtStage,
+  InvocationTracker,
+  PromiseSettledEvent,
+  PromiseTracker,
+} from '../../../src/tracker/index-node.ts';
+import { createInvocationTracker, createPrometheusMetrics, trackPromises } from '../../../src/tracker/index-node.ts';
+
+describe('emitnlog.tracker.node.prometheus-metrics', () => {
+  const createStubTrackers = () => {
+    const completed = createEventNotifier<InvocationAtStage<'completed'>>();
+    const errored = createEventNotifier<InvocationAtStage<'errored'>>();
+    const settled = createEventNotifier<PromiseSettledEvent>();
+    let size = 0;
+
+    const invocationTracker = {
+      onCompleted: completed.onEvent,
+      onErrored: errored.onEvent,
+    } as unknown as InvocationTracker;
+
+    const promiseTracker = {
+      get size() {
+        return size;
+      },
+      onSettled: settled.onEvent,
+    } as unknown as PromiseTracker;
+
+    let index = 0;
+    const invoke = (operation: string, duration: number, failed = false) => {
+      const key = { id: `id-${index}`, trackerId: 'stub', operation, index: index++ };
+      if (failed) {
+        errored.notify({ key, stage: { type: 'errored', duration, error: new Error('boom') } });
+      } else {
+        completed.notify({ key, stage: { type: 'completed', duration } });
+      }
+    };
+
+    return {
+      invocationTracker,
+      promiseTracker,
+      invoke,
+      settle: (event: PromiseSettledEvent) => settled.notify(event),
+      setSize: (value: number) => {
+        size = value;
+      },
+    };
+  };
+
+  test('should render the invocation counters and histograms per operation', () => {
+    const { invocationTracker, invoke } = createStubTrackers();
+    const metrics = createPrometheusMetrics({ invocationTrackers: [invocationTracker], buckets: [100, 10] });
+
+    invoke('fetchUser', 5);
+    invoke('fetchUser', 50);
+    invoke('fetchUser', 500, true);
+    invoke('saveUser', 10);
+
+    expect(metrics.render()).toBe(
+      [
+        '# HELP emitnlog_invocations_total Number of ended invocations.',
+        '# TYPE emitnlog_invocations_total counter',
+        'emitnlog_invocations_total{operation="fetchUser"} 3',
+        'emitnlog_invocations_total{operation="saveUser"} 1',
+        '# HELP emitnlog_invocation_errors_total Number of errored invocations.',
+        '# TYPE emitnlog_invocation_errors_total counter',
+        'emitnlog_invocation_errors_total{operation="fetchUser"} 1',
+        'emitnlog_invocation_errors_total{operation="saveUser"} 0',
+        '# HELP emitnlog_invocation_duration_seconds Duration of the invocations in seconds.',
+        '# TYPE emitnlog_invocation_duration_seconds histogram',
+        'emitnlog_invocation_duration_seconds_bucket{operation="fetchUser",le="0.01"} 1',
+        'emitnlog_invocation_duration_seconds_bucket{operation="fetchUser",le="0.1"} 2',
+        'emitnlog_invocation_duration_seconds_bucket{operation="fetchUser",le="+Inf"} 3',
+        'emitnlog_invocation_duration_seconds_sum{operation="fetchUser"} 0.555',
+        'emitnlog_invocation_duration_seconds_count{operation="fetchUser"} 3',
+        'emitnlog_invocation_duration_seconds_bucket{operation="saveUser",le="0.01"} 1',
+        'emitnlog_invocation_duration_seconds_bucket{operation="saveUser",le="0.1"} 1',
+        'emitnlog_invocation_duration_seconds_bucket{operation="saveUser",le="+Inf"} 1',
+        'emitnlog_invocation_duration_seconds_sum{operation="saveUser"} 0.01',
+        'emitnlog_invocation_duration_seconds_count{operation="saveUser"} 1',
+        '',
+      ].join('\n'),
+    );
+
+    metrics.close();
+  });
+
+  test('should render the promise counters, histograms and in-flight gauge per label', () => {
+    const { promiseTracker, settle, setSize } = createStubTrackers();
+    const metrics = createPrometheusMetrics({ promiseTrackers: [promiseTracker], prefix: 'app', buckets: [1000] });
+
+    settle({ label: 'db "main"', duration: 200 });
+    settle({ label: 'db "main"', duration: 2000, rejected: true });
+    settle({ duration: 10 });
+    setSize(3);
+
+    const lines = metrics.render().split('\n');
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        '# TYPE app_promises_settled_total counter',
+        'app_promises_settled_total{label="db \\"main\\""} 2',
+        'app_promises_settled_total{label=""} 1',
+        'app_promise_rejections_total{label="db \\"main\\""} 1',
+        'app_promise_rejections_total{label=""} 0',
+        '# TYPE app_promise_duration_seconds histogram',
+        'app_promise_duration_seconds_bucket{label="db \\"main\\"",le="1"} 1',
+        'app_promise_duration_seconds_bucket{label="db \\"main\\"",le="+Inf"} 2',
+        'app_promise_duration_seconds_sum{label="db \\"main\\""} 2.2',
+        '# TYPE app_promises_in_flight gauge',
+        'app_promises_in_flight 3',
+      ]),
+    );
+    expect(lines.some((line) => line.includes('invocation'))).toBe(false);
+
+    metrics.close();
+  });
+
+  test('should stop counting when closed', () => {
+    const { invocationTracker, invoke } = createStubTrackers();
+    const metrics = createPrometheusMetrics({ invocationTrackers: [invocationTracker] });
+
+    invoke('op', 1);
+    metrics.close();
+    invoke('op', 1);
+
+    expect(metrics.render()).toContain('emitnlog_invocations_total{operation="op"} 1\n');
+  });
+
+  test('should count the events of real trackers', async () => {
+    const invocationTracker = createInvocationTracker();
+    const promiseTracker = trackPromises();
+    const metrics = createPrometheusMetrics({
+      invocationTrackers: [invocationTracker],
+      promiseTrackers: [promiseTracker],
+    });
+
+    const add = invocationTracker.track('add', (a: number, b: number) => a + b);
+    add(1, 2);
+    await promiseTracker.track('load', Promise.resolve());
+
+    const text = metrics.render();
+    expect(text).toContain('emitnlog_invocations_total{operation="add"} 1\n');
+    expect(text).toContain('emitnlog_promises_settled_total{label="load"} 1\n');
+    expect(text).toContain('emitnlog_promises_in_flight 0\n');
+
+    metrics.close();
+    invocationTracker.close();
+  });
+
+  test('should serve the metrics with the handler', async () => {
+    const { invocationTracker, invoke } = createStubTrackers();
+    const metrics = createPrometheusMetrics({ invocationTrackers: [invocationTracker] });
+    invoke('op', 1);
+
+    const server = createServer(metrics.handler);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/metrics`;
+
+    try {
+      const response = await fetch(url);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+      expect(await response.text()).toBe(metrics.render());
+
+      const head = await fetch(url, { method: 'HEAD' });
+      expect(head.status).toBe(200);
+      expect(await head.text()).toBe('');
+
+      const post = await fetch(url, { method: 'POST' });
+      expect(post.status).toBe(405);
+      expect(post.headers.get('allow')).toBe('GET, HEAD');
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+      metrics.close();
+    }
+  });
+});
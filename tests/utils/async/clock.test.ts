@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import { createManualClock, systemClock } from '../../../src/utils/index.ts';
+
+describe('emitnlog.utils.clock', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('systemClock should use the global time and timers', () => {
+    vi.useFakeTimers({ now: 1000 });
+
+    const callback = vi.fn();
+    systemClock.setTimeout(callback, 100);
+    const canceled = vi.fn();
+    const timeoutId = systemClock.setTimeout(canceled, 100);
+    systemClock.clearTimeout(timeoutId);
+
+    vi.advanceTimersByTime(100);
+    expect(systemClock.now()).toBe(1100);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(canceled).not.toHaveBeenCalled();
+  });
+
+  test('createManualClock should start at the specified time', () => {
+    expect(createManualClock().now()).toBe(0);
+    expect(createManualClock(5000).now()).toBe(5000);
+    expect(createManualClock(new Date('2026-01-01T00:00:00.000Z')).now()).toBe(Date.UTC(2026, 0, 1));
+    expect(createManualClock(5000).performance.now()).toBe(0);
+  });
+
+  test('createManualClock should only move when advanced', () => {
+    const clock = createManualClock(1000);
+
+    clock.advance(250);
+    expect(clock.now()).toBe(1250);
+    expect(clock.performance.now()).toBe(250);
+
+    clock.advance(-10);
+    clock.advance(1.8);
+    expect(clock.now()).toBe(1251);
+  });
+
+  test('createManualClock should invoke the due timers in order with the time of each timer', () => {
+    const clock = createManualClock();
+    const calls: [string, number][] = [];
+
+    clock.setTimeout(() => calls.push(['c', clock.now()]), 300);
+    clock.setTimeout(() => calls.push(['a', clock.now()]), 100);
+    clock.setTimeout(() => calls.push(['b', clock.now()]), 100);
+    clock.setTimeout(() => calls.push(['d', clock.now()]), 301);
+    expect(clock.pending).toBe(4);
+
+    clock.advance(99);
+    expect(calls).toEqual([]);
+
+    clock.advance(201);
+    expect(calls).toEqual([
+      ['a', 100],
+      ['b', 100],
+      ['c', 300],
+    ]);
+    expect(clock.now()).toBe(300);
+    expect(clock.pending).toBe(1);
+  });
+
+  test('createManualClock should invoke the timers scheduled by the invoked timers', () => {
+    const clock = createManualClock();
+    const times: number[] = [];
+
+    const schedule = () => {
+      clock.setTimeout(() => {
+        times.push(clock.now());
+        schedule();
+      }, 100);
+    };
+    schedule();
+
+    clock.advance(350);
+    expect(times).toEqual([100, 200, 300]);
+    expect(clock.now()).toBe(350);
+    expect(clock.pending).toBe(1);
+  });
+
+  test('createManualClock should not invoke cleared timers', () => {
+    const clock = createManualClock();
+    const callback = vi.fn();
+
+    const timeoutId = clock.setTimeout(callback, 100);
+    clock.clearTimeout(timeoutId);
+    clock.clearTimeout(undefined);
+    clock.clearTimeout(12345);
+
+    clock.advance(1000);
+    expect(callback).not.toHaveBeenCalled();
+    expect(clock.pending).toBe(0);
+  });
+
+  test('createManualClock should run the promise callbacks between the timers when advanced asynchronously', async () => {
+    const clock = createManualClock();
+    const times: number[] = [];
+
+    const run = async () => {
+      for (let i = 0; i < 3; i++) {
+        // eslint-disable-next-line no-await-in-loop
+        await new Promise<void>((resolve) => clock.setTimeout(resolve, 100));
+        times.push(clock.now());
+      }
+    };
+    const promise = run();
+
+    clock.advance(100);
+    expect(times).toEqual([]);
+
+    await clock.advanceAsync(150);
+    expect(times).toEqual([100, 200]);
+
+    await clock.advanceAsync(50);
+    await promise;
+    expect(times).toEqual([100, 200, 300]);
+  });
+});
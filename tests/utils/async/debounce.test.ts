@@ -1,6 +1,6 @@
 import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
 
-import { CanceledError, debounce, delay } from '../../../src/utils/index.ts';
+import { CanceledError, createManualClock, debounce, delay } from '../../../src/utils/index.ts';
 import { flushFakeTimePromises } from '../../test-kit.ts';
 
 describe('emitnlog.utils.debounce', () => {
@@ -754,4 +754,25 @@ describe('emitnlog.utils.debounce', () => {
       expect(mockFn).toHaveBeenCalledTimes(1);
     });
   });
+
+  describe('clock option', () => {
+    test('should schedule the executions with the clock', async () => {
+      const clock = createManualClock();
+      const fn = vi.fn((value: string) => value.toUpperCase());
+      const debounced = debounce(fn, { delay: 500, clock });
+
+      const promise1 = debounced('a');
+      clock.advance(499);
+      const promise2 = debounced('b');
+      vi.advanceTimersByTime(1000);
+      expect(fn).not.toHaveBeenCalled();
+
+      clock.advance(1);
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(fn).toHaveBeenCalledWith('b');
+      await expect(promise1).resolves.toBe('B');
+      await expect(promise2).resolves.toBe('B');
+      expect(clock.pending).toBe(0);
+    });
+  });
 });
@@ -1,6 +1,6 @@
 import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
 
-import { cancelableDelay, CanceledError, delay } from '../../../src/utils/index.ts';
+import { cancelableDelay, CanceledError, createManualClock, delay } from '../../../src/utils/index.ts';
 
 describe('emitnlog.utils.delay', () => {
   beforeEach(() => {
@@ -63,4 +63,25 @@ describe('emitnlog.utils.delay', () => {
     cancel();
     await expect(promise).rejects.toBeInstanceOf(CanceledError);
   });
+
+  test('should use the clock from the options', async () => {
+    const clock = createManualClock();
+    let resolved = false;
+    const promise = delay(1000, { clock }).then(() => {
+      resolved = true;
+    });
+
+    vi.advanceTimersByTime(1000);
+    await Promise.resolve();
+    expect(resolved).toBe(false);
+
+    clock.advance(1000);
+    await promise;
+    expect(resolved).toBe(true);
+
+    const { promise: canceled, cancel } = cancelableDelay(1000, { clock });
+    cancel();
+    expect(clock.pending).toBe(0);
+    await expect(canceled).rejects.toThrow(CanceledError);
+  });
 });
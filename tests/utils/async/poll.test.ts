@@ -1,6 +1,6 @@
 import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
 
-import { startPolling } from '../../../src/utils/index.ts';
+import { createManualClock, startPolling } from '../../../src/utils/index.ts';
 import { createTestLogger, flushFakeTimePromises } from '../../test-kit.ts';
 
 describe('emitnlog.utils.poll', () => {
@@ -376,4 +376,24 @@ describe('emitnlog.utils.poll', () => {
 
     await expect(wait).resolves.toBe('stop');
   });
+
+  test('should use the clock from the options', async () => {
+    const clock = createManualClock();
+    let count = 0;
+    const { wait } = startPolling(() => ++count, 100, { clock, timeout: 450, timeoutValue: -1 });
+
+    vi.advanceTimersByTime(1000);
+    expect(count).toBe(0);
+
+    clock.advance(100);
+    expect(count).toBe(1);
+
+    clock.advance(250);
+    expect(count).toBe(3);
+
+    clock.advance(100);
+    expect(count).toBe(4);
+    await expect(wait).resolves.toBe(-1);
+    expect(clock.pending).toBe(0);
+  });
 });
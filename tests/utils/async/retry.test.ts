@@ -0,0 +1,190 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import type { RetryAttempt } from '../../../src/utils/index.ts';
+import { CanceledError, createManualClock, retry } from '../../../src/utils/index.ts';
+import { createTestLogger } from '../../test-kit.ts';
+
+describe('emitnlog.utils.retry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const failingOperation = (failures: number, value = 'done') =>
+    vi.fn((attempt: number) => {
+      if (attempt <= failures) {
+        throw new Error(`failure ${attempt}`);
+      }
+      return value;
+    });
+
+  test('should resolve with the value of the first attempt without waiting', async () => {
+    const clock = createManualClock();
+    const operation = vi.fn(() => Promise.resolve(42));
+
+    const { wait } = retry(operation, { clock });
+    expect(operation).not.toHaveBeenCalled();
+
+    await expect(wait).resolves.toBe(42);
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(operation).toHaveBeenCalledWith(1);
+    expect(clock.pending).toBe(0);
+  });
+
+  test('should retry with exponential backoff by default', async () => {
+    const clock = createManualClock();
+    const operation = failingOperation(3);
+    const { wait } = retry(operation, { clock });
+
+    await clock.advanceAsync(0);
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    await clock.advanceAsync(99);
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    await clock.advanceAsync(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+
+    await clock.advanceAsync(200);
+    expect(operation).toHaveBeenCalledTimes(3);
+
+    await clock.advanceAsync(400);
+    expect(operation).toHaveBeenCalledTimes(4);
+    await expect(wait).resolves.toBe('done');
+  });
+
+  test('should compute the delays with the backoff and cap them with maxDelay', async () => {
+    const clock = createManualClock();
+    const linear = retry(failingOperation(3), { clock, retries: 3, backoff: 'linear', delay: 100, maxDelay: 250 });
+    const linearDelays: (number | undefined)[] = [];
+    linear.onAttempt((event) => linearDelays.push(event.outcome === 'failed' ? event.retryDelay : undefined));
+
+    const custom = retry(failingOperation(2), { clock, backoff: (retryNumber) => retryNumber * 7 });
+    const customDelays: (number | undefined)[] = [];
+    custom.onAttempt((event) => customDelays.push(event.outcome === 'failed' ? event.retryDelay : undefined));
+
+    await clock.advanceAsync(1000);
+    await expect(linear.wait).resolves.toBe('done');
+    await expect(custom.wait).resolves.toBe('done');
+    expect(linearDelays).toEqual([100, 200, 250, undefined]);
+    expect(customDelays).toEqual([7, 14, undefined]);
+  });
+
+  test('should reduce the delays with jitter', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    const clock = createManualClock();
+    const full = retry(failingOperation(1), { clock, delay: 1000, jitter: true });
+    const partial = retry(failingOperation(1), { clock, delay: 1000, jitter: 0.2 });
+
+    const delays: (number | undefined)[] = [];
+    full.onAttempt((event) => delays.push(event.outcome === 'failed' ? event.retryDelay : undefined));
+    partial.onAttempt((event) => delays.push(event.outcome === 'failed' ? event.retryDelay : undefined));
+
+    await clock.advanceAsync(1000);
+    await Promise.all([full.wait, partial.wait]);
+    expect(delays).toEqual([500, 900, undefined, undefined]);
+  });
+
+  test('should reject with the last error when the retries are exhausted', async () => {
+    const clock = createManualClock();
+    const operation = failingOperation(10);
+    const { wait } = retry(operation, { clock, retries: 2 });
+    const assertion = expect(wait).rejects.toThrow('failure 3');
+
+    await clock.advanceAsync(1000);
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  test('should stop retrying when retryOn returns false', async () => {
+    const clock = createManualClock();
+    const operation = failingOperation(10);
+    const retryOn = vi.fn((_error: unknown, attempt: number) => attempt < 2);
+    const { wait } = retry(operation, { clock, retryOn });
+    const assertion = expect(wait).rejects.toThrow('failure 2');
+
+    await clock.advanceAsync(1000);
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(retryOn).toHaveBeenCalledWith(new Error('failure 1'), 1);
+  });
+
+  test('should fail the attempts that do not settle within the timeout', async () => {
+    const clock = createManualClock();
+    const operation = vi.fn((attempt: number) =>
+      attempt === 1 ? new Promise<string>(() => void 0) : Promise.resolve('second'),
+    );
+    const { wait, onAttempt } = retry(operation, { clock, timeout: 500 });
+    const attempts: RetryAttempt[] = [];
+    onAttempt((event) => attempts.push(event));
+
+    await clock.advanceAsync(600);
+    await expect(wait).resolves.toBe('second');
+    expect(attempts).toEqual([
+      {
+        attempt: 1,
+        duration: 500,
+        outcome: 'failed',
+        error: new Error('Timeout: attempt 1 did not settle within 500ms'),
+        retryDelay: 100,
+      },
+      { attempt: 2, duration: 0, outcome: 'succeeded' },
+    ]);
+    expect(clock.pending).toBe(0);
+  });
+
+  test('should reject with CanceledError when the signal is aborted', async () => {
+    const clock = createManualClock();
+    const controller = new AbortController();
+    const operation = failingOperation(10);
+    const { wait } = retry(operation, { clock, signal: controller.signal });
+    const assertion = expect(wait).rejects.toThrow(CanceledError);
+
+    await clock.advanceAsync(50);
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(clock.pending).toBe(1);
+
+    controller.abort();
+    await assertion;
+    expect(clock.pending).toBe(0);
+
+    await clock.advanceAsync(1000);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not invoke the operation if the signal is already aborted', async () => {
+    const operation = vi.fn(() => 'value');
+    const { wait } = retry(operation, { signal: AbortSignal.abort() });
+
+    await expect(wait).rejects.toThrow(CanceledError);
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  test('should notify the attempts', async () => {
+    const clock = createManualClock();
+    const { wait, onAttempt } = retry(failingOperation(1), { clock });
+    const attempts: RetryAttempt[] = [];
+    onAttempt((event) => attempts.push(event));
+
+    await clock.advanceAsync(100);
+    await wait;
+    expect(attempts).toEqual([
+      { attempt: 1, duration: 0, outcome: 'failed', error: new Error('failure 1'), retryDelay: 100 },
+      { attempt: 2, duration: 0, outcome: 'succeeded' },
+    ]);
+  });
+
+  test('should log the attempts with a prefixed logger', async () => {
+    const clock = createManualClock();
+    const logger = createTestLogger('trace');
+    const { wait } = retry(failingOperation(5), { clock, retries: 1, logger });
+    const assertion = expect(wait).rejects.toThrow('failure 2');
+
+    await clock.advanceAsync(100);
+    await assertion;
+
+    expect(logger).toHaveLoggedWith('debug', 'emitnlog.retry: starting attempt 1 of 2');
+    expect(logger).toHaveLoggedWith('warning', 'emitnlog.retry: attempt 1 failed, retrying in 100ms: failure 1');
+    expect(logger).toHaveLoggedWith('error', 'emitnlog.retry: giving up after 2 attempts: failure 2');
+  });
+});
@@ -1,6 +1,6 @@
 import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
 
-import { delay, withTimeout } from '../../../src/utils/index.ts';
+import { createManualClock, delay, withTimeout } from '../../../src/utils/index.ts';
 
 describe('emitnlog.utils.with-timeout', () => {
   test('should handle promise rejection', async () => {
@@ -54,4 +54,13 @@ describe('emitnlog.utils.with-timeout', () => {
       expect(vi.getTimerCount()).toBe(0);
     });
   });
+
+  test('should use the clock from the options', async () => {
+    const clock = createManualClock();
+    const promise = withTimeout(new Promise(() => void 0), 1000, 'timeout', { clock });
+    expect(clock.pending).toBe(1);
+
+    clock.advance(1000);
+    await expect(promise).resolves.toBe('timeout');
+  });
 });
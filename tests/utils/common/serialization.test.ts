@@ -39,6 +39,7 @@ describe('emitnlog.utils.serialization', () => {
       readonly iso: string;
       readonly message: string;
       readonly args?: readonly JsonValue[];
+      readonly context?: { readonly [key: string]: JsonValue };
     };
 
     const parsedLogEntry: JsonSafe<LogEntry> = parsed;
@@ -457,4 +457,53 @@ describe('emitnlog.utils.stringify', () => {
       // since it's not the top-level object
     });
   });
+
+  describe('replacer', () => {
+    test('should invoke the replacer for the root value, properties, and array elements', () => {
+      const calls: [string, unknown][] = [];
+      const value = { a: 1, b: ['x', 'y'] };
+      stringify(value, {
+        replacer: (key, val) => {
+          calls.push([key, val]);
+          return val;
+        },
+      });
+
+      expect(calls).toEqual([
+        ['', value],
+        ['a', 1],
+        ['b', ['x', 'y']],
+        ['0', 'x'],
+        ['1', 'y'],
+      ]);
+    });
+
+    test('should replace values at any depth', () => {
+      const value = { user: { name: 'john', password: 'secret', tokens: [{ password: 'other' }] } };
+      const result = stringify(value, { replacer: (key, val) => (key === 'password' ? '***' : val) });
+
+      expect(JSON.parse(result)).toEqual({ user: { name: 'john', password: '***', tokens: [{ password: '***' }] } });
+      expect(value.user.password).toBe('secret');
+    });
+
+    test('should walk the replaced values', () => {
+      const result = stringify(
+        { date: 'now', nested: 'object' },
+        { replacer: (key, val) => (key === 'date' ? new Date(0) : key === 'nested' ? { inner: true } : val) },
+      );
+
+      expect(JSON.parse(result)).toEqual({ date: '1970-01-01T00:00:00.000Z', nested: { inner: true } });
+    });
+
+    test('should apply the replacer to the entries of maps and sets', () => {
+      const replacer = (key: string, val: unknown) => (key === 'secret' || val === 'hidden' ? '[X]' : val);
+
+      expect(stringify(new Map([['secret', 1]]), { replacer })).toBe('{"secret":"[X]"}');
+      expect(stringify(new Set(['visible', 'hidden']), { replacer })).toBe('["visible","[X]"]');
+    });
+
+    test('should replace the root value', () => {
+      expect(stringify('secret', { replacer: () => 'replaced' })).toBe('replaced');
+    });
+  });
 });
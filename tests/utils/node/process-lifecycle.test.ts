@@ -1,9 +1,12 @@
 import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
 
 import { EventEmitter } from 'node:events';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
 import type { LogEntry, MemoryLogger } from '../../../src/logger/index.ts';
-import { createMemoryLogger, OFF_LOGGER } from '../../../src/logger/index.ts';
+import { createMemoryLogger, emitter as logEmitter, OFF_LOGGER } from '../../../src/logger/index.ts';
 import type { Closer, ProcessExitEvent, ProcessExitSignal, ProcessNotifier } from '../../../src/utils/index-node.ts';
 import {
   asClosable,
@@ -524,6 +527,217 @@ describe('emitnlog.utils.node.process-lifecycle', () => {
 
       expect(closeSpy).toHaveBeenCalled();
     });
+
+    describe('flightRecorder', () => {
+      let directory: string;
+
+      beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'emitnlog-flight-recorder-'));
+      });
+
+      afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+      });
+
+      test('writes the recorded entries and the error to the crash report when main fails', async () => {
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+        const logger = createTestLogger('info');
+        const filePath = join(directory, 'reports', 'crash.log');
+
+        runProcessMain(
+          moduleReference,
+          ({ logger: mainLogger }) => {
+            mainLogger.t`connecting to the database`;
+            mainLogger.args({ host: 'db.local' }).d`connected`;
+            return Promise.reject(new Error('Main error'));
+          },
+          { logger, flightRecorder: { filePath, level: 'trace' } },
+        );
+
+        await vi.waitFor(() => {
+          expect(exitSpy).toHaveBeenCalledWith(1);
+        });
+
+        const report = readFileSync(filePath, 'utf8');
+        expect(report).toContain(`Crash report of process ${process.pid}`);
+        expect(report).toMatch(/^Error: Main error\n\s+at /m);
+        expect(report).toContain('"level":"trace","timestamp"');
+        expect(report).toContain('"message":"connecting to the database"');
+        expect(report).toContain('"message":"connected","args":[{"host":"db.local"}]');
+        expect(report).toMatch(/"level":"error".+an error occurred while running the main operation/);
+
+        expect(logger).not.toHaveLoggedWith('trace', 'connecting to the database');
+        expect(logger).toHaveLoggedWith(
+          'info',
+          `the crash report of process ${process.pid} was written to '${filePath}'`,
+        );
+      });
+
+      test('keeps only the latest entries', async () => {
+        vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+        const filePath = join(directory, 'crash.log');
+
+        runProcessMain(
+          moduleReference,
+          ({ logger }) => {
+            for (let i = 0; i < 10; i++) {
+              logger.d`step ${i}`;
+            }
+            return Promise.reject(new Error('Main error'));
+          },
+          {
+            flightRecorder: {
+              filePath: () => filePath,
+              capacity: 3,
+              level: 'debug',
+              formatter: logEmitter.basicFormatter,
+            },
+          },
+        );
+
+        await vi.waitFor(() => {
+          expect(existsSync(filePath)).toBe(true);
+        });
+
+        const report = readFileSync(filePath, 'utf8');
+        expect(report).toContain('Last 3 log entries');
+        expect(report).not.toContain('[debug] step 7');
+        expect(report).toContain('[debug] step 8');
+        expect(report).toContain('[debug] step 9');
+        expect(report).toContain('[error] an error occurred while running the main operation');
+      });
+
+      test('records the entries at the level of the logger by default', async () => {
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+        const logger = createTestLogger('info');
+        const filePath = join(directory, 'crash.log');
+        let mainLevel: string | undefined;
+
+        runProcessMain(
+          moduleReference,
+          ({ logger: mainLogger }) => {
+            mainLevel = mainLogger.level;
+            mainLogger.d`connected`;
+            mainLogger.i`migrating`;
+            return Promise.reject(new Error('Main error'));
+          },
+          { logger, flightRecorder: { filePath } },
+        );
+
+        await vi.waitFor(() => {
+          expect(exitSpy).toHaveBeenCalledWith(1);
+        });
+
+        expect(mainLevel).toBe('info');
+        const report = readFileSync(filePath, 'utf8');
+        expect(report).not.toContain('"message":"connected"');
+        expect(report).toContain('"message":"migrating"');
+      });
+
+      test('writes the crash report when main rejects with a non-error value', async () => {
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+        const filePath = join(directory, 'crash.log');
+
+        // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors
+        runProcessMain(moduleReference, () => Promise.reject(undefined), { flightRecorder: { filePath } });
+
+        await vi.waitFor(() => {
+          expect(exitSpy).toHaveBeenCalledWith(1);
+        });
+
+        expect(readFileSync(filePath, 'utf8')).toContain('Failed with a non-error value: undefined');
+      });
+
+      test('writes the crash report when a promise is rejected with undefined', async () => {
+        const onceSpy = vi.spyOn(process, 'once');
+        const filePath = join(directory, 'crash.log');
+        const deferred = createDeferredValue();
+
+        runProcessMain(
+          moduleReference,
+          async () => {
+            await deferred.promise;
+          },
+          { flightRecorder: { filePath } },
+        );
+
+        // Emitting the event on the process would also reach the handler of the test runner
+        const handler = onceSpy.mock.calls.find(([event]) => event === 'unhandledRejection')?.[1] as (
+          reason: unknown,
+        ) => void;
+        handler(undefined);
+
+        await vi.waitFor(() => {
+          expect(existsSync(filePath)).toBe(true);
+        });
+        expect(readFileSync(filePath, 'utf8')).toContain('Failed with a non-error value: undefined');
+
+        deferred.resolve();
+      });
+
+      test('does not write a crash report when main succeeds', async () => {
+        const filePath = join(directory, 'crash.log');
+        const mainSpy = vi.fn().mockResolvedValue(undefined);
+        const logger = createTestLogger();
+
+        runProcessMain(moduleReference, mainSpy, { logger, flightRecorder: { filePath } });
+
+        await vi.waitFor(() => {
+          expect(logger).toHaveLoggedWith('info', /closing the logger on process/);
+        });
+
+        expect(existsSync(filePath)).toBe(false);
+      });
+
+      test('does not write a crash report when the process receives a signal', async () => {
+        const filePath = join(directory, 'crash.log');
+        const deferred = createDeferredValue();
+        let closed = false;
+
+        runProcessMain(
+          moduleReference,
+          async ({ closer }) => {
+            closer.add({
+              close: () => {
+                closed = true;
+                deferred.resolve();
+              },
+            });
+            await deferred.promise;
+          },
+          { flightRecorder: { filePath } },
+        );
+
+        process.emit('SIGINT');
+
+        await vi.waitFor(() => {
+          expect(closed).toBe(true);
+        });
+
+        expect(existsSync(filePath)).toBe(false);
+      });
+
+      test('logs the errors writing the crash report', async () => {
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+        const logger = createTestLogger();
+        const filePath = join(directory, 'file.txt', 'crash.log');
+        writeFileSync(join(directory, 'file.txt'), '');
+
+        runProcessMain(moduleReference, () => Promise.reject(new Error('Main error')), {
+          logger,
+          flightRecorder: { filePath },
+        });
+
+        await vi.waitFor(() => {
+          expect(exitSpy).toHaveBeenCalledWith(1);
+        });
+
+        expect(logger).toHaveLoggedWith(
+          'error',
+          `failed to write the crash report of process ${process.pid} to '${filePath}'`,
+        );
+      });
+    });
   });
 
   describe('onProcessExit', () => {
@@ -39,6 +39,7 @@ export default defineConfig([
       index: 'src/index.ts',
       'logger/index': 'src/logger/index.ts',
       'notifier/index': 'src/notifier/index.ts',
+      'testing/index': 'src/testing/index.ts',
       'tracker/index': 'src/tracker/index.ts',
       'utils/index': 'src/utils/index.ts',
     },
@@ -59,6 +60,7 @@ export default defineConfig([
       index: 'src/index-node.ts',
       'logger/index': 'src/logger/index-node.ts',
       'notifier/index': 'src/notifier/index.ts',
+      'testing/index': 'src/testing/index.ts',
       'tracker/index': 'src/tracker/index-node.ts',
       'utils/index': 'src/utils/index-node.ts',
     },
@@ -79,6 +81,7 @@ export default defineConfig([
       index: 'src/index.ts',
       'logger/index': 'src/logger/index.ts',
       'notifier/index': 'src/notifier/index.ts',
+      'testing/index': 'src/testing/index.ts',
       'tracker/index': 'src/tracker/index.ts',
       'utils/index': 'src/utils/index.ts',
     },
@@ -106,6 +109,7 @@ export default defineConfig([
       index: 'src/index-node.ts',
       'logger/index': 'src/logger/index-node.ts',
       'notifier/index': 'src/notifier/index.ts',
+      'testing/index': 'src/testing/index.ts',
       'tracker/index': 'src/tracker/index-node.ts',
       'utils/index': 'src/utils/index-node.ts',
     },